@@ -13,6 +13,19 @@ import authRoutes from './routes/auth';
 import taskRoutes from './routes/tasks';
 import userRoutes from './routes/users';
 import notificationRoutes from './routes/notifications';
+import commentRoutes from './routes/comments';
+import attachmentRoutes from './routes/attachments';
+import labelRoutes from './routes/labels';
+import projectRoutes from './routes/projects';
+import teamRoutes from './routes/teams';
+import timeEntryRoutes from './routes/timeEntries';
+import timeRoutes from './routes/time';
+import taskTemplateRoutes from './routes/taskTemplates';
+import customFieldRoutes from './routes/customFields';
+import sprintRoutes from './routes/sprints';
+import escalationPolicyRoutes from './routes/escalationPolicies';
+import slaPolicyRoutes from './routes/slaPolicies';
+import savedViewRoutes from './routes/savedViews';
 
 // Middleware
 import { errorHandler } from './middleware/errorHandler';
@@ -21,9 +34,15 @@ import { authenticateToken } from './middleware/auth';
 // Models
 import { User } from './models/User';
 import { Notification } from './models/Notification';
+import { Task, ITask } from './models/Task';
 
 // Services 
 import { processCompletedRecurringTasks, generateUpcomingRecurringTasks } from './services/recurringTaskService';
+import { purgeExpiredTrash } from './services/trashService';
+import { canViewTask } from './services/taskAccessService';
+import { sendDueSoonReminders, sendOverdueAlerts } from './services/reminderService';
+import { processEscalations } from './services/escalationService';
+import { recordSlaBreaches } from './services/slaService';
 
 dotenv.config();
 
@@ -93,9 +112,38 @@ io.on('connection', (socket: Socket) => {
   if (socket.data.user) {
     const userId = socket.data.user._id.toString();
     connectedUsers.set(userId, socket);
+    // Join a room per user so notifications reach every open tab
+    socket.join(userId);
     console.log('User connected:', userId, socket.id);
   }
 
+  // Join a task room to receive live updates (e.g. comments) for that task
+  socket.on('task:join', async (taskId: string) => {
+    try {
+      if (!mongoose.Types.ObjectId.isValid(taskId)) return;
+
+      const task = await Task.findById(taskId);
+      if (task && (await canViewTask(socket.data.user, task))) {
+        socket.join(`task:${taskId}`);
+      }
+    } catch (error) {
+      console.error('Error joining task room:', error);
+    }
+  });
+
+  socket.on('task:leave', (taskId: string) => {
+    socket.leave(`task:${taskId}`);
+  });
+
+  // Join the board room to receive card moves made by other users
+  socket.on('board:join', () => {
+    socket.join('board');
+  });
+
+  socket.on('board:leave', () => {
+    socket.leave('board');
+  });
+
   socket.on('disconnect', () => {
     if (socket.data.user) {
       const userId = socket.data.user._id.toString();
@@ -109,7 +157,7 @@ io.on('connection', (socket: Socket) => {
 export const createNotification = async (
   userId: string,
   message: string,
-  type: 'task_assigned' | 'task_updated' | 'task_completed' | 'system' | 'achievement' | 'points_earned',
+  type: 'task_assigned' | 'task_updated' | 'task_completed' | 'task_due_soon' | 'task_overdue' | 'sla_breached' | 'system' | 'achievement' | 'points_earned' | 'mention',
   entityId?: string
 ) => {
   try {
@@ -128,6 +176,21 @@ export const createNotification = async (
   }
 };
 
+// Broadcast a live update to everyone viewing a task
+export const emitToTask = (taskId: string, event: string, payload: any) => {
+  io.to(`task:${taskId}`).emit(event, payload);
+};
+
+// Broadcast a board change to everyone viewing the board who can see the task
+export const emitToBoard = async (task: ITask, event: string, payload: any) => {
+  const boardSockets = await io.in('board').fetchSockets();
+  for (const boardSocket of boardSockets) {
+    if (await canViewTask(boardSocket.data.user, task)) {
+      boardSocket.emit(event, payload);
+    }
+  }
+};
+
 // Setup cron jobs for recurring tasks
 // Run every day at midnight
 cron.schedule('0 0 * * *', async () => {
@@ -143,11 +206,76 @@ cron.schedule('0 0 * * *', async () => {
   }
 });
 
+// Purge tasks that have been in the trash longer than the retention period
+// Run every day at 1am
+cron.schedule('0 1 * * *', async () => {
+  console.log('Running scheduled task: Purging expired trash');
+  try {
+    const purgedCount = await purgeExpiredTrash();
+    console.log(`Purged ${purgedCount} tasks from the trash`);
+  } catch (error) {
+    console.error('Error in trash purge cron job:', error);
+  }
+});
+
+// Send due date reminders and overdue alerts
+// Run every 5 minutes
+cron.schedule('*/5 * * * *', async () => {
+  try {
+    const remindedCount = await sendDueSoonReminders();
+    const alertedCount = await sendOverdueAlerts();
+    if (remindedCount + alertedCount > 0) {
+      console.log(`Sent ${remindedCount} due date reminders and ${alertedCount} overdue alerts`);
+    }
+  } catch (error) {
+    console.error('Error in task reminders cron job:', error);
+  }
+});
+
+// Escalate overdue tasks according to the escalation policies
+// Run every 15 minutes
+cron.schedule('*/15 * * * *', async () => {
+  try {
+    const escalatedCount = await processEscalations();
+    if (escalatedCount > 0) {
+      console.log(`Escalated ${escalatedCount} overdue task level(s)`);
+    }
+  } catch (error) {
+    console.error('Error in task escalation cron job:', error);
+  }
+});
+
+// Record missed SLA response and resolution deadlines
+// Run every 5 minutes
+cron.schedule('*/5 * * * *', async () => {
+  try {
+    const breachedCount = await recordSlaBreaches();
+    if (breachedCount > 0) {
+      console.log(`Recorded ${breachedCount} SLA breach(es)`);
+    }
+  } catch (error) {
+    console.error('Error in SLA breach cron job:', error);
+  }
+});
+
 // Routes
 app.use('/api/auth', authRoutes);
+app.use('/api/tasks/:id/comments', authenticateToken, commentRoutes);
+app.use('/api/tasks/:id/attachments', authenticateToken, attachmentRoutes);
+app.use('/api/tasks/:id/time', authenticateToken, timeEntryRoutes);
 app.use('/api/tasks', authenticateToken, taskRoutes);
 app.use('/api/users', authenticateToken, userRoutes);
 app.use('/api/notifications', authenticateToken, notificationRoutes);
+app.use('/api/labels', authenticateToken, labelRoutes);
+app.use('/api/projects', authenticateToken, projectRoutes);
+app.use('/api/teams', authenticateToken, teamRoutes);
+app.use('/api/time', authenticateToken, timeRoutes);
+app.use('/api/task-templates', authenticateToken, taskTemplateRoutes);
+app.use('/api/custom-fields', authenticateToken, customFieldRoutes);
+app.use('/api/sprints', authenticateToken, sprintRoutes);
+app.use('/api/escalation-policies', authenticateToken, escalationPolicyRoutes);
+app.use('/api/sla-policies', authenticateToken, slaPolicyRoutes);
+app.use('/api/saved-views', authenticateToken, savedViewRoutes);
 
 // Error handling middleware
 app.use(errorHandler);
@@ -11,6 +11,10 @@ export type Permission =
   | 'tasks:read-all'    // View all tasks regardless of owner
   | 'tasks:update-all'  // Update any task regardless of owner
   | 'tasks:delete-all'  // Delete any task regardless of owner
+  | 'labels:manage'     // Create, edit and delete task labels
+  | 'templates:manage'  // Create, edit and delete task templates
+  | 'fields:manage'     // Define custom task fields
+  | 'sprints:manage'    // Plan, start and close sprints
   
   // User permissions
   | 'users:read'       // View user details
@@ -18,6 +22,7 @@ export type Permission =
   | 'users:create'     // Create new users
   | 'users:delete'     // Delete users
   | 'users:manage-roles' // Change user roles
+  | 'teams:manage'     // Create teams and assign members and managers
   
   // Reporting permissions
   | 'reports:view'     // View reports and analytics
@@ -38,11 +43,16 @@ export const rolePermissions: Record<string, Permission[]> = {
     'tasks:read-all',
     'tasks:update-all',
     'tasks:delete-all',
+    'labels:manage',
+    'templates:manage',
+    'fields:manage',
+    'sprints:manage',
     'users:read',
     'users:update',
     'users:create',
     'users:delete',
     'users:manage-roles',
+    'teams:manage',
     'reports:view',
     'reports:export',
     'system:settings'
@@ -55,9 +65,13 @@ export const rolePermissions: Record<string, Permission[]> = {
     'tasks:update',
     'tasks:delete',
     'tasks:assign',
+    // The *-all task permissions are scoped to the manager's teams
     'tasks:read-all',
     'tasks:update-all',
     'tasks:delete-all',
+    'labels:manage',
+    'templates:manage',
+    'sprints:manage',
     'users:read',
     'reports:view',
     'reports:export'
@@ -0,0 +1,54 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IAttachment extends Document {
+  task: mongoose.Types.ObjectId;
+  uploadedBy: mongoose.Types.ObjectId;
+  originalName: string;
+  mimeType: string;
+  size: number; // Size in bytes
+  storageKey: string; // Key of the file in the storage backend
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attachmentSchema = new Schema<IAttachment>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    originalName: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    mimeType: {
+      type: String,
+      required: true,
+    },
+    size: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    storageKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for faster queries by task
+attachmentSchema.index({ task: 1, createdAt: -1 });
+
+export const Attachment = mongoose.model<IAttachment>('Attachment', attachmentSchema);
@@ -0,0 +1,52 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IComment extends Document {
+  task: mongoose.Types.ObjectId;
+  author: mongoose.Types.ObjectId;
+  content: string;
+  parentComment?: mongoose.Types.ObjectId; // Reference to the comment this is a reply to
+  mentions: mongoose.Types.ObjectId[]; // Users mentioned with @name
+  editedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const commentSchema = new Schema<IComment>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    author: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    content: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    parentComment: {
+      type: Schema.Types.ObjectId,
+      ref: 'Comment',
+    },
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    editedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for faster queries by task
+commentSchema.index({ task: 1, createdAt: 1 });
+commentSchema.index({ parentComment: 1 });
+
+export const Comment = mongoose.model<IComment>('Comment', commentSchema);
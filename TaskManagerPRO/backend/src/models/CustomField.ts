@@ -0,0 +1,56 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'user' | 'url';
+
+export interface ICustomField extends Document {
+  name: string;
+  type: CustomFieldType;
+  options: string[]; // Choices for select and multiselect fields
+  required: boolean;
+  project?: mongoose.Types.ObjectId | null; // Only applies to tasks in this project, or to all tasks when unset
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const customFieldSchema = new Schema<ICustomField>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    type: {
+      type: String,
+      enum: ['text', 'number', 'date', 'select', 'multiselect', 'user', 'url'],
+      required: true,
+    },
+    options: [{
+      type: String,
+      trim: true,
+    }],
+    required: {
+      type: Boolean,
+      default: false,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for looking up the fields of a project
+customFieldSchema.index({ project: 1 });
+
+export const CustomField = mongoose.model<ICustomField>('CustomField', customFieldSchema);
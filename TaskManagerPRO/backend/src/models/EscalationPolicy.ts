@@ -0,0 +1,61 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type EscalationTarget = 'creator' | 'manager' | 'admins';
+
+// Step of an escalation chain - who is told once a task has been overdue for a number of hours
+export interface IEscalationLevel {
+  afterHours: number;
+  notify: EscalationTarget;
+}
+
+// Escalation chain for overdue tasks of one priority
+export interface IEscalationPolicy extends Document {
+  priority: 'low' | 'medium' | 'high';
+  enabled: boolean;
+  levels: IEscalationLevel[]; // Ordered by afterHours
+  updatedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const escalationLevelSchema = new Schema<IEscalationLevel>(
+  {
+    afterHours: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    notify: {
+      type: String,
+      enum: ['creator', 'manager', 'admins'],
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const escalationPolicySchema = new Schema<IEscalationPolicy>(
+  {
+    priority: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      required: true,
+      unique: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    levels: [escalationLevelSchema],
+    updatedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const EscalationPolicy = mongoose.model<IEscalationPolicy>('EscalationPolicy', escalationPolicySchema);
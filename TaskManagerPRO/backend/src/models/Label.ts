@@ -0,0 +1,39 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ILabel extends Document {
+  name: string;
+  color: string; // Hex colour, e.g. #3182CE
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const labelSchema = new Schema<ILabel>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 50,
+    },
+    color: {
+      type: String,
+      required: true,
+      match: /^#[0-9a-fA-F]{6}$/,
+      default: '#718096',
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Label names are unique regardless of case
+labelSchema.index({ name: 1 }, { unique: true, collation: { locale: 'en', strength: 2 } });
+
+export const Label = mongoose.model<ILabel>('Label', labelSchema);
@@ -3,7 +3,7 @@ import mongoose, { Document, Schema } from 'mongoose';
 export interface INotification extends Document {
   user: mongoose.Types.ObjectId;
   message: string;
-  type: 'task_assigned' | 'task_updated' | 'task_completed' | 'system' | 'achievement' | 'points_earned';
+  type: 'task_assigned' | 'task_updated' | 'task_completed' | 'task_due_soon' | 'task_overdue' | 'sla_breached' | 'system' | 'achievement' | 'points_earned' | 'mention';
   entityId?: mongoose.Types.ObjectId;
   read: boolean;
   createdAt: Date;
@@ -23,7 +23,7 @@ const notificationSchema = new Schema<INotification>(
     },
     type: {
       type: String,
-      enum: ['task_assigned', 'task_updated', 'task_completed', 'system', 'achievement', 'points_earned'],
+      enum: ['task_assigned', 'task_updated', 'task_completed', 'task_due_soon', 'task_overdue', 'sla_breached', 'system', 'achievement', 'points_earned', 'mention'],
       default: 'system',
     },
     entityId: {
@@ -0,0 +1,48 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface IProject extends Document {
+  name: string;
+  description?: string;
+  owner: mongoose.Types.ObjectId;
+  members: mongoose.Types.ObjectId[];
+  archived: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const projectSchema = new Schema<IProject>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    members: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    archived: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+projectSchema.index({ owner: 1 });
+projectSchema.index({ members: 1 });
+
+export const Project = mongoose.model<IProject>('Project', projectSchema);
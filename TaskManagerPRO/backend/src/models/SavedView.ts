@@ -0,0 +1,141 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Columns the task list can show for each task
+export const VIEW_COLUMNS = [
+  'status',
+  'dueDate',
+  'assignees',
+  'loggedTime',
+  'sprint',
+  'estimate',
+  'labels',
+  'customFields',
+] as const;
+
+export type ViewColumn = typeof VIEW_COLUMNS[number];
+
+// Task list filters of a view, named like the GET /api/tasks query parameters
+export interface ISavedViewFilters {
+  search?: string | null;
+  status?: string | null;
+  priority?: string | null;
+  assignedTo?: mongoose.Types.ObjectId | null;
+  project?: mongoose.Types.ObjectId | null;
+  sprint?: string | null; // Sprint ID or 'none'
+  labels: mongoose.Types.ObjectId[];
+  labelMatch: 'any' | 'all';
+  customFields?: Record<string, string> | null;
+}
+
+export interface ISavedView extends Document {
+  name: string;
+  owner: mongoose.Types.ObjectId;
+  team?: mongoose.Types.ObjectId | null; // Shared with the members and managers of this team
+  filters: ISavedViewFilters;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  layout: 'list' | 'board';
+  columns: ViewColumn[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const savedViewFiltersSchema = new Schema<ISavedViewFilters>(
+  {
+    search: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    status: {
+      type: String,
+      enum: ['todo', 'in-progress', 'in-review', 'completed', null],
+      default: null,
+    },
+    priority: {
+      type: String,
+      enum: ['low', 'medium', 'high', null],
+      default: null,
+    },
+    assignedTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    sprint: {
+      type: String,
+      default: null,
+    },
+    labels: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Label',
+    }],
+    labelMatch: {
+      type: String,
+      enum: ['any', 'all'],
+      default: 'any',
+    },
+    customFields: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const savedViewSchema = new Schema<ISavedView>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: 'Team',
+      default: null,
+    },
+    filters: {
+      type: savedViewFiltersSchema,
+      default: () => ({}),
+    },
+    sortBy: {
+      type: String,
+      default: 'dueDate',
+    },
+    sortOrder: {
+      type: String,
+      enum: ['asc', 'desc'],
+      default: 'asc',
+    },
+    layout: {
+      type: String,
+      enum: ['list', 'board'],
+      default: 'list',
+    },
+    columns: {
+      type: [{ type: String, enum: VIEW_COLUMNS }],
+      default: () => [...VIEW_COLUMNS],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+savedViewSchema.index({ owner: 1, name: 1 });
+savedViewSchema.index({ team: 1 });
+
+export const SavedView = mongoose.model<ISavedView>('SavedView', savedViewSchema);
@@ -0,0 +1,60 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+// Response and resolution targets for tasks of one priority
+// A policy with labels only applies to tasks carrying at least one of them
+export interface ISlaPolicy extends Document {
+  name: string;
+  priority: 'low' | 'medium' | 'high';
+  labels: mongoose.Types.ObjectId[]; // Empty applies to every task of the priority
+  responseHours: number; // Hours until work on the task should start
+  resolutionHours: number; // Hours until the task should be completed
+  enabled: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const slaPolicySchema = new Schema<ISlaPolicy>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    priority: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      required: true,
+    },
+    labels: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Label',
+    }],
+    responseHours: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    resolutionHours: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    enabled: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+slaPolicySchema.index({ priority: 1, enabled: 1 });
+
+export const SlaPolicy = mongoose.model<ISlaPolicy>('SlaPolicy', slaPolicySchema);
@@ -0,0 +1,80 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type SprintStatus = 'planned' | 'active' | 'closed';
+
+export interface ISprint extends Document {
+  name: string;
+  goal?: string;
+  startDate: Date;
+  endDate: Date;
+  status: SprintStatus;
+  project?: mongoose.Types.ObjectId | null; // Sprint of a single project, or shared by all tasks when unset
+  startedAt?: Date | null;
+  closedAt?: Date | null;
+  // Unfinished tasks moved to another sprint when this one was closed
+  // Kept so the burndown of a closed sprint still covers its full scope
+  carriedOverTasks: mongoose.Types.ObjectId[];
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const sprintSchema = new Schema<ISprint>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    goal: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    startDate: {
+      type: Date,
+      required: true,
+    },
+    endDate: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['planned', 'active', 'closed'],
+      default: 'planned',
+    },
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    closedAt: {
+      type: Date,
+      default: null,
+    },
+    carriedOverTasks: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+    }],
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for listing sprints and finding the active sprint of a project
+sprintSchema.index({ project: 1, status: 1 });
+sprintSchema.index({ startDate: -1 });
+
+export const Sprint = mongoose.model<ISprint>('Sprint', sprintSchema);
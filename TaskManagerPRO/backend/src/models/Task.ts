@@ -1,12 +1,50 @@
 import mongoose, { Document, Schema } from 'mongoose';
 
+export interface IChecklistItem {
+  _id: mongoose.Types.ObjectId;
+  text: string;
+  completed: boolean;
+}
+
+export type AssignmentStatus = 'pending' | 'accepted' | 'declined' | 'reassignment_requested';
+
+// How an assignee answered being assigned a task
+// Assignees without a response, e.g. on older tasks, count as accepted
+export interface IAssignmentResponse {
+  user: mongoose.Types.ObjectId;
+  status: AssignmentStatus;
+  reason?: string | null; // Given when declining or asking to be reassigned
+  respondedAt?: Date | null;
+}
+
+// SLA clock of a task, set from the matching SLA policy when the task is created
+// Deadlines move back by the time the task spends waiting, until the target is met
+export interface ITaskSla {
+  policy: mongoose.Types.ObjectId;
+  responseHours: number; // Targets copied from the policy, later policy edits do not apply
+  resolutionHours: number;
+  responseDueAt: Date;
+  resolutionDueAt: Date;
+  respondedAt?: Date | null; // When work on the task started
+  resolvedAt?: Date | null; // When the task was completed
+  pausedAt?: Date | null; // Set while the task is waiting
+  pausedMs: number; // Total time spent waiting
+  responseBreachedAt?: Date | null; // The missed deadline, once breached
+  resolutionBreachedAt?: Date | null;
+}
+
 export interface ITask extends Document {
   title: string;
   description: string;
   dueDate: Date;
+  startDate?: Date | null; // Optional planned start, shown on the timeline
   priority: 'low' | 'medium' | 'high';
-  status: 'todo' | 'in-progress' | 'completed';
-  assignedTo: mongoose.Types.ObjectId;
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
+  waiting: boolean; // Waiting on someone outside the team - pauses the SLA clock
+  assignedTo: mongoose.Types.ObjectId | null; // Primary assignee, always included in assignees - null while unassigned
+  assignees: mongoose.Types.ObjectId[]; // Everyone who owns the task
+  assignments: IAssignmentResponse[]; // Responses of the assignees, and declines not yet acted on
+  watchers: mongoose.Types.ObjectId[]; // Users following the task without owning it
   createdBy: mongoose.Types.ObjectId;
   // Recurring task fields
   isRecurring: boolean;
@@ -16,10 +54,124 @@ export interface ITask extends Document {
   recurringDate?: number; // For monthly recurring (1-31)
   recurringEndDate?: Date; // Optional end date for recurring tasks
   parentTaskId?: mongoose.Types.ObjectId; // Reference to the original task if this is a recurring instance
+  // Subtask and checklist fields
+  parentTask?: mongoose.Types.ObjectId; // Reference to the parent task if this is a subtask
+  checklist: mongoose.Types.DocumentArray<IChecklistItem>; // Ordered, lightweight checklist items
+  // Dependency fields
+  blockedBy: mongoose.Types.ObjectId[]; // Tasks that must be completed before this one can start
+  labels: mongoose.Types.ObjectId[];
+  project?: mongoose.Types.ObjectId; // Project that owns this task
+  sprint?: mongoose.Types.ObjectId | null; // Sprint the task is planned in
+  rank?: string | null; // Position in its board column, unranked tasks come first
+  // Overdue escalation fields - levels of the priority's escalation policy already fired
+  escalationLevel: number;
+  escalatedAt?: Date | null;
+  sla?: ITaskSla | null; // Only set when an SLA policy matched the task
+  // Review fields - completing a task that requires approval puts it in review
+  requiresApproval: boolean;
+  reviewedBy?: mongoose.Types.ObjectId | null; // Last reviewer to approve or reject the task
+  reviewedAt?: Date | null;
+  rejectionReason?: string | null; // Why the task was last sent back, cleared on approval
+  // Effort estimate fields
+  storyPoints?: number;
+  estimatedHours?: number;
+  // Custom field values, keyed by custom field ID
+  customFields: Map<string, any>;
+  // Trash fields - a task with deletedAt set is in the trash
+  deletedAt?: Date | null;
+  deletedBy?: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const checklistItemSchema = new Schema<IChecklistItem>({
+  text: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  completed: {
+    type: Boolean,
+    default: false,
+  },
+});
+
+const assignmentResponseSchema = new Schema<IAssignmentResponse>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'declined', 'reassignment_requested'],
+      default: 'pending',
+    },
+    reason: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    respondedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const taskSlaSchema = new Schema<ITaskSla>(
+  {
+    policy: {
+      type: Schema.Types.ObjectId,
+      ref: 'SlaPolicy',
+      required: true,
+    },
+    responseHours: {
+      type: Number,
+      required: true,
+    },
+    resolutionHours: {
+      type: Number,
+      required: true,
+    },
+    responseDueAt: {
+      type: Date,
+      required: true,
+    },
+    resolutionDueAt: {
+      type: Date,
+      required: true,
+    },
+    respondedAt: {
+      type: Date,
+      default: null,
+    },
+    resolvedAt: {
+      type: Date,
+      default: null,
+    },
+    pausedAt: {
+      type: Date,
+      default: null,
+    },
+    pausedMs: {
+      type: Number,
+      default: 0,
+    },
+    responseBreachedAt: {
+      type: Date,
+      default: null,
+    },
+    resolutionBreachedAt: {
+      type: Date,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
 const taskSchema = new Schema<ITask>(
   {
     title: {
@@ -35,6 +187,10 @@ const taskSchema = new Schema<ITask>(
       type: Date,
       required: true,
     },
+    startDate: {
+      type: Date,
+      default: null,
+    },
     priority: {
       type: String,
       enum: ['low', 'medium', 'high'],
@@ -42,14 +198,27 @@ const taskSchema = new Schema<ITask>(
     },
     status: {
       type: String,
-      enum: ['todo', 'in-progress', 'completed'],
+      enum: ['todo', 'in-progress', 'in-review', 'completed'],
       default: 'todo',
     },
+    waiting: {
+      type: Boolean,
+      default: false,
+    },
     assignedTo: {
       type: Schema.Types.ObjectId,
       ref: 'User',
-      required: true,
+      default: null,
     },
+    assignees: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    assignments: [assignmentResponseSchema],
+    watchers: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: 'User',
@@ -85,6 +254,94 @@ const taskSchema = new Schema<ITask>(
       type: Schema.Types.ObjectId,
       ref: 'Task',
     },
+    // Subtask and checklist fields
+    parentTask: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+    },
+    checklist: [checklistItemSchema],
+    // Dependency fields
+    blockedBy: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+    }],
+    labels: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Label',
+    }],
+    project: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+    },
+    sprint: {
+      type: Schema.Types.ObjectId,
+      ref: 'Sprint',
+      default: null,
+    },
+    rank: {
+      type: String,
+      default: null,
+    },
+    // Overdue escalation fields
+    escalationLevel: {
+      type: Number,
+      default: 0,
+    },
+    escalatedAt: {
+      type: Date,
+      default: null,
+    },
+    // SLA fields
+    sla: {
+      type: taskSlaSchema,
+      default: null,
+    },
+    // Review fields
+    requiresApproval: {
+      type: Boolean,
+      default: false,
+    },
+    reviewedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
+    reviewedAt: {
+      type: Date,
+      default: null,
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+      default: null,
+    },
+    // Effort estimate fields
+    storyPoints: {
+      type: Number,
+      min: 0,
+      max: 100,
+    },
+    estimatedHours: {
+      type: Number,
+      min: 0,
+      max: 1000,
+    },
+    // Custom field values
+    customFields: {
+      type: Map,
+      of: Schema.Types.Mixed,
+      default: {},
+    },
+    // Trash fields
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
   },
   {
     timestamps: true,
@@ -96,5 +353,45 @@ taskSchema.index({ assignedTo: 1, status: 1 });
 taskSchema.index({ createdBy: 1 });
 taskSchema.index({ dueDate: 1 });
 taskSchema.index({ parentTaskId: 1 });
+taskSchema.index({ parentTask: 1, status: 1 });
+taskSchema.index({ blockedBy: 1 });
+taskSchema.index({ labels: 1 });
+taskSchema.index({ project: 1, status: 1 });
+taskSchema.index({ sprint: 1, status: 1 });
+taskSchema.index({ status: 1, rank: 1 });
+taskSchema.index({ escalationLevel: 1, status: 1 });
+taskSchema.index({ 'sla.responseDueAt': 1 });
+taskSchema.index({ 'sla.resolutionDueAt': 1 });
+taskSchema.index({ assignees: 1, status: 1 });
+taskSchema.index({ 'assignments.status': 1 });
+taskSchema.index({ watchers: 1 });
+taskSchema.index({ deletedAt: 1 });
+
+// Keep the primary assignee in the assignee list
+taskSchema.pre('save', function (next) {
+  const primary = this.assignedTo;
+  if (primary && !this.assignees.some(assigneeId => assigneeId.equals(primary))) {
+    this.assignees.unshift(primary);
+  }
+  next();
+});
+
+// Leave trashed tasks out of queries unless { withDeleted: true } is set
+// e.g. Task.find(query).setOptions({ withDeleted: true })
+const excludeTrashed = function (this: mongoose.Query<any, ITask>, next: () => void) {
+  if (!(this.getOptions() as any).withDeleted) {
+    this.where({ deletedAt: null });
+  }
+  next();
+};
+
+taskSchema.pre(['find', 'findOne', 'findOneAndUpdate', 'countDocuments', 'distinct'], excludeTrashed);
+
+taskSchema.pre('aggregate', function (next) {
+  if (!(this.options as any).withDeleted) {
+    this.pipeline().unshift({ $match: { deletedAt: null } });
+  }
+  next();
+});
 
 export const Task = mongoose.model<ITask>('Task', taskSchema); 
\ No newline at end of file
@@ -0,0 +1,63 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TaskActivityAction = 'created' | 'updated' | 'status_changed' | 'reassigned' | 'deleted' | 'restored';
+
+export interface IFieldChange {
+  field: string;
+  oldValue?: any;
+  newValue?: any;
+}
+
+export interface ITaskActivity extends Document {
+  task: mongoose.Types.ObjectId; // Kept after the task is purged
+  actor: mongoose.Types.ObjectId;
+  action: TaskActivityAction;
+  changes: IFieldChange[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fieldChangeSchema = new Schema<IFieldChange>(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    oldValue: {
+      type: Schema.Types.Mixed,
+    },
+    newValue: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  { _id: false }
+);
+
+const taskActivitySchema = new Schema<ITaskActivity>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    actor: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    action: {
+      type: String,
+      enum: ['created', 'updated', 'status_changed', 'reassigned', 'deleted', 'restored'],
+      required: true,
+    },
+    changes: [fieldChangeSchema],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for the task timeline
+taskActivitySchema.index({ task: 1, createdAt: -1 });
+
+export const TaskActivity = mongoose.model<ITaskActivity>('TaskActivity', taskActivitySchema);
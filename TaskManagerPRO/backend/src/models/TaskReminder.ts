@@ -0,0 +1,51 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export type TaskReminderKind = 'due_soon' | 'overdue';
+
+// Record of a reminder sent to a user, so the same reminder is never sent twice
+export interface ITaskReminder extends Document {
+  task: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  kind: TaskReminderKind;
+  offsetMinutes: number; // Minutes before the due date, 0 for overdue alerts
+  dueDate: Date; // Due date the reminder was for - a rescheduled task gets new reminders
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const taskReminderSchema = new Schema<ITaskReminder>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ['due_soon', 'overdue'],
+      required: true,
+    },
+    offsetMinutes: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One reminder per task, user, offset and due date, even if two runs overlap
+taskReminderSchema.index({ task: 1, user: 1, kind: 1, offsetMinutes: 1, dueDate: 1 }, { unique: true });
+
+export const TaskReminder = mongoose.model<ITaskReminder>('TaskReminder', taskReminderSchema);
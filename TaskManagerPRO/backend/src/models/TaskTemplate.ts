@@ -0,0 +1,120 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITemplateChecklistItem {
+  text: string;
+  dueOffsetDays?: number; // Days after the start date, used when items become subtasks
+}
+
+export interface ITaskTemplate extends Document {
+  name: string;
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  dueOffsetDays: number; // Days after the start date the task is due
+  // Default assignee rule - the user creating the task, or a fixed user
+  assigneeRule: 'creator' | 'user';
+  defaultAssignee?: mongoose.Types.ObjectId;
+  // Optional recurrence, copied onto the created task
+  isRecurring: boolean;
+  recurringType?: 'daily' | 'weekly' | 'monthly' | 'custom';
+  recurringInterval?: number;
+  recurringDays?: number[];
+  recurringDate?: number;
+  // Checklist items, added to the task's checklist or created as subtasks
+  checklist: ITemplateChecklistItem[];
+  checklistAsSubtasks: boolean;
+  createdBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const templateChecklistItemSchema = new Schema<ITemplateChecklistItem>(
+  {
+    text: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    dueOffsetDays: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const taskTemplateSchema = new Schema<ITaskTemplate>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    title: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    priority: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      default: 'medium',
+    },
+    dueOffsetDays: {
+      type: Number,
+      min: 0,
+      default: 0,
+    },
+    assigneeRule: {
+      type: String,
+      enum: ['creator', 'user'],
+      default: 'creator',
+    },
+    defaultAssignee: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    isRecurring: {
+      type: Boolean,
+      default: false,
+    },
+    recurringType: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly', 'custom'],
+    },
+    recurringInterval: {
+      type: Number,
+      min: 1,
+    },
+    recurringDays: [{
+      type: Number,
+      min: 0,
+      max: 6,
+    }],
+    recurringDate: {
+      type: Number,
+      min: 1,
+      max: 31,
+    },
+    checklist: [templateChecklistItemSchema],
+    checklistAsSubtasks: {
+      type: Boolean,
+      default: false,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+export const TaskTemplate = mongoose.model<ITaskTemplate>('TaskTemplate', taskTemplateSchema);
@@ -0,0 +1,42 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITeam extends Document {
+  name: string;
+  description?: string;
+  members: mongoose.Types.ObjectId[];
+  managers: mongoose.Types.ObjectId[]; // Managers act on tasks assigned to the team's members
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const teamSchema = new Schema<ITeam>(
+  {
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+      maxlength: 100,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    members: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    managers: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for faster queries
+teamSchema.index({ managers: 1 });
+teamSchema.index({ members: 1 });
+
+export const Team = mongoose.model<ITeam>('Team', teamSchema);
@@ -0,0 +1,75 @@
+import mongoose, { Document, Schema } from 'mongoose';
+
+export interface ITimeEntry extends Document {
+  task: mongoose.Types.ObjectId;
+  user: mongoose.Types.ObjectId;
+  startedAt: Date;
+  endedAt?: Date; // Not set while the timer is running
+  duration: number; // Logged time in seconds, 0 while the timer is running
+  isRunning: boolean;
+  note?: string;
+  source: 'timer' | 'manual';
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const timeEntrySchema = new Schema<ITimeEntry>(
+  {
+    task: {
+      type: Schema.Types.ObjectId,
+      ref: 'Task',
+      required: true,
+    },
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    endedAt: {
+      type: Date,
+    },
+    duration: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    isRunning: {
+      type: Boolean,
+      default: false,
+    },
+    note: {
+      type: String,
+      trim: true,
+      maxlength: 500,
+    },
+    source: {
+      type: String,
+      enum: ['timer', 'manual'],
+      default: 'manual',
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Keep the duration in step with the start and end times
+timeEntrySchema.pre('save', function (next) {
+  if (this.endedAt) {
+    this.duration = Math.max(0, Math.round((this.endedAt.getTime() - this.startedAt.getTime()) / 1000));
+  }
+  next();
+});
+
+// A user can only have one running timer at a time
+timeEntrySchema.index({ user: 1 }, { unique: true, partialFilterExpression: { isRunning: true } });
+
+// Indexes for task totals and timesheets
+timeEntrySchema.index({ task: 1, startedAt: -1 });
+timeEntrySchema.index({ user: 1, startedAt: 1 });
+
+export const TimeEntry = mongoose.model<ITimeEntry>('TimeEntry', timeEntrySchema);
@@ -9,6 +9,7 @@ export interface IUser extends Document {
   role: 'admin' | 'manager' | 'user';
   points: number;
   achievements: string[];
+  reminderOffsets: number[]; // Minutes before a due date to remind the user, e.g. [1440, 60]
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -46,6 +47,10 @@ const userSchema = new Schema<IUser>(
       type: [String],
       default: [],
     },
+    reminderOffsets: {
+      type: [Number],
+      default: [24 * 60, 60],
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,205 @@
+import express, { Response, NextFunction } from 'express';
+import multer from 'multer';
+import mongoose from 'mongoose';
+import { Attachment } from '../models/Attachment';
+import { ITask } from '../models/Task';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { findVisibleTask, canUpdateTask } from '../services/taskAccessService';
+import {
+  getAttachmentStorage,
+  generateStorageKey,
+  MAX_ATTACHMENT_SIZE,
+  ALLOWED_MIME_TYPES,
+} from '../services/attachmentService';
+
+// Mounted under /api/tasks/:id/attachments
+const router = express.Router({ mergeParams: true });
+
+// All attachment routes require authentication
+router.use(authenticateToken);
+
+// Keep uploads in memory and hand them to the storage backend
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_ATTACHMENT_SIZE, files: 1 },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_MIME_TYPES.includes(file.mimetype)) {
+      return callback(new Error(`File type ${file.mimetype} is not allowed`));
+    }
+    callback(null, true);
+  },
+});
+
+// Request with the task the attachment belongs to, see loadVisibleTask
+interface TaskRequest extends AuthRequest {
+  task?: ITask;
+}
+
+// Load the task and check the user can see it before anything is uploaded,
+// so files for missing or hidden tasks are never read into memory
+const loadVisibleTask = async (req: TaskRequest, res: Response, next: NextFunction) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    req.task = task;
+    next();
+  } catch (error) {
+    console.error('Load attachment task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+};
+
+// Parse a single "file" field and turn upload errors into JSON responses
+const uploadSingleFile = (req: AuthRequest, res: Response, next: NextFunction) => {
+  upload.single('file')(req, res, (error: any) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      return res.status(413).json({
+        message: `File is too large. Maximum size is ${Math.round(MAX_ATTACHMENT_SIZE / (1024 * 1024))} MB`,
+      });
+    }
+
+    return res.status(400).json({ message: error.message || 'Invalid upload' });
+  });
+};
+
+// List attachments of a task
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const attachments = await Attachment.find({ task: task._id })
+      .sort({ createdAt: -1 })
+      .populate('uploadedBy', 'name email');
+
+    res.json(attachments);
+  } catch (error) {
+    console.error('Get attachments error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Upload an attachment
+router.post('/', loadVisibleTask, uploadSingleFile, async (req: TaskRequest, res: Response) => {
+  try {
+    const task = req.task as ITask;
+    if (!req.file) {
+      return res.status(400).json({ message: 'A file is required' });
+    }
+
+    const storageKey = generateStorageKey(req.file.originalname);
+    await getAttachmentStorage().save(storageKey, req.file.buffer, req.file.mimetype);
+
+    const attachment = new Attachment({
+      task: task._id,
+      uploadedBy: req.user?._id,
+      originalName: req.file.originalname,
+      mimeType: req.file.mimetype,
+      size: req.file.size,
+      storageKey,
+    });
+
+    await attachment.save();
+    await attachment.populate('uploadedBy', 'name email');
+
+    res.status(201).json({
+      message: 'Attachment uploaded',
+      attachment,
+    });
+  } catch (error) {
+    console.error('Upload attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Download an attachment
+router.get('/:attachmentId/download', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const { attachmentId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(attachmentId)) {
+      return res.status(400).json({ message: 'Invalid attachment ID format' });
+    }
+
+    const attachment = await Attachment.findOne({ _id: attachmentId, task: task._id });
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    let stream: NodeJS.ReadableStream;
+    try {
+      stream = await getAttachmentStorage().read(attachment.storageKey);
+    } catch (error) {
+      console.error('Attachment file missing:', attachment.storageKey, error);
+      return res.status(404).json({ message: 'Attachment file not found' });
+    }
+
+    res.setHeader('Content-Type', attachment.mimeType);
+    res.setHeader('Content-Length', attachment.size.toString());
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`
+    );
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+
+    // The file can still go missing or fail to read once streaming starts
+    stream.on('error', error => {
+      console.error('Attachment stream error:', attachment.storageKey, error);
+      if (res.headersSent) {
+        res.destroy();
+        return;
+      }
+      res.removeHeader('Content-Disposition');
+      res.removeHeader('Content-Length');
+      const isMissing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+      res.status(isMissing ? 404 : 500).json({
+        message: isMissing ? 'Attachment file not found' : 'Server error',
+      });
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('Download attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete an attachment
+// The uploader or anyone who can update the task can delete it
+router.delete('/:attachmentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const { attachmentId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(attachmentId)) {
+      return res.status(400).json({ message: 'Invalid attachment ID format' });
+    }
+
+    const attachment = await Attachment.findOne({ _id: attachmentId, task: task._id });
+    if (!attachment) {
+      return res.status(404).json({ message: 'Attachment not found' });
+    }
+
+    const user = req.user as IUser;
+    const isUploader = attachment.uploadedBy.toString() === user._id.toString();
+    if (!isUploader && !(await canUpdateTask(user, task))) {
+      return res.status(403).json({ message: 'You do not have permission to delete this attachment' });
+    }
+
+    await getAttachmentStorage().remove(attachment.storageKey);
+    await attachment.deleteOne();
+
+    res.json({ message: 'Attachment deleted' });
+  } catch (error) {
+    console.error('Delete attachment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,234 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Comment } from '../models/Comment';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { createNotification, emitToTask } from '../index';
+import { findVisibleTask } from '../services/taskAccessService';
+import { resolveMentions } from '../services/mentionService';
+
+// Mounted under /api/tasks/:id/comments
+const router = express.Router({ mergeParams: true });
+
+// All comment routes require authentication
+router.use(authenticateToken);
+
+// Notify newly mentioned users, skipping the author
+const notifyMentions = async (
+  mentionedUsers: IUser[],
+  author: IUser,
+  taskId: string,
+  taskTitle: string
+) => {
+  for (const mentionedUser of mentionedUsers) {
+    if (mentionedUser._id.toString() === author._id.toString()) continue;
+
+    await createNotification(
+      mentionedUser._id.toString(),
+      `${author.name} mentioned you on task: ${taskTitle}`,
+      'mention',
+      taskId
+    );
+  }
+};
+
+// Get comments for a task, threaded
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const comments = await Comment.find({ task: task._id })
+      .sort({ createdAt: 1 })
+      .populate('author', 'name email')
+      .populate('mentions', 'name');
+
+    // Build the thread tree from the flat list
+    const byId = new Map<string, any>();
+    const threads: any[] = [];
+
+    comments.forEach(comment => {
+      byId.set(comment._id.toString(), { ...comment.toJSON(), replies: [] });
+    });
+
+    byId.forEach(comment => {
+      const parent = comment.parentComment && byId.get(comment.parentComment.toString());
+      if (parent) {
+        parent.replies.push(comment);
+      } else {
+        threads.push(comment);
+      }
+    });
+
+    res.json(threads);
+  } catch (error) {
+    console.error('Get comments error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create a comment or a reply
+router.post(
+  '/',
+  [
+    body('content').trim().notEmpty().withMessage('Comment cannot be empty'),
+    body('parentComment')
+      .optional()
+      .isMongoId()
+      .withMessage('Parent comment must be a valid comment ID'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const task = await findVisibleTask(req, res);
+      if (!task) return;
+
+      const { content, parentComment } = req.body;
+
+      // Replies must belong to the same task
+      if (parentComment) {
+        const parent = await Comment.findById(parentComment);
+        if (!parent || parent.task.toString() !== task._id.toString()) {
+          return res.status(404).json({ message: 'Parent comment not found' });
+        }
+      }
+
+      const user = req.user as IUser;
+      const mentionedUsers = await resolveMentions(content, task);
+
+      const comment = new Comment({
+        task: task._id,
+        author: user._id,
+        content,
+        parentComment,
+        mentions: mentionedUsers.map(mentionedUser => mentionedUser._id),
+      });
+
+      await comment.save();
+      await comment.populate('author', 'name email');
+      await comment.populate('mentions', 'name');
+
+      await notifyMentions(mentionedUsers, user, task._id.toString(), task.title);
+
+      emitToTask(task._id.toString(), 'comment:created', comment);
+
+      res.status(201).json({
+        message: 'Comment added',
+        comment,
+      });
+    } catch (error) {
+      console.error('Create comment error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Edit a comment - only the author can edit
+router.put(
+  '/:commentId',
+  [body('content').trim().notEmpty().withMessage('Comment cannot be empty')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const task = await findVisibleTask(req, res);
+      if (!task) return;
+
+      const { commentId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(commentId)) {
+        return res.status(400).json({ message: 'Invalid comment ID format' });
+      }
+
+      const comment = await Comment.findOne({ _id: commentId, task: task._id });
+      if (!comment) {
+        return res.status(404).json({ message: 'Comment not found' });
+      }
+
+      const user = req.user as IUser;
+      if (comment.author.toString() !== user._id.toString()) {
+        return res.status(403).json({ message: 'You can only edit your own comments' });
+      }
+
+      // Only notify users who were not mentioned before
+      const previousMentions = comment.mentions.map(mention => mention.toString());
+      const mentionedUsers = await resolveMentions(req.body.content, task);
+      const newMentions = mentionedUsers.filter(
+        mentionedUser => !previousMentions.includes(mentionedUser._id.toString())
+      );
+
+      comment.content = req.body.content;
+      comment.mentions = mentionedUsers.map(mentionedUser => mentionedUser._id);
+      comment.editedAt = new Date();
+      await comment.save();
+      await comment.populate('author', 'name email');
+      await comment.populate('mentions', 'name');
+
+      await notifyMentions(newMentions, user, task._id.toString(), task.title);
+
+      emitToTask(task._id.toString(), 'comment:updated', comment);
+
+      res.json({
+        message: 'Comment updated',
+        comment,
+      });
+    } catch (error) {
+      console.error('Update comment error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete a comment and its replies
+// The author or an admin can delete a comment
+router.delete('/:commentId', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const { commentId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(commentId)) {
+      return res.status(400).json({ message: 'Invalid comment ID format' });
+    }
+
+    const comment = await Comment.findOne({ _id: commentId, task: task._id });
+    if (!comment) {
+      return res.status(404).json({ message: 'Comment not found' });
+    }
+
+    const user = req.user as IUser;
+    const isAuthor = comment.author.toString() === user._id.toString();
+    if (!isAuthor && user.role !== 'admin') {
+      return res.status(403).json({ message: 'You can only delete your own comments' });
+    }
+
+    // Collect the whole reply thread under this comment
+    const idsToDelete = [comment._id];
+    let frontier = [comment._id];
+    while (frontier.length > 0) {
+      const replies = await Comment.find({ parentComment: { $in: frontier } }).select('_id');
+      frontier = replies.map(reply => reply._id);
+      idsToDelete.push(...frontier);
+    }
+
+    await Comment.deleteMany({ _id: { $in: idsToDelete } });
+
+    emitToTask(task._id.toString(), 'comment:deleted', {
+      commentIds: idsToDelete.map(deletedId => deletedId.toString()),
+    });
+
+    res.json({ message: 'Comment deleted' });
+  } catch (error) {
+    console.error('Delete comment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,203 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { CustomField } from '../models/CustomField';
+import { Project } from '../models/Project';
+import { Task } from '../models/Task';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+import { getApplicableFields } from '../services/customFieldService';
+
+const router = express.Router();
+
+// All custom field routes require authentication
+router.use(authenticateToken);
+
+const SELECT_TYPES = ['select', 'multiselect'];
+
+const customFieldValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Field name cannot be empty')
+    .isLength({ max: 50 })
+    .withMessage('Field name must be at most 50 characters'),
+  body('options')
+    .optional()
+    .isArray()
+    .withMessage('Options must be an array'),
+  body('options.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Options cannot be empty'),
+  body('required').optional().isBoolean(),
+];
+
+// Check the options suit the field type
+// Returns an error message, or null when they are valid
+const checkFieldOptions = (type: string, options: string[]): string | null => {
+  if (SELECT_TYPES.includes(type)) {
+    if (options.length === 0) return 'Select fields need at least one option';
+    if (new Set(options).size !== options.length) return 'Options must be unique';
+  } else if (options.length > 0) {
+    return 'Only select fields can have options';
+  }
+  return null;
+};
+
+// Get custom fields
+// With ?project=<id>, only the fields that apply to tasks in that project
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const { project } = req.query;
+
+    if (project) {
+      if (!mongoose.Types.ObjectId.isValid(String(project))) {
+        return res.status(400).json({ message: 'Invalid project ID format' });
+      }
+      return res.json(await getApplicableFields(String(project)));
+    }
+
+    const fields = await CustomField.find().sort({ name: 1 }).populate('project', 'name');
+    res.json(fields);
+  } catch (error) {
+    console.error('Get custom fields error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create custom field - requires fields:manage permission
+// Without a project the field applies to every task
+router.post(
+  '/',
+  checkPermission('fields:manage'),
+  [
+    body('name').exists().withMessage('Field name is required'),
+    body('type')
+      .isIn(['text', 'number', 'date', 'select', 'multiselect', 'user', 'url'])
+      .withMessage('Type must be text, number, date, select, multiselect, user or url'),
+    body('project')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Project must be a valid project ID'),
+    ...customFieldValidation,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, type, options = [], required = false, project } = req.body;
+
+      const optionsError = checkFieldOptions(type, options);
+      if (optionsError) {
+        return res.status(400).json({ message: optionsError });
+      }
+
+      if (project && !(await Project.exists({ _id: project }))) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const field = new CustomField({
+        name,
+        type,
+        options,
+        required,
+        project: project || null,
+        createdBy: (req.user as IUser)._id,
+      });
+
+      await field.save();
+      await field.populate('project', 'name');
+
+      res.status(201).json({
+        message: 'Custom field created successfully',
+        field,
+      });
+    } catch (error) {
+      console.error('Create custom field error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Update custom field name, options or required flag - requires fields:manage permission
+// The type and project are fixed so stored values stay valid
+router.put(
+  '/:fieldId',
+  checkPermission('fields:manage'),
+  customFieldValidation,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { fieldId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+        return res.status(400).json({ message: 'Invalid custom field ID format' });
+      }
+
+      const field = await CustomField.findById(fieldId);
+      if (!field) {
+        return res.status(404).json({ message: 'Custom field not found' });
+      }
+
+      const { name, options, required } = req.body;
+
+      if (options !== undefined) {
+        const optionsError = checkFieldOptions(field.type, options);
+        if (optionsError) {
+          return res.status(400).json({ message: optionsError });
+        }
+        field.options = options;
+      }
+
+      if (name !== undefined) field.name = name;
+      if (required !== undefined) field.required = required;
+
+      await field.save();
+      await field.populate('project', 'name');
+
+      res.json({
+        message: 'Custom field updated successfully',
+        field,
+      });
+    } catch (error) {
+      console.error('Update custom field error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete custom field and remove its values from all tasks - requires fields:manage permission
+router.delete('/:fieldId', checkPermission('fields:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { fieldId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(fieldId)) {
+      return res.status(400).json({ message: 'Invalid custom field ID format' });
+    }
+
+    const field = await CustomField.findByIdAndDelete(fieldId);
+    if (!field) {
+      return res.status(404).json({ message: 'Custom field not found' });
+    }
+
+    await Task.updateMany(
+      { [`customFields.${fieldId}`]: { $exists: true } },
+      { $unset: { [`customFields.${fieldId}`]: 1 } }
+    );
+
+    res.json({ message: 'Custom field deleted successfully' });
+  } catch (error) {
+    console.error('Delete custom field error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,101 @@
+import express, { Response } from 'express';
+import { body, param, validationResult } from 'express-validator';
+import { EscalationPolicy } from '../models/EscalationPolicy';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// All escalation policy routes require authentication and are admin only
+router.use(authenticateToken);
+router.use(checkPermission('system:settings'));
+
+// Most steps in one escalation chain, and the latest a step can fire
+const MAX_ESCALATION_LEVELS = 5;
+const MAX_ESCALATION_HOURS = 30 * 24;
+
+const PRIORITY_ORDER = ['high', 'medium', 'low'];
+
+const priorityValidation = param('priority')
+  .isIn(['low', 'medium', 'high'])
+  .withMessage('Priority must be low, medium, or high');
+
+// Get the escalation policies, highest priority first
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const policies = await EscalationPolicy.find().populate('updatedBy', 'name');
+    policies.sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority));
+    res.json(policies);
+  } catch (error) {
+    console.error('Get escalation policies error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create or replace the escalation policy of a priority
+router.put(
+  '/:priority',
+  [
+    priorityValidation,
+    body('enabled').optional().isBoolean().withMessage('Enabled must be true or false'),
+    body('levels')
+      .isArray({ min: 1, max: MAX_ESCALATION_LEVELS })
+      .withMessage(`Between 1 and ${MAX_ESCALATION_LEVELS} escalation levels are required`),
+    body('levels.*.afterHours')
+      .isFloat({ min: 0, max: MAX_ESCALATION_HOURS })
+      .withMessage(`Hours overdue must be between 0 and ${MAX_ESCALATION_HOURS}`),
+    body('levels.*.notify')
+      .isIn(['creator', 'manager', 'admins'])
+      .withMessage('Each level must notify the creator, manager, or admins'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { enabled = true, levels } = req.body;
+
+      // Levels fire in order of hours overdue
+      const orderedLevels = levels
+        .map((level: any) => ({ afterHours: Number(level.afterHours), notify: level.notify }))
+        .sort((a: any, b: any) => a.afterHours - b.afterHours);
+
+      const policy = await EscalationPolicy.findOneAndUpdate(
+        { priority: req.params.priority },
+        { $set: { enabled, levels: orderedLevels, updatedBy: req.user?._id } },
+        { new: true, upsert: true, runValidators: true }
+      );
+
+      res.json({
+        message: 'Escalation policy saved successfully',
+        policy,
+      });
+    } catch (error) {
+      console.error('Save escalation policy error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Remove the escalation policy of a priority - its overdue tasks are no longer escalated
+router.delete('/:priority', [priorityValidation], async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const policy = await EscalationPolicy.findOneAndDelete({ priority: req.params.priority });
+    if (!policy) {
+      return res.status(404).json({ message: 'Escalation policy not found' });
+    }
+
+    res.json({ message: 'Escalation policy deleted successfully' });
+  } catch (error) {
+    console.error('Delete escalation policy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Label } from '../models/Label';
+import { Task } from '../models/Task';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// All label routes require authentication
+router.use(authenticateToken);
+
+const labelValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Label name cannot be empty')
+    .isLength({ max: 50 })
+    .withMessage('Label name must be at most 50 characters'),
+  body('color')
+    .optional()
+    .matches(/^#[0-9a-fA-F]{6}$/)
+    .withMessage('Color must be a hex colour like #3182CE'),
+];
+
+// Find another label with the same name, ignoring case
+const findLabelByName = (name: string) =>
+  Label.findOne({ name }).collation({ locale: 'en', strength: 2 });
+
+// Get all labels - available to every user so labels can be applied and filtered on
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const labels = await Label.find().sort({ name: 1 });
+    res.json(labels);
+  } catch (error) {
+    console.error('Get labels error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create label - requires labels:manage permission
+router.post(
+  '/',
+  checkPermission('labels:manage'),
+  [body('name').exists().withMessage('Label name is required'), ...labelValidation],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, color } = req.body;
+
+      if (await findLabelByName(name)) {
+        return res.status(409).json({ message: 'A label with this name already exists' });
+      }
+
+      const label = new Label({
+        name,
+        color,
+        createdBy: req.user?._id,
+      });
+
+      await label.save();
+
+      res.status(201).json({
+        message: 'Label created successfully',
+        label,
+      });
+    } catch (error) {
+      console.error('Create label error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Update label name or colour - requires labels:manage permission
+router.put(
+  '/:labelId',
+  checkPermission('labels:manage'),
+  labelValidation,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { labelId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(labelId)) {
+        return res.status(400).json({ message: 'Invalid label ID format' });
+      }
+
+      const label = await Label.findById(labelId);
+      if (!label) {
+        return res.status(404).json({ message: 'Label not found' });
+      }
+
+      const { name, color } = req.body;
+
+      if (name !== undefined) {
+        const existing = await findLabelByName(name);
+        if (existing && existing._id.toString() !== label._id.toString()) {
+          return res.status(409).json({ message: 'A label with this name already exists' });
+        }
+        label.name = name;
+      }
+      if (color !== undefined) label.color = color;
+
+      await label.save();
+
+      res.json({
+        message: 'Label updated successfully',
+        label,
+      });
+    } catch (error) {
+      console.error('Update label error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete label and remove it from all tasks - requires labels:manage permission
+router.delete('/:labelId', checkPermission('labels:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { labelId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(labelId)) {
+      return res.status(400).json({ message: 'Invalid label ID format' });
+    }
+
+    const label = await Label.findById(labelId);
+    if (!label) {
+      return res.status(404).json({ message: 'Label not found' });
+    }
+
+    await label.deleteOne();
+    await Task.updateMany({ labels: label._id }, { $pull: { labels: label._id } });
+
+    res.json({ message: 'Label deleted successfully' });
+  } catch (error) {
+    console.error('Delete label error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,223 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Project } from '../models/Project';
+import { Task } from '../models/Task';
+import { User, IUser } from '../models/User';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { canViewProject, canManageProject } from '../services/projectAccessService';
+
+const router = express.Router();
+
+// All project routes require authentication
+router.use(authenticateToken);
+
+const projectValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Project name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Project name must be at most 100 characters'),
+  body('description').optional().isString(),
+  body('members')
+    .optional()
+    .isArray()
+    .withMessage('Members must be an array'),
+  body('members.*')
+    .optional()
+    .isMongoId()
+    .withMessage('Each member must be a valid user ID'),
+  body('archived').optional().isBoolean(),
+];
+
+// Check that every member ID refers to an existing user
+const membersExist = async (memberIds: string[]): Promise<boolean> => {
+  const uniqueIds = [...new Set(memberIds.map(String))];
+  const count = await User.countDocuments({ _id: { $in: uniqueIds } });
+  return count === uniqueIds.length;
+};
+
+// Get projects
+// Admin/Manager - all projects, regular users - projects they own or are members of
+// Archived projects are only included with ?includeArchived=true
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user as IUser;
+    const query: Record<string, any> = {};
+
+    if (req.query.includeArchived !== 'true') {
+      query.archived = false;
+    }
+
+    if (user.role !== 'admin' && user.role !== 'manager') {
+      query.$or = [{ owner: user._id }, { members: user._id }];
+    }
+
+    const projects = await Project.find(query)
+      .sort({ name: 1 })
+      .populate('owner', 'name email')
+      .populate('members', 'name email');
+
+    res.json(projects);
+  } catch (error) {
+    console.error('Get projects error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create project - the creator becomes the owner
+router.post(
+  '/',
+  [body('name').exists().withMessage('Project name is required'), ...projectValidation],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, description, members = [] } = req.body;
+      const user = req.user as IUser;
+
+      if (!(await membersExist(members))) {
+        return res.status(400).json({ message: 'One or more members do not exist' });
+      }
+
+      // The owner is always a member
+      const memberIds = [...new Set([user._id.toString(), ...members.map(String)])];
+
+      const project = new Project({
+        name,
+        description,
+        owner: user._id,
+        members: memberIds,
+      });
+
+      await project.save();
+      await project.populate('owner', 'name email');
+      await project.populate('members', 'name email');
+
+      res.status(201).json({
+        message: 'Project created successfully',
+        project,
+      });
+    } catch (error) {
+      console.error('Create project error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Get project by ID
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid project ID format' });
+    }
+
+    const project = await Project.findById(id)
+      .populate('owner', 'name email')
+      .populate('members', 'name email');
+
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    if (!canViewProject(req.user as IUser, project)) {
+      return res.status(403).json({ message: 'You do not have permission to view this project' });
+    }
+
+    res.json(project);
+  } catch (error) {
+    console.error('Get project error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update project details, members or archived state
+// The owner and Admins/Managers can update a project
+router.put('/:id', projectValidation, async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid project ID format' });
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    if (!canManageProject(req.user as IUser, project)) {
+      return res.status(403).json({ message: 'You do not have permission to update this project' });
+    }
+
+    const { name, description, members, archived } = req.body;
+
+    if (members !== undefined) {
+      if (!(await membersExist(members))) {
+        return res.status(400).json({ message: 'One or more members do not exist' });
+      }
+      // The owner is always a member
+      project.members = [...new Set([project.owner.toString(), ...members.map(String)])].map(
+        memberId => new mongoose.Types.ObjectId(memberId)
+      );
+    }
+
+    if (name !== undefined) project.name = name;
+    if (description !== undefined) project.description = description;
+    if (archived !== undefined) project.archived = archived;
+
+    await project.save();
+    await project.populate('owner', 'name email');
+    await project.populate('members', 'name email');
+
+    res.json({
+      message: 'Project updated successfully',
+      project,
+    });
+  } catch (error) {
+    console.error('Update project error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete project - only the owner or an admin
+// Tasks in the project are kept and moved back to the shared pool
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid project ID format' });
+    }
+
+    const project = await Project.findById(id);
+    if (!project) {
+      return res.status(404).json({ message: 'Project not found' });
+    }
+
+    const user = req.user as IUser;
+    const isOwner = project.owner.toString() === user._id.toString();
+    if (!isOwner && user.role !== 'admin') {
+      return res.status(403).json({ message: 'Only the project owner or an admin can delete this project' });
+    }
+
+    await project.deleteOne();
+    await Task.updateMany({ project: project._id }, { $unset: { project: 1 } });
+
+    res.json({ message: 'Project deleted successfully' });
+  } catch (error) {
+    console.error('Delete project error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
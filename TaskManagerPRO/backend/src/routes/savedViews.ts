@@ -0,0 +1,240 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { SavedView, VIEW_COLUMNS } from '../models/SavedView';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import {
+  getViewVisibilityFilter,
+  findVisibleView,
+  canManageView,
+  canShareWithTeam,
+} from '../services/savedViewService';
+
+const router = express.Router();
+
+// All saved view routes require authentication
+router.use(authenticateToken);
+
+const viewValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('View name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('View name must be at most 100 characters'),
+  body('team')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Team must be a valid team ID'),
+  body('filters').optional().isObject().withMessage('Filters must be an object'),
+  body('filters.status')
+    .optional({ values: 'falsy' })
+    .isIn(['todo', 'in-progress', 'in-review', 'completed'])
+    .withMessage('Invalid status filter'),
+  body('filters.priority')
+    .optional({ values: 'falsy' })
+    .isIn(['low', 'medium', 'high'])
+    .withMessage('Priority filter must be low, medium, or high'),
+  body('filters.assignedTo')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Assignee filter must be a valid user ID'),
+  body('filters.project')
+    .optional({ values: 'falsy' })
+    .isMongoId()
+    .withMessage('Project filter must be a valid project ID'),
+  body('filters.sprint')
+    .optional({ values: 'falsy' })
+    .custom(value => value === 'none' || mongoose.Types.ObjectId.isValid(value))
+    .withMessage('Sprint filter must be a sprint ID or none'),
+  body('filters.labels').optional().isArray().withMessage('Label filter must be an array'),
+  body('filters.labels.*').isMongoId().withMessage('Each label must be a valid label ID'),
+  body('filters.labelMatch')
+    .optional()
+    .isIn(['any', 'all'])
+    .withMessage('Label match must be any or all'),
+  body('filters.customFields')
+    .optional({ values: 'null' })
+    .isObject()
+    .withMessage('Custom field filters must be an object'),
+  body('sortBy')
+    .optional()
+    .matches(/^(dueDate|createdAt|priority|status|title|customFields\.[a-f0-9]{24})$/)
+    .withMessage('Invalid sort field'),
+  body('sortOrder')
+    .optional()
+    .isIn(['asc', 'desc'])
+    .withMessage('Sort order must be asc or desc'),
+  body('layout')
+    .optional()
+    .isIn(['list', 'board'])
+    .withMessage('Layout must be list or board'),
+  body('columns').optional().isArray().withMessage('Columns must be an array'),
+  body('columns.*')
+    .isIn([...VIEW_COLUMNS])
+    .withMessage(`Columns must be one of: ${VIEW_COLUMNS.join(', ')}`),
+];
+
+const VIEW_FIELDS = ['name', 'filters', 'sortBy', 'sortOrder', 'layout', 'columns'];
+
+// Check the user can share the view with the given team
+// Returns an error message, or null when the team is fine or the view is private
+const checkViewTeam = async (user: IUser, teamId: string | null | undefined): Promise<string | null> => {
+  if (!teamId) return null;
+  if (!(await canShareWithTeam(user, teamId))) {
+    return 'You can only share views with a team you belong to';
+  }
+  return null;
+};
+
+// Get the saved views the user can use - their own first, then those shared with their teams
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user as IUser;
+    const views = await SavedView.find(await getViewVisibilityFilter(user))
+      .sort({ name: 1 })
+      .populate('owner', 'name email')
+      .populate('team', 'name');
+
+    const userId = user._id.toString();
+    views.sort((a, b) => Number(b.owner._id.toString() === userId) - Number(a.owner._id.toString() === userId));
+
+    res.json(views);
+  } catch (error) {
+    console.error('Get saved views error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get a saved view by ID - used to restore a view from a shared link
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid view ID format' });
+    }
+
+    const view = await findVisibleView(req.user as IUser, req.params.id);
+    if (!view) {
+      return res.status(404).json({ message: 'Saved view not found' });
+    }
+    await view.populate('owner', 'name email');
+    await view.populate('team', 'name');
+
+    res.json(view);
+  } catch (error) {
+    console.error('Get saved view error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create a saved view, private unless a team is given
+router.post(
+  '/',
+  [body('name').exists().withMessage('View name is required'), ...viewValidation],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const user = req.user as IUser;
+      const teamError = await checkViewTeam(user, req.body.team);
+      if (teamError) {
+        return res.status(403).json({ message: teamError });
+      }
+
+      const view = new SavedView({ owner: user._id, team: req.body.team || null });
+      VIEW_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) view.set(field, req.body[field]);
+      });
+
+      await view.save();
+      await view.populate('owner', 'name email');
+      await view.populate('team', 'name');
+
+      res.status(201).json({
+        message: 'View saved successfully',
+        view,
+      });
+    } catch (error) {
+      console.error('Create saved view error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Update a saved view - only its owner or an admin
+router.put('/:id', viewValidation, async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid view ID format' });
+    }
+
+    const user = req.user as IUser;
+    const view = await findVisibleView(user, req.params.id);
+    if (!view) {
+      return res.status(404).json({ message: 'Saved view not found' });
+    }
+    if (!canManageView(user, view)) {
+      return res.status(403).json({ message: 'Only the owner can change this view' });
+    }
+
+    if (req.body.team !== undefined) {
+      const teamError = await checkViewTeam(user, req.body.team);
+      if (teamError) {
+        return res.status(403).json({ message: teamError });
+      }
+      view.team = req.body.team || null;
+    }
+    VIEW_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) view.set(field, req.body[field]);
+    });
+
+    await view.save();
+    await view.populate('owner', 'name email');
+    await view.populate('team', 'name');
+
+    res.json({
+      message: 'View updated successfully',
+      view,
+    });
+  } catch (error) {
+    console.error('Update saved view error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete a saved view - only its owner or an admin
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid view ID format' });
+    }
+
+    const user = req.user as IUser;
+    const view = await findVisibleView(user, req.params.id);
+    if (!view) {
+      return res.status(404).json({ message: 'Saved view not found' });
+    }
+    if (!canManageView(user, view)) {
+      return res.status(403).json({ message: 'Only the owner can delete this view' });
+    }
+
+    await view.deleteOne();
+
+    res.json({ message: 'View deleted successfully' });
+  } catch (error) {
+    console.error('Delete saved view error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
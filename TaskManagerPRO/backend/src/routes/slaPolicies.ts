@@ -0,0 +1,187 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { SlaPolicy } from '../models/SlaPolicy';
+import { Label } from '../models/Label';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// All SLA policy routes require authentication and are admin only
+router.use(authenticateToken);
+router.use(checkPermission('system:settings'));
+
+// Longest response or resolution target
+const MAX_SLA_HOURS = 90 * 24;
+
+const PRIORITY_ORDER = ['high', 'medium', 'low'];
+
+const policyValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Policy name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Policy name must be at most 100 characters'),
+  body('priority')
+    .optional()
+    .isIn(['low', 'medium', 'high'])
+    .withMessage('Priority must be low, medium, or high'),
+  body('labels').optional().isArray().withMessage('Labels must be an array'),
+  body('labels.*').isMongoId().withMessage('Each label must be a valid label ID'),
+  body('responseHours')
+    .optional()
+    .isFloat({ min: 0, max: MAX_SLA_HOURS })
+    .withMessage(`Response target must be between 0 and ${MAX_SLA_HOURS} hours`),
+  body('resolutionHours')
+    .optional()
+    .isFloat({ min: 0, max: MAX_SLA_HOURS })
+    .withMessage(`Resolution target must be between 0 and ${MAX_SLA_HOURS} hours`),
+  body('enabled').optional().isBoolean().withMessage('Enabled must be true or false'),
+];
+
+// Check that every label ID refers to an existing label
+const labelsExist = async (labelIds: string[]): Promise<boolean> => {
+  const uniqueIds = [...new Set(labelIds.map(String))];
+  const count = await Label.countDocuments({ _id: { $in: uniqueIds } });
+  return count === uniqueIds.length;
+};
+
+// Get the SLA policies, highest priority first
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const policies = await SlaPolicy.find()
+      .populate('labels', 'name color')
+      .populate('createdBy', 'name')
+      .sort({ createdAt: 1 });
+    policies.sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority));
+    res.json(policies);
+  } catch (error) {
+    console.error('Get SLA policies error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create an SLA policy - it applies to tasks created from now on
+router.post(
+  '/',
+  [
+    body('name').exists().withMessage('Policy name is required'),
+    body('priority').exists().withMessage('Priority is required'),
+    body('responseHours').exists().withMessage('Response target is required'),
+    body('resolutionHours').exists().withMessage('Resolution target is required'),
+    ...policyValidation,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, priority, labels = [], responseHours, resolutionHours, enabled = true } = req.body;
+
+      if (Number(responseHours) > Number(resolutionHours)) {
+        return res.status(400).json({ message: 'The response target cannot be longer than the resolution target' });
+      }
+
+      if (!(await labelsExist(labels))) {
+        return res.status(400).json({ message: 'One or more labels do not exist' });
+      }
+
+      const policy = new SlaPolicy({
+        name,
+        priority,
+        labels: [...new Set(labels.map(String))],
+        responseHours,
+        resolutionHours,
+        enabled,
+        createdBy: req.user?._id,
+      });
+
+      await policy.save();
+      await policy.populate('labels', 'name color');
+
+      res.status(201).json({
+        message: 'SLA policy created successfully',
+        policy,
+      });
+    } catch (error) {
+      console.error('Create SLA policy error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Update an SLA policy - tasks already running keep the targets they started with
+router.put('/:id', policyValidation, async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid SLA policy ID format' });
+    }
+
+    const policy = await SlaPolicy.findById(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: 'SLA policy not found' });
+    }
+
+    const { name, priority, labels, responseHours, resolutionHours, enabled } = req.body;
+
+    const newResponseHours = responseHours !== undefined ? Number(responseHours) : policy.responseHours;
+    const newResolutionHours = resolutionHours !== undefined ? Number(resolutionHours) : policy.resolutionHours;
+    if (newResponseHours > newResolutionHours) {
+      return res.status(400).json({ message: 'The response target cannot be longer than the resolution target' });
+    }
+
+    if (labels && !(await labelsExist(labels))) {
+      return res.status(400).json({ message: 'One or more labels do not exist' });
+    }
+
+    if (name !== undefined) policy.name = name;
+    if (priority !== undefined) policy.priority = priority;
+    if (labels !== undefined) {
+      policy.labels = [...new Set<string>(labels.map(String))].map(labelId => new mongoose.Types.ObjectId(labelId));
+    }
+    if (enabled !== undefined) policy.enabled = enabled;
+    policy.responseHours = newResponseHours;
+    policy.resolutionHours = newResolutionHours;
+
+    await policy.save();
+    await policy.populate('labels', 'name color');
+
+    res.json({
+      message: 'SLA policy updated successfully',
+      policy,
+    });
+  } catch (error) {
+    console.error('Update SLA policy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete an SLA policy - tasks already running keep their deadlines
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+      return res.status(400).json({ message: 'Invalid SLA policy ID format' });
+    }
+
+    const policy = await SlaPolicy.findByIdAndDelete(req.params.id);
+    if (!policy) {
+      return res.status(404).json({ message: 'SLA policy not found' });
+    }
+
+    res.json({ message: 'SLA policy deleted successfully' });
+  } catch (error) {
+    console.error('Delete SLA policy error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
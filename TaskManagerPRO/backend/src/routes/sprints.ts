@@ -0,0 +1,437 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Sprint, ISprint } from '../models/Sprint';
+import { Project } from '../models/Project';
+import { Task } from '../models/Task';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+import { findVisibleProject } from '../services/projectAccessService';
+import { getTaskVisibilityFilter } from '../services/taskAccessService';
+import { countSprintTasks, carryOverUnfinishedTasks, buildSprintBurndown } from '../services/sprintService';
+
+const router = express.Router();
+
+// All sprint routes require authentication
+router.use(authenticateToken);
+
+const sprintValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Sprint name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Sprint name must be at most 100 characters'),
+  body('goal')
+    .optional({ values: 'null' })
+    .isString()
+    .trim()
+    .isLength({ max: 500 })
+    .withMessage('Sprint goal must be at most 500 characters'),
+  body('startDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Valid start date is required'),
+  body('endDate')
+    .optional()
+    .isISO8601()
+    .withMessage('Valid end date is required'),
+];
+
+// Load a sprint by ID if it exists and the user can view its project
+// Sprints without a project are visible to everyone
+const findVisibleSprint = async (user: IUser, sprintId: string): Promise<ISprint | null> => {
+  if (!mongoose.Types.ObjectId.isValid(sprintId)) return null;
+
+  const sprint = await Sprint.findById(sprintId);
+  if (!sprint) return null;
+  if (sprint.project && !(await findVisibleProject(user, sprint.project.toString()))) return null;
+
+  return sprint;
+};
+
+// Check a sprint can take the unfinished tasks of another sprint
+// Returns an error message, or null when it can
+const getCarryOverTargetError = (sprint: ISprint, target: ISprint | null): string | null => {
+  if (!target) return 'Target sprint not found';
+  if (target._id.equals(sprint._id)) return 'Tasks cannot be carried over to the same sprint';
+  if (target.status === 'closed') return 'Tasks cannot be carried over to a closed sprint';
+  if (String(target.project || '') !== String(sprint.project || '')) {
+    return 'Tasks can only be carried over to a sprint of the same project';
+  }
+  return null;
+};
+
+// Get sprints with their task counts, newest first
+// Optional filters: ?project=<id> and ?status=planned|active|closed
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user as IUser;
+    const { project, status } = req.query;
+    const query: Record<string, any> = {};
+
+    if (status) query.status = status;
+
+    if (project) {
+      const visibleProject = await findVisibleProject(user, String(project));
+      if (!visibleProject) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      query.project = visibleProject._id;
+    } else if (user.role !== 'admin' && user.role !== 'manager') {
+      // Regular users only see shared sprints and sprints of their projects
+      const projectIds = await Project.find({
+        $or: [{ owner: user._id }, { members: user._id }],
+      }).distinct('_id');
+      query.project = { $in: [null, ...projectIds] };
+    }
+
+    const sprints = await Sprint.find(query)
+      .sort({ startDate: -1 })
+      .populate('project', 'name')
+      .populate('createdBy', 'name email');
+
+    const counts = await countSprintTasks(sprints.map(sprint => sprint._id));
+    const emptyCounts = { total: 0, completed: 0, totalPoints: 0, completedPoints: 0 };
+
+    res.json(
+      sprints.map(sprint => ({
+        ...sprint.toJSON(),
+        taskCounts: counts.get(sprint._id.toString()) || emptyCounts,
+      }))
+    );
+  } catch (error) {
+    console.error('Get sprints error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create sprint - requires sprints:manage permission
+// Without a project the sprint can hold tasks of any project
+router.post(
+  '/',
+  checkPermission('sprints:manage'),
+  [
+    body('name').exists().withMessage('Sprint name is required'),
+    body('startDate').exists().withMessage('Start date is required'),
+    body('endDate').exists().withMessage('End date is required'),
+    body('project')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Project must be a valid project ID'),
+    ...sprintValidation,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, goal, startDate, endDate, project } = req.body;
+
+      if (new Date(endDate) < new Date(startDate)) {
+        return res.status(400).json({ message: 'End date cannot be before the start date' });
+      }
+
+      if (project && !(await findVisibleProject(req.user as IUser, project))) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+
+      const sprint = new Sprint({
+        name,
+        goal,
+        startDate,
+        endDate,
+        project: project || null,
+        createdBy: (req.user as IUser)._id,
+      });
+
+      await sprint.save();
+      await sprint.populate('project', 'name');
+
+      res.status(201).json({
+        message: 'Sprint created successfully',
+        sprint,
+      });
+    } catch (error) {
+      console.error('Create sprint error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Get sprint with its tasks
+router.get('/:sprintId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { sprintId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+      return res.status(400).json({ message: 'Invalid sprint ID format' });
+    }
+
+    const user = req.user as IUser;
+    const sprint = await findVisibleSprint(user, sprintId);
+    if (!sprint) {
+      return res.status(404).json({ message: 'Sprint not found' });
+    }
+
+    await sprint.populate('project', 'name');
+    await sprint.populate('createdBy', 'name email');
+
+    // Only the tasks of the sprint the user can see
+    const visibilityFilter = await getTaskVisibilityFilter(user);
+    const tasks = await Task.find({ $and: [visibilityFilter, { sprint: sprint._id }] })
+      .sort({ status: 1, dueDate: 1 })
+      .select('title status priority dueDate storyPoints assignedTo')
+      .populate('assignedTo', 'name email');
+
+    res.json({ ...sprint.toJSON(), tasks });
+  } catch (error) {
+    console.error('Get sprint error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update sprint name, goal or dates - requires sprints:manage permission
+// The project is fixed so the sprint's tasks stay in the same project
+router.put(
+  '/:sprintId',
+  checkPermission('sprints:manage'),
+  sprintValidation,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { sprintId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+        return res.status(400).json({ message: 'Invalid sprint ID format' });
+      }
+
+      const sprint = await findVisibleSprint(req.user as IUser, sprintId);
+      if (!sprint) {
+        return res.status(404).json({ message: 'Sprint not found' });
+      }
+
+      const { name, goal, startDate, endDate } = req.body;
+
+      if (name !== undefined) sprint.name = name;
+      if (goal !== undefined) sprint.goal = goal || undefined;
+      if (startDate !== undefined) sprint.startDate = new Date(startDate);
+      if (endDate !== undefined) sprint.endDate = new Date(endDate);
+
+      if (sprint.endDate < sprint.startDate) {
+        return res.status(400).json({ message: 'End date cannot be before the start date' });
+      }
+
+      await sprint.save();
+      await sprint.populate('project', 'name');
+
+      res.json({
+        message: 'Sprint updated successfully',
+        sprint,
+      });
+    } catch (error) {
+      console.error('Update sprint error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete sprint and take its tasks out of it - requires sprints:manage permission
+router.delete('/:sprintId', checkPermission('sprints:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sprintId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+      return res.status(400).json({ message: 'Invalid sprint ID format' });
+    }
+
+    const sprint = await findVisibleSprint(req.user as IUser, sprintId);
+    if (!sprint) {
+      return res.status(404).json({ message: 'Sprint not found' });
+    }
+
+    await sprint.deleteOne();
+    await Task.updateMany({ sprint: sprint._id }, { $set: { sprint: null } });
+
+    res.json({ message: 'Sprint deleted successfully' });
+  } catch (error) {
+    console.error('Delete sprint error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Start a planned sprint - requires sprints:manage permission
+// Only one sprint can be active per project, and one across shared sprints
+router.post('/:sprintId/start', checkPermission('sprints:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { sprintId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+      return res.status(400).json({ message: 'Invalid sprint ID format' });
+    }
+
+    const sprint = await findVisibleSprint(req.user as IUser, sprintId);
+    if (!sprint) {
+      return res.status(404).json({ message: 'Sprint not found' });
+    }
+
+    if (sprint.status !== 'planned') {
+      return res.status(400).json({ message: `Sprint is already ${sprint.status}` });
+    }
+
+    const activeSprint = await Sprint.findOne({ project: sprint.project || null, status: 'active' });
+    if (activeSprint) {
+      return res.status(409).json({
+        message: `Sprint "${activeSprint.name}" is still active. Close it before starting another one.`,
+        activeSprint: { _id: activeSprint._id, name: activeSprint.name },
+      });
+    }
+
+    sprint.status = 'active';
+    sprint.startedAt = new Date();
+    await sprint.save();
+
+    res.json({
+      message: 'Sprint started successfully',
+      sprint,
+    });
+  } catch (error) {
+    console.error('Start sprint error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Close an active sprint - requires sprints:manage permission
+// With nextSprintId, unfinished tasks are carried over to that sprint
+router.post(
+  '/:sprintId/close',
+  checkPermission('sprints:manage'),
+  [
+    body('nextSprintId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Next sprint must be a valid sprint ID'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { sprintId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+        return res.status(400).json({ message: 'Invalid sprint ID format' });
+      }
+
+      const user = req.user as IUser;
+      const sprint = await findVisibleSprint(user, sprintId);
+      if (!sprint) {
+        return res.status(404).json({ message: 'Sprint not found' });
+      }
+
+      if (sprint.status !== 'active') {
+        return res.status(400).json({ message: 'Only an active sprint can be closed' });
+      }
+
+      const { nextSprintId } = req.body;
+      let carriedOver = 0;
+
+      if (nextSprintId) {
+        const nextSprint = await findVisibleSprint(user, nextSprintId);
+        const targetError = getCarryOverTargetError(sprint, nextSprint);
+        if (targetError || !nextSprint) {
+          return res.status(400).json({ message: targetError });
+        }
+        const visibilityFilter = await getTaskVisibilityFilter(user);
+        carriedOver = (await carryOverUnfinishedTasks(sprint, nextSprint, user._id, visibilityFilter)).length;
+      }
+
+      sprint.status = 'closed';
+      sprint.closedAt = new Date();
+      await sprint.save();
+
+      res.json({
+        message: 'Sprint closed successfully',
+        sprint,
+        carriedOver,
+      });
+    } catch (error) {
+      console.error('Close sprint error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Carry the unfinished tasks of a sprint over to another sprint - requires sprints:manage permission
+router.post(
+  '/:sprintId/carry-over',
+  checkPermission('sprints:manage'),
+  [
+    body('targetSprintId')
+      .isMongoId()
+      .withMessage('Target sprint must be a valid sprint ID'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { sprintId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+        return res.status(400).json({ message: 'Invalid sprint ID format' });
+      }
+
+      const user = req.user as IUser;
+      const sprint = await findVisibleSprint(user, sprintId);
+      if (!sprint) {
+        return res.status(404).json({ message: 'Sprint not found' });
+      }
+
+      const targetSprint = await findVisibleSprint(user, req.body.targetSprintId);
+      const targetError = getCarryOverTargetError(sprint, targetSprint);
+      if (targetError || !targetSprint) {
+        return res.status(400).json({ message: targetError });
+      }
+
+      const visibilityFilter = await getTaskVisibilityFilter(user);
+      const movedTasks = await carryOverUnfinishedTasks(sprint, targetSprint, user._id, visibilityFilter);
+
+      res.json({
+        message: `${movedTasks.length} task(s) carried over to ${targetSprint.name}`,
+        carriedOver: movedTasks.length,
+      });
+    } catch (error) {
+      console.error('Carry over sprint tasks error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Get the daily burndown and burnup data of a sprint
+router.get('/:sprintId/burndown', async (req: AuthRequest, res: Response) => {
+  try {
+    const { sprintId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(sprintId)) {
+      return res.status(400).json({ message: 'Invalid sprint ID format' });
+    }
+
+    const user = req.user as IUser;
+    const sprint = await findVisibleSprint(user, sprintId);
+    if (!sprint) {
+      return res.status(404).json({ message: 'Sprint not found' });
+    }
+
+    res.json(await buildSprintBurndown(sprint, await getTaskVisibilityFilter(user)));
+  } catch (error) {
+    console.error('Get sprint burndown error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,346 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { TaskTemplate } from '../models/TaskTemplate';
+import { User, IUser } from '../models/User';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+import { findVisibleProject } from '../services/projectAccessService';
+import { instantiateTemplate } from '../services/templateService';
+import { getApplicableFields, validateCustomFieldValues } from '../services/customFieldService';
+
+const router = express.Router();
+
+// All template routes require authentication
+router.use(authenticateToken);
+
+const templateValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Template name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Template name must be at most 100 characters'),
+  body('title')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Task title cannot be empty'),
+  body('description')
+    .optional()
+    .notEmpty()
+    .withMessage('Task description cannot be empty'),
+  body('priority')
+    .optional()
+    .isIn(['low', 'medium', 'high'])
+    .withMessage('Priority must be low, medium, or high'),
+  body('dueOffsetDays')
+    .optional()
+    .isInt({ min: 0, max: 365 })
+    .withMessage('Due offset must be between 0 and 365 days'),
+  body('assigneeRule')
+    .optional()
+    .isIn(['creator', 'user'])
+    .withMessage('Assignee rule must be creator or user'),
+  body('defaultAssignee')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Default assignee must be a valid user ID'),
+  body('isRecurring').optional().isBoolean(),
+  body('recurringType')
+    .optional()
+    .isIn(['daily', 'weekly', 'monthly', 'custom'])
+    .withMessage('Recurring type must be daily, weekly, monthly, or custom'),
+  body('recurringInterval')
+    .optional()
+    .isInt({ min: 1 })
+    .withMessage('Recurring interval must be a positive integer'),
+  body('recurringDays')
+    .optional()
+    .isArray()
+    .withMessage('Recurring days must be an array'),
+  body('recurringDays.*')
+    .optional()
+    .isInt({ min: 0, max: 6 })
+    .withMessage('Recurring days must be between 0 and 6'),
+  body('recurringDate')
+    .optional()
+    .isInt({ min: 1, max: 31 })
+    .withMessage('Recurring date must be between 1 and 31'),
+  body('checklist')
+    .optional()
+    .isArray()
+    .withMessage('Checklist must be an array'),
+  body('checklist.*.text')
+    .trim()
+    .notEmpty()
+    .withMessage('Checklist item text cannot be empty'),
+  body('checklist.*.dueOffsetDays')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 365 })
+    .withMessage('Checklist item due offset must be between 0 and 365 days'),
+  body('checklistAsSubtasks').optional().isBoolean(),
+];
+
+const TEMPLATE_FIELDS = [
+  'name',
+  'title',
+  'description',
+  'priority',
+  'dueOffsetDays',
+  'assigneeRule',
+  'defaultAssignee',
+  'isRecurring',
+  'recurringType',
+  'recurringInterval',
+  'recurringDays',
+  'recurringDate',
+  'checklist',
+  'checklistAsSubtasks',
+];
+
+// Check the assignee rule and recurrence settings of a template
+// Returns an error message, or null when the template is valid
+const checkTemplateSettings = async (template: Record<string, any>): Promise<string | null> => {
+  if (template.assigneeRule === 'user') {
+    if (!template.defaultAssignee) {
+      return 'A default assignee is required for the user assignee rule';
+    }
+    if (!(await User.exists({ _id: template.defaultAssignee }))) {
+      return 'Default assignee does not exist';
+    }
+  }
+
+  if (template.isRecurring && !template.recurringType) {
+    return 'Recurring type is required for recurring templates';
+  }
+
+  return null;
+};
+
+// Get all templates - available to every user so tasks can be created from them
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const templates = await TaskTemplate.find()
+      .sort({ name: 1 })
+      .populate('defaultAssignee', 'name email')
+      .populate('createdBy', 'name email');
+
+    res.json(templates);
+  } catch (error) {
+    console.error('Get task templates error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create template - requires templates:manage permission
+router.post(
+  '/',
+  checkPermission('templates:manage'),
+  [
+    body('name').exists().withMessage('Template name is required'),
+    body('title').exists().withMessage('Task title is required'),
+    body('description').exists().withMessage('Task description is required'),
+    ...templateValidation,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const template = new TaskTemplate({ createdBy: (req.user as IUser)._id });
+      TEMPLATE_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) template.set(field, req.body[field]);
+      });
+      if (template.assigneeRule === 'creator') template.defaultAssignee = undefined;
+
+      const settingsError = await checkTemplateSettings(template);
+      if (settingsError) {
+        return res.status(400).json({ message: settingsError });
+      }
+
+      await template.save();
+      await template.populate('defaultAssignee', 'name email');
+
+      res.status(201).json({
+        message: 'Template created successfully',
+        template,
+      });
+    } catch (error) {
+      console.error('Create task template error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Get template by ID
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid template ID format' });
+    }
+
+    const template = await TaskTemplate.findById(id)
+      .populate('defaultAssignee', 'name email')
+      .populate('createdBy', 'name email');
+
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json(template);
+  } catch (error) {
+    console.error('Get task template error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update template - requires templates:manage permission
+router.put(
+  '/:id',
+  checkPermission('templates:manage'),
+  templateValidation,
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid template ID format' });
+      }
+
+      const template = await TaskTemplate.findById(id);
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      TEMPLATE_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) template.set(field, req.body[field]);
+      });
+      if (template.assigneeRule === 'creator') template.defaultAssignee = undefined;
+
+      const settingsError = await checkTemplateSettings(template);
+      if (settingsError) {
+        return res.status(400).json({ message: settingsError });
+      }
+
+      await template.save();
+      await template.populate('defaultAssignee', 'name email');
+
+      res.json({
+        message: 'Template updated successfully',
+        template,
+      });
+    } catch (error) {
+      console.error('Update task template error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete template - tasks already created from it are kept
+router.delete('/:id', checkPermission('templates:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid template ID format' });
+    }
+
+    const template = await TaskTemplate.findByIdAndDelete(id);
+    if (!template) {
+      return res.status(404).json({ message: 'Template not found' });
+    }
+
+    res.json({ message: 'Template deleted successfully' });
+  } catch (error) {
+    console.error('Delete task template error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create tasks from a template - requires tasks:create permission
+// Due dates are counted from the given start date
+router.post(
+  '/:id/instantiate',
+  checkPermission('tasks:create'),
+  [
+    body('startDate').isISO8601().withMessage('Valid start date is required'),
+    body('assignedTo')
+      .optional()
+      .isMongoId()
+      .withMessage('Assignee must be a valid user ID'),
+    body('project')
+      .optional()
+      .isMongoId()
+      .withMessage('Project must be a valid project ID'),
+    body('customFields')
+      .optional()
+      .isObject()
+      .withMessage('Custom fields must be an object of field IDs and values'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid template ID format' });
+      }
+
+      const template = await TaskTemplate.findById(id);
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      const user = req.user as IUser;
+      const { startDate, assignedTo, project, customFields } = req.body;
+
+      if (assignedTo && !(await User.exists({ _id: assignedTo }))) {
+        return res.status(400).json({ message: 'Assignee does not exist' });
+      }
+
+      if (project) {
+        const taskProject = await findVisibleProject(user, project);
+        if (!taskProject) {
+          return res.status(404).json({ message: 'Project not found' });
+        }
+        if (taskProject.archived) {
+          return res.status(400).json({ message: 'Tasks cannot be added to an archived project' });
+        }
+      }
+
+      // Required custom fields of the project apply to tasks created from a template too
+      const customFieldResult = await validateCustomFieldValues(customFields, await getApplicableFields(project));
+      if ('error' in customFieldResult) {
+        return res.status(400).json({ message: customFieldResult.error });
+      }
+
+      const tasks = await instantiateTemplate(template, user, {
+        startDate: new Date(startDate),
+        assignedTo,
+        project,
+        customFields: customFieldResult.values,
+      });
+
+      res.status(201).json({
+        message: 'Tasks created from template',
+        task: tasks[0],
+        tasks,
+      });
+    } catch (error) {
+      console.error('Instantiate task template error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+export default router;
@@ -2,17 +2,559 @@ import express, { Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { Task, ITask } from '../models/Task';
 import { User, IUser } from '../models/User';
+import { Label } from '../models/Label';
+import { CustomField } from '../models/CustomField';
+import { Sprint } from '../models/Sprint';
 import { AuthRequest, authenticateToken, isResourceOwnerOrHasPermission, checkPermission } from '../middleware/auth';
 import { SortOrder } from 'mongoose';
 import mongoose from 'mongoose';
-import { createNotification } from '../index';
-import { createRecurringTaskInstance } from '../services/recurringTaskService';
+import { createNotification, emitToBoard, emitToTask } from '../index';
+import { createRecurringTaskInstance, projectRecurringDueDates } from '../services/recurringTaskService';
+import { buildTimelineSchedule } from '../services/scheduleService';
+import {
+  canViewTask,
+  canUpdateTask,
+  canDeleteTask,
+  canReviewTask,
+  canDecideReassignment,
+  getTaskVisibilityFilter,
+  findVisibleTask,
+} from '../services/taskAccessService';
+import { getManagedUserIds } from '../services/teamService';
+import { findVisibleProject } from '../services/projectAccessService';
+import { getSubtasks, countOpenSubtasks, calculateTaskProgress } from '../services/subtaskService';
+import { wouldCreateCycle, getOpenBlockers, notifyUnblockedTasks } from '../services/dependencyService';
+import {
+  getAssigneeIds,
+  getFollowerIds,
+  assignedToUserFilter,
+  notifyTaskFollowers,
+  buildAssignments,
+  getAssignmentResponse,
+  updateAssignmentResponse,
+  removeAssignmentResponse,
+  removeAssignee,
+  addPendingAssignee,
+  getReassignmentDeciderIds,
+} from '../services/assignmentService';
+import { awardCompletionPoints } from '../services/pointsService';
+import { getLoggedSecondsByTask, getTaskLoggedSeconds } from '../services/timeTrackingService';
+import { buildEstimateReport } from '../services/estimateReportService';
+import { getReviewUpdateError, needsReview, TaskReview } from '../services/reviewService';
+import { applySlaPolicy, getSlaUpdates, buildSlaReport } from '../services/slaService';
+import { getApplicableFields, validateCustomFieldValues, buildCustomFieldFilters } from '../services/customFieldService';
+import { buildTasksCsv } from '../services/taskExportService';
+import { sprintAcceptsProject } from '../services/sprintService';
+import { getDropRank } from '../services/rankService';
+import { findVisibleView, getViewListParams } from '../services/savedViewService';
+import { recordTaskCreated, recordTaskChanges, recordTaskDeleted, getTaskActivity } from '../services/activityService';
+import {
+  getTrashRetentionDays,
+  findTrashedTask,
+  trashTask,
+  restoreTask,
+  isTrashedWithParent,
+  purgeTask,
+} from '../services/trashService';
 
 const router = express.Router();
 
 // All task routes require authentication
 router.use(authenticateToken);
 
+// Task filter for analytics
+// Admins see every task, managers only tasks assigned to their team members
+const getAnalyticsScope = async (
+  user: IUser
+): Promise<{ taskFilter: Record<string, any>; userIds: mongoose.Types.ObjectId[] | null }> => {
+  if (user.role === 'admin') {
+    return { taskFilter: {}, userIds: null };
+  }
+
+  const userIds = await getManagedUserIds(user._id);
+  return {
+    taskFilter: { $or: [{ assignedTo: { $in: userIds } }, { assignees: { $in: userIds } }] },
+    userIds,
+  };
+};
+
+// Count completed tasks per assignee, most completions first
+// Every assignee of a shared task is credited; managers only see their team members
+const countCompletionsByAssignee = (
+  taskFilter: Record<string, any>,
+  userIds: mongoose.Types.ObjectId[] | null,
+  limit: number
+) =>
+  Task.aggregate([
+    { $match: { ...taskFilter, status: 'completed' } },
+    { $project: { assignee: { $setUnion: [['$assignedTo'], { $ifNull: ['$assignees', []] }] } } },
+    { $unwind: '$assignee' },
+    ...(userIds ? [{ $match: { assignee: { $in: userIds } } }] : []),
+    { $group: { _id: '$assignee', count: { $sum: 1 } } },
+    { $sort: { count: -1 } },
+    { $limit: limit },
+  ]);
+
+// Check that every label ID refers to an existing label
+const labelsExist = async (labelIds: string[]): Promise<boolean> => {
+  const uniqueIds = [...new Set(labelIds.map(String))];
+  const count = await Label.countDocuments({ _id: { $in: uniqueIds } });
+  return count === uniqueIds.length;
+};
+
+const labelValidation = [
+  body('labels')
+    .optional()
+    .isArray()
+    .withMessage('Labels must be an array'),
+  body('labels.*')
+    .optional()
+    .isMongoId()
+    .withMessage('Each label must be a valid label ID'),
+];
+
+// Check that every user ID refers to an existing user
+const usersExist = async (userIds: string[]): Promise<boolean> => {
+  const uniqueIds = [...new Set(userIds.map(String))];
+  const count = await User.countDocuments({ _id: { $in: uniqueIds } });
+  return count === uniqueIds.length;
+};
+
+const uniqueIds = (ids: string[]) => [...new Set(ids.map(String))];
+
+const assigneeValidation = [
+  body('assignees')
+    .optional()
+    .isArray()
+    .withMessage('Assignees must be an array'),
+  body('assignees.*')
+    .optional()
+    .isMongoId()
+    .withMessage('Each assignee must be a valid user ID'),
+  body('watchers')
+    .optional()
+    .isArray()
+    .withMessage('Watchers must be an array'),
+  body('watchers.*')
+    .optional()
+    .isMongoId()
+    .withMessage('Each watcher must be a valid user ID'),
+];
+
+// Optional effort estimates - null clears an estimate on update
+const estimateValidation = [
+  body('storyPoints')
+    .optional({ values: 'null' })
+    .isInt({ min: 0, max: 100 })
+    .withMessage('Story points must be a whole number between 0 and 100'),
+  body('estimatedHours')
+    .optional({ values: 'null' })
+    .isFloat({ min: 0, max: 1000 })
+    .withMessage('Estimated hours must be a number between 0 and 1000'),
+];
+
+const customFieldValidation = [
+  body('customFields')
+    .optional()
+    .isObject()
+    .withMessage('Custom fields must be an object of field IDs and values'),
+];
+
+const sprintValidation = [
+  body('sprint')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Sprint must be a valid sprint ID'),
+];
+
+// Optional planned start - null clears it on update
+const startDateValidation = [
+  body('startDate')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Valid start date is required'),
+];
+
+// Waiting on someone outside the team pauses the task's SLA clock
+const waitingValidation = [
+  body('waiting').optional().isBoolean().withMessage('Waiting must be true or false'),
+];
+
+const approvalValidation = [
+  body('requiresApproval').optional().isBoolean().withMessage('Requires approval must be true or false'),
+];
+
+// Check a planned start does not come after the due date
+const isStartAfterDue = (startDate: Date | string | null | undefined, dueDate: Date | string) =>
+  !!startDate && new Date(startDate) > new Date(dueDate);
+
+// Apply an update to a task and record the changed fields in its activity history
+const updateTaskWithActivity = async (
+  taskId: mongoose.Types.ObjectId | string,
+  update: Record<string, any>,
+  actorId: mongoose.Types.ObjectId
+): Promise<ITask | null> => {
+  const before = await Task.findById(taskId);
+  if (!before) return null;
+
+  const after = await Task.findByIdAndUpdate(taskId, update, { new: true });
+  if (after) {
+    await recordTaskChanges(before, after, actorId);
+  }
+  return after;
+};
+
+// Copy of a task before it is changed in place, to record the change in its activity history
+const snapshotTask = (task: ITask): ITask => Task.hydrate(task.toObject());
+
+// Status and body of an error response
+interface TaskRequestError {
+  status: number;
+  body: Record<string, any>;
+}
+
+// Check the project exists, is visible to the user and still accepts tasks
+// Returns the error response to send, or null when the project is fine
+const getTaskProjectError = async (user: IUser, projectId: string): Promise<TaskRequestError | null> => {
+  const project = await findVisibleProject(user, projectId);
+  if (!project) {
+    return { status: 404, body: { message: 'Project not found' } };
+  }
+  if (project.archived) {
+    return { status: 400, body: { message: 'Tasks cannot be added to an archived project' } };
+  }
+  return null;
+};
+
+// Check the sprint exists, is still open and can hold tasks of the task's project
+// Returns the error response to send, or null when the sprint is fine
+const getTaskSprintError = async (
+  sprintId: string,
+  projectId?: mongoose.Types.ObjectId | string | null
+): Promise<TaskRequestError | null> => {
+  const sprint = mongoose.Types.ObjectId.isValid(sprintId) ? await Sprint.findById(sprintId) : null;
+  if (!sprint) {
+    return { status: 404, body: { message: 'Sprint not found' } };
+  }
+  if (sprint.status === 'closed') {
+    return { status: 400, body: { message: 'Tasks cannot be added to a closed sprint' } };
+  }
+  if (!sprintAcceptsProject(sprint, projectId)) {
+    return { status: 400, body: { message: 'The sprint belongs to a different project' } };
+  }
+  return null;
+};
+
+const taskError = (status: number, body: Record<string, any>): { error: TaskRequestError } => ({
+  error: { status, body },
+});
+
+// Apply an update to a task as the given user
+// Shared by single and bulk updates so both check permissions, blockers and open subtasks,
+// record activity, award completion points and send notifications the same way
+const applyTaskUpdate = async (
+  user: IUser,
+  task: ITask,
+  body: Record<string, any>,
+  review?: TaskReview
+): Promise<{ task: ITask | null } | { error: TaskRequestError }> => {
+  // RBAC: Check permissions based on role and ownership
+  if (!(await canUpdateTask(user, task))) {
+    return taskError(403, {
+      message: 'You do not have permission to update this task',
+    });
+  }
+
+  // Check if this is a child task of a recurring series
+  if (task.parentTaskId && body.isRecurring) {
+    return taskError(400, {
+      message: 'Cannot make a recurring task instance into a recurring task',
+    });
+  }
+
+  // Subtasks are attached at creation time and cannot be moved
+  // Dependencies go through the dependency endpoints so cycles are checked
+  const { confirmOpenSubtasks, parentTask, blockedBy, ...updates } = body;
+
+  const reviewError = await getReviewUpdateError(user, task, updates, review);
+  if (reviewError) {
+    return taskError(reviewError.status, { message: reviewError.message });
+  }
+
+  // A task that requires approval goes into review instead of being completed,
+  // it is only completed once a reviewer approves it
+  if (needsReview(task, updates, review)) {
+    updates.status = 'in-review';
+    updates.rank = null;
+  }
+
+  if (updates.labels) {
+    if (!(await labelsExist(updates.labels))) {
+      return taskError(400, { message: 'One or more labels do not exist' });
+    }
+    updates.labels = [...new Set(updates.labels.map(String))];
+  }
+
+  // Keep the primary assignee and the assignee list in sync
+  // Changing only the primary swaps it in the list, changing only the
+  // list promotes its first entry if the current primary was removed
+  const originalAssigneeIds = getAssigneeIds(task);
+  if (updates.assignedTo !== undefined || updates.assignees !== undefined) {
+    const currentPrimary = task.assignedTo?.toString();
+    let primary: string | undefined = updates.assignedTo !== undefined ? String(updates.assignedTo) : currentPrimary;
+    let assigneeIds: string[] = updates.assignees !== undefined
+      ? uniqueIds(updates.assignees)
+      : originalAssigneeIds.filter(assigneeId => assigneeId !== currentPrimary);
+
+    if (updates.assignedTo === undefined && (!primary || !assigneeIds.includes(primary))) {
+      primary = assigneeIds[0];
+    }
+    if (!primary) {
+      return taskError(400, { message: 'A task must have at least one assignee' });
+    }
+
+    assigneeIds = uniqueIds([primary, ...assigneeIds]);
+    if (!(await usersExist(assigneeIds))) {
+      return taskError(400, { message: 'One or more assignees do not exist' });
+    }
+
+    updates.assignedTo = primary;
+    updates.assignees = assigneeIds;
+
+    // New assignees have to accept the task
+    const assigneesChanged = assigneeIds.length !== originalAssigneeIds.length ||
+      assigneeIds.some(assigneeId => !originalAssigneeIds.includes(assigneeId));
+    if (assigneesChanged) {
+      updates.assignments = buildAssignments(task.assignments || [], assigneeIds, user._id.toString());
+    }
+  }
+
+  if (updates.watchers) {
+    if (!(await usersExist(updates.watchers))) {
+      return taskError(400, { message: 'One or more watchers do not exist' });
+    }
+    updates.watchers = uniqueIds(updates.watchers);
+  }
+
+  // Changing either date must keep the start on or before the due date
+  if (updates.startDate !== undefined || updates.dueDate !== undefined) {
+    const startDate = updates.startDate !== undefined ? updates.startDate : task.startDate;
+    const dueDate = updates.dueDate !== undefined ? updates.dueDate : task.dueDate;
+    if (isStartAfterDue(startDate, dueDate)) {
+      return taskError(400, { message: 'Start date cannot be after the due date' });
+    }
+  }
+
+  // Moving the task into a project - null removes it from its project
+  if (updates.project && updates.project !== task.project?.toString()) {
+    const projectError = await getTaskProjectError(user, updates.project);
+    if (projectError) return { error: projectError };
+  }
+
+  // Adding the task to a sprint - null takes it out of its sprint
+  const projectId = updates.project !== undefined ? updates.project : task.project;
+  if (updates.sprint && updates.sprint !== task.sprint?.toString()) {
+    const sprintError = await getTaskSprintError(updates.sprint, projectId);
+    if (sprintError) return { error: sprintError };
+  } else if (updates.project !== undefined && task.sprint) {
+    // A task moved to another project leaves a sprint of its old project
+    const sprint = await Sprint.findById(task.sprint);
+    if (sprint && !sprintAcceptsProject(sprint, projectId)) {
+      updates.sprint = null;
+    }
+  }
+
+  // Custom field values are checked against the fields of the task's project,
+  // and values of fields that do not apply to a new project are dropped
+  if (updates.customFields !== undefined || updates.project !== undefined) {
+    const customFieldResult = await validateCustomFieldValues(
+      updates.customFields,
+      await getApplicableFields(projectId),
+      task.customFields
+    );
+    if ('error' in customFieldResult) {
+      return taskError(400, { message: customFieldResult.error });
+    }
+    updates.customFields = customFieldResult.values;
+  }
+
+  // A task cannot start or be completed while its blockers are still open
+  const isStarting = ['in-progress', 'in-review', 'completed'].includes(updates.status);
+  if (isStarting && updates.status !== task.status) {
+    const openBlockers = await getOpenBlockers(task);
+    if (openBlockers.length > 0) {
+      return taskError(409, {
+        message: `This task is blocked by ${openBlockers.length} open task(s)`,
+        blockedBy: openBlockers,
+      });
+    }
+  }
+
+  // Completing a task with open subtasks, or sending it for review, needs explicit confirmation
+  const isFinishing = (updates.status === 'completed' || updates.status === 'in-review') &&
+    task.status !== 'completed' && task.status !== 'in-review';
+  if (isFinishing && !confirmOpenSubtasks) {
+    const openSubtasks = await countOpenSubtasks(task._id);
+    if (openSubtasks > 0) {
+      return taskError(409, {
+        message: `This task has ${openSubtasks} open subtask(s). Confirm to complete it anyway.`,
+        openSubtasks,
+      });
+    }
+  }
+
+  // A rescheduled task starts its overdue escalation chain again
+  if (updates.dueDate !== undefined && new Date(updates.dueDate).getTime() !== task.dueDate.getTime()) {
+    updates.escalationLevel = 0;
+    updates.escalatedAt = null;
+  }
+
+  // A status change made outside the board puts the task at the top of its new column
+  if (updates.status && updates.status !== task.status && updates.rank === undefined) {
+    updates.rank = null;
+  }
+
+  // Status and waiting changes move the task's SLA clock
+  Object.assign(updates, getSlaUpdates(task, updates));
+
+  // Save original values for notification logic
+  const originalStatus = task.status;
+  const wasRecurring = task.isRecurring;
+  const originalRecurringType = task.recurringType;
+
+  // Update the task
+  const updatedTask = await Task.findByIdAndUpdate(
+    task._id,
+    { $set: updates },
+    { new: true }
+  )
+    .populate('assignedTo', 'name email')
+    .populate('assignees', 'name email')
+    .populate('watchers', 'name email')
+    .populate('createdBy', 'name email')
+    .populate('labels', 'name color')
+    .populate('project', 'name')
+    .populate('sprint', 'name status');
+
+  if (updatedTask) {
+    await recordTaskChanges(task, updatedTask, user._id);
+  }
+
+  // Check if the task is being marked as completed
+  const isNowCompleted = updates.status === 'completed' && originalStatus !== 'completed';
+  
+  // Award points for task completion, shared between the assignees
+  if (isNowCompleted) {
+    await awardCompletionPoints(updatedTask || task);
+  }
+
+  // Create new recurring instance if task was completed
+  if (isNowCompleted && updatedTask?.isRecurring) {
+    await createRecurringTaskInstance(updatedTask);
+  }
+
+  // Let dependent tasks know when their last blocker is done
+  if (isNowCompleted) {
+    await notifyUnblockedTasks(task);
+  }
+
+  // Check if recurring settings changed and need to re-schedule
+  // Fields left out of the update keep their value
+  const recurringChanged = 
+    (body.isRecurring !== undefined && wasRecurring !== body.isRecurring) || 
+    (body.recurringType !== undefined && originalRecurringType !== body.recurringType);
+
+  if (recurringChanged && updatedTask?.isRecurring) {
+    // Replace the open instances with one on the new schedule
+    // Completed and trashed instances are the series' history and stay as they are
+    const openInstances = await Task.find({ parentTaskId: updatedTask._id, status: { $ne: 'completed' } });
+    for (const instance of openInstances) {
+      await recordTaskDeleted(instance, user._id);
+      await trashTask(instance, user._id);
+    }
+    await createRecurringTaskInstance(updatedTask);
+  }
+
+  // Handle notifications
+  // Notify newly added assignees
+  const actorId = user._id.toString();
+  const newAssigneeIds = updatedTask
+    ? getAssigneeIds(updatedTask).filter(assigneeId => !originalAssigneeIds.includes(assigneeId))
+    : [];
+  for (const assigneeId of newAssigneeIds) {
+    if (assigneeId === actorId) continue;
+
+    await createNotification(
+      assigneeId,
+      `You have been assigned to task: ${task.title}. Please accept or decline it.`,
+      'task_assigned',
+      task._id.toString()
+    );
+  }
+
+  // Check if status changed to 'completed'
+  if (isNowCompleted) {
+    // Notify task creator if they're not the one updating it
+    if (task.createdBy.toString() !== user._id.toString()) {
+      await createNotification(
+        task.createdBy.toString(),
+        `Task completed: ${task.title}`,
+        'task_completed',
+        task._id.toString()
+      );
+    }
+  }
+
+  // Ask the creator to review a task sent for review
+  const isNowInReview = updates.status === 'in-review' && originalStatus !== 'in-review';
+  if (isNowInReview && task.createdBy.toString() !== actorId) {
+    await createNotification(
+      task.createdBy.toString(),
+      `Task ready for review: ${task.title}`,
+      'task_updated',
+      task._id.toString()
+    );
+  }
+
+  // Let the other assignees and watchers know about the change
+  if (updatedTask) {
+    const statusChanged = updates.status !== undefined && updates.status !== originalStatus;
+    let message = statusChanged ? `Task status changed to ${updates.status}: ${task.title}` : `Task updated: ${task.title}`;
+    if (review === 'approved') {
+      message = `Task approved: ${task.title}`;
+    } else if (review === 'rejected') {
+      message = `Task sent back from review: ${task.title} - ${updates.rejectionReason}`;
+    }
+
+    await notifyTaskFollowers(
+      updatedTask,
+      message,
+      review === 'approved' ? 'task_completed' : 'task_updated',
+      [actorId, ...newAssigneeIds]
+    );
+  }
+
+  return { task: updatedTask };
+};
+
+// Move a task to the trash and let its assignees and watchers know
+// Deleted tasks are purged after the retention period
+const moveTaskToTrash = async (user: IUser, task: ITask): Promise<void> => {
+  for (const followerId of getFollowerIds(task)) {
+    if (followerId === user._id.toString()) continue;
+
+    await createNotification(
+      followerId,
+      `Task moved to trash: ${task.title}`,
+      'system',
+      undefined
+    );
+  }
+
+  await recordTaskDeleted(task, user._id);
+  await trashTask(task, user._id);
+};
+
 // Create task - requires tasks:create permission
 router.post(
   '/',
@@ -20,6 +562,9 @@ router.post(
     body('title').notEmpty().withMessage('Title is required'),
     body('description').notEmpty().withMessage('Description is required'),
     body('dueDate').isISO8601().withMessage('Valid due date is required'),
+    ...startDateValidation,
+    ...waitingValidation,
+    ...approvalValidation,
     body('priority')
       .isIn(['low', 'medium', 'high'])
       .withMessage('Priority must be low, medium, or high'),
@@ -50,6 +595,28 @@ router.post(
       .optional()
       .isISO8601()
       .withMessage('Valid recurring end date is required'),
+    // Subtask validation
+    body('parentTask')
+      .optional()
+      .isMongoId()
+      .withMessage('Parent task must be a valid task ID'),
+    body('checklist')
+      .optional()
+      .isArray()
+      .withMessage('Checklist must be an array'),
+    body('checklist.*.text')
+      .optional()
+      .notEmpty()
+      .withMessage('Checklist item text cannot be empty'),
+    ...labelValidation,
+    ...assigneeValidation,
+    ...estimateValidation,
+    ...customFieldValidation,
+    body('project')
+      .optional()
+      .isMongoId()
+      .withMessage('Project must be a valid project ID'),
+    ...sprintValidation,
   ],
   async (req: AuthRequest, res: Response) => {
     try {
@@ -68,15 +635,28 @@ router.post(
       const { 
         title, 
         description, 
+        startDate,
         dueDate, 
         priority, 
+        waiting,
+        requiresApproval,
         assignedTo,
         isRecurring,
         recurringType,
         recurringInterval,
         recurringDays,
         recurringDate,
-        recurringEndDate
+        recurringEndDate,
+        parentTask,
+        checklist,
+        labels,
+        project,
+        assignees = [],
+        watchers = [],
+        storyPoints,
+        estimatedHours,
+        customFields,
+        sprint
       } = req.body;
 
       // If assignedTo is missing or invalid, assign to the current user
@@ -120,34 +700,99 @@ router.post(
         return res.status(400).json({ message: 'Recurring type is required for recurring tasks' });
       }
 
-      // Create the task
+      if (isStartAfterDue(startDate, dueDate)) {
+        return res.status(400).json({ message: 'Start date cannot be after the due date' });
+      }
+
+      // Subtasks can only be added to tasks the user can see
+      // and belong to the parent's project unless another one is given
+      let taskProject = project;
+      if (parentTask) {
+        const parent = await Task.findById(parentTask);
+        if (!parent) {
+          return res.status(404).json({ message: 'Parent task not found' });
+        }
+        if (!(await canViewTask(req.user as IUser, parent))) {
+          return res.status(403).json({ message: 'You do not have permission to add subtasks to this task' });
+        }
+        taskProject = taskProject || parent.project?.toString();
+      }
+
+      if (labels && !(await labelsExist(labels))) {
+        return res.status(400).json({ message: 'One or more labels do not exist' });
+      }
+
+      if (!(await usersExist([...assignees, ...watchers]))) {
+        return res.status(400).json({ message: 'One or more assignees or watchers do not exist' });
+      }
+
+      if (taskProject) {
+        const projectError = await getTaskProjectError(req.user as IUser, taskProject);
+        if (projectError) {
+          return res.status(projectError.status).json(projectError.body);
+        }
+      }
+
+      if (sprint) {
+        const sprintError = await getTaskSprintError(sprint, taskProject);
+        if (sprintError) {
+          return res.status(sprintError.status).json(sprintError.body);
+        }
+      }
+
+      // Custom field values are checked against the fields of the task's project
+      const customFieldResult = await validateCustomFieldValues(customFields, await getApplicableFields(taskProject));
+      if ('error' in customFieldResult) {
+        return res.status(400).json({ message: customFieldResult.error });
+      }
+
+      // Create the task - assignees other than the creator have to accept it
+      const assigneeIds = uniqueIds([taskAssignee, ...assignees]);
       const task = new Task({
         title,
         description,
+        startDate: startDate || null,
         dueDate,
         priority,
+        waiting: !!waiting,
+        requiresApproval: !!requiresApproval,
         assignedTo: taskAssignee, // Use the validated assignee
+        assignees: assigneeIds,
+        assignments: buildAssignments([], assigneeIds, (req.user as IUser)._id.toString()),
+        watchers: uniqueIds(watchers),
         createdBy: req.user?._id,
         isRecurring,
         recurringType,
         recurringInterval,
         recurringDays,
         recurringDate,
-        recurringEndDate
+        recurringEndDate,
+        parentTask,
+        checklist,
+        labels: labels ? [...new Set(labels.map(String))] : undefined,
+        project: taskProject,
+        sprint: sprint || null,
+        storyPoints: storyPoints ?? undefined,
+        estimatedHours: estimatedHours ?? undefined,
+        customFields: customFieldResult.values
       });
 
+      await applySlaPolicy(task);
       await task.save();
+      await recordTaskCreated(task, (req.user as IUser)._id);
 
       // If this is a recurring task, generate the first instance
       if (isRecurring) {
         await createRecurringTaskInstance(task);
       }
 
-      // Send notification to assigned user if it's not the creator
-      if (assignedTo !== req.user?._id.toString()) {
+      // Send notification to every assignee except the creator
+      for (const assigneeId of getAssigneeIds(task)) {
+        if (assigneeId === req.user?._id.toString()) continue;
+
         await createNotification(
-          assignedTo,
-          `You have been assigned a new task: ${title}`,
+          assigneeId,
+          `You have been assigned a new task: ${title}. Please accept or decline it.`,
           'task_assigned',
           task._id.toString()
         );
@@ -164,65 +809,154 @@ router.post(
   }
 );
 
+// Build the filter and sort order of a task list request from its query parameters
+// Shared by the task list and the CSV export
+const buildTaskListQuery = async (
+  user: IUser,
+  params: Record<string, any>
+): Promise<{ filter: Record<string, any>; sort: { [key: string]: SortOrder } } | { error: TaskRequestError }> => {
+  const {
+    status,
+    priority,
+    search,
+    assignedTo,
+    createdBy,
+    isRecurring,
+    recurringType,
+    labels,
+    labelMatch = 'any',
+    project,
+    sprint,
+    dueFrom,
+    dueTo,
+    sortBy = 'dueDate',
+    sortOrder = 'asc',
+    customFields,
+  } = params;
+
+  const query: Record<string, any> = {};
+
+  // Apply filters
+  if (status) query.status = status;
+  if (priority) query.priority = priority;
+  if (isRecurring !== undefined) query.isRecurring = isRecurring === 'true';
+  if (recurringType) query.recurringType = recurringType;
+
+  // Due date range, inclusive on both ends - e.g. the days shown in a calendar
+  if (dueFrom || dueTo) {
+    const from = dueFrom ? new Date(String(dueFrom)) : null;
+    const to = dueTo ? new Date(String(dueTo)) : null;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return taskError(400, { message: 'dueFrom and dueTo must be valid dates' });
+    }
+    query.dueDate = { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+  }
+
+  // Sprint filter - a sprint ID, or "none" for tasks outside any sprint
+  if (sprint === 'none') {
+    query.sprint = null;
+  } else if (sprint && mongoose.Types.ObjectId.isValid(String(sprint))) {
+    query.sprint = sprint;
+  }
+
+  // Label filter - comma separated IDs, matching any (default) or all of them
+  if (labels) {
+    const labelIds = String(labels)
+      .split(',')
+      .map(labelId => labelId.trim())
+      .filter(labelId => mongoose.Types.ObjectId.isValid(labelId));
+
+    if (labelIds.length > 0) {
+      query.labels = labelMatch === 'all' ? { $all: labelIds } : { $in: labelIds };
+    }
+  }
+  
+  // Custom field filters, e.g. ?customFields[<fieldId>]=value
+  const customFieldFilters = await buildCustomFieldFilters(customFields);
+  if (customFieldFilters.length > 0) {
+    query.$and = [...(query.$and || []), ...customFieldFilters];
+  }
+  
+  if (search) {
+    query.$or = [
+      { title: { $regex: search, $options: 'i' } },
+      { description: { $regex: search, $options: 'i' } },
+    ];
+  }
+
+  // Role-based access control for task visibility
+  // Managers only see tasks of their team members
+  const visibilityFilter = await getTaskVisibilityFilter(user);
+  
+  if (user.role === 'admin' || user.role === 'manager') {
+    // Admin/manager can filter by specific assignee or creator if requested
+    if (assignedTo) query.$and = [...(query.$and || []), assignedToUserFilter(String(assignedTo))];
+    if (createdBy) query.createdBy = createdBy;
+  }
+
+  // Scope to a single project
+  if (project) {
+    const visibleProject = await findVisibleProject(user, String(project));
+    if (!visibleProject) {
+      return taskError(404, { message: 'Project not found' });
+    }
+    query.project = visibleProject._id;
+  }
+
+  // Create sort object with proper type
+  // Custom fields sort with sortBy=customFields.<fieldId>
+  const sortField = sortBy as string;
+  const sortObj: { [key: string]: SortOrder } = {};
+  sortObj[sortField] = sortOrder === 'asc' ? 1 : -1;
+  // Break ties by ID so equal values keep a stable order, e.g. board ranks set by concurrent moves
+  if (sortField !== '_id') sortObj._id = 1;
+
+  return { filter: { $and: [query, visibilityFilter] }, sort: sortObj };
+};
+
+// Task list parameters of a request
+// A saved view given with ?view=<id> supplies the filters and sort, parameters in the request override them
+const resolveListParams = async (
+  user: IUser,
+  query: Record<string, any>
+): Promise<{ params: Record<string, any> } | { error: TaskRequestError }> => {
+  const { view: viewId, ...params } = query;
+  if (!viewId) return { params };
+
+  const view = await findVisibleView(user, String(viewId));
+  if (!view) {
+    return taskError(404, { message: 'Saved view not found' });
+  }
+  return { params: { ...getViewListParams(view), ...params } };
+};
+
 // Get all tasks (with filters)
+// Run a saved view with ?view=<id>
 // Different behavior based on role:
 // - Admin/Manager - Can see all tasks with optional filters
 // - Regular user - Can only see tasks assigned to them or created by them
 router.get('/', async (req: AuthRequest, res: Response) => {
   try {
-    const {
-      status,
-      priority,
-      search,
-      assignedTo,
-      createdBy,
-      isRecurring,
-      recurringType,
-      sortBy = 'dueDate',
-      sortOrder = 'asc',
-      limit,
-    } = req.query;
-
-    const query: Record<string, any> = {};
-
-    // Apply filters
-    if (status) query.status = status;
-    if (priority) query.priority = priority;
-    if (isRecurring !== undefined) query.isRecurring = isRecurring === 'true';
-    if (recurringType) query.recurringType = recurringType;
-    
-    if (search) {
-      query.$or = [
-        { title: { $regex: search, $options: 'i' } },
-        { description: { $regex: search, $options: 'i' } },
-      ];
+    const listParams = await resolveListParams(req.user as IUser, req.query);
+    if ('error' in listParams) {
+      return res.status(listParams.error.status).json(listParams.error.body);
     }
 
-    // Role-based access control for task visibility
-    const user = req.user as IUser;
-    const canSeeAllTasks = user.role === 'admin' || user.role === 'manager';
-    
-    if (!canSeeAllTasks) {
-      // Regular users can only see tasks assigned to them or created by them
-      query.$or = [
-        { assignedTo: user._id },
-        { createdBy: user._id }
-      ];
-    } else {
-      // Admin/manager can filter by specific assignee or creator if requested
-      if (assignedTo) query.assignedTo = assignedTo;
-      if (createdBy) query.createdBy = createdBy;
+    const result = await buildTaskListQuery(req.user as IUser, listParams.params);
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
     }
+    const { limit } = req.query;
 
-    // Create sort object with proper type
-    const sortField = sortBy as string;
-    const sortObj: { [key: string]: SortOrder } = {};
-    sortObj[sortField] = sortOrder === 'asc' ? 1 : -1;
-
-    let tasksQuery = Task.find(query)
-      .sort(sortObj)
+    let tasksQuery = Task.find(result.filter)
+      .sort(result.sort)
       .populate('assignedTo', 'name email')
-      .populate('createdBy', 'name email');
+      .populate('assignees', 'name email')
+      .populate('watchers', 'name email')
+      .populate('createdBy', 'name email')
+      .populate('labels', 'name color')
+      .populate('project', 'name')
+      .populate('sprint', 'name status');
 
     // Apply limit if specified
     if (limit) {
@@ -231,10 +965,13 @@ router.get('/', async (req: AuthRequest, res: Response) => {
 
     const tasks = await tasksQuery;
 
+    // Include the total logged time of each task
+    const loggedSeconds = await getLoggedSecondsByTask(tasks.map(task => task._id));
+
     // Convert to JSON to remove mongoose specific properties and ensure all tasks have assignedTo name
     const processedTasks = tasks.map(task => {
       const taskObj = task.toJSON();
-      return taskObj;
+      return { ...taskObj, loggedSeconds: loggedSeconds.get(task._id.toString()) || 0 };
     });
 
     res.json(processedTasks);
@@ -244,6 +981,142 @@ router.get('/', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Longest range of projected recurring occurrences returned at once
+const MAX_OCCURRENCE_RANGE_DAYS = 92;
+
+// Get projected occurrences of recurring tasks between dueFrom and dueTo
+// Takes the same filters as the task list; days that already have an instance are left out
+router.get('/recurring/occurrences', async (req: AuthRequest, res: Response) => {
+  try {
+    const { dueFrom, dueTo, ...filters } = req.query;
+    const from = new Date(String(dueFrom));
+    const to = new Date(String(dueTo));
+
+    if (!dueFrom || !dueTo || isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return res.status(400).json({ message: 'A valid dueFrom and dueTo range is required' });
+    }
+    if (to.getTime() - from.getTime() > MAX_OCCURRENCE_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+      return res.status(400).json({ message: `The range cannot be longer than ${MAX_OCCURRENCE_RANGE_DAYS} days` });
+    }
+
+    const result = await buildTaskListQuery(req.user as IUser, { ...filters, isRecurring: 'true' });
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    const recurringTasks = await Task.find({ $and: [result.filter, { parentTaskId: { $exists: false } }] })
+      .populate('assignedTo', 'name email')
+      .populate('project', 'name');
+
+    // Days that already have a real instance, trashed ones included
+    const instances = await Task.find({
+      parentTaskId: { $in: recurringTasks.map(task => task._id) },
+      dueDate: { $gte: from, $lte: to },
+    })
+      .setOptions({ withDeleted: true })
+      .select('parentTaskId dueDate');
+    const instanceDays = new Set(
+      instances.map(instance => `${instance.parentTaskId}-${instance.dueDate.toISOString().split('T')[0]}`)
+    );
+
+    const occurrences = recurringTasks.flatMap(task =>
+      projectRecurringDueDates(task, from, to)
+        .filter(dueDate => !instanceDays.has(`${task._id}-${dueDate.toISOString().split('T')[0]}`))
+        .map(dueDate => ({
+          taskId: task._id,
+          title: task.title,
+          priority: task.priority,
+          assignedTo: task.assignedTo,
+          project: task.project,
+          dueDate,
+        }))
+    );
+
+    res.json(occurrences);
+  } catch (error) {
+    console.error('Get recurring occurrences error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get tasks for the timeline with their dependencies and computed schedule
+// Takes the same filters as the task list; the critical path runs through the returned tasks only
+router.get('/timeline', async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await buildTaskListQuery(req.user as IUser, req.query);
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    const tasks = await Task.find(result.filter)
+      .sort({ dueDate: 1, _id: 1 })
+      .populate('assignedTo', 'name email')
+      .populate('project', 'name');
+
+    const { schedules, criticalPath, deliveryDate } = buildTimelineSchedule(tasks);
+    const taskIds = new Set(tasks.map(task => task._id.toString()));
+
+    res.json({
+      tasks: tasks.map(task => ({
+        _id: task._id,
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        startDate: task.startDate,
+        dueDate: task.dueDate,
+        assignedTo: task.assignedTo,
+        project: task.project,
+        // Only dependencies between returned tasks can be drawn
+        blockedBy: (task.blockedBy || []).map(String).filter(blockerId => taskIds.has(blockerId)),
+        schedule: schedules.get(task._id.toString()),
+      })),
+      criticalPath,
+      deliveryDate,
+    });
+  } catch (error) {
+    console.error('Get task timeline error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Export tasks as CSV - requires reports:export permission
+// Takes the same filters as the task list, with a column for each custom field
+router.get('/export', checkPermission('reports:export'), async (req: AuthRequest, res: Response) => {
+  try {
+    const listParams = await resolveListParams(req.user as IUser, req.query);
+    if ('error' in listParams) {
+      return res.status(listParams.error.status).json(listParams.error.body);
+    }
+
+    const result = await buildTaskListQuery(req.user as IUser, listParams.params);
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    const tasks = await Task.find(result.filter)
+      .sort(result.sort)
+      .populate('assignees', 'name')
+      .populate('labels', 'name')
+      .populate('project', 'name');
+
+    // Only the fields of the exported project, or every field when exporting all tasks
+    // The project can come from the query or from the saved view being exported
+    const { project } = listParams.params;
+    const fields = project
+      ? await getApplicableFields(String(project))
+      : await CustomField.find().sort({ name: 1 });
+
+    const csv = await buildTasksCsv(tasks, fields);
+
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="tasks-${new Date().toISOString().split('T')[0]}.csv"`);
+    res.send(csv);
+  } catch (error) {
+    console.error('Export tasks error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Get task statistics
 router.get('/stats', async (req: AuthRequest, res: Response) => {
   try {
@@ -251,20 +1124,17 @@ router.get('/stats', async (req: AuthRequest, res: Response) => {
       return res.status(401).json({ message: 'Authentication required' });
     }
 
-    const userId = req.user._id;
-    const isAdmin = req.user.role === 'admin';
-    const isManager = req.user.role === 'manager';
-
     // Base query object
-    let baseQuery: any = {};
-    
-    // Role-based filtering
-    if (!isAdmin && !isManager) {
-      // Regular users only see stats for their tasks
-      baseQuery.$or = [
-        { assignedTo: userId },
-        { createdBy: userId }
-      ];
+    // Role-based filtering - stats only cover the tasks the user can see
+    let baseQuery: any = await getTaskVisibilityFilter(req.user);
+
+    // Scope to a single project
+    if (req.query.project) {
+      const project = await findVisibleProject(req.user, String(req.query.project));
+      if (!project) {
+        return res.status(404).json({ message: 'Project not found' });
+      }
+      baseQuery.project = project._id;
     }
 
     // Get counts for each status
@@ -326,341 +1196,1425 @@ router.get('/stats', async (req: AuthRequest, res: Response) => {
       return acc;
     }, {});
 
-    res.json({
-      statusCounts: formattedStatusCounts,
-      priorityCounts: formattedPriorityCounts,
-      dueTodayCount,
-      dueThisWeekCount,
-      overdueCount
-    });
+    res.json({
+      statusCounts: formattedStatusCounts,
+      priorityCounts: formattedPriorityCounts,
+      dueTodayCount,
+      dueThisWeekCount,
+      overdueCount
+    });
+  } catch (error) {
+    console.error('Get task stats error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Update or delete several tasks at once
+// Each task goes through the same checks as a single update or delete,
+// and the response lists which tasks succeeded and which failed
+router.post(
+  '/bulk',
+  [
+    body('taskIds')
+      .isArray({ min: 1, max: 100 })
+      .withMessage('Between 1 and 100 task IDs are required'),
+    body('taskIds.*')
+      .isMongoId()
+      .withMessage('Each task ID must be a valid task ID'),
+    body('action')
+      .isIn(['update', 'delete'])
+      .withMessage('Action must be update or delete'),
+    body('changes.status')
+      .optional()
+      .isIn(['todo', 'in-progress', 'in-review', 'completed'])
+      .withMessage('Invalid status'),
+    body('changes.priority')
+      .optional()
+      .isIn(['low', 'medium', 'high'])
+      .withMessage('Priority must be low, medium, or high'),
+    body('changes.assignedTo')
+      .optional()
+      .isMongoId()
+      .withMessage('Assignee must be a valid user ID'),
+    body('changes.dueDate')
+      .optional()
+      .isISO8601()
+      .withMessage('Valid due date is required'),
+    body('confirmOpenSubtasks').optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const user = req.user as IUser;
+      const { action, confirmOpenSubtasks } = req.body;
+      const taskIds = uniqueIds(req.body.taskIds);
+
+      // Only these fields can be changed in bulk
+      const changes: Record<string, any> = {};
+      ['status', 'priority', 'assignedTo', 'dueDate'].forEach(field => {
+        if (req.body.changes?.[field] !== undefined) changes[field] = req.body.changes[field];
+      });
+
+      if (action === 'update' && Object.keys(changes).length === 0) {
+        return res.status(400).json({ message: 'No changes given' });
+      }
+
+      const succeeded: string[] = [];
+      const failed: { taskId: string; status: number; message: string }[] = [];
+
+      // Tasks are handled one at a time so each is checked against the latest state
+      for (const taskId of taskIds) {
+        try {
+          const task = await Task.findById(taskId);
+          if (!task) {
+            failed.push({ taskId, status: 404, message: 'Task not found' });
+            continue;
+          }
+
+          if (action === 'delete') {
+            if (!(await canDeleteTask(user, task))) {
+              failed.push({ taskId, status: 403, message: 'You do not have permission to delete this task' });
+              continue;
+            }
+            await moveTaskToTrash(user, task);
+          } else {
+            const result = await applyTaskUpdate(user, task, { ...changes, confirmOpenSubtasks });
+            if ('error' in result) {
+              failed.push({ taskId, status: result.error.status, message: result.error.body.message });
+              continue;
+            }
+          }
+
+          succeeded.push(taskId);
+        } catch (error) {
+          console.error('Bulk task error:', taskId, error);
+          failed.push({ taskId, status: 500, message: 'Server error' });
+        }
+      }
+
+      res.json({
+        message: `${succeeded.length} of ${taskIds.length} task(s) ${action === 'delete' ? 'moved to trash' : 'updated'}`,
+        succeeded,
+        failed,
+      });
+    } catch (error) {
+      console.error('Bulk task operation error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Get open tasks that have been escalated for being overdue, most recently escalated first
+// Takes an optional project filter like the task list
+router.get('/escalated', async (req: AuthRequest, res: Response) => {
+  try {
+    const { project } = req.query;
+    if (project && !mongoose.Types.ObjectId.isValid(String(project))) {
+      return res.status(400).json({ message: 'Invalid project ID format' });
+    }
+
+    const visibilityFilter = await getTaskVisibilityFilter(req.user as IUser);
+    const tasks = await Task.find({
+      $and: [
+        visibilityFilter,
+        { escalationLevel: { $gt: 0 }, status: { $ne: 'completed' } },
+        project ? { project } : {},
+      ],
+    })
+      .sort({ escalatedAt: -1 })
+      .limit(20)
+      .populate('assignedTo', 'name email')
+      .populate('project', 'name');
+
+    res.json(tasks);
+  } catch (error) {
+    console.error('Get escalated tasks error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get open tasks nobody is assigned to, e.g. after their assignees declined them
+router.get('/unassigned', async (req: AuthRequest, res: Response) => {
+  try {
+    const { project } = req.query;
+    if (project && !mongoose.Types.ObjectId.isValid(String(project))) {
+      return res.status(400).json({ message: 'Invalid project ID format' });
+    }
+
+    const visibilityFilter = await getTaskVisibilityFilter(req.user as IUser);
+    const tasks = await Task.find({
+      $and: [
+        visibilityFilter,
+        { assignedTo: null, status: { $ne: 'completed' } },
+        project ? { project } : {},
+      ],
+    })
+      .sort({ dueDate: 1 })
+      .limit(50)
+      .populate('assignments.user', 'name email')
+      .populate('createdBy', 'name email')
+      .populate('project', 'name');
+
+    res.json(tasks);
+  } catch (error) {
+    console.error('Get unassigned tasks error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the assignments waiting on the user
+// created - open tasks the user created with pending or declined assignments
+// reassignments - reassignment requests the user decides as admin or team manager
+router.get('/assignment-requests', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user as IUser;
+
+    const created = await Task.find({
+      createdBy: user._id,
+      status: { $ne: 'completed' },
+      'assignments.status': { $in: ['pending', 'declined'] },
+    })
+      .sort({ updatedAt: -1 })
+      .limit(50)
+      .populate('assignments.user', 'name email')
+      .populate('project', 'name');
+
+    let reassignments: ITask[] = [];
+    if (user.role === 'admin' || user.role === 'manager') {
+      const managedUserIds = user.role === 'manager' ? await getManagedUserIds(user._id) : [];
+      const requestFilter = user.role === 'admin'
+        ? { 'assignments.status': 'reassignment_requested' }
+        : { assignments: { $elemMatch: { status: 'reassignment_requested', user: { $in: managedUserIds } } } };
+      reassignments = await Task.find({ ...requestFilter, status: { $ne: 'completed' } })
+        .sort({ updatedAt: -1 })
+        .limit(50)
+        .populate('assignments.user', 'name email')
+        .populate('project', 'name');
+    }
+
+    res.json({ created, reassignments });
+  } catch (error) {
+    console.error('Get assignment requests error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get tasks in the trash
+// Users see trashed tasks they could see before, plus tasks they deleted themselves
+// Recurring instances and subtasks trashed with their parent are listed under the parent only
+router.get('/trash', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user as IUser;
+    const visibilityFilter = await getTaskVisibilityFilter(user);
+
+    const trashedTasks = await Task.find({
+      $and: [{ deletedAt: { $ne: null } }, { $or: [visibilityFilter, { deletedBy: user._id }] }],
+    })
+      .setOptions({ withDeleted: true })
+      .sort({ deletedAt: -1 })
+      .populate('assignedTo', 'name email')
+      .populate('deletedBy', 'name email')
+      .populate('project', 'name');
+
+    const trashedIds = new Set(trashedTasks.map(task => task._id.toString()));
+    const retentionDays = getTrashRetentionDays();
+
+    const tasks = trashedTasks
+      .filter(task => {
+        const parentId = task.parentTask || task.parentTaskId;
+        return !parentId || !trashedIds.has(parentId.toString());
+      })
+      .map(task => {
+        const purgeAt = new Date(task.deletedAt as Date);
+        purgeAt.setDate(purgeAt.getDate() + retentionDays);
+        return { ...task.toJSON(), purgeAt };
+      });
+
+    res.json({ tasks, retentionDays });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get task by ID
+// Users can access tasks they created or are assigned to
+// Admins/Managers can access any task
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const taskId = req.params.id;
+    
+    if (!mongoose.Types.ObjectId.isValid(taskId)) {
+      return res.status(400).json({ message: 'Invalid task ID' });
+    }
+    
+    const task = await Task.findById(taskId)
+      .populate('assignedTo', 'name email')
+      .populate('assignees', 'name email')
+      .populate('assignments.user', 'name email')
+      .populate('watchers', 'name email')
+      .populate('createdBy', 'name email')
+      .populate('labels', 'name color')
+      .populate('project', 'name archived')
+      .populate('sprint', 'name status')
+      .populate('parentTask', 'title status')
+      .populate('blockedBy', 'title status dueDate');
+      
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    
+    // Check if user has permission to view this task
+    if (!(await canViewTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to view this task' });
+    }
+    
+    // Include the subtasks the user can see, and the progress rollup over all of them
+    const visibilityFilter = await getTaskVisibilityFilter(req.user as IUser);
+    const subtasks = await getSubtasks(task._id, visibilityFilter);
+    const progress = calculateTaskProgress(task, await getSubtasks(task._id));
+    
+    // Include the tasks this task is blocking that the user can see
+    const blocks = await Task.find({ $and: [visibilityFilter, { blockedBy: task._id }] }).select('title status dueDate');
+    
+    // Include the total logged time
+    const loggedSeconds = await getTaskLoggedSeconds(task._id);
+    
+    res.json({
+      ...task.toJSON(),
+      subtasks,
+      progress,
+      blocks,
+      loggedSeconds,
+    });
+  } catch (error) {
+    console.error('Get task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Fields a task update can change
+// Board positions change through the move endpoint, escalation and SLA state through the scheduler,
+// review outcomes through the approve and reject endpoints, assignment responses through the assignees,
+// dependencies, subtasks and the trash through their own endpoints
+const UPDATABLE_FIELDS = [
+  'title',
+  'description',
+  'startDate',
+  'dueDate',
+  'priority',
+  'status',
+  'waiting',
+  'requiresApproval',
+  'assignedTo',
+  'assignees',
+  'watchers',
+  'labels',
+  'project',
+  'sprint',
+  'isRecurring',
+  'recurringType',
+  'recurringInterval',
+  'recurringDays',
+  'recurringDate',
+  'recurringEndDate',
+  'storyPoints',
+  'estimatedHours',
+  'customFields',
+  'confirmOpenSubtasks',
+];
+
+// Update task
+router.put(
+  '/:id',
+  [
+    body('title').optional().notEmpty().withMessage('Title cannot be empty'),
+    body('description')
+      .optional()
+      .notEmpty()
+      .withMessage('Description cannot be empty'),
+    body('dueDate')
+      .optional()
+      .isISO8601()
+      .withMessage('Valid due date is required'),
+    ...startDateValidation,
+    ...waitingValidation,
+    ...approvalValidation,
+    body('priority')
+      .optional()
+      .isIn(['low', 'medium', 'high'])
+      .withMessage('Priority must be low, medium, or high'),
+    body('status')
+      .optional()
+      .isIn(['todo', 'in-progress', 'in-review', 'completed'])
+      .withMessage('Invalid status'),
+    // Recurring task validation
+    body('isRecurring').optional().isBoolean(),
+    body('recurringType')
+      .optional()
+      .isIn(['daily', 'weekly', 'monthly', 'custom'])
+      .withMessage('Recurring type must be daily, weekly, monthly, or custom'),
+    body('recurringInterval')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('Recurring interval must be a positive integer'),
+    body('recurringDays')
+      .optional()
+      .isArray()
+      .withMessage('Recurring days must be an array'),
+    body('recurringDays.*')
+      .optional()
+      .isInt({ min: 0, max: 6 })
+      .withMessage('Recurring days must be between 0 and 6'),
+    body('recurringDate')
+      .optional()
+      .isInt({ min: 1, max: 31 })
+      .withMessage('Recurring date must be between 1 and 31'),
+    body('recurringEndDate')
+      .optional()
+      .isISO8601()
+      .withMessage('Valid recurring end date is required'),
+    body('confirmOpenSubtasks').optional().isBoolean(),
+    ...labelValidation,
+    ...assigneeValidation,
+    ...estimateValidation,
+    ...customFieldValidation,
+    body('assignedTo')
+      .optional()
+      .isMongoId()
+      .withMessage('Assignee must be a valid user ID'),
+    body('project')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Project must be a valid project ID'),
+    ...sprintValidation,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+      
+      const { id } = req.params;
+      
+      // Validate if id is a valid ObjectId
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid task ID format' });
+      }
+
+      const task = await Task.findById(id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      // Only these fields can be changed here
+      const updates: Record<string, any> = {};
+      UPDATABLE_FIELDS.forEach(field => {
+        if (req.body[field] !== undefined) updates[field] = req.body[field];
+      });
+
+      const result = await applyTaskUpdate(req.user as IUser, task, updates);
+      if ('error' in result) {
+        return res.status(result.error.status).json(result.error.body);
+      }
+
+      res.json({
+        message: 'Task updated successfully',
+        task: result.task,
+      });
+    } catch (error) {
+      console.error('Update task error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Move a task on the board - sets its status and position in one update
+// The task is placed after beforeTaskId, or before afterTaskId when it becomes the first card,
+// and the move is broadcast to everyone viewing the board
+router.post(
+  '/:id/move',
+  [
+    body('status')
+      .isIn(['todo', 'in-progress', 'in-review', 'completed'])
+      .withMessage('Invalid status'),
+    body('beforeTaskId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('Before task must be a valid task ID'),
+    body('afterTaskId')
+      .optional({ values: 'null' })
+      .isMongoId()
+      .withMessage('After task must be a valid task ID'),
+    body('confirmOpenSubtasks').optional().isBoolean(),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid task ID format' });
+      }
+
+      const task = await Task.findById(id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      const user = req.user as IUser;
+      if (!(await canUpdateTask(user, task))) {
+        return res.status(403).json({ message: 'You do not have permission to update this task' });
+      }
+
+      const { status, beforeTaskId, afterTaskId, confirmOpenSubtasks } = req.body;
+      const rank = await getDropRank(task._id, status, await getTaskVisibilityFilter(user), beforeTaskId, afterTaskId);
+
+      const result = await applyTaskUpdate(user, task, { status, rank, confirmOpenSubtasks });
+      if ('error' in result) {
+        return res.status(result.error.status).json(result.error.body);
+      }
+      if (!result.task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      await emitToBoard(result.task, 'task:moved', {
+        taskId: result.task._id,
+        status: result.task.status,
+        rank: result.task.rank,
+        movedBy: user._id,
+      });
+
+      res.json({
+        message: 'Task moved successfully',
+        task: result.task,
+      });
+    } catch (error) {
+      console.error('Move task error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Load the task from the :id route parameter and check it is in review and the user can review it
+// Sends the error response and returns null otherwise
+const findTaskToReview = async (req: AuthRequest, res: Response): Promise<ITask | null> => {
+  const { id } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ message: 'Invalid task ID format' });
+    return null;
+  }
+
+  const task = await Task.findById(id);
+  if (!task) {
+    res.status(404).json({ message: 'Task not found' });
+    return null;
+  }
+
+  if (!(await canReviewTask(req.user as IUser, task))) {
+    res.status(403).json({ message: 'Only the task creator or a manager can review this task' });
+    return null;
+  }
+
+  if (task.status !== 'in-review') {
+    res.status(400).json({ message: 'Only tasks in review can be approved or rejected' });
+    return null;
+  }
+
+  return task;
+};
+
+// Approve a task in review - it is completed and its assignees get their points
+router.post('/:id/approve', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findTaskToReview(req, res);
+    if (!task) return;
+
+    const user = req.user as IUser;
+    const result = await applyTaskUpdate(
+      user,
+      task,
+      { status: 'completed', reviewedBy: user._id, reviewedAt: new Date(), rejectionReason: null },
+      'approved'
+    );
+    if ('error' in result) {
+      return res.status(result.error.status).json(result.error.body);
+    }
+
+    res.json({
+      message: 'Task approved successfully',
+      task: result.task,
+    });
+  } catch (error) {
+    console.error('Approve task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Reject a task in review - it goes back to in progress with the reason
+router.post(
+  '/:id/reject',
+  [
+    body('reason')
+      .trim()
+      .notEmpty()
+      .withMessage('A reason is required to reject a task')
+      .isLength({ max: 1000 })
+      .withMessage('Reason must be at most 1000 characters'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const task = await findTaskToReview(req, res);
+      if (!task) return;
+
+      const user = req.user as IUser;
+      const result = await applyTaskUpdate(
+        user,
+        task,
+        { status: 'in-progress', reviewedBy: user._id, reviewedAt: new Date(), rejectionReason: req.body.reason },
+        'rejected'
+      );
+      if ('error' in result) {
+        return res.status(result.error.status).json(result.error.body);
+      }
+
+      res.json({
+        message: 'Task sent back to the assignees',
+        task: result.task,
+      });
+    } catch (error) {
+      console.error('Reject task error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete task
+router.delete('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    
+    // Validate if id is a valid ObjectId
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+    
+    const task = await Task.findById(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    // RBAC: Check permissions based on role and ownership
+    // Admin can delete any task
+    // Manager can delete own tasks only
+    // Regular user can delete own tasks only
+    if (!(await canDeleteTask(req.user as IUser, task))) {
+      return res.status(403).json({
+        message: 'You do not have permission to delete this task',
+      });
+    }
+
+    await moveTaskToTrash(req.user as IUser, task);
+
+    res.json({ message: 'Task moved to trash' });
+  } catch (error) {
+    console.error('Delete task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Restore a task from the trash - same permissions as deleting it
+router.post('/:id/restore', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const task = await findTrashedTask(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found in trash' });
+    }
+
+    if (!(await canDeleteTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to restore this task' });
+    }
+
+    if (await isTrashedWithParent(task)) {
+      return res.status(409).json({ message: 'Restore the task this belongs to instead' });
+    }
+
+    await restoreTask(task, (req.user as IUser)._id);
+
+    res.json({ message: 'Task restored successfully' });
+  } catch (error) {
+    console.error('Restore task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Permanently delete a task from the trash - same permissions as deleting it
+router.delete('/:id/permanent', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const task = await findTrashedTask(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found in trash' });
+    }
+
+    if (!(await canDeleteTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to delete this task' });
+    }
+
+    if (await isTrashedWithParent(task)) {
+      return res.status(409).json({ message: 'Delete the task this belongs to instead' });
+    }
+
+    await purgeTask(task);
+
+    res.json({ message: 'Task permanently deleted' });
+  } catch (error) {
+    console.error('Purge task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get subtasks of a task with the progress rollup
+router.get('/:id/subtasks', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const task = await Task.findById(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!(await canViewTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to view this task' });
+    }
+
+    // Progress counts every subtask, the list only those the user can see
+    const subtasks = await getSubtasks(task._id, await getTaskVisibilityFilter(req.user as IUser));
+
+    res.json({
+      subtasks,
+      progress: calculateTaskProgress(task, await getSubtasks(task._id)),
+    });
+  } catch (error) {
+    console.error('Get subtasks error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add a checklist item
+// Anyone who can update the task (creator, admin, or a manager of an assignee) can manage its checklist
+router.post(
+  '/:id/checklist',
+  [body('text').notEmpty().withMessage('Checklist item text is required')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid task ID format' });
+      }
+
+      const task = await Task.findById(id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      if (!(await canUpdateTask(req.user as IUser, task))) {
+        return res.status(403).json({ message: 'You do not have permission to update this task' });
+      }
+
+      const before = snapshotTask(task);
+
+      task.checklist.push({ text: req.body.text, completed: false });
+      await task.save();
+      await recordTaskChanges(before, task, (req.user as IUser)._id);
+
+      res.status(201).json({
+        message: 'Checklist item added',
+        checklist: task.checklist,
+      });
+    } catch (error) {
+      console.error('Add checklist item error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Reorder checklist items
+router.put(
+  '/:id/checklist/reorder',
+  [
+    body('itemIds').isArray().withMessage('Item IDs must be an array'),
+    body('itemIds.*').isMongoId().withMessage('Invalid checklist item ID'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid task ID format' });
+      }
+
+      const task = await Task.findById(id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      if (!(await canUpdateTask(req.user as IUser, task))) {
+        return res.status(403).json({ message: 'You do not have permission to update this task' });
+      }
+
+      const before = snapshotTask(task);
+
+      // The new order must contain every existing item exactly once
+      const itemIds: string[] = req.body.itemIds;
+      const existingIds = task.checklist.map(item => item._id.toString());
+      const isSameSet =
+        itemIds.length === existingIds.length &&
+        new Set(itemIds).size === itemIds.length &&
+        itemIds.every(itemId => existingIds.includes(itemId));
+
+      if (!isSameSet) {
+        return res.status(400).json({ message: 'Item IDs must match the existing checklist items' });
+      }
+
+      const reordered = itemIds.map(itemId => task.checklist.id(itemId)!.toObject());
+      task.set('checklist', reordered);
+      await task.save();
+      await recordTaskChanges(before, task, (req.user as IUser)._id);
+
+      res.json({
+        message: 'Checklist reordered',
+        checklist: task.checklist,
+      });
+    } catch (error) {
+      console.error('Reorder checklist error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Update a checklist item (text or completion)
+router.put(
+  '/:id/checklist/:itemId',
+  [
+    body('text').optional().notEmpty().withMessage('Checklist item text cannot be empty'),
+    body('completed').optional().isBoolean().withMessage('Completed must be a boolean'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id, itemId } = req.params;
+
+      if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(itemId)) {
+        return res.status(400).json({ message: 'Invalid ID format' });
+      }
+
+      const task = await Task.findById(id);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      if (!(await canUpdateTask(req.user as IUser, task))) {
+        return res.status(403).json({ message: 'You do not have permission to update this task' });
+      }
+
+      const before = snapshotTask(task);
+
+      const item = task.checklist.id(itemId);
+      if (!item) {
+        return res.status(404).json({ message: 'Checklist item not found' });
+      }
+
+      if (req.body.text !== undefined) item.text = req.body.text;
+      if (req.body.completed !== undefined) item.completed = req.body.completed;
+      await task.save();
+      await recordTaskChanges(before, task, (req.user as IUser)._id);
+
+      res.json({
+        message: 'Checklist item updated',
+        checklist: task.checklist,
+      });
+    } catch (error) {
+      console.error('Update checklist item error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete a checklist item
+router.delete('/:id/checklist/:itemId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, itemId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(itemId)) {
+      return res.status(400).json({ message: 'Invalid ID format' });
+    }
+
+    const task = await Task.findById(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!(await canUpdateTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to update this task' });
+    }
+
+    const before = snapshotTask(task);
+
+    const item = task.checklist.id(itemId);
+    if (!item) {
+      return res.status(404).json({ message: 'Checklist item not found' });
+    }
+
+    item.deleteOne();
+    await task.save();
+    await recordTaskChanges(before, task, (req.user as IUser)._id);
+
+    res.json({
+      message: 'Checklist item deleted',
+      checklist: task.checklist,
+    });
+  } catch (error) {
+    console.error('Delete checklist item error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get dependencies of a task
+router.get('/:id/dependencies', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const task = await Task.findById(id).populate('blockedBy', 'title status dueDate');
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!(await canViewTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to view this task' });
+    }
+
+    // Only the blocked tasks the user can see are listed
+    const visibilityFilter = await getTaskVisibilityFilter(req.user as IUser);
+    const blocks = await Task.find({ $and: [visibilityFilter, { blockedBy: task._id }] }).select('title status dueDate');
+
+    res.json({
+      blockedBy: task.blockedBy,
+      blocks,
+    });
+  } catch (error) {
+    console.error('Get dependencies error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Add a dependency
+// type 'blocked-by' (default): the task cannot start until taskId is completed
+// type 'blocks': taskId cannot start until the task is completed
+router.post(
+  '/:id/dependencies',
+  [
+    body('taskId').isMongoId().withMessage('Valid task ID is required'),
+    body('type')
+      .optional()
+      .isIn(['blocked-by', 'blocks'])
+      .withMessage('Type must be blocked-by or blocks'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { id } = req.params;
+      const { taskId, type = 'blocked-by' } = req.body;
+
+      if (!mongoose.Types.ObjectId.isValid(id)) {
+        return res.status(400).json({ message: 'Invalid task ID format' });
+      }
+
+      const [task, otherTask] = await Promise.all([Task.findById(id), Task.findById(taskId)]);
+      if (!task || !otherTask) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+
+      // Either task can end up blocked, so the user must be able to update both, the same as removing a dependency
+      const user = req.user as IUser;
+      if (!(await canUpdateTask(user, task)) || !(await canUpdateTask(user, otherTask))) {
+        return res.status(403).json({ message: 'You do not have permission to link these tasks' });
+      }
+
+      const blocked = type === 'blocked-by' ? task : otherTask;
+      const blocker = type === 'blocked-by' ? otherTask : task;
+
+      if (blocked.blockedBy.some(dependency => dependency.toString() === blocker._id.toString())) {
+        return res.status(400).json({ message: 'This dependency already exists' });
+      }
+
+      if (await wouldCreateCycle(blocked._id, blocker._id)) {
+        return res.status(400).json({ message: 'This dependency would create a cycle' });
+      }
+
+      await updateTaskWithActivity(blocked._id, { $addToSet: { blockedBy: blocker._id } }, user._id);
+
+      res.status(201).json({ message: 'Dependency added' });
+    } catch (error) {
+      console.error('Add dependency error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Remove a dependency between two tasks (in either direction)
+router.delete('/:id/dependencies/:dependencyId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id, dependencyId } = req.params;
+
+    if (!mongoose.Types.ObjectId.isValid(id) || !mongoose.Types.ObjectId.isValid(dependencyId)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const [task, otherTask] = await Promise.all([Task.findById(id), Task.findById(dependencyId)]);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    // Both tasks change, so the user must be able to update both
+    // A linked task that no longer exists only needs to be unlinked from this one
+    const user = req.user as IUser;
+    if (!(await canUpdateTask(user, task)) || (otherTask && !(await canUpdateTask(user, otherTask)))) {
+      return res.status(403).json({ message: 'You do not have permission to unlink these tasks' });
+    }
+
+    const actorId = user._id;
+    await updateTaskWithActivity(id, { $pull: { blockedBy: dependencyId } }, actorId);
+    await updateTaskWithActivity(dependencyId, { $pull: { blockedBy: id } }, actorId);
+
+    res.json({ message: 'Dependency removed' });
+  } catch (error) {
+    console.error('Remove dependency error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Watch a task to be notified of its changes - any user who can view it
+router.post('/:id/watch', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const task = await Task.findById(id);
+    if (!task) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    if (!(await canViewTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to view this task' });
+    }
+
+    const updatedTask = await updateTaskWithActivity(id, { $addToSet: { watchers: req.user?._id } }, (req.user as IUser)._id);
+    await updatedTask?.populate('watchers', 'name email');
+
+    res.json({ message: 'You are now watching this task', watchers: updatedTask?.watchers });
+  } catch (error) {
+    console.error('Watch task error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Stop watching a task
+router.delete('/:id/watch', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid task ID format' });
+    }
+
+    const updatedTask = await updateTaskWithActivity(id, { $pull: { watchers: req.user?._id } }, (req.user as IUser)._id);
+    if (!updatedTask) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+    await updatedTask.populate('watchers', 'name email');
+
+    res.json({ message: 'You are no longer watching this task', watchers: updatedTask.watchers });
   } catch (error) {
-    console.error('Get task stats error:', error);
+    console.error('Unwatch task error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// Get task by ID
-// Users can access tasks they created or are assigned to
-// Admins/Managers can access any task
-router.get('/:id', async (req: AuthRequest, res: Response) => {
+// Validation for the reason of a decline or reassignment request
+const assignmentReasonValidation = (message: string) =>
+  body('reason')
+    .trim()
+    .notEmpty()
+    .withMessage(message)
+    .isLength({ max: 1000 })
+    .withMessage('Reason must be at most 1000 characters');
+
+// Let everyone viewing a task know its assignees or their responses changed
+const emitAssignmentChange = (task: ITask) => {
+  emitToTask(task._id.toString(), 'task:assignment', {
+    taskId: task._id,
+    assignedTo: task.assignedTo,
+    assignees: task.assignees,
+    assignments: task.assignments,
+  });
+};
+
+// Reload a task after an atomic assignment update and record what changed in its activity
+const reloadWithActivity = async (before: ITask, actorId: mongoose.Types.ObjectId): Promise<ITask | null> => {
+  const after = await Task.findById(before._id);
+  if (after) {
+    await recordTaskChanges(before, after, actorId);
+  }
+  return after;
+};
+
+const ASSIGNMENT_CONFLICT = 'The assignment was changed in the meantime, reload the task and try again';
+
+// Accept a pending assignment
+router.post('/:id/accept', async (req: AuthRequest, res: Response) => {
   try {
-    const taskId = req.params.id;
-    
-    if (!mongoose.Types.ObjectId.isValid(taskId)) {
-      return res.status(400).json({ message: 'Invalid task ID' });
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const user = req.user as IUser;
+    const userId = user._id.toString();
+    const response = getAssignmentResponse(task, userId);
+    if (!response || response.status !== 'pending') {
+      return res.status(400).json({ message: 'You have no pending assignment on this task' });
     }
-    
-    const task = await Task.findById(taskId)
-      .populate('assignedTo', 'name email')
-      .populate('createdBy', 'name email');
-      
-    if (!task) {
+
+    if (!(await updateAssignmentResponse(task._id, userId, ['pending'], 'accepted'))) {
+      return res.status(409).json({ message: ASSIGNMENT_CONFLICT });
+    }
+    const updatedTask = await reloadWithActivity(task, user._id);
+    if (!updatedTask) {
       return res.status(404).json({ message: 'Task not found' });
     }
-    
-    // Check if user has permission to view this task
-    const user = req.user as IUser;
-    const isCreator = task.createdBy?._id.toString() === user._id.toString();
-    const isAssignee = task.assignedTo?._id.toString() === user._id.toString();
-    const canViewAllTasks = user.role === 'admin' || user.role === 'manager';
-    
-    if (!isCreator && !isAssignee && !canViewAllTasks) {
-      return res.status(403).json({ message: 'You do not have permission to view this task' });
+
+    if (task.createdBy.toString() !== userId) {
+      await createNotification(
+        task.createdBy.toString(),
+        `${user.name} accepted task: ${task.title}`,
+        'task_assigned',
+        task._id.toString()
+      );
     }
-    
-    res.json(task);
+    emitAssignmentChange(updatedTask);
+
+    res.json({ message: 'Assignment accepted', task: updatedTask });
   } catch (error) {
-    console.error('Get task error:', error);
+    console.error('Accept assignment error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
 
-// Update task
-router.put(
-  '/:id',
-  [
-    body('title').optional().notEmpty().withMessage('Title cannot be empty'),
-    body('description')
-      .optional()
-      .notEmpty()
-      .withMessage('Description cannot be empty'),
-    body('dueDate')
-      .optional()
-      .isISO8601()
-      .withMessage('Valid due date is required'),
-    body('priority')
-      .optional()
-      .isIn(['low', 'medium', 'high'])
-      .withMessage('Priority must be low, medium, or high'),
-    body('status')
-      .optional()
-      .isIn(['todo', 'in-progress', 'completed'])
-      .withMessage('Invalid status'),
-    // Recurring task validation
-    body('isRecurring').optional().isBoolean(),
-    body('recurringType')
-      .optional()
-      .isIn(['daily', 'weekly', 'monthly', 'custom'])
-      .withMessage('Recurring type must be daily, weekly, monthly, or custom'),
-    body('recurringInterval')
-      .optional()
-      .isInt({ min: 1 })
-      .withMessage('Recurring interval must be a positive integer'),
-    body('recurringDays')
-      .optional()
-      .isArray()
-      .withMessage('Recurring days must be an array'),
-    body('recurringDays.*')
-      .optional()
-      .isInt({ min: 0, max: 6 })
-      .withMessage('Recurring days must be between 0 and 6'),
-    body('recurringDate')
-      .optional()
-      .isInt({ min: 1, max: 31 })
-      .withMessage('Recurring date must be between 1 and 31'),
-    body('recurringEndDate')
-      .optional()
-      .isISO8601()
-      .withMessage('Valid recurring end date is required'),
-  ],
+// Decline a pending assignment - the user is taken off the task,
+// which goes to the unassigned queue when nobody is left on it
+router.post(
+  '/:id/decline',
+  [assignmentReasonValidation('A reason is required to decline a task')],
   async (req: AuthRequest, res: Response) => {
     try {
       const errors = validationResult(req);
       if (!errors.isEmpty()) {
         return res.status(400).json({ errors: errors.array() });
       }
-      
-      const { id } = req.params;
-      
-      // Validate if id is a valid ObjectId
-      if (!mongoose.Types.ObjectId.isValid(id)) {
-        return res.status(400).json({ message: 'Invalid task ID format' });
-      }
 
-      const task = await Task.findById(id);
-      if (!task) {
-        return res.status(404).json({ message: 'Task not found' });
-      }
+      const task = await findVisibleTask(req, res);
+      if (!task) return;
 
-      // RBAC: Check permissions based on role and ownership
       const user = req.user as IUser;
-      const isTaskCreator = task.createdBy.toString() === user._id.toString();
-      const isAdmin = user.role === 'admin';
-      const isManager = user.role === 'manager';
-      
-      // Admin & Manager can update any task
-      // Regular user can update only their own tasks
-      if (!isTaskCreator && !isAdmin && !isManager) {
-        return res.status(403).json({
-          message: 'You do not have permission to update this task',
-        });
+      const userId = user._id.toString();
+      const response = getAssignmentResponse(task, userId);
+      if (!response || response.status !== 'pending') {
+        return res.status(400).json({ message: 'Only pending assignments can be declined' });
       }
 
-      // Check if this is a child task of a recurring series
-      if (task.parentTaskId && req.body.isRecurring) {
-        return res.status(400).json({
-          message: 'Cannot make a recurring task instance into a recurring task',
-        });
+      const { reason } = req.body;
+      if (!(await updateAssignmentResponse(task._id, userId, ['pending'], 'declined', reason))) {
+        return res.status(409).json({ message: ASSIGNMENT_CONFLICT });
+      }
+      await removeAssignee(task._id, userId);
+      const updatedTask = await reloadWithActivity(task, user._id);
+      if (!updatedTask) {
+        return res.status(404).json({ message: 'Task not found' });
       }
 
-      // Save original values for notification logic
-      const originalAssignee = task.assignedTo.toString();
-      const originalStatus = task.status;
-      const wasRecurring = task.isRecurring;
-      const originalRecurringType = task.recurringType;
-
-      // Update the task
-      const updatedTask = await Task.findByIdAndUpdate(
-        id,
-        { $set: req.body },
-        { new: true }
-      )
-        .populate('assignedTo', 'name email')
-        .populate('createdBy', 'name email');
-
-      // Check if the task is being marked as completed
-      const isNowCompleted = req.body.status === 'completed' && originalStatus !== 'completed';
-      
-      // Award points for task completion
-      if (isNowCompleted) {
-        // Award points based on priority
-        let pointsToAward = 5; // Default points
-        if (task.priority === 'medium') pointsToAward = 10;
-        if (task.priority === 'high') pointsToAward = 15;
-        
-        // Award bonus points for completing before the due date
-        const now = new Date();
-        const dueDate = new Date(task.dueDate);
-        if (now < dueDate) {
-          // Bonus for early completion
-          pointsToAward += 5;
-        }
-        
-        // Update user's points
-        await User.findByIdAndUpdate(
-          task.assignedTo,
-          { $inc: { points: pointsToAward } },
-          { new: false }
-        );
-        
-        // Check for achievements
-        const user = await User.findById(task.assignedTo);
-        const completedTasks = await Task.countDocuments({ 
-          assignedTo: task.assignedTo,
-          status: 'completed'
-        });
-        
-        // Achievement: First Task Completed
-        if (completedTasks === 1 && !user?.achievements.includes('first_task')) {
-          await User.findByIdAndUpdate(
-            task.assignedTo,
-            { $push: { achievements: 'first_task' } }
-          );
-          
-          // Notify about achievement
-          await createNotification(
-            task.assignedTo.toString(),
-            `Achievement Unlocked: Completed your first task!`,
-            'achievement',
-            undefined
-          );
-        }
-        
-        // Achievement: 5 Tasks Completed
-        if (completedTasks === 5 && !user?.achievements.includes('five_tasks')) {
-          await User.findByIdAndUpdate(
-            task.assignedTo,
-            { $push: { achievements: 'five_tasks' } }
-          );
-          
-          // Notify about achievement
-          await createNotification(
-            task.assignedTo.toString(),
-            `Achievement Unlocked: Completed 5 tasks!`,
-            'achievement',
-            undefined
-          );
-        }
-        
-        // Notify user about points earned
+      if (task.createdBy.toString() !== userId) {
         await createNotification(
-          task.assignedTo.toString(),
-          `You earned ${pointsToAward} points for completing: ${task.title}`,
-          'points_earned',
+          task.createdBy.toString(),
+          updatedTask.assignedTo
+            ? `${user.name} declined task: ${task.title} - ${reason}`
+            : `${user.name} declined task: ${task.title} - ${reason}. It is now unassigned.`,
+          'task_assigned',
           task._id.toString()
         );
       }
+      emitAssignmentChange(updatedTask);
+
+      res.json({ message: 'Assignment declined', task: updatedTask });
+    } catch (error) {
+      console.error('Decline assignment error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
 
-      // Create new recurring instance if task was completed
-      if (isNowCompleted && updatedTask?.isRecurring) {
-        await createRecurringTaskInstance(updatedTask);
+// Ask to be taken off a task - the managers of the user's teams decide, or the admins
+router.post(
+  '/:id/reassignment',
+  [assignmentReasonValidation('A reason is required to request reassignment')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
       }
 
-      // Check if recurring settings changed and need to re-schedule
-      const recurringChanged = 
-        wasRecurring !== req.body.isRecurring || 
-        originalRecurringType !== req.body.recurringType;
+      const task = await findVisibleTask(req, res);
+      if (!task) return;
 
-      if (recurringChanged && updatedTask?.isRecurring) {
-        // Re-create next instance with new settings
-        await Task.deleteMany({ parentTaskId: updatedTask._id });
-        await createRecurringTaskInstance(updatedTask);
+      const user = req.user as IUser;
+      const userId = user._id.toString();
+      const response = getAssignmentResponse(task, userId);
+      if (!response || !['pending', 'accepted'].includes(response.status)) {
+        return res.status(400).json({ message: 'You can only request reassignment from a task you are assigned to' });
+      }
+
+      const { reason } = req.body;
+      const requested = await updateAssignmentResponse(
+        task._id,
+        userId,
+        ['pending', 'accepted'],
+        'reassignment_requested',
+        reason
+      );
+      if (!requested) {
+        return res.status(409).json({ message: ASSIGNMENT_CONFLICT });
+      }
+      const updatedTask = await reloadWithActivity(task, user._id);
+      if (!updatedTask) {
+        return res.status(404).json({ message: 'Task not found' });
       }
 
-      // Handle notifications
-      // Check if assignee changed
-      if (req.body.assignedTo && req.body.assignedTo !== originalAssignee) {
-        // Notify new assignee
+      for (const deciderId of await getReassignmentDeciderIds(userId)) {
+        if (deciderId === userId) continue;
+
         await createNotification(
-          req.body.assignedTo,
-          `You have been assigned to task: ${task.title}`,
+          deciderId,
+          `${user.name} asked to be reassigned from task: ${task.title} - ${reason}`,
           'task_assigned',
           task._id.toString()
         );
       }
+      emitAssignmentChange(updatedTask);
 
-      // Check if status changed to 'completed'
-      if (req.body.status === 'completed' && originalStatus !== 'completed') {
-        // Notify task creator if they're not the one updating it
-        if (task.createdBy.toString() !== req.user?._id.toString()) {
-          await createNotification(
-            task.createdBy.toString(),
-            `Task completed: ${task.title}`,
-            'task_completed',
-            task._id.toString()
-          );
-        }
+      res.json({ message: 'Reassignment requested', task: updatedTask });
+    } catch (error) {
+      console.error('Request reassignment error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Load the task from the :id route parameter and the reassignment request of the :userId assignee,
+// and check the user can decide on it
+// Sends the error response and returns null otherwise
+const findReassignmentRequest = async (req: AuthRequest, res: Response): Promise<ITask | null> => {
+  const { userId } = req.params;
+  if (!mongoose.Types.ObjectId.isValid(userId)) {
+    res.status(400).json({ message: 'Invalid user ID format' });
+    return null;
+  }
+
+  const task = await findVisibleTask(req, res);
+  if (!task) return null;
+
+  if (getAssignmentResponse(task, userId)?.status !== 'reassignment_requested') {
+    res.status(400).json({ message: 'This user has not requested reassignment' });
+    return null;
+  }
+
+  if (!(await canDecideReassignment(req.user as IUser, userId))) {
+    res.status(403).json({ message: 'Only a manager of the assignee can decide on this request' });
+    return null;
+  }
+
+  return task;
+};
+
+// Approve a reassignment request - the requester is taken off the task and can be replaced
+// by another user; without a replacement a task with nobody left goes to the unassigned queue
+router.post(
+  '/:id/reassignment/:userId/approve',
+  [body('assignedTo').optional({ nullable: true }).isMongoId().withMessage('Invalid replacement user ID')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const task = await findReassignmentRequest(req, res);
+      if (!task) return;
+
+      const user = req.user as IUser;
+      const { userId } = req.params;
+      const replacementId: string | undefined = req.body.assignedTo || undefined;
+      if (replacementId === userId) {
+        return res.status(400).json({ message: 'The replacement must be someone other than the requester' });
+      }
+      if (replacementId && !(await usersExist([replacementId]))) {
+        return res.status(400).json({ message: 'Replacement user does not exist' });
+      }
+
+      // Taking the request off the task first makes sure only one decision goes through
+      if (!(await removeAssignmentResponse(task._id, userId, 'reassignment_requested'))) {
+        return res.status(409).json({ message: 'This reassignment request was already decided' });
+      }
+      await removeAssignee(task._id, userId);
+
+      // A replacement for the primary assignee takes over as primary
+      const originalAssigneeIds = getAssigneeIds(task);
+      if (replacementId) {
+        await addPendingAssignee(task._id, replacementId, task.assignedTo?.toString() === userId);
+      }
+      const updatedTask = await reloadWithActivity(task, user._id);
+      if (!updatedTask) {
+        return res.status(404).json({ message: 'Task not found' });
       }
 
-      // If task was updated by someone other than assignee, notify assignee
-      if (
-        req.user?._id.toString() !== originalAssignee &&
-        (req.body.assignedTo === undefined || req.body.assignedTo === originalAssignee)
-      ) {
+      await createNotification(
+        userId,
+        `Your reassignment request was approved, you are no longer assigned to task: ${task.title}`,
+        'task_assigned',
+        task._id.toString()
+      );
+      if (replacementId && !originalAssigneeIds.includes(replacementId) && replacementId !== user._id.toString()) {
         await createNotification(
-          originalAssignee,
-          `Task updated: ${task.title}`,
-          'task_updated',
+          replacementId,
+          `You have been assigned to task: ${task.title}. Please accept or decline it.`,
+          'task_assigned',
           task._id.toString()
         );
       }
+      emitAssignmentChange(updatedTask);
 
       res.json({
-        message: 'Task updated successfully',
+        message: updatedTask.assignedTo ? 'Reassignment approved' : 'Reassignment approved, the task is now unassigned',
         task: updatedTask,
       });
     } catch (error) {
-      console.error('Update task error:', error);
+      console.error('Approve reassignment error:', error);
       res.status(500).json({ message: 'Server error' });
     }
   }
 );
 
-// Delete task
-router.delete('/:id', async (req: AuthRequest, res: Response) => {
+// Deny a reassignment request - the requester stays on the task
+router.post('/:id/reassignment/:userId/reject', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findReassignmentRequest(req, res);
+    if (!task) return;
+
+    const user = req.user as IUser;
+    const { userId } = req.params;
+    if (!(await updateAssignmentResponse(task._id, userId, ['reassignment_requested'], 'accepted'))) {
+      return res.status(409).json({ message: 'This reassignment request was already decided' });
+    }
+    const updatedTask = await reloadWithActivity(task, user._id);
+    if (!updatedTask) {
+      return res.status(404).json({ message: 'Task not found' });
+    }
+
+    await createNotification(
+      userId,
+      `Your reassignment request was denied, you stay assigned to task: ${task.title}`,
+      'task_assigned',
+      task._id.toString()
+    );
+    emitAssignmentChange(updatedTask);
+
+    res.json({ message: 'Reassignment denied', task: updatedTask });
+  } catch (error) {
+    console.error('Reject reassignment error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get the activity history of a task, newest first
+router.get('/:id/activity', async (req: AuthRequest, res: Response) => {
   try {
     const { id } = req.params;
-    
-    // Validate if id is a valid ObjectId
     if (!mongoose.Types.ObjectId.isValid(id)) {
       return res.status(400).json({ message: 'Invalid task ID format' });
     }
-    
+
     const task = await Task.findById(id);
     if (!task) {
       return res.status(404).json({ message: 'Task not found' });
     }
 
-    // RBAC: Check permissions based on role and ownership
-    const user = req.user as IUser;
-    const isTaskCreator = task.createdBy.toString() === user._id.toString();
-    const isAdmin = user.role === 'admin';
-    const isManager = user.role === 'manager';
-    
-    // Admin can delete any task
-    // Manager can delete own tasks only
-    // Regular user can delete own tasks only
-    if (!isTaskCreator && !isAdmin) {
-      return res.status(403).json({
-        message: 'You do not have permission to delete this task',
-      });
-    }
-
-    // Notify assignee if they're not the one deleting it
-    if (task.assignedTo.toString() !== req.user?._id.toString()) {
-      await createNotification(
-        task.assignedTo.toString(),
-        `Task deleted: ${task.title}`,
-        'system',
-        undefined
-      );
+    if (!(await canViewTask(req.user as IUser, task))) {
+      return res.status(403).json({ message: 'You do not have permission to view this task' });
     }
 
-    await task.deleteOne();
+    const activity = await getTaskActivity(task._id);
 
-    res.json({ message: 'Task deleted successfully' });
+    res.json(activity);
   } catch (error) {
-    console.error('Delete task error:', error);
+    console.error('Get task activity error:', error);
     res.status(500).json({ message: 'Server error' });
   }
 });
@@ -677,12 +2631,16 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
         message: 'You do not have permission to access analytics data' 
       });
     }
+
+    // Managers only see analytics for their team members' tasks
+    const { taskFilter, userIds } = await getAnalyticsScope(user);
     
     // Task completion statistics
-    const totalTasks = await Task.countDocuments({});
-    const completedTasks = await Task.countDocuments({ status: 'completed' });
-    const inProgressTasks = await Task.countDocuments({ status: 'in-progress' });
-    const todoTasks = await Task.countDocuments({ status: 'todo' });
+    const totalTasks = await Task.countDocuments(taskFilter);
+    const completedTasks = await Task.countDocuments({ ...taskFilter, status: 'completed' });
+    const inProgressTasks = await Task.countDocuments({ ...taskFilter, status: 'in-progress' });
+    const inReviewTasks = await Task.countDocuments({ ...taskFilter, status: 'in-review' });
+    const todoTasks = await Task.countDocuments({ ...taskFilter, status: 'todo' });
     
     // Calculate completion rate
     const completionRate = totalTasks > 0 
@@ -695,6 +2653,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
     lastMonth.setMonth(lastMonth.getMonth() - 1);
     
     const lastMonthCompleted = await Task.countDocuments({
+      ...taskFilter,
       status: 'completed',
       updatedAt: { $lt: currentDate, $gt: lastMonth }
     });
@@ -703,6 +2662,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
     twoMonthsAgo.setMonth(twoMonthsAgo.getMonth() - 2);
     
     const twoMonthsAgoCompleted = await Task.countDocuments({
+      ...taskFilter,
       status: 'completed',
       updatedAt: { $lt: lastMonth, $gt: twoMonthsAgo }
     });
@@ -713,15 +2673,10 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
       : 0;
     
     // Get user statistics
-    const activeUsers = await User.countDocuments({});
+    const activeUsers = userIds ? userIds.length : await User.countDocuments({});
     
     // Find top user by task completion
-    const completionsByUser = await Task.aggregate([
-      { $match: { status: 'completed' } },
-      { $group: { _id: '$assignedTo', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $limit: 1 }
-    ]);
+    const completionsByUser = await countCompletionsByAssignee(taskFilter, userIds, 1);
     
     let topUser = null;
     if (completionsByUser.length > 0) {
@@ -736,6 +2691,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
     
     // Calculate average completion time (in days)
     const completedTasksWithDates = await Task.find({
+      ...taskFilter,
       status: 'completed',
       createdAt: { $exists: true },
       updatedAt: { $exists: true }
@@ -761,6 +2717,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
     
     // Calculate on-time rate (using due date)
     const tasksWithDueDate = await Task.find({
+      ...taskFilter,
       status: 'completed',
       dueDate: { $exists: true },
       updatedAt: { $exists: true }
@@ -783,12 +2740,14 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
     
     // Calculate on-time change
     const lastMonthOnTime = await Task.countDocuments({
+      ...taskFilter,
       status: 'completed',
       updatedAt: { $lt: currentDate, $gt: lastMonth },
       $expr: { $lte: [{ $toDate: "$updatedAt" }, { $toDate: "$dueDate" }] }
     });
     
     const lastMonthTasksWithDueDate = await Task.countDocuments({
+      ...taskFilter,
       status: 'completed',
       updatedAt: { $lt: currentDate, $gt: lastMonth },
       dueDate: { $exists: true }
@@ -799,12 +2758,14 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
       : 0;
     
     const twoMonthsAgoOnTime = await Task.countDocuments({
+      ...taskFilter,
       status: 'completed',
       updatedAt: { $lt: lastMonth, $gt: twoMonthsAgo },
       $expr: { $lte: [{ $toDate: "$updatedAt" }, { $toDate: "$dueDate" }] }
     });
     
     const twoMonthsAgoTasksWithDueDate = await Task.countDocuments({
+      ...taskFilter,
       status: 'completed',
       updatedAt: { $lt: lastMonth, $gt: twoMonthsAgo },
       dueDate: { $exists: true }
@@ -820,6 +2781,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
     
     // Get task distribution by priority
     const priorityDistribution = await Task.aggregate([
+      { $match: taskFilter },
       { $group: { _id: '$priority', count: { $sum: 1 } } }
     ]);
     
@@ -829,6 +2791,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
         total: totalTasks,
         completed: completedTasks,
         inProgress: inProgressTasks,
+        inReview: inReviewTasks,
         todo: todoTasks,
         rate: completionRate,
         change: completionChange
@@ -847,6 +2810,7 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
         status: {
           completed: completedTasks,
           'in-progress': inProgressTasks,
+          'in-review': inReviewTasks,
           todo: todoTasks
         },
         priority: Object.fromEntries(
@@ -862,6 +2826,64 @@ router.get('/analytics/summary', async (req: AuthRequest, res: Response) => {
   }
 });
 
+// Compare estimates with logged time on completed tasks, per user and per priority
+router.get('/analytics/estimates', async (req: AuthRequest, res: Response) => {
+  try {
+    // Check for admin or manager role
+    const user = req.user as IUser;
+    const canAccessAnalytics = user.role === 'admin' || user.role === 'manager';
+    
+    if (!canAccessAnalytics) {
+      return res.status(403).json({ 
+        message: 'You do not have permission to access analytics data' 
+      });
+    }
+
+    // Managers only see analytics for their team members' tasks
+    const { taskFilter, userIds } = await getAnalyticsScope(user);
+
+    const report = await buildEstimateReport(taskFilter, userIds);
+    
+    res.json(report);
+  } catch (error) {
+    console.error('Estimate analytics error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// SLA compliance of the tasks created in a date range, 30 days back by default
+router.get('/analytics/sla', async (req: AuthRequest, res: Response) => {
+  try {
+    // Check for admin or manager role
+    const user = req.user as IUser;
+    const canAccessAnalytics = user.role === 'admin' || user.role === 'manager';
+
+    if (!canAccessAnalytics) {
+      return res.status(403).json({
+        message: 'You do not have permission to access analytics data'
+      });
+    }
+
+    const to = req.query.to ? new Date(req.query.to as string) : new Date();
+    const from = req.query.from
+      ? new Date(req.query.from as string)
+      : new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return res.status(400).json({ message: 'Invalid date range' });
+    }
+
+    // Managers only see analytics for their team members' tasks
+    const { taskFilter } = await getAnalyticsScope(user);
+
+    const report = await buildSlaReport(taskFilter, from, to);
+
+    res.json(report);
+  } catch (error) {
+    console.error('SLA analytics error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
 // Get user performance analytics
 router.get('/analytics/user-performance', async (req: AuthRequest, res: Response) => {
   try {
@@ -874,14 +2896,12 @@ router.get('/analytics/user-performance', async (req: AuthRequest, res: Response
         message: 'You do not have permission to access analytics data' 
       });
     }
+
+    // Managers only see analytics for their team members' tasks
+    const scope = await getAnalyticsScope(user);
     
-    // Get task completion counts per user
-    const userPerformance = await Task.aggregate([
-      { $match: { status: 'completed' } },
-      { $group: { _id: '$assignedTo', count: { $sum: 1 } } },
-      { $sort: { count: -1 } },
-      { $limit: 10 } // Limit to top 10 users
-    ]);
+    // Get task completion counts per user, limited to top 10 users
+    const userPerformance = await countCompletionsByAssignee(scope.taskFilter, scope.userIds, 10);
     
     // Populate user names
     const userIds = userPerformance.map(item => item._id);
@@ -919,6 +2939,9 @@ router.get('/analytics/completion-trend', async (req: AuthRequest, res: Response
         message: 'You do not have permission to access analytics data' 
       });
     }
+
+    // Managers only see analytics for their team members' tasks
+    const { taskFilter } = await getAnalyticsScope(user);
     
     // Get completion trend for the last 8 weeks
     const currentDate = new Date();
@@ -934,12 +2957,14 @@ router.get('/analytics/completion-trend', async (req: AuthRequest, res: Response
       
       // Count completed tasks in this week
       const completedCount = await Task.countDocuments({
+        ...taskFilter,
         status: 'completed',
         updatedAt: { $gte: startDate, $lt: endDate }
       });
       
       // Count total tasks that existed during this week
       const totalTasksCount = await Task.countDocuments({
+        ...taskFilter,
         createdAt: { $lt: endDate }
       });
       
@@ -982,7 +3007,7 @@ router.get('/:id/motivation', async (req: AuthRequest, res: Response) => {
     
     // Check if user is assigned to this task
     const user = req.user as IUser;
-    const isAssignee = task.assignedTo.toString() === user._id.toString();
+    const isAssignee = getAssigneeIds(task).includes(user._id.toString());
     
     if (!isAssignee) {
       return res.status(403).json({ message: 'You are not assigned to this task' });
@@ -1061,9 +3086,9 @@ router.get('/:id/motivation', async (req: AuthRequest, res: Response) => {
     const pointsMessage = pointsMessages[Math.floor(Math.random() * pointsMessages.length)];
     
     // Get task completion stats for the user
-    const totalAssigned = await Task.countDocuments({ assignedTo: user._id });
+    const totalAssigned = await Task.countDocuments(assignedToUserFilter(user._id));
     const completedTasks = await Task.countDocuments({ 
-      assignedTo: user._id,
+      ...assignedToUserFilter(user._id),
       status: 'completed'
     });
     const completionRate = totalAssigned > 0 ? Math.round((completedTasks / totalAssigned) * 100) : 0;
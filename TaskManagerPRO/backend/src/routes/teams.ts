@@ -0,0 +1,223 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { Team } from '../models/Team';
+import { User, IUser } from '../models/User';
+import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+
+const router = express.Router();
+
+// All team routes require authentication
+router.use(authenticateToken);
+
+const teamValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .notEmpty()
+    .withMessage('Team name cannot be empty')
+    .isLength({ max: 100 })
+    .withMessage('Team name must be at most 100 characters'),
+  body('description').optional().isString(),
+  body('members')
+    .optional()
+    .isArray()
+    .withMessage('Members must be an array'),
+  body('members.*')
+    .optional()
+    .isMongoId()
+    .withMessage('Each member must be a valid user ID'),
+  body('managers')
+    .optional()
+    .isArray()
+    .withMessage('Managers must be an array'),
+  body('managers.*')
+    .optional()
+    .isMongoId()
+    .withMessage('Each manager must be a valid user ID'),
+];
+
+// Check members exist and managers are users with the manager role
+// Returns an error message, or null when the lists are valid
+const validateTeamUsers = async (members: string[] = [], managers: string[] = []): Promise<string | null> => {
+  const memberIds = [...new Set(members.map(String))];
+  const memberCount = await User.countDocuments({ _id: { $in: memberIds } });
+  if (memberCount !== memberIds.length) {
+    return 'One or more members do not exist';
+  }
+
+  const managerIds = [...new Set(managers.map(String))];
+  const managerCount = await User.countDocuments({ _id: { $in: managerIds }, role: 'manager' });
+  if (managerCount !== managerIds.length) {
+    return 'Team managers must be existing users with the manager role';
+  }
+
+  return null;
+};
+
+const uniqueIds = (ids: string[]) => [...new Set(ids.map(String))];
+
+// Get teams
+// Admin - all teams, others - teams they manage or belong to
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const user = req.user as IUser;
+    const query = user.role === 'admin'
+      ? {}
+      : { $or: [{ managers: user._id }, { members: user._id }] };
+
+    const teams = await Team.find(query)
+      .sort({ name: 1 })
+      .populate('members', 'name email role')
+      .populate('managers', 'name email role');
+
+    res.json(teams);
+  } catch (error) {
+    console.error('Get teams error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Get team by ID
+router.get('/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid team ID format' });
+    }
+
+    const team = await Team.findById(id)
+      .populate('members', 'name email role')
+      .populate('managers', 'name email role');
+
+    if (!team) {
+      return res.status(404).json({ message: 'Team not found' });
+    }
+
+    const user = req.user as IUser;
+    const userId = user._id.toString();
+    const belongsToTeam = [...team.members, ...team.managers].some(
+      (teamUser: any) => teamUser._id.toString() === userId
+    );
+
+    if (!belongsToTeam && user.role !== 'admin') {
+      return res.status(403).json({ message: 'You do not have permission to view this team' });
+    }
+
+    res.json(team);
+  } catch (error) {
+    console.error('Get team error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Create team - requires teams:manage permission
+router.post(
+  '/',
+  checkPermission('teams:manage'),
+  [body('name').exists().withMessage('Team name is required'), ...teamValidation],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { name, description, members = [], managers = [] } = req.body;
+
+      const validationError = await validateTeamUsers(members, managers);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const team = new Team({
+        name,
+        description,
+        members: uniqueIds(members),
+        managers: uniqueIds(managers),
+      });
+
+      await team.save();
+      await team.populate('members', 'name email role');
+      await team.populate('managers', 'name email role');
+
+      res.status(201).json({
+        message: 'Team created successfully',
+        team,
+      });
+    } catch (error) {
+      console.error('Create team error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Update team - requires teams:manage permission
+router.put('/:id', checkPermission('teams:manage'), teamValidation, async (req: AuthRequest, res: Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid team ID format' });
+    }
+
+    const team = await Team.findById(id);
+    if (!team) {
+      return res.status(404).json({ message: 'Team not found' });
+    }
+
+    const { name, description, members, managers } = req.body;
+
+    const validationError = await validateTeamUsers(members, managers);
+    if (validationError) {
+      return res.status(400).json({ message: validationError });
+    }
+
+    if (name !== undefined) team.name = name;
+    if (description !== undefined) team.description = description;
+    if (members !== undefined) {
+      team.members = uniqueIds(members).map(memberId => new mongoose.Types.ObjectId(memberId));
+    }
+    if (managers !== undefined) {
+      team.managers = uniqueIds(managers).map(managerId => new mongoose.Types.ObjectId(managerId));
+    }
+
+    await team.save();
+    await team.populate('members', 'name email role');
+    await team.populate('managers', 'name email role');
+
+    res.json({
+      message: 'Team updated successfully',
+      team,
+    });
+  } catch (error) {
+    console.error('Update team error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Delete team - requires teams:manage permission
+router.delete('/:id', checkPermission('teams:manage'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { id } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({ message: 'Invalid team ID format' });
+    }
+
+    const team = await Team.findByIdAndDelete(id);
+    if (!team) {
+      return res.status(404).json({ message: 'Team not found' });
+    }
+
+    res.json({ message: 'Team deleted successfully' });
+  } catch (error) {
+    console.error('Delete team error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,170 @@
+import express, { Response } from 'express';
+import { body, query, validationResult } from 'express-validator';
+import mongoose from 'mongoose';
+import { TimeEntry } from '../models/TimeEntry';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import {
+  getRunningTimer,
+  stopTimer,
+  canEditTimeEntry,
+  canViewTimesheet,
+  getWeeklyTimesheet,
+} from '../services/timeTrackingService';
+
+const router = express.Router();
+
+// All time tracking routes require authentication
+router.use(authenticateToken);
+
+// Get the current user's running timer, or null
+router.get('/running', async (req: AuthRequest, res: Response) => {
+  try {
+    const entry = await getRunningTimer((req.user as IUser)._id);
+    res.json({ entry });
+  } catch (error) {
+    console.error('Get running timer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Stop the current user's running timer
+router.post('/stop', async (req: AuthRequest, res: Response) => {
+  try {
+    const entry = await getRunningTimer((req.user as IUser)._id);
+    if (!entry) {
+      return res.status(404).json({ message: 'No timer is running' });
+    }
+
+    await stopTimer(entry);
+
+    res.json({
+      message: 'Timer stopped',
+      entry,
+    });
+  } catch (error) {
+    console.error('Stop timer error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Weekly timesheet for the current user, or ?userId= for admins and team managers
+// ?week= is any date in the week, defaulting to the current week
+router.get(
+  '/timesheet',
+  [
+    query('week').optional().isISO8601().withMessage('Week must be a valid date'),
+    query('userId').optional().isMongoId().withMessage('User ID must be a valid user ID'),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const user = req.user as IUser;
+      const userId = req.query.userId ? String(req.query.userId) : user._id.toString();
+
+      if (!(await canViewTimesheet(user, userId))) {
+        return res.status(403).json({ message: 'You do not have permission to view this timesheet' });
+      }
+
+      const week = req.query.week ? new Date(String(req.query.week)) : new Date();
+      const timesheet = await getWeeklyTimesheet(userId, week);
+
+      res.json(timesheet);
+    } catch (error) {
+      console.error('Get timesheet error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Edit a time entry - running timers can only have their note changed
+router.put(
+  '/:entryId',
+  [
+    body('startedAt').optional().isISO8601().withMessage('Valid start time is required'),
+    body('endedAt').optional().isISO8601().withMessage('Valid end time is required'),
+    body('note').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { entryId } = req.params;
+      if (!mongoose.Types.ObjectId.isValid(entryId)) {
+        return res.status(400).json({ message: 'Invalid time entry ID format' });
+      }
+
+      const entry = await TimeEntry.findById(entryId);
+      if (!entry) {
+        return res.status(404).json({ message: 'Time entry not found' });
+      }
+
+      if (!(await canEditTimeEntry(req.user as IUser, entry))) {
+        return res.status(403).json({ message: 'You do not have permission to edit this time entry' });
+      }
+
+      const { startedAt, endedAt, note } = req.body;
+
+      if (entry.isRunning && (startedAt !== undefined || endedAt !== undefined)) {
+        return res.status(400).json({ message: 'Stop the timer before changing its times' });
+      }
+
+      if (startedAt !== undefined) entry.startedAt = new Date(startedAt);
+      if (endedAt !== undefined) entry.endedAt = new Date(endedAt);
+      if (note !== undefined) entry.note = note;
+
+      if (entry.endedAt && entry.endedAt <= entry.startedAt) {
+        return res.status(400).json({ message: 'End time must be after start time' });
+      }
+      if (entry.endedAt && entry.endedAt > new Date()) {
+        return res.status(400).json({ message: 'Time cannot be logged in the future' });
+      }
+
+      await entry.save();
+      await entry.populate('user', 'name email');
+
+      res.json({
+        message: 'Time entry updated successfully',
+        entry,
+      });
+    } catch (error) {
+      console.error('Update time entry error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Delete a time entry
+router.delete('/:entryId', async (req: AuthRequest, res: Response) => {
+  try {
+    const { entryId } = req.params;
+    if (!mongoose.Types.ObjectId.isValid(entryId)) {
+      return res.status(400).json({ message: 'Invalid time entry ID format' });
+    }
+
+    const entry = await TimeEntry.findById(entryId);
+    if (!entry) {
+      return res.status(404).json({ message: 'Time entry not found' });
+    }
+
+    if (!(await canEditTimeEntry(req.user as IUser, entry))) {
+      return res.status(403).json({ message: 'You do not have permission to delete this time entry' });
+    }
+
+    await entry.deleteOne();
+
+    res.json({ message: 'Time entry deleted successfully' });
+  } catch (error) {
+    console.error('Delete time entry error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,138 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { TimeEntry } from '../models/TimeEntry';
+import { IUser } from '../models/User';
+import { AuthRequest, authenticateToken } from '../middleware/auth';
+import { findVisibleTask } from '../services/taskAccessService';
+import { getRunningTimer, getTaskLoggedSeconds } from '../services/timeTrackingService';
+
+// Mounted under /api/tasks/:id/time
+const router = express.Router({ mergeParams: true });
+
+// All time entry routes require authentication
+router.use(authenticateToken);
+
+// List time entries of a task with the total logged time
+router.get('/', async (req: AuthRequest, res: Response) => {
+  try {
+    const task = await findVisibleTask(req, res);
+    if (!task) return;
+
+    const entries = await TimeEntry.find({ task: task._id })
+      .sort({ startedAt: -1 })
+      .populate('user', 'name email');
+
+    const totalSeconds = await getTaskLoggedSeconds(task._id);
+
+    res.json({ entries, totalSeconds });
+  } catch (error) {
+    console.error('Get time entries error:', error);
+    res.status(500).json({ message: 'Server error' });
+  }
+});
+
+// Start a timer on a task - a user can only have one running timer
+router.post(
+  '/start',
+  [body('note').optional().isString().isLength({ max: 500 })],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const task = await findVisibleTask(req, res);
+      if (!task) return;
+
+      const runningTimer = await getRunningTimer((req.user as IUser)._id);
+      if (runningTimer) {
+        return res.status(409).json({
+          message: 'You already have a running timer. Stop it before starting another.',
+          entry: runningTimer,
+        });
+      }
+
+      const entry = new TimeEntry({
+        task: task._id,
+        user: req.user?._id,
+        startedAt: new Date(),
+        isRunning: true,
+        note: req.body.note,
+        source: 'timer',
+      });
+
+      try {
+        await entry.save();
+      } catch (error: any) {
+        // Another timer was started at the same moment
+        if (error?.code === 11000) {
+          return res.status(409).json({ message: 'You already have a running timer. Stop it before starting another.' });
+        }
+        throw error;
+      }
+
+      await entry.populate('task', 'title');
+
+      res.status(201).json({
+        message: 'Timer started',
+        entry,
+      });
+    } catch (error) {
+      console.error('Start timer error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+// Log time manually
+router.post(
+  '/',
+  [
+    body('startedAt').isISO8601().withMessage('Valid start time is required'),
+    body('endedAt').isISO8601().withMessage('Valid end time is required'),
+    body('note').optional().isString().isLength({ max: 500 }),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const task = await findVisibleTask(req, res);
+      if (!task) return;
+
+      const startedAt = new Date(req.body.startedAt);
+      const endedAt = new Date(req.body.endedAt);
+      if (endedAt <= startedAt) {
+        return res.status(400).json({ message: 'End time must be after start time' });
+      }
+      if (endedAt > new Date()) {
+        return res.status(400).json({ message: 'Time cannot be logged in the future' });
+      }
+
+      const entry = new TimeEntry({
+        task: task._id,
+        user: req.user?._id,
+        startedAt,
+        endedAt,
+        note: req.body.note,
+        source: 'manual',
+      });
+
+      await entry.save();
+      await entry.populate('user', 'name email');
+
+      res.status(201).json({
+        message: 'Time logged successfully',
+        entry,
+      });
+    } catch (error) {
+      console.error('Log time error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
+export default router;
@@ -2,6 +2,7 @@ import express, { Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { User } from '../models/User';
 import { AuthRequest, authenticateToken, checkPermission } from '../middleware/auth';
+import { MIN_REMINDER_OFFSET, MAX_REMINDER_OFFSET, MAX_REMINDER_OFFSETS } from '../services/reminderService';
 
 const router = express.Router();
 
@@ -94,6 +95,44 @@ router.put(
   }
 );
 
+// Update when the user is reminded of upcoming due dates
+// Offsets are minutes before the due date; an empty list turns reminders off
+router.put(
+  '/reminders',
+  [
+    body('reminderOffsets')
+      .isArray({ max: MAX_REMINDER_OFFSETS })
+      .withMessage(`Reminder offsets must be a list of at most ${MAX_REMINDER_OFFSETS} values`),
+    body('reminderOffsets.*')
+      .isInt({ min: MIN_REMINDER_OFFSET, max: MAX_REMINDER_OFFSET })
+      .withMessage(`Each reminder offset must be between ${MIN_REMINDER_OFFSET} minutes and ${MAX_REMINDER_OFFSET / (24 * 60)} days`),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const reminderOffsets = [...new Set<number>(req.body.reminderOffsets.map(Number))].sort((a, b) => b - a);
+
+      const updatedUser = await User.findByIdAndUpdate(
+        req.user?._id,
+        { $set: { reminderOffsets } },
+        { new: true }
+      ).select('-password');
+
+      res.json({
+        message: 'Reminder settings updated successfully',
+        user: updatedUser,
+      });
+    } catch (error) {
+      console.error('Update reminder settings error:', error);
+      res.status(500).json({ message: 'Server error' });
+    }
+  }
+);
+
 // Update user's password
 router.put(
   '/password',
@@ -0,0 +1,35 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../../models/Task';
+import { diffTaskFields } from '../activityService';
+
+const buildTask = (overrides: Record<string, any> = {}): ITask =>
+  new Task({ title: 'Task', dueDate: new Date('2024-03-04T12:00:00Z'), createdBy: new mongoose.Types.ObjectId(), ...overrides });
+
+describe('diffTaskFields', () => {
+  it('records checklist changes as readable items in their order', () => {
+    const before = buildTask({ checklist: [{ text: 'Draft' }, { text: 'Review' }] });
+    const after = buildTask({ checklist: [{ text: 'Review', completed: true }, { text: 'Draft' }] });
+
+    expect(diffTaskFields(before, after)).toEqual([
+      { field: 'checklist', oldValue: ['[ ] Draft', '[ ] Review'], newValue: ['[x] Review', '[ ] Draft'] },
+    ]);
+  });
+
+  it('records custom field changes by field ID', () => {
+    const fieldId = new mongoose.Types.ObjectId().toString();
+    const before = buildTask();
+    const after = buildTask({ customFields: { [fieldId]: 'major' } });
+
+    expect(diffTaskFields(before, after)).toEqual([
+      { field: 'customFields', oldValue: null, newValue: { [fieldId]: 'major' } },
+    ]);
+  });
+
+  it('ignores custom fields that did not change', () => {
+    const fieldId = new mongoose.Types.ObjectId().toString();
+    const before = buildTask({ customFields: { [fieldId]: 3 } });
+    const after = buildTask({ customFields: { [fieldId]: 3 }, title: 'Renamed' });
+
+    expect(diffTaskFields(before, after).map(change => change.field)).toEqual(['title']);
+  });
+});
@@ -0,0 +1,131 @@
+import mongoose from 'mongoose';
+import { Task } from '../../models/Task';
+import {
+  buildAssignments,
+  getAssignmentResponse,
+  updateAssignmentResponse,
+  removeAssignmentResponse,
+  addPendingAssignee,
+} from '../assignmentService';
+
+jest.mock('../../index', () => ({ createNotification: jest.fn() }));
+
+const id = () => new mongoose.Types.ObjectId();
+
+const updateResult = (matchedCount: number) =>
+  ({ acknowledged: true, matchedCount, modifiedCount: matchedCount, upsertedCount: 0, upsertedId: null }) as any;
+
+describe('buildAssignments', () => {
+  it('keeps existing responses and asks new assignees to accept', () => {
+    const kept = id().toString();
+    const added = id().toString();
+    const current = [{ user: new mongoose.Types.ObjectId(kept), status: 'accepted' as const, reason: null, respondedAt: new Date() }];
+
+    const assignments = buildAssignments(current, [kept, added], id().toString());
+
+    expect(assignments).toHaveLength(2);
+    expect(assignments[0].status).toBe('accepted');
+    expect(assignments[1].user.toString()).toBe(added);
+    expect(assignments[1].status).toBe('pending');
+  });
+
+  it('counts self-assignment as accepted', () => {
+    const actor = id().toString();
+
+    const [assignment] = buildAssignments([], [actor], actor);
+
+    expect(assignment.status).toBe('accepted');
+  });
+});
+
+describe('getAssignmentResponse', () => {
+  it('treats assignees without a response as accepted', () => {
+    const assignee = id();
+    const task = new Task({ title: 'Task', dueDate: new Date(), createdBy: id(), assignedTo: assignee, assignees: [assignee] });
+
+    expect(getAssignmentResponse(task, assignee.toString())?.status).toBe('accepted');
+    expect(getAssignmentResponse(task, id().toString())).toBeNull();
+  });
+});
+
+describe('updateAssignmentResponse', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('updates only the matching response of the user', async () => {
+    const updateOne = jest.spyOn(Task, 'updateOne').mockResolvedValue(updateResult(1));
+    const taskId = id();
+    const userId = id().toString();
+
+    const updated = await updateAssignmentResponse(taskId, userId, ['pending'], 'declined', 'On leave');
+
+    expect(updated).toBe(true);
+    expect(updateOne).toHaveBeenCalledTimes(1);
+    const [filter, update] = updateOne.mock.calls[0] as any[];
+    expect(filter._id).toBe(taskId);
+    expect(filter.deletedAt).toBeNull();
+    expect(filter.assignments.$elemMatch.user.toString()).toBe(userId);
+    expect(filter.assignments.$elemMatch.status).toEqual({ $in: ['pending'] });
+    expect(update.$set['assignments.$.status']).toBe('declined');
+    expect(update.$set['assignments.$.reason']).toBe('On leave');
+  });
+
+  it('reports a conflict when the response was already answered', async () => {
+    jest.spyOn(Task, 'updateOne').mockResolvedValue(updateResult(0));
+
+    expect(await updateAssignmentResponse(id(), id().toString(), ['pending'], 'accepted')).toBe(false);
+  });
+
+  it('gives assignees without a response one before changing it', async () => {
+    const updateOne = jest.spyOn(Task, 'updateOne').mockResolvedValue(updateResult(1));
+    const userId = id().toString();
+
+    await updateAssignmentResponse(id(), userId, ['pending', 'accepted'], 'reassignment_requested', 'Too busy');
+
+    expect(updateOne).toHaveBeenCalledTimes(2);
+    const [filter, update] = updateOne.mock.calls[0] as any[];
+    expect(filter.assignees).toBe(userId);
+    expect(filter['assignments.user']).toEqual({ $ne: userId });
+    expect(update.$push.assignments.status).toBe('accepted');
+  });
+});
+
+describe('removeAssignmentResponse', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reports a conflict when the request was already decided', async () => {
+    jest.spyOn(Task, 'updateOne').mockResolvedValue(updateResult(0));
+
+    expect(await removeAssignmentResponse(id(), id().toString(), 'reassignment_requested')).toBe(false);
+  });
+});
+
+describe('addPendingAssignee', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('adds a replacement for the primary assignee as primary', async () => {
+    const updateOne = jest.spyOn(Task, 'updateOne').mockResolvedValue(updateResult(1));
+    const userId = id().toString();
+
+    expect(await addPendingAssignee(id(), userId, true)).toBe(true);
+
+    const [, push] = updateOne.mock.calls[1] as any[];
+    expect(push.$push.assignees.$position).toBe(0);
+    expect(push.$push.assignments.status).toBe('pending');
+    const [primaryFilter, primary] = updateOne.mock.calls[2] as any[];
+    expect(primaryFilter.assignedTo).toBeUndefined();
+    expect(primary.$set.assignedTo.toString()).toBe(userId);
+  });
+
+  it('leaves users already on the task as they are', async () => {
+    const updateOne = jest.spyOn(Task, 'updateOne').mockResolvedValue(updateResult(0));
+
+    expect(await addPendingAssignee(id(), id().toString(), false)).toBe(false);
+    expect(updateOne).toHaveBeenCalledTimes(2);
+  });
+});
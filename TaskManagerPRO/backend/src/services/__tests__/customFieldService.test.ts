@@ -0,0 +1,103 @@
+import mongoose from 'mongoose';
+import { CustomField, ICustomField } from '../../models/CustomField';
+import { User } from '../../models/User';
+import { validateCustomFieldValues } from '../customFieldService';
+
+const buildField = (overrides: Record<string, any>): ICustomField =>
+  new CustomField({ createdBy: new mongoose.Types.ObjectId(), ...overrides });
+
+const severityField = buildField({ name: 'Severity', type: 'select', options: ['minor', 'major'], required: true });
+const costField = buildField({ name: 'Cost', type: 'number' });
+const tagsField = buildField({ name: 'Tags', type: 'multiselect', options: ['ui', 'api'] });
+const linkField = buildField({ name: 'Link', type: 'url' });
+const ownerField = buildField({ name: 'Owner', type: 'user' });
+const fields = [severityField, costField, tagsField, linkField, ownerField];
+
+const key = (field: ICustomField) => field._id.toString();
+
+describe('validateCustomFieldValues', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('stores values in the form of their field type', async () => {
+    const result = await validateCustomFieldValues(
+      {
+        [key(severityField)]: 'major',
+        [key(costField)]: '12.5',
+        [key(tagsField)]: ['ui', 'ui', 'api'],
+        [key(linkField)]: 'https://example.com/issue',
+      },
+      fields
+    );
+
+    expect(result).toEqual({
+      values: {
+        [key(severityField)]: 'major',
+        [key(costField)]: 12.5,
+        [key(tagsField)]: ['ui', 'api'],
+        [key(linkField)]: 'https://example.com/issue',
+      },
+    });
+  });
+
+  it('rejects values that do not fit the field type', async () => {
+    const invalid: [ICustomField, any, string][] = [
+      [costField, 'many', 'Cost must be a number'],
+      [severityField, 'critical', 'Severity must be one of: minor, major'],
+      [tagsField, ['ui', 'db'], 'Tags must be a list of: ui, api'],
+      [linkField, 'javascript:alert(1)', 'Link must be an http or https URL'],
+      [ownerField, 'not-an-id', 'Owner must be an existing user'],
+    ];
+
+    for (const [field, value, error] of invalid) {
+      const submitted = { [key(severityField)]: 'minor', [key(field)]: value };
+      expect(await validateCustomFieldValues(submitted, fields)).toEqual({ error });
+    }
+  });
+
+  it('checks a user field refers to an existing user', async () => {
+    const userId = new mongoose.Types.ObjectId();
+    jest.spyOn(User, 'exists').mockResolvedValue(null);
+
+    const result = await validateCustomFieldValues(
+      { [key(severityField)]: 'minor', [key(ownerField)]: userId.toString() },
+      fields
+    );
+
+    expect(result).toEqual({ error: 'Owner must be an existing user' });
+  });
+
+  it('rejects fields that do not apply to the task', async () => {
+    const result = await validateCustomFieldValues({ [new mongoose.Types.ObjectId().toString()]: 'x' }, fields);
+    expect(result).toHaveProperty('error');
+  });
+
+  it('requires required fields on new tasks', async () => {
+    expect(await validateCustomFieldValues({}, fields)).toEqual({ error: 'Severity is required' });
+  });
+
+  it('keeps current values and lets existing tasks leave required fields untouched', async () => {
+    const current = new Map<string, any>([[key(severityField), 'minor'], [key(costField), 3]]);
+
+    const result = await validateCustomFieldValues({ [key(costField)]: null }, fields, current);
+
+    expect(result).toEqual({ values: { [key(severityField)]: 'minor' } });
+  });
+
+  it('does not let existing tasks clear a required field', async () => {
+    const current = new Map<string, any>([[key(severityField), 'minor']]);
+
+    const result = await validateCustomFieldValues({ [key(severityField)]: '' }, fields, current);
+
+    expect(result).toEqual({ error: 'Severity is required' });
+  });
+
+  it('drops values of fields that no longer apply', async () => {
+    const current = new Map<string, any>([[key(severityField), 'major'], ['5f0000000000000000000000', 'old']]);
+
+    const result = await validateCustomFieldValues(undefined, fields, current);
+
+    expect(result).toEqual({ values: { [key(severityField)]: 'major' } });
+  });
+});
@@ -0,0 +1,57 @@
+import mongoose from 'mongoose';
+import { Task } from '../../models/Task';
+import { User } from '../../models/User';
+import { canViewTask } from '../taskAccessService';
+import { parseMentionTokens, resolveMentions } from '../mentionService';
+
+jest.mock('../taskAccessService', () => ({ canViewTask: jest.fn() }));
+
+const mockedCanViewTask = canViewTask as jest.MockedFunction<typeof canViewTask>;
+
+describe('parseMentionTokens', () => {
+  it('collects every name a mention could refer to', () => {
+    const { names } = parseMentionTokens('Thanks @Ann Lee, can you check?');
+    expect(names).toEqual(['Ann', 'Ann Lee', 'Ann Lee, can', 'Ann Lee, can you', 'Ann Lee, can you check']);
+  });
+
+  it('keeps separate mentions apart', () => {
+    const { names } = parseMentionTokens('@Ann @Bob');
+    expect(names).toEqual(['Ann', 'Bob']);
+  });
+
+  it('parses email mentions', () => {
+    expect(parseMentionTokens('cc @Bob@Example.com.').emails).toEqual(['bob@example.com']);
+  });
+
+  it('ignores @ inside words', () => {
+    expect(parseMentionTokens('mail me at ann@example.com')).toEqual({ names: [], emails: [] });
+  });
+});
+
+describe('resolveMentions', () => {
+  const task = new Task({ title: 'Task', dueDate: new Date(), createdBy: new mongoose.Types.ObjectId() });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    mockedCanViewTask.mockReset();
+  });
+
+  it('does not query users without mentions', async () => {
+    const find = jest.spyOn(User, 'find');
+
+    expect(await resolveMentions('No mentions here', task)).toEqual([]);
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('only keeps mentioned users who can view the task', async () => {
+    const ann = new User({ name: 'Ann', email: 'ann@example.com', password: 'secret' });
+    const bob = new User({ name: 'Bob', email: 'bob@example.com', password: 'secret' });
+    const select = jest.fn().mockResolvedValue([ann, bob]);
+    jest.spyOn(User, 'find').mockReturnValue({ select } as any);
+    mockedCanViewTask.mockImplementation(async user => user === ann);
+
+    const mentioned = await resolveMentions('@Ann and @Bob', task);
+
+    expect(mentioned).toEqual([ann]);
+  });
+});
@@ -0,0 +1,23 @@
+import { splitPoints } from '../pointsService';
+
+jest.mock('../../index', () => ({ createNotification: jest.fn() }));
+
+describe('splitPoints', () => {
+  it('gives a single assignee all the points', () => {
+    expect(splitPoints(15, 1)).toEqual([15]);
+  });
+
+  it('splits points evenly when they divide', () => {
+    expect(splitPoints(20, 4)).toEqual([5, 5, 5, 5]);
+  });
+
+  it('hands the points left over to the first assignees so the total is kept', () => {
+    const shares = splitPoints(10, 3);
+    expect(shares).toEqual([4, 3, 3]);
+    expect(shares.reduce((sum, share) => sum + share, 0)).toBe(10);
+  });
+
+  it('leaves later assignees without points when there are more assignees than points', () => {
+    expect(splitPoints(2, 3)).toEqual([1, 1, 0]);
+  });
+});
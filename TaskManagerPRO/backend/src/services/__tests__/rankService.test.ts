@@ -0,0 +1,92 @@
+import mongoose from 'mongoose';
+import { Task } from '../../models/Task';
+import { rankBetween, rankUnrankedTasks } from '../rankService';
+
+// Mimic a query chain ending in select()
+const query = (result: any) => ({
+  sort: () => ({ select: jest.fn().mockResolvedValue(result) }),
+}) as any;
+
+describe('rankBetween', () => {
+  it('ranks between two ranks', () => {
+    const rank = rankBetween('a', 'c');
+    expect(rank > 'a' && rank < 'c').toBe(true);
+  });
+
+  it('ranks between adjacent ranks by making the key longer', () => {
+    const rank = rankBetween('a', 'b');
+    expect(rank > 'a' && rank < 'b').toBe(true);
+  });
+
+  it('ranks at the start and the end', () => {
+    expect(rankBetween(null, 'a') < 'a').toBe(true);
+    expect(rankBetween('a', null) > 'a').toBe(true);
+  });
+
+  it('keeps appended keys short', () => {
+    let rank: string | null = null;
+    for (let i = 0; i < 50; i++) {
+      const next = rankBetween(rank, null);
+      expect(rank === null || next > rank).toBe(true);
+      rank = next;
+    }
+    expect(rank!.length).toBeLessThanOrEqual(2);
+  });
+
+  it('keeps finding room when cards keep going to the same place', () => {
+    const before = 'M';
+    let after = 'N';
+    for (let i = 0; i < 100; i++) {
+      const rank = rankBetween(before, after);
+      expect(rank > before && rank < after).toBe(true);
+      after = rank;
+    }
+  });
+
+  it('keeps finding room before the first card', () => {
+    let first = 'V';
+    for (let i = 0; i < 100; i++) {
+      const rank = rankBetween(null, first);
+      expect(rank < first).toBe(true);
+      expect(rank.endsWith('0')).toBe(false);
+      first = rank;
+    }
+  });
+
+  it('rejects ranks out of order', () => {
+    expect(() => rankBetween('b', 'a')).toThrow();
+    expect(() => rankBetween('a', 'a')).toThrow();
+  });
+});
+
+describe('rankUnrankedTasks', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('only ranks the unranked tasks of the column in scope, before the first ranked task', async () => {
+    const ids = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+    const find = jest.spyOn(Task, 'find').mockReturnValue(query(ids.map(_id => ({ _id }))));
+    jest.spyOn(Task, 'findOne').mockReturnValue(query({ rank: 'M' }));
+    const updateOne = jest.spyOn(Task, 'updateOne').mockResolvedValue({} as any);
+    const scope = { project: new mongoose.Types.ObjectId() };
+
+    await rankUnrankedTasks('todo', scope);
+
+    expect(find).toHaveBeenCalledWith({ $and: [scope, { status: 'todo', rank: null }] });
+    const ranks = updateOne.mock.calls.map(([filter, update]: any[]) => ({ id: filter._id, rank: update.$set.rank }));
+    expect(ranks.map(({ id }) => id)).toEqual([ids[1], ids[0]]);
+    // Creation order is kept, and all of them stay before the ranked tasks
+    expect(ranks[1].rank < ranks[0].rank).toBe(true);
+    expect(ranks[0].rank < 'M').toBe(true);
+  });
+
+  it('does nothing when every task in scope is ranked', async () => {
+    jest.spyOn(Task, 'find').mockReturnValue(query([]));
+    const findOne = jest.spyOn(Task, 'findOne');
+
+    await rankUnrankedTasks('completed', {});
+
+    expect(findOne).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,144 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../../models/Task';
+import { Sprint } from '../../models/Sprint';
+import { createRecurringTaskInstance, projectRecurringDueDates } from '../recurringTaskService';
+
+jest.mock('../../index', () => ({ createNotification: jest.fn() }));
+jest.mock('../slaService', () => ({ applySlaPolicy: jest.fn() }));
+
+const id = () => new mongoose.Types.ObjectId();
+
+const buildParent = (overrides: Record<string, any> = {}): ITask => {
+  const assignee = id();
+  return new Task({
+    title: 'Weekly report',
+    description: 'Send the weekly report',
+    dueDate: new Date('2024-03-04T12:00:00Z'),
+    priority: 'high',
+    status: 'completed',
+    assignedTo: assignee,
+    assignees: [assignee],
+    labels: [id(), id()],
+    project: id(),
+    sprint: id(),
+    createdBy: assignee,
+    isRecurring: true,
+    recurringType: 'daily',
+    recurringInterval: 7,
+    ...overrides,
+  });
+};
+
+describe('createRecurringTaskInstance', () => {
+  beforeEach(() => {
+    jest.spyOn(Task.prototype, 'save').mockImplementation(function (this: ITask) {
+      return Promise.resolve(this);
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('copies the project and labels of the parent', async () => {
+    jest.spyOn(Sprint, 'findById').mockResolvedValue(null);
+    const parent = buildParent();
+
+    const instance = await createRecurringTaskInstance(parent);
+
+    expect(instance?.project?.toString()).toBe(parent.project?.toString());
+    expect(instance?.labels.map(String)).toEqual(parent.labels.map(String));
+    expect(instance?.parentTaskId?.toString()).toBe(parent._id.toString());
+    expect(instance?.status).toBe('todo');
+    expect(instance?.dueDate.toISOString()).toBe('2024-03-11T12:00:00.000Z');
+  });
+
+  it('keeps the sprint while it is open and runs until the instance is due', async () => {
+    const parent = buildParent();
+    jest.spyOn(Sprint, 'findById').mockResolvedValue({
+      _id: parent.sprint,
+      status: 'active',
+      endDate: new Date('2024-03-15T00:00:00Z'),
+    } as any);
+
+    const instance = await createRecurringTaskInstance(parent);
+
+    expect(instance?.sprint?.toString()).toBe(parent.sprint?.toString());
+  });
+
+  it('moves the instance to the backlog when the sprint ends before it is due', async () => {
+    const parent = buildParent();
+    jest.spyOn(Sprint, 'findById').mockResolvedValue({
+      _id: parent.sprint,
+      status: 'active',
+      endDate: new Date('2024-03-08T00:00:00Z'),
+    } as any);
+
+    const instance = await createRecurringTaskInstance(parent);
+
+    expect(instance?.sprint).toBeNull();
+  });
+
+  it('moves the instance to the backlog when the sprint is closed', async () => {
+    const parent = buildParent();
+    jest.spyOn(Sprint, 'findById').mockResolvedValue({
+      _id: parent.sprint,
+      status: 'closed',
+      endDate: new Date('2024-04-01T00:00:00Z'),
+    } as any);
+
+    const instance = await createRecurringTaskInstance(parent);
+
+    expect(instance?.sprint).toBeNull();
+  });
+});
+
+describe('projectRecurringDueDates', () => {
+  // Local dates, as the recurrence steps through calendar days
+  const day = (year: number, month: number, date: number) => new Date(year, month - 1, date, 12);
+  const days = (dates: Date[]) => dates.map(date => `${date.getMonth() + 1}/${date.getDate()}`);
+
+  it('projects the occurrences within the range, after the due date', () => {
+    const task = buildParent({ dueDate: day(2024, 3, 4), recurringType: 'daily', recurringInterval: 2 });
+
+    const dueDates = projectRecurringDueDates(task, day(2024, 3, 7), day(2024, 3, 14));
+
+    expect(days(dueDates)).toEqual(['3/8', '3/10', '3/12', '3/14']);
+  });
+
+  it('follows the days of the week of a weekly task', () => {
+    // Monday, repeating on Mondays and Thursdays
+    const task = buildParent({ dueDate: day(2024, 3, 4), recurringType: 'weekly', recurringDays: [1, 4] });
+
+    const dueDates = projectRecurringDueDates(task, day(2024, 3, 1), day(2024, 3, 18));
+
+    expect(days(dueDates)).toEqual(['3/7', '3/11', '3/14', '3/18']);
+  });
+
+  it('uses the last day of shorter months for a monthly day that does not exist', () => {
+    const task = buildParent({ dueDate: day(2024, 1, 31), recurringType: 'monthly', recurringDate: 31 });
+
+    const dueDates = projectRecurringDueDates(task, day(2024, 1, 1), day(2024, 4, 30));
+
+    expect(days(dueDates)).toEqual(['2/29', '3/31', '4/30']);
+  });
+
+  it('stops at the recurrence end date', () => {
+    const task = buildParent({
+      dueDate: day(2024, 3, 4),
+      recurringType: 'daily',
+      recurringInterval: 1,
+      recurringEndDate: day(2024, 3, 6),
+    });
+
+    const dueDates = projectRecurringDueDates(task, day(2024, 3, 1), day(2024, 3, 31));
+
+    expect(days(dueDates)).toEqual(['3/5', '3/6']);
+  });
+
+  it('returns nothing for a range before the next occurrence', () => {
+    const task = buildParent({ dueDate: day(2024, 3, 4) });
+
+    expect(projectRecurringDueDates(task, day(2024, 2, 1), day(2024, 3, 10))).toEqual([]);
+  });
+});
@@ -0,0 +1,83 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../../models/Task';
+import { IUser } from '../../models/User';
+import { canReviewTask } from '../taskAccessService';
+import { getReviewUpdateError, needsReview } from '../reviewService';
+
+jest.mock('../taskAccessService', () => ({ canReviewTask: jest.fn() }));
+
+const mockedCanReviewTask = canReviewTask as jest.MockedFunction<typeof canReviewTask>;
+
+const user = { _id: new mongoose.Types.ObjectId(), role: 'user' } as IUser;
+
+const buildTask = (overrides: Record<string, any> = {}): ITask =>
+  new Task({
+    title: 'Release notes',
+    dueDate: new Date('2024-03-04T12:00:00Z'),
+    createdBy: new mongoose.Types.ObjectId(),
+    status: 'in-progress',
+    requiresApproval: true,
+    ...overrides,
+  });
+
+describe('needsReview', () => {
+  it('sends a completed task that requires approval into review', () => {
+    expect(needsReview(buildTask(), { status: 'completed' })).toBe(true);
+  });
+
+  it('goes by the stored flag when the update drops it at the same time', () => {
+    expect(needsReview(buildTask(), { status: 'completed', requiresApproval: false })).toBe(true);
+  });
+
+  it('completes tasks without an approval step and approved tasks', () => {
+    expect(needsReview(buildTask({ requiresApproval: false }), { status: 'completed' })).toBe(false);
+    expect(needsReview(buildTask({ status: 'in-review' }), { status: 'completed' }, 'approved')).toBe(false);
+  });
+
+  it('gates tasks that get the approval step in the same update', () => {
+    expect(needsReview(buildTask({ requiresApproval: false }), { status: 'completed', requiresApproval: true })).toBe(true);
+  });
+});
+
+describe('getReviewUpdateError', () => {
+  beforeEach(() => {
+    mockedCanReviewTask.mockResolvedValue(true);
+  });
+
+  afterEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('rejects sending a task into review directly', async () => {
+    const error = await getReviewUpdateError(user, buildTask(), { status: 'in-review' });
+    expect(error?.status).toBe(400);
+  });
+
+  it('rejects moving a task out of review without a decision', async () => {
+    const task = buildTask({ status: 'in-review' });
+
+    expect((await getReviewUpdateError(user, task, { status: 'todo' }))?.status).toBe(400);
+    expect(await getReviewUpdateError(user, task, { status: 'in-progress' }, 'rejected')).toBeNull();
+  });
+
+  it('accepts updates that keep a task in review', async () => {
+    const task = buildTask({ status: 'in-review' });
+    expect(await getReviewUpdateError(user, task, { status: 'in-review', title: 'Renamed' })).toBeNull();
+  });
+
+  it('keeps the approval step while the task is in review', async () => {
+    const error = await getReviewUpdateError(user, buildTask({ status: 'in-review' }), { requiresApproval: false });
+    expect(error?.status).toBe(400);
+  });
+
+  it('only lets reviewers drop the approval step', async () => {
+    mockedCanReviewTask.mockResolvedValue(false);
+
+    const error = await getReviewUpdateError(user, buildTask(), { requiresApproval: false });
+    expect(error?.status).toBe(403);
+  });
+
+  it('lets a reviewer drop the approval step', async () => {
+    expect(await getReviewUpdateError(user, buildTask(), { requiresApproval: false })).toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../../models/Task';
+import { getSlaUpdates } from '../slaService';
+
+jest.mock('../../index', () => ({ createNotification: jest.fn() }));
+
+const HOUR_MS = 60 * 60 * 1000;
+const start = new Date('2024-03-04T08:00:00Z');
+const hoursAfterStart = (hours: number) => new Date(start.getTime() + hours * HOUR_MS);
+
+// Task with a 4 hour response and 24 hour resolution target, started at `start`
+const buildTask = (overrides: Record<string, any> = {}, sla: Record<string, any> = {}): ITask =>
+  new Task({
+    title: 'Customer issue',
+    dueDate: hoursAfterStart(48),
+    createdBy: new mongoose.Types.ObjectId(),
+    status: 'todo',
+    ...overrides,
+    sla: {
+      policy: new mongoose.Types.ObjectId(),
+      responseHours: 4,
+      resolutionHours: 24,
+      responseDueAt: hoursAfterStart(4),
+      resolutionDueAt: hoursAfterStart(24),
+      respondedAt: null,
+      resolvedAt: null,
+      pausedAt: null,
+      pausedMs: 0,
+      responseBreachedAt: null,
+      resolutionBreachedAt: null,
+      ...sla,
+    },
+  });
+
+describe('getSlaUpdates', () => {
+  it('returns nothing for tasks without an SLA', () => {
+    const task = new Task({ title: 'Task', dueDate: start, createdBy: new mongoose.Types.ObjectId() });
+    expect(getSlaUpdates(task, { status: 'completed' }, start)).toEqual({});
+  });
+
+  it('pauses the clock when an open task starts waiting', () => {
+    const now = hoursAfterStart(1);
+    expect(getSlaUpdates(buildTask(), { waiting: true }, now)).toEqual({ 'sla.pausedAt': now });
+  });
+
+  it('moves open deadlines back by the time spent waiting', () => {
+    const task = buildTask({ waiting: true }, { pausedAt: hoursAfterStart(1), pausedMs: HOUR_MS });
+
+    const changes = getSlaUpdates(task, { waiting: false }, hoursAfterStart(3));
+
+    expect(changes['sla.pausedAt']).toBeNull();
+    expect(changes['sla.pausedMs']).toBe(3 * HOUR_MS);
+    expect(changes['sla.responseDueAt']).toEqual(hoursAfterStart(6));
+    expect(changes['sla.resolutionDueAt']).toEqual(hoursAfterStart(26));
+  });
+
+  it('keeps the deadline of a target already met', () => {
+    const task = buildTask(
+      { status: 'in-progress', waiting: true },
+      { respondedAt: hoursAfterStart(1), pausedAt: hoursAfterStart(2) }
+    );
+
+    const changes = getSlaUpdates(task, { waiting: false }, hoursAfterStart(5));
+
+    expect(changes).not.toHaveProperty(['sla.responseDueAt']);
+    expect(changes['sla.resolutionDueAt']).toEqual(hoursAfterStart(27));
+  });
+
+  it('does not count time spent waiting when a waiting task is completed', () => {
+    const task = buildTask({ status: 'in-progress', waiting: true }, {
+      respondedAt: hoursAfterStart(1),
+      pausedAt: hoursAfterStart(20),
+    });
+
+    // 30 hours after the start, but 10 of them were spent waiting
+    const now = hoursAfterStart(30);
+    const changes = getSlaUpdates(task, { status: 'completed' }, now);
+
+    expect(changes['sla.resolvedAt']).toEqual(now);
+    expect(changes['sla.resolutionDueAt']).toEqual(hoursAfterStart(34));
+    expect(changes).not.toHaveProperty(['sla.resolutionBreachedAt']);
+    expect(changes['sla.pausedAt']).toBeNull();
+  });
+
+  it('records a breach when a target is met after its deadline', () => {
+    const changes = getSlaUpdates(buildTask(), { status: 'in-progress' }, hoursAfterStart(5));
+
+    expect(changes['sla.respondedAt']).toEqual(hoursAfterStart(5));
+    expect(changes['sla.responseBreachedAt']).toEqual(hoursAfterStart(4));
+  });
+
+  it('puts the resolution target back in play when a task is reopened', () => {
+    const task = buildTask({ status: 'completed' }, { respondedAt: hoursAfterStart(1), resolvedAt: hoursAfterStart(2) });
+
+    expect(getSlaUpdates(task, { status: 'in-progress' }, hoursAfterStart(3))).toEqual({ 'sla.resolvedAt': null });
+  });
+});
@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import { Task } from '../../models/Task';
+import { CustomField, ICustomField } from '../../models/CustomField';
+import { User } from '../../models/User';
+import { buildTasksCsv } from '../taskExportService';
+
+jest.mock('../timeTrackingService', () => ({ getLoggedSecondsByTask: jest.fn().mockResolvedValue(new Map()) }));
+
+describe('buildTasksCsv', () => {
+  beforeEach(() => {
+    jest.spyOn(User, 'find').mockReturnValue({ select: jest.fn().mockResolvedValue([]) } as any);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const exportTask = async (overrides: Record<string, any>, fields: ICustomField[] = []) => {
+    const task = new Task({
+      title: 'Task',
+      dueDate: new Date('2024-03-04T12:00:00Z'),
+      createdBy: new mongoose.Types.ObjectId(),
+      ...overrides,
+    });
+    const [, row] = (await buildTasksCsv([task], fields)).split('\r\n');
+    return row.split(',');
+  };
+
+  it('keeps text that starts like a formula as text', async () => {
+    const cells = await exportTask({ title: '=HYPERLINK("http://evil")', description: '@SUM(A1)' });
+
+    expect(cells[0]).toBe(`"'=HYPERLINK(""http://evil"")"`);
+    expect(cells[1]).toBe(`'@SUM(A1)`);
+  });
+
+  it('neutralises formulas in custom field values but not negative numbers', async () => {
+    const textField = new CustomField({ name: 'Notes', type: 'text', createdBy: new mongoose.Types.ObjectId() });
+    const numberField = new CustomField({ name: 'Budget', type: 'number', createdBy: new mongoose.Types.ObjectId() });
+
+    const cells = await exportTask(
+      { customFields: { [textField._id.toString()]: '+1+2', [numberField._id.toString()]: -5 } },
+      [textField, numberField]
+    );
+
+    expect(cells.slice(-2)).toEqual([`'+1+2`, '-5']);
+  });
+});
@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../../models/Task';
+import { trashTask, restoreTask } from '../trashService';
+
+jest.mock('../attachmentService', () => ({ deleteTaskAttachments: jest.fn() }));
+jest.mock('../activityService', () => ({ recordActivity: jest.fn() }));
+jest.mock('../reminderService', () => ({ deleteTaskReminders: jest.fn() }));
+
+const id = () => new mongoose.Types.ObjectId();
+
+const buildTask = (overrides: Record<string, any> = {}): ITask =>
+  new Task({ title: 'Task', dueDate: new Date(), createdBy: id(), ...overrides });
+
+// Run the pre hooks of a query or aggregate the way mongoose does before executing it
+const runPreHooks = (name: string, context: any) =>
+  new Promise<void>((resolve, reject) => {
+    (Task.schema as any).s.hooks.execPre(name, context, [], (error?: Error) => (error ? reject(error) : resolve()));
+  });
+
+describe('trash visibility hooks', () => {
+  it('leaves trashed tasks out of finds', async () => {
+    const query = Task.find({ status: 'todo' });
+    await runPreHooks('find', query);
+    expect(query.getFilter()).toEqual({ status: 'todo', deletedAt: null });
+  });
+
+  it('leaves trashed tasks out of counts', async () => {
+    const query = Task.countDocuments({ status: 'todo' });
+    await runPreHooks('countDocuments', query);
+    expect(query.getFilter()).toEqual({ status: 'todo', deletedAt: null });
+  });
+
+  it('includes trashed tasks when asked to', async () => {
+    const query = Task.findOne({ _id: id() }).setOptions({ withDeleted: true });
+    await runPreHooks('findOne', query);
+    expect(query.getFilter()).not.toHaveProperty('deletedAt');
+  });
+
+  it('leaves trashed tasks out of aggregations', async () => {
+    const aggregate = Task.aggregate([{ $group: { _id: '$status' } }]);
+    await runPreHooks('aggregate', aggregate);
+    expect(aggregate.pipeline()[0]).toEqual({ $match: { deletedAt: null } });
+  });
+});
+
+describe('trashTask and restoreTask', () => {
+  // Mock Task.find to return the children of each level in turn
+  const mockChildren = (...levels: ITask[][]) => {
+    const find = jest.spyOn(Task, 'find');
+    levels.forEach(level => find.mockReturnValueOnce({ setOptions: jest.fn().mockResolvedValue(level) } as any));
+    find.mockReturnValue({ setOptions: jest.fn().mockResolvedValue([]) } as any);
+    return find;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('trashes subtasks and their subtasks with the task', async () => {
+    const task = buildTask();
+    const subtask = buildTask({ parentTask: task._id });
+    const nested = buildTask({ parentTask: subtask._id });
+    mockChildren([subtask], [nested]);
+    const updateMany = jest.spyOn(Task, 'updateMany').mockResolvedValue({} as any);
+    const actorId = id();
+
+    await trashTask(task, actorId);
+
+    const [filter, update] = updateMany.mock.calls[0] as any[];
+    expect(filter._id.$in).toEqual([task._id, subtask._id, nested._id]);
+    expect(filter.deletedAt).toBeNull();
+    expect(update.$set.deletedBy).toBe(actorId);
+  });
+
+  it('trashes the instances of a recurring task and their subtasks', async () => {
+    const task = buildTask({ isRecurring: true, recurringType: 'daily' });
+    const instance = buildTask({ parentTaskId: task._id });
+    const subtask = buildTask({ parentTask: instance._id });
+    const find = mockChildren([instance], [subtask]);
+    const updateMany = jest.spyOn(Task, 'updateMany').mockResolvedValue({} as any);
+
+    await trashTask(task, id());
+
+    const [firstLevel] = find.mock.calls[0] as any[];
+    expect(firstLevel.$and[1].$or).toEqual([{ parentTask: { $in: [task._id] } }, { parentTaskId: { $in: [task._id] } }]);
+    expect((updateMany.mock.calls[0] as any[])[0]._id.$in).toEqual([task._id, instance._id, subtask._id]);
+  });
+
+  it('only restores the subtasks trashed together with the task', async () => {
+    const deletedAt = new Date('2024-03-04T12:00:00Z');
+    const task = buildTask({ deletedAt });
+    const subtask = buildTask({ parentTask: task._id, deletedAt });
+    const find = mockChildren([subtask]);
+    jest.spyOn(Task, 'updateOne').mockResolvedValue({} as any);
+    const updateMany = jest.spyOn(Task, 'updateMany').mockResolvedValue({} as any);
+
+    await restoreTask(task, id());
+
+    const [filter] = find.mock.calls[0] as any[];
+    expect(filter.$and[0]).toEqual({ deletedAt });
+    const [restored, update] = updateMany.mock.calls[0] as any[];
+    expect(restored._id.$in).toEqual([subtask._id]);
+    expect(update.$set).toEqual({ deletedAt: null, deletedBy: null });
+  });
+});
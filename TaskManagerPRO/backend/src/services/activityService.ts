@@ -0,0 +1,235 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { TaskActivity, ITaskActivity, TaskActivityAction, IFieldChange } from '../models/TaskActivity';
+import { User } from '../models/User';
+import { Label } from '../models/Label';
+import { Project } from '../models/Project';
+import { Sprint } from '../models/Sprint';
+import { CustomField } from '../models/CustomField';
+
+type ActorId = mongoose.Types.ObjectId | string;
+
+// Task fields recorded in the activity history
+const TRACKED_FIELDS = [
+  'title',
+  'description',
+  'startDate',
+  'dueDate',
+  'priority',
+  'status',
+  'waiting',
+  'assignedTo',
+  'assignees',
+  'watchers',
+  'labels',
+  'project',
+  'sprint',
+  'blockedBy',
+  'isRecurring',
+  'recurringType',
+  'recurringInterval',
+  'recurringDays',
+  'recurringDate',
+  'recurringEndDate',
+  'storyPoints',
+  'estimatedHours',
+  'requiresApproval',
+  'rejectionReason',
+  'checklist',
+  'customFields',
+];
+
+const ASSIGNMENT_FIELDS = ['assignedTo', 'assignees'];
+
+// Reference fields and the model their IDs are resolved against for display
+const REFERENCE_FIELDS: Record<string, 'user' | 'label' | 'project' | 'sprint' | 'task'> = {
+  assignedTo: 'user',
+  assignees: 'user',
+  watchers: 'user',
+  labels: 'label',
+  project: 'project',
+  sprint: 'sprint',
+  blockedBy: 'task',
+};
+
+// Store plain values: IDs as strings, dates as ISO strings, ID lists sorted
+const normalizeValue = (value: any): any => {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return value.toISOString();
+  if (value instanceof mongoose.Types.ObjectId) return value.toString();
+  if (value?._id instanceof mongoose.Types.ObjectId) return value._id.toString();
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeValue);
+    return items.every(item => typeof item === 'string') ? items.sort() : items;
+  }
+  return value;
+};
+
+// Checklist items are stored as readable lines in their order, custom fields as values keyed by field ID
+const normalizeField = (field: string, value: any): any => {
+  if (field === 'checklist') {
+    const items = (value || []).map((item: any) => `${item.completed ? '[x]' : '[ ]'} ${item.text}`);
+    return items.length > 0 ? items : null;
+  }
+  if (field === 'customFields') {
+    const entries: [string, any][] = value instanceof Map ? [...value.entries()] : Object.entries(value || {});
+    if (entries.length === 0) return null;
+    return Object.fromEntries(entries.sort(([a], [b]) => a.localeCompare(b)).map(([key, item]) => [key, normalizeValue(item)]));
+  }
+  return normalizeValue(value);
+};
+
+/**
+ * Get the changed tracked fields between two versions of a task
+ */
+export const diffTaskFields = (before: ITask | null, after: ITask | null): IFieldChange[] => {
+  const changes: IFieldChange[] = [];
+
+  TRACKED_FIELDS.forEach(field => {
+    const oldValue = normalizeField(field, before ? (before as any)[field] : null);
+    const newValue = normalizeField(field, after ? (after as any)[field] : null);
+
+    const isEmpty = (value: any) => value === null || (Array.isArray(value) && value.length === 0);
+    if (isEmpty(oldValue) && isEmpty(newValue)) return;
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, oldValue, newValue });
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * Record an activity entry for a task
+ */
+export const recordActivity = async (
+  taskId: mongoose.Types.ObjectId | string,
+  actorId: ActorId,
+  action: TaskActivityAction,
+  changes: IFieldChange[] = []
+): Promise<void> => {
+  await TaskActivity.create({ task: taskId, actor: actorId, action, changes });
+};
+
+/**
+ * Record the creation of a task with its initial field values
+ */
+export const recordTaskCreated = async (task: ITask, actorId: ActorId): Promise<void> => {
+  await recordActivity(task._id, actorId, 'created', diffTaskFields(null, task));
+};
+
+/**
+ * Record the deletion of a task with its last field values
+ */
+export const recordTaskDeleted = async (task: ITask, actorId: ActorId): Promise<void> => {
+  await recordActivity(task._id, actorId, 'deleted', diffTaskFields(task, null));
+};
+
+/**
+ * Record the changes between two versions of a task
+ * Status changes and reassignments get their own entries so they stand out in the timeline
+ */
+export const recordTaskChanges = async (before: ITask, after: ITask, actorId: ActorId): Promise<void> => {
+  const changes = diffTaskFields(before, after);
+  if (changes.length === 0) return;
+
+  const statusChanges = changes.filter(change => change.field === 'status');
+  const assignmentChanges = changes.filter(change => ASSIGNMENT_FIELDS.includes(change.field));
+  const otherChanges = changes.filter(
+    change => change.field !== 'status' && !ASSIGNMENT_FIELDS.includes(change.field)
+  );
+
+  if (statusChanges.length > 0) {
+    await recordActivity(after._id, actorId, 'status_changed', statusChanges);
+  }
+  if (assignmentChanges.length > 0) {
+    await recordActivity(after._id, actorId, 'reassigned', assignmentChanges);
+  }
+  if (otherChanges.length > 0) {
+    await recordActivity(after._id, actorId, 'updated', otherChanges);
+  }
+};
+
+/**
+ * Get the activity timeline of a task, newest first
+ * IDs in reference fields are replaced with names so the timeline is readable
+ */
+export const getTaskActivity = async (taskId: mongoose.Types.ObjectId | string) => {
+  const activities = await TaskActivity.find({ task: taskId })
+    .sort({ createdAt: -1 })
+    .populate('actor', 'name email');
+
+  return resolveActivityNames(activities);
+};
+
+// Replace referenced IDs with display names
+const resolveActivityNames = async (activities: ITaskActivity[]) => {
+  const idsByKind: Record<string, Set<string>> = {
+    user: new Set(),
+    label: new Set(),
+    project: new Set(),
+    sprint: new Set(),
+    task: new Set(),
+    customField: new Set(),
+  };
+
+  const collectIds = (kind: string, value: any) => {
+    const ids = Array.isArray(value) ? value : [value];
+    ids.filter(id => typeof id === 'string' && mongoose.Types.ObjectId.isValid(id)).forEach(id => idsByKind[kind].add(id));
+  };
+
+  activities.forEach(activity => {
+    activity.changes.forEach(change => {
+      if (change.field === 'customFields') {
+        collectIds('customField', Object.keys({ ...change.oldValue, ...change.newValue }));
+        return;
+      }
+      const kind = REFERENCE_FIELDS[change.field];
+      if (!kind) return;
+      collectIds(kind, change.oldValue);
+      collectIds(kind, change.newValue);
+    });
+  });
+
+  const [users, labels, projects, sprints, tasks, customFields] = await Promise.all([
+    User.find({ _id: { $in: [...idsByKind.user] } }).select('name'),
+    Label.find({ _id: { $in: [...idsByKind.label] } }).select('name'),
+    Project.find({ _id: { $in: [...idsByKind.project] } }).select('name'),
+    Sprint.find({ _id: { $in: [...idsByKind.sprint] } }).select('name'),
+    Task.find({ _id: { $in: [...idsByKind.task] } }).select('title'),
+    CustomField.find({ _id: { $in: [...idsByKind.customField] } }).select('name'),
+  ]);
+
+  const names: Record<string, Map<string, string>> = {
+    user: new Map(users.map(user => [user._id.toString(), user.name])),
+    label: new Map(labels.map(label => [label._id.toString(), label.name])),
+    project: new Map(projects.map(project => [project._id.toString(), project.name])),
+    sprint: new Map(sprints.map(sprint => [sprint._id.toString(), sprint.name])),
+    task: new Map(tasks.map(task => [task._id.toString(), task.title])),
+    customField: new Map(customFields.map(field => [field._id.toString(), field.name])),
+  };
+
+  const resolve = (kind: string, value: any) => {
+    const nameOf = (id: string) => names[kind].get(id) || 'Deleted';
+    if (Array.isArray(value)) return value.map(nameOf);
+    return value === null || value === undefined ? value : nameOf(value);
+  };
+
+  // Custom field values are keyed by field name instead of ID
+  const resolveFieldNames = (value: Record<string, any> | null) =>
+    value && Object.fromEntries(Object.entries(value).map(([fieldId, item]) => [resolve('customField', fieldId), item]));
+
+  return activities.map(activity => {
+    const activityObj = activity.toJSON();
+    activityObj.changes = activityObj.changes.map((change: IFieldChange) => {
+      if (change.field === 'customFields') {
+        return { field: change.field, oldValue: resolveFieldNames(change.oldValue), newValue: resolveFieldNames(change.newValue) };
+      }
+      const kind = REFERENCE_FIELDS[change.field];
+      if (!kind) return change;
+      return { field: change.field, oldValue: resolve(kind, change.oldValue), newValue: resolve(kind, change.newValue) };
+    });
+    return activityObj;
+  });
+};
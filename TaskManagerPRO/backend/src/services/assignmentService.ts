@@ -0,0 +1,199 @@
+import mongoose from 'mongoose';
+import { Task, ITask, IAssignmentResponse, AssignmentStatus } from '../models/Task';
+import { User } from '../models/User';
+import { createNotification } from '../index';
+import { refId } from './taskAccessService';
+import { getTeamManagerIds } from './teamService';
+
+type NotificationType = 'task_assigned' | 'task_updated' | 'task_completed' | 'system';
+
+/**
+ * Get the IDs of everyone assigned to a task, primary assignee first
+ */
+export const getAssigneeIds = (task: ITask): string[] => {
+  const ids = [refId(task.assignedTo), ...(task.assignees || []).map(refId)];
+  return [...new Set(ids.filter((id): id is string => !!id))];
+};
+
+/**
+ * Get the IDs of everyone following a task - its assignees and watchers
+ */
+export const getFollowerIds = (task: ITask): string[] => {
+  const ids = [...getAssigneeIds(task), ...(task.watchers || []).map(refId)];
+  return [...new Set(ids.filter((id): id is string => !!id))];
+};
+
+/**
+ * Query filter for tasks a user is assigned to, as primary or additional assignee
+ */
+export const assignedToUserFilter = (userId: mongoose.Types.ObjectId | string) => ({
+  $or: [{ assignedTo: userId }, { assignees: userId }],
+});
+
+/**
+ * Notify all assignees and watchers of a task
+ * Users in excludeUserIds (usually whoever made the change) are skipped
+ */
+export const notifyTaskFollowers = async (
+  task: ITask,
+  message: string,
+  type: NotificationType,
+  excludeUserIds: string[] = []
+): Promise<void> => {
+  for (const followerId of getFollowerIds(task)) {
+    if (excludeUserIds.includes(followerId)) continue;
+    await createNotification(followerId, message, type, task._id.toString());
+  }
+};
+
+/**
+ * Assignment responses for a new set of assignees
+ * Newly assigned users start pending, unless they assigned themselves;
+ * users no longer assigned are dropped, as are declines now that the assignees were changed
+ */
+export const buildAssignments = (
+  current: IAssignmentResponse[],
+  assigneeIds: string[],
+  actorId: string
+): IAssignmentResponse[] =>
+  assigneeIds.map(assigneeId => {
+    const existing = current.find(response => response.user.toString() === assigneeId);
+    if (existing && existing.status !== 'declined') return existing;
+
+    const isSelf = assigneeId === actorId;
+    return {
+      user: new mongoose.Types.ObjectId(assigneeId),
+      status: isSelf ? 'accepted' : 'pending',
+      reason: null,
+      respondedAt: isSelf ? new Date() : null,
+    };
+  });
+
+/**
+ * Get the assignment response of a user on a task
+ * Assignees without a response count as accepted
+ */
+export const getAssignmentResponse = (task: ITask, userId: string): IAssignmentResponse | null => {
+  const response = (task.assignments || []).find(item => item.user.toString() === userId);
+  if (response) return response;
+  if (!getAssigneeIds(task).includes(userId)) return null;
+  return { user: new mongoose.Types.ObjectId(userId), status: 'accepted', reason: null, respondedAt: null };
+};
+
+// Filter matching an open task while a user's assignment response has one of the given statuses
+const withResponse = (
+  taskId: mongoose.Types.ObjectId | string,
+  userId: string,
+  statuses: AssignmentStatus[]
+) => ({
+  _id: taskId,
+  deletedAt: null,
+  assignments: { $elemMatch: { user: new mongoose.Types.ObjectId(userId), status: { $in: statuses } } },
+});
+
+/**
+ * Change the assignment response of a user in a single atomic update
+ * Returns false when the response no longer has one of the expected statuses, e.g. after a concurrent answer
+ */
+export const updateAssignmentResponse = async (
+  taskId: mongoose.Types.ObjectId | string,
+  userId: string,
+  from: AssignmentStatus[],
+  to: AssignmentStatus,
+  reason: string | null = null
+): Promise<boolean> => {
+  // Assignees without a response count as accepted - give them one the update can match
+  if (from.includes('accepted')) {
+    await Task.updateOne(
+      { _id: taskId, deletedAt: null, assignees: userId, 'assignments.user': { $ne: userId } },
+      { $push: { assignments: { user: userId, status: 'accepted', reason: null, respondedAt: null } } }
+    );
+  }
+
+  const result = await Task.updateOne(withResponse(taskId, userId, from), {
+    $set: {
+      'assignments.$.status': to,
+      'assignments.$.reason': reason,
+      'assignments.$.respondedAt': new Date(),
+    },
+  });
+  return result.matchedCount > 0;
+};
+
+/**
+ * Drop the assignment response of a user in a single atomic update
+ * Returns false when the response no longer has the expected status
+ */
+export const removeAssignmentResponse = async (
+  taskId: mongoose.Types.ObjectId | string,
+  userId: string,
+  status: AssignmentStatus
+): Promise<boolean> => {
+  const result = await Task.updateOne(withResponse(taskId, userId, [status]), {
+    $pull: { assignments: { user: new mongoose.Types.ObjectId(userId) } },
+  });
+  return result.matchedCount > 0;
+};
+
+/**
+ * Take a user off a task in a single atomic update
+ * The next assignee becomes primary; with nobody left the task goes to the unassigned queue
+ */
+export const removeAssignee = async (taskId: mongoose.Types.ObjectId | string, userId: string): Promise<void> => {
+  const assigneeId = new mongoose.Types.ObjectId(userId);
+  await Task.updateOne({ _id: taskId, deletedAt: null }, [
+    { $set: { assignees: { $filter: { input: '$assignees', cond: { $ne: ['$$this', assigneeId] } } } } },
+    {
+      $set: {
+        assignedTo: {
+          $cond: [
+            { $or: [{ $eq: ['$assignedTo', assigneeId] }, { $eq: ['$assignedTo', null] }] },
+            { $ifNull: [{ $arrayElemAt: ['$assignees', 0] }, null] },
+            '$assignedTo',
+          ],
+        },
+      },
+    },
+  ]);
+};
+
+/**
+ * Add a user to a task as a pending assignee in a single atomic update
+ * They become primary when asked to, or when the task has nobody else; users already assigned are left as they are
+ */
+export const addPendingAssignee = async (
+  taskId: mongoose.Types.ObjectId | string,
+  userId: string,
+  asPrimary: boolean
+): Promise<boolean> => {
+  const assigneeId = new mongoose.Types.ObjectId(userId);
+  const notAssigned = { _id: taskId, deletedAt: null, assignees: { $ne: assigneeId } };
+
+  // A decline from an earlier assignment is replaced by the new one
+  await Task.updateOne(notAssigned, { $pull: { assignments: { user: assigneeId } } });
+  const result = await Task.updateOne(notAssigned, {
+    $push: {
+      assignees: asPrimary ? { $each: [assigneeId], $position: 0 } : assigneeId,
+      assignments: { user: assigneeId, status: 'pending', reason: null, respondedAt: null },
+    },
+  });
+  if (result.matchedCount === 0) return false;
+
+  await Task.updateOne(
+    asPrimary ? { _id: taskId } : { _id: taskId, assignedTo: null },
+    { $set: { assignedTo: assigneeId } }
+  );
+  return true;
+};
+
+/**
+ * Get the IDs of the users who decide on a reassignment request
+ * The managers of the requester's teams, or the admins when the requester has no manager
+ */
+export const getReassignmentDeciderIds = async (userId: string): Promise<string[]> => {
+  const managerIds = (await getTeamManagerIds([userId])).map(String);
+  if (managerIds.length > 0) return managerIds;
+
+  const admins = await User.find({ role: 'admin' }).select('_id');
+  return admins.map(admin => admin._id.toString());
+};
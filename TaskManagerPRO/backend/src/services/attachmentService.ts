@@ -0,0 +1,122 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import { Attachment } from '../models/Attachment';
+
+/**
+ * Storage backend for attachment files
+ * Files are addressed by an opaque key generated when they are saved
+ */
+export interface AttachmentStorage {
+  save(key: string, data: Buffer, mimeType: string): Promise<void>;
+  read(key: string): Promise<NodeJS.ReadableStream>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Local disk storage - the default backend
+ * Files are stored flat under the upload directory, named by their key
+ */
+export const createLocalDiskStorage = (rootDir: string): AttachmentStorage => {
+  const resolveKey = (key: string) => {
+    // Keys are generated by us, but never let one escape the upload directory
+    const filePath = path.resolve(rootDir, key);
+    if (path.dirname(filePath) !== path.resolve(rootDir)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  };
+
+  return {
+    async save(key, data) {
+      await fs.promises.mkdir(rootDir, { recursive: true });
+      await fs.promises.writeFile(resolveKey(key), data);
+    },
+
+    async read(key) {
+      const filePath = resolveKey(key);
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath);
+    },
+
+    async remove(key) {
+      try {
+        await fs.promises.unlink(resolveKey(key));
+      } catch (error: any) {
+        // Already gone is fine
+        if (error.code !== 'ENOENT') throw error;
+      }
+    },
+  };
+};
+
+// Storage backends by name - an S3-compatible backend can be registered here
+const storageBackends: Record<string, () => AttachmentStorage> = {
+  local: () => createLocalDiskStorage(process.env.ATTACHMENT_DIR || path.join(process.cwd(), 'uploads')),
+};
+
+let storage: AttachmentStorage | null = null;
+
+/**
+ * Get the configured storage backend (ATTACHMENT_STORAGE, defaults to local disk)
+ */
+export const getAttachmentStorage = (): AttachmentStorage => {
+  if (!storage) {
+    const backendName = process.env.ATTACHMENT_STORAGE || 'local';
+    const createBackend = storageBackends[backendName];
+    if (!createBackend) {
+      throw new Error(`Unknown attachment storage backend: ${backendName}`);
+    }
+    storage = createBackend();
+  }
+  return storage;
+};
+
+// Upload limits
+export const MAX_ATTACHMENT_SIZE = Number(process.env.ATTACHMENT_MAX_SIZE_MB || 10) * 1024 * 1024;
+
+export const ALLOWED_MIME_TYPES = process.env.ATTACHMENT_ALLOWED_TYPES
+  ? process.env.ATTACHMENT_ALLOWED_TYPES.split(',').map(type => type.trim())
+  : [
+      'image/png',
+      'image/jpeg',
+      'image/gif',
+      'image/webp',
+      'application/pdf',
+      'text/plain',
+      'text/csv',
+      'text/markdown',
+      'application/json',
+      'application/zip',
+      'application/msword',
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'application/vnd.ms-excel',
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    ];
+
+/**
+ * Generate a unique storage key, keeping the original extension
+ */
+export const generateStorageKey = (originalName: string): string => {
+  const extension = path.extname(originalName).replace(/[^a-zA-Z0-9.]/g, '').slice(0, 10);
+  return `${crypto.randomBytes(16).toString('hex')}${extension}`;
+};
+
+/**
+ * Delete all attachments of a task, including their files
+ */
+export const deleteTaskAttachments = async (taskId: mongoose.Types.ObjectId | string): Promise<void> => {
+  try {
+    const attachments = await Attachment.find({ task: taskId });
+    const attachmentStorage = getAttachmentStorage();
+
+    for (const attachment of attachments) {
+      await attachmentStorage.remove(attachment.storageKey);
+    }
+
+    await Attachment.deleteMany({ task: taskId });
+  } catch (error) {
+    console.error('Error deleting task attachments:', error);
+  }
+};
@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import { CustomField, ICustomField } from '../models/CustomField';
+import { User } from '../models/User';
+
+type ParsedValue = { value: any } | { error: string };
+
+// Escape user input for use in a regular expression
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isEmptyValue = (value: any) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Get the custom fields that apply to tasks in a project
+ * Fields without a project apply to every task
+ */
+export const getApplicableFields = async (
+  projectId?: mongoose.Types.ObjectId | string | null
+): Promise<ICustomField[]> => {
+  const project = projectId ? { $in: [null, projectId] } : null;
+  return CustomField.find({ project }).sort({ name: 1 });
+};
+
+// Convert a submitted value to the stored form for the field's type
+const parseFieldValue = async (field: ICustomField, value: any): Promise<ParsedValue> => {
+  const invalid = (expected: string): ParsedValue => ({ error: `${field.name} must be ${expected}` });
+
+  switch (field.type) {
+    case 'text':
+      if (typeof value !== 'string') return invalid('text');
+      if (value.length > 1000) return invalid('at most 1000 characters');
+      return { value: value.trim() };
+
+    case 'number': {
+      const number = typeof value === 'string' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) return invalid('a number');
+      return { value: number };
+    }
+
+    case 'date': {
+      const date = new Date(value);
+      if (typeof value !== 'string' || isNaN(date.getTime())) return invalid('a valid date');
+      return { value: date };
+    }
+
+    case 'select':
+      if (!field.options.includes(value)) return invalid(`one of: ${field.options.join(', ')}`);
+      return { value };
+
+    case 'multiselect':
+      if (!Array.isArray(value) || !value.every(option => field.options.includes(option))) {
+        return invalid(`a list of: ${field.options.join(', ')}`);
+      }
+      return { value: [...new Set(value)] };
+
+    case 'user':
+      if (!mongoose.Types.ObjectId.isValid(value) || !(await User.exists({ _id: value }))) {
+        return invalid('an existing user');
+      }
+      return { value: new mongoose.Types.ObjectId(value) };
+
+    case 'url':
+      try {
+        const url = new URL(value);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') return invalid('an http or https URL');
+        return { value: url.toString() };
+      } catch {
+        return invalid('a valid URL');
+      }
+
+    default:
+      return invalid('a supported value');
+  }
+};
+
+/**
+ * Validate submitted custom field values against the fields that apply to a task
+ * Values are keyed by field ID; null or an empty value clears a field
+ * Required fields must have a value when a task is created and cannot be cleared later
+ * Returns the full set of values to store, merged over the current ones
+ */
+export const validateCustomFieldValues = async (
+  submitted: Record<string, any> | undefined,
+  fields: ICustomField[],
+  current?: Map<string, any>
+): Promise<{ values: Record<string, any> } | { error: string }> => {
+  if (submitted !== undefined && (typeof submitted !== 'object' || submitted === null || Array.isArray(submitted))) {
+    return { error: 'Custom fields must be an object of field IDs and values' };
+  }
+
+  const fieldsById = new Map(fields.map(field => [field._id.toString(), field]));
+  const values: Record<string, any> = {};
+
+  // Values of fields that no longer apply, e.g. after moving project, are dropped
+  current?.forEach((value, fieldId) => {
+    if (fieldsById.has(fieldId)) values[fieldId] = value;
+  });
+
+  for (const [fieldId, value] of Object.entries(submitted || {})) {
+    const field = fieldsById.get(fieldId);
+    if (!field) {
+      return { error: 'One or more custom fields do not exist or do not apply to this task' };
+    }
+
+    if (isEmptyValue(value)) {
+      delete values[fieldId];
+      continue;
+    }
+
+    const parsed = await parseFieldValue(field, value);
+    if ('error' in parsed) return parsed;
+    values[fieldId] = parsed.value;
+  }
+
+  // New tasks need every required field, existing tasks cannot clear one
+  const isNew = current === undefined;
+  for (const field of fields) {
+    const fieldId = field._id.toString();
+    const isChecked = isNew || (submitted && fieldId in submitted);
+    if (field.required && isChecked && isEmptyValue(values[fieldId])) {
+      return { error: `${field.name} is required` };
+    }
+  }
+
+  return { values };
+};
+
+/**
+ * Build task query conditions from custom field filters, keyed by field ID
+ * e.g. ?customFields[<fieldId>]=value
+ * Text and URL fields match partially, select and multiselect fields match any of
+ * comma separated options, number and date fields take a "min,max" range
+ */
+export const buildCustomFieldFilters = async (filters: unknown): Promise<Record<string, any>[]> => {
+  if (!filters || typeof filters !== 'object') return [];
+
+  const fieldIds = Object.keys(filters).filter(fieldId => mongoose.Types.ObjectId.isValid(fieldId));
+  const fields = await CustomField.find({ _id: { $in: fieldIds } });
+
+  const conditions: Record<string, any>[] = [];
+
+  fields.forEach(field => {
+    const raw = String((filters as Record<string, any>)[field._id.toString()] ?? '').trim();
+    if (!raw) return;
+
+    const path = `customFields.${field._id}`;
+    const list = raw.split(',').map(item => item.trim());
+
+    switch (field.type) {
+      case 'text':
+      case 'url':
+        conditions.push({ [path]: { $regex: escapeRegex(raw), $options: 'i' } });
+        break;
+
+      case 'number':
+      case 'date': {
+        const parse = (bound: string) => (field.type === 'number' ? Number(bound) : new Date(bound));
+        const isValid = (bound: string) =>
+          bound !== '' && (field.type === 'number' ? Number.isFinite(Number(bound)) : !isNaN(new Date(bound).getTime()));
+        const [min, max = min] = list;
+
+        const range: Record<string, any> = {};
+        if (isValid(min)) range.$gte = parse(min);
+        if (isValid(max)) range.$lte = parse(max);
+        if (Object.keys(range).length > 0) conditions.push({ [path]: range });
+        break;
+      }
+
+      case 'select':
+      case 'multiselect':
+        conditions.push({ [path]: { $in: list } });
+        break;
+
+      case 'user':
+        if (mongoose.Types.ObjectId.isValid(raw)) {
+          conditions.push({ [path]: new mongoose.Types.ObjectId(raw) });
+        }
+        break;
+    }
+  });
+
+  return conditions;
+};
+
@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { notifyTaskFollowers } from './assignmentService';
+
+/**
+ * Check if making a task blocked by another task would create a cycle
+ * Walks the blocked-by graph starting from the blocker; reaching the task means a cycle
+ */
+export const wouldCreateCycle = async (
+  taskId: mongoose.Types.ObjectId | string,
+  blockerId: mongoose.Types.ObjectId | string
+): Promise<boolean> => {
+  const target = taskId.toString();
+  if (blockerId.toString() === target) return true;
+
+  const visited = new Set<string>();
+  let frontier = [blockerId.toString()];
+
+  while (frontier.length > 0) {
+    frontier.forEach(id => visited.add(id));
+
+    const tasks = await Task.find({ _id: { $in: frontier } }).select('blockedBy');
+    const next: string[] = [];
+
+    for (const task of tasks) {
+      for (const dependency of task.blockedBy || []) {
+        const dependencyId = dependency.toString();
+        if (dependencyId === target) return true;
+        if (!visited.has(dependencyId)) next.push(dependencyId);
+      }
+    }
+
+    frontier = Array.from(new Set(next));
+  }
+
+  return false;
+};
+
+/**
+ * Get the blockers of a task that are not completed yet
+ */
+export const getOpenBlockers = async (task: ITask): Promise<ITask[]> => {
+  if (!task.blockedBy || task.blockedBy.length === 0) return [];
+
+  return Task.find({
+    _id: { $in: task.blockedBy },
+    status: { $ne: 'completed' },
+  }).select('title status');
+};
+
+/**
+ * Notify the assignees and watchers of tasks that were waiting on a completed task
+ * Only tasks whose last open blocker was the completed task are notified
+ */
+export const notifyUnblockedTasks = async (completedTask: ITask): Promise<void> => {
+  try {
+    const dependentTasks = await Task.find({
+      blockedBy: completedTask._id,
+      status: { $ne: 'completed' },
+    });
+
+    for (const dependentTask of dependentTasks) {
+      const openBlockers = await getOpenBlockers(dependentTask);
+      if (openBlockers.length === 0) {
+        await notifyTaskFollowers(
+          dependentTask,
+          `Task unblocked: ${dependentTask.title} is ready to start`,
+          'task_updated'
+        );
+      }
+    }
+  } catch (error) {
+    console.error('Error notifying unblocked tasks:', error);
+  }
+};
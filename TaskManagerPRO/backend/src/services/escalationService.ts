@@ -0,0 +1,76 @@
+import { Task, ITask } from '../models/Task';
+import { User } from '../models/User';
+import { EscalationPolicy, IEscalationLevel } from '../models/EscalationPolicy';
+import { createNotification } from '../index';
+import { getAssigneeIds } from './assignmentService';
+import { getTeamManagerIds } from './teamService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Users to notify for a level of the escalation chain
+// Assignees are left out - they already get their own overdue alerts
+const getEscalationRecipients = async (task: ITask, level: IEscalationLevel): Promise<string[]> => {
+  const assigneeIds = getAssigneeIds(task);
+  let recipientIds: string[] = [];
+
+  if (level.notify === 'creator') {
+    recipientIds = [task.createdBy.toString()];
+  } else if (level.notify === 'manager') {
+    recipientIds = (await getTeamManagerIds(assigneeIds)).map(String);
+  } else {
+    const admins = await User.find({ role: 'admin' }).select('_id');
+    recipientIds = admins.map(admin => admin._id.toString());
+  }
+
+  return recipientIds.filter(recipientId => !assigneeIds.includes(recipientId));
+};
+
+/**
+ * Escalate overdue tasks up the chain of their priority's escalation policy
+ * Each level is claimed on the task before anyone is notified, so it fires exactly once
+ * even if two runs overlap; rescheduling the task starts the chain again
+ */
+export const processEscalations = async (now: Date = new Date()): Promise<number> => {
+  const policies = await EscalationPolicy.find({ enabled: true, 'levels.0': { $exists: true } });
+
+  let escalatedCount = 0;
+  for (const policy of policies) {
+    const levels = [...policy.levels].sort((a, b) => a.afterHours - b.afterHours);
+
+    const tasks = await Task.find({
+      priority: policy.priority,
+      status: { $ne: 'completed' },
+      dueDate: { $lte: new Date(now.getTime() - levels[0].afterHours * HOUR_MS) },
+      escalationLevel: { $lt: levels.length },
+    });
+
+    for (const task of tasks) {
+      const hoursOverdue = (now.getTime() - task.dueDate.getTime()) / HOUR_MS;
+
+      for (let index = task.escalationLevel; index < levels.length; index++) {
+        const level = levels[index];
+        if (level.afterHours > hoursOverdue) break;
+
+        // Another run, a reschedule or the trash got to the task first
+        const claim = await Task.updateOne(
+          { _id: task._id, escalationLevel: index, dueDate: task.dueDate, status: { $ne: 'completed' }, deletedAt: null },
+          { $set: { escalationLevel: index + 1, escalatedAt: now } }
+        );
+        if (claim.modifiedCount === 0) break;
+
+        const recipientIds = await getEscalationRecipients(task, level);
+        for (const recipientId of recipientIds) {
+          await createNotification(
+            recipientId,
+            `Escalation: ${task.priority} priority task "${task.title}" is ${Math.floor(hoursOverdue)} hour(s) overdue`,
+            'task_overdue',
+            task._id.toString()
+          );
+        }
+        escalatedCount++;
+      }
+    }
+  }
+
+  return escalatedCount;
+};
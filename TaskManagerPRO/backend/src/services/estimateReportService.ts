@@ -0,0 +1,112 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { getLoggedSecondsByTask } from './timeTrackingService';
+import { getAssigneeIds } from './assignmentService';
+
+export interface EstimateGroup {
+  key: string;
+  name: string;
+  tasks: number;
+  storyPoints: number;
+  estimatedHours: number;
+  actualHours: number; // Time logged on the tasks
+  accuracy: number | null; // Actual hours as a percentage of estimated hours
+  hoursPerPoint: number | null;
+}
+
+export interface EstimateReport {
+  totals: EstimateGroup;
+  byUser: EstimateGroup[];
+  byPriority: EstimateGroup[];
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const emptyGroup = (key: string, name: string): EstimateGroup => ({
+  key,
+  name,
+  tasks: 0,
+  storyPoints: 0,
+  estimatedHours: 0,
+  actualHours: 0,
+  accuracy: null,
+  hoursPerPoint: null,
+});
+
+// Round the sums and derive the ratios once all tasks are added
+const finishGroup = (group: EstimateGroup): EstimateGroup => ({
+  ...group,
+  estimatedHours: round(group.estimatedHours),
+  actualHours: round(group.actualHours),
+  accuracy: group.estimatedHours > 0 ? Math.round((group.actualHours / group.estimatedHours) * 100) : null,
+  hoursPerPoint: group.storyPoints > 0 ? round(group.actualHours / group.storyPoints) : null,
+});
+
+/**
+ * Compare estimates with the time actually logged on completed tasks
+ * Only tasks with story points or estimated hours are included
+ * Tasks with several assignees count fully towards each assignee
+ * When userIds is given, only those users are reported on individually
+ */
+export const buildEstimateReport = async (
+  taskFilter: Record<string, any>,
+  userIds: mongoose.Types.ObjectId[] | null
+): Promise<EstimateReport> => {
+  const reportedUserIds = userIds ? userIds.map(userId => userId.toString()) : null;
+
+  const tasks = await Task.find({
+    $and: [
+      taskFilter,
+      { status: 'completed' },
+      { $or: [{ storyPoints: { $ne: null } }, { estimatedHours: { $ne: null } }] },
+    ],
+  })
+    .populate('assignedTo', 'name')
+    .populate('assignees', 'name');
+
+  const loggedSeconds = await getLoggedSecondsByTask(tasks.map(task => task._id));
+
+  const totals = emptyGroup('all', 'All tasks');
+  const byUser = new Map<string, EstimateGroup>();
+  const byPriority = new Map<string, EstimateGroup>();
+
+  const addTask = (group: EstimateGroup, task: ITask, actualHours: number) => {
+    group.tasks += 1;
+    group.storyPoints += task.storyPoints || 0;
+    group.estimatedHours += task.estimatedHours || 0;
+    group.actualHours += actualHours;
+  };
+
+  tasks.forEach(task => {
+    const actualHours = (loggedSeconds.get(task._id.toString()) || 0) / 3600;
+    addTask(totals, task, actualHours);
+
+    if (!byPriority.has(task.priority)) {
+      byPriority.set(task.priority, emptyGroup(task.priority, task.priority));
+    }
+    addTask(byPriority.get(task.priority) as EstimateGroup, task, actualHours);
+
+    const assigneeNames = new Map<string, string>();
+    [task.assignedTo, ...(task.assignees || [])].forEach((assignee: any) => {
+      if (assignee?._id) assigneeNames.set(assignee._id.toString(), assignee.name);
+    });
+
+    getAssigneeIds(task).forEach(assigneeId => {
+      if (reportedUserIds && !reportedUserIds.includes(assigneeId)) return;
+      if (!byUser.has(assigneeId)) {
+        byUser.set(assigneeId, emptyGroup(assigneeId, assigneeNames.get(assigneeId) || 'Unknown User'));
+      }
+      addTask(byUser.get(assigneeId) as EstimateGroup, task, actualHours);
+    });
+  });
+
+  const priorityOrder = ['high', 'medium', 'low'];
+
+  return {
+    totals: finishGroup(totals),
+    byUser: [...byUser.values()].map(finishGroup).sort((a, b) => b.tasks - a.tasks),
+    byPriority: [...byPriority.values()]
+      .map(finishGroup)
+      .sort((a, b) => priorityOrder.indexOf(a.key) - priorityOrder.indexOf(b.key)),
+  };
+};
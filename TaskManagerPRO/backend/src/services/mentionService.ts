@@ -0,0 +1,61 @@
+import { User, IUser } from '../models/User';
+import { ITask } from '../models/Task';
+import { canViewTask } from './taskAccessService';
+
+// Longest user name, in words, a mention is matched against
+const MAX_NAME_WORDS = 5;
+
+/**
+ * Escape a string for use inside a regular expression
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Parse the @mentions of a comment into the names and emails they could refer to
+ * Names can contain spaces, so every run of up to MAX_NAME_WORDS words after an @ is a candidate
+ */
+export const parseMentionTokens = (content: string): { names: string[]; emails: string[] } => {
+  const names = new Set<string>();
+  const emails = new Set<string>();
+
+  const mentionPattern = new RegExp(`(?:^|\\s)@([^\\s@]+(?:@[^\\s@]+)?(?:[ \\t]+[^\\s@]+){0,${MAX_NAME_WORDS - 1}})`, 'g');
+  for (const [, mention] of content.matchAll(mentionPattern)) {
+    const words = mention.split(/[ \t]+/);
+    if (words[0].includes('@')) {
+      emails.add(words[0].replace(/[^\w]+$/, '').toLowerCase());
+      continue;
+    }
+
+    words.forEach((_, index) => {
+      const name = words.slice(0, index + 1).join(' ').replace(/[^\w]+$/, '');
+      if (name) names.add(name);
+    });
+  }
+
+  return { names: [...names], emails: [...emails] };
+};
+
+/**
+ * Resolve @name and @email mentions in a comment on a task to users
+ * Only the users the mentions could refer to are loaded, and only those who can view the task are kept
+ * so a mention does not reveal the task to anyone else
+ */
+export const resolveMentions = async (content: string, task: ITask): Promise<IUser[]> => {
+  const { names, emails } = parseMentionTokens(content);
+  if (names.length === 0 && emails.length === 0) return [];
+
+  const users = await User.find({
+    $or: [
+      { name: { $in: names.map(name => new RegExp(`^${escapeRegExp(name)}$`, 'i')) } },
+      { email: { $in: emails.map(email => new RegExp(`^${escapeRegExp(email)}$`, 'i')) } },
+    ],
+  }).select('_id name email role');
+
+  const mentionedUsers: IUser[] = [];
+  for (const user of users) {
+    if (await canViewTask(user, task)) {
+      mentionedUsers.push(user);
+    }
+  }
+  return mentionedUsers;
+};
@@ -0,0 +1,85 @@
+import { Task, ITask } from '../models/Task';
+import { User } from '../models/User';
+import { createNotification } from '../index';
+import { getAssigneeIds, assignedToUserFilter } from './assignmentService';
+
+/**
+ * Calculate the points a completed task is worth
+ * Based on priority, with a bonus for completing before the due date
+ */
+export const calculateCompletionPoints = (task: ITask): number => {
+  let points = 5; // Default points
+  if (task.priority === 'medium') points = 10;
+  if (task.priority === 'high') points = 15;
+
+  // Bonus for early completion
+  if (new Date() < new Date(task.dueDate)) {
+    points += 5;
+  }
+
+  return points;
+};
+
+/**
+ * Split points between a number of assignees so the shares add up to the total
+ * Everyone gets the same share, and the points left over go one each to the first assignees
+ */
+export const splitPoints = (totalPoints: number, count: number): number[] => {
+  const share = Math.floor(totalPoints / count);
+  const remainder = totalPoints - share * count;
+  return Array.from({ length: count }, (_, index) => share + (index < remainder ? 1 : 0));
+};
+
+/**
+ * Award points and achievements to the assignees of a completed task
+ * Points are split between assignees, the primary assignee first in line for any left over
+ */
+export const awardCompletionPoints = async (task: ITask): Promise<void> => {
+  const assigneeIds = getAssigneeIds(task);
+  if (assigneeIds.length === 0) return;
+
+  const shares = splitPoints(calculateCompletionPoints(task), assigneeIds.length);
+
+  for (const [index, assigneeId] of assigneeIds.entries()) {
+    const pointsEach = shares[index];
+    await User.findByIdAndUpdate(assigneeId, { $inc: { points: pointsEach } });
+
+    // Check for achievements
+    const user = await User.findById(assigneeId);
+    const completedTasks = await Task.countDocuments({
+      ...assignedToUserFilter(assigneeId),
+      status: 'completed',
+    });
+
+    // Achievement: First Task Completed
+    if (completedTasks === 1 && !user?.achievements.includes('first_task')) {
+      await User.findByIdAndUpdate(assigneeId, { $push: { achievements: 'first_task' } });
+      await createNotification(
+        assigneeId,
+        `Achievement Unlocked: Completed your first task!`,
+        'achievement',
+        undefined
+      );
+    }
+
+    // Achievement: 5 Tasks Completed
+    if (completedTasks === 5 && !user?.achievements.includes('five_tasks')) {
+      await User.findByIdAndUpdate(assigneeId, { $push: { achievements: 'five_tasks' } });
+      await createNotification(
+        assigneeId,
+        `Achievement Unlocked: Completed 5 tasks!`,
+        'achievement',
+        undefined
+      );
+    }
+
+    // Notify user about points earned
+    const shareNote = assigneeIds.length > 1 ? ` (shared with ${assigneeIds.length - 1} other assignee(s))` : '';
+    await createNotification(
+      assigneeId,
+      `You earned ${pointsEach} points for completing: ${task.title}${shareNote}`,
+      'points_earned',
+      task._id.toString()
+    );
+  }
+};
@@ -0,0 +1,38 @@
+import mongoose from 'mongoose';
+import { Project, IProject } from '../models/Project';
+import { IUser } from '../models/User';
+import { refId } from './taskAccessService';
+
+/**
+ * Check if a user can view a project
+ * Owners and members can view a project, Admins/Managers can view any project
+ */
+export const canViewProject = (user: IUser, project: IProject): boolean => {
+  const userId = user._id.toString();
+  const isOwner = refId(project.owner) === userId;
+  const isMember = project.members.some(member => refId(member) === userId);
+  const canViewAllProjects = user.role === 'admin' || user.role === 'manager';
+
+  return isOwner || isMember || canViewAllProjects;
+};
+
+/**
+ * Check if a user can update a project (details, members, archived state)
+ * The owner and Admins/Managers can update a project
+ */
+export const canManageProject = (user: IUser, project: IProject): boolean => {
+  const isOwner = refId(project.owner) === user._id.toString();
+  return isOwner || user.role === 'admin' || user.role === 'manager';
+};
+
+/**
+ * Load a project by ID if it exists and the user can view it
+ */
+export const findVisibleProject = async (user: IUser, projectId: string): Promise<IProject | null> => {
+  if (!mongoose.Types.ObjectId.isValid(projectId)) return null;
+
+  const project = await Project.findById(projectId);
+  if (!project || !canViewProject(user, project)) return null;
+
+  return project;
+};
@@ -0,0 +1,102 @@
+import mongoose from 'mongoose';
+import { Task } from '../models/Task';
+
+// Rank digits in ASCII order, so ranks sort the same as strings and in MongoDB
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// Fractional key strictly between a and b, where '' is the start and null the end
+// Keys never end in the lowest digit, so there is always room before them
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Keep the common prefix and find a key between the rest
+    let n = 0;
+    while ((a[n] || DIGITS[0]) === b[n]) n++;
+    if (n > 0) return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+
+  // Step by one digit when appending, so keys stay short while cards keep going to the end
+  if (b === null && a && digitA + 1 < DIGITS.length) {
+    return DIGITS[digitA + 1];
+  }
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+};
+
+/**
+ * Get a board rank that sorts between two ranks
+ * Pass null for before to rank at the start, and null for after to rank at the end
+ */
+export const rankBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot rank between ${before} and ${after}`);
+  }
+  return midpoint(before || '', after);
+};
+
+/**
+ * Give ranks to the tasks of a board column that do not have one yet
+ * Only the tasks in the given scope are ranked, e.g. the tasks on the board of the user moving a card
+ * Unranked tasks are shown first in creation order, so they keep that place
+ */
+export const rankUnrankedTasks = async (status: string, scope: Record<string, any> = {}): Promise<void> => {
+  const unranked = await Task.find({ $and: [scope, { status, rank: null }] }).sort({ _id: 1 }).select('_id');
+  if (unranked.length === 0) return;
+
+  const firstRanked = await Task.findOne({ status, rank: { $ne: null } }).sort({ rank: 1, _id: 1 }).select('rank');
+
+  // Rank from the last unranked task backwards, each one before the next
+  let nextRank = firstRanked?.rank || null;
+  for (const task of [...unranked].reverse()) {
+    const rank = rankBetween(null, nextRank);
+    // Skip tasks ranked by a concurrent request in the meantime
+    await Task.updateOne({ _id: task._id, rank: null }, { $set: { rank } });
+    nextRank = rank;
+  }
+};
+
+/**
+ * Get the rank for a task dropped into a board column
+ * The task goes right after beforeTaskId, or right before afterTaskId when it is the first card;
+ * unranked tasks in the scope of the board are ranked first so the neighbours have a rank;
+ * the gap is looked up on the server so moves made from an outdated board still land in a free slot
+ */
+export const getDropRank = async (
+  taskId: mongoose.Types.ObjectId,
+  status: string,
+  scope: Record<string, any>,
+  beforeTaskId?: string | null,
+  afterTaskId?: string | null
+): Promise<string> => {
+  await rankUnrankedTasks(status, scope);
+
+  const others = { _id: { $ne: taskId }, status };
+  // Neighbours that have since left the column are ignored
+  const findNeighbour = async (neighbourId?: string | null) =>
+    neighbourId && mongoose.Types.ObjectId.isValid(neighbourId) && !taskId.equals(neighbourId)
+      ? Task.findOne({ _id: neighbourId, status }).select('rank')
+      : null;
+
+  const before = await findNeighbour(beforeTaskId);
+  if (before?.rank) {
+    const next = await Task.findOne({ ...others, rank: { $gt: before.rank } }).sort({ rank: 1 }).select('rank');
+    return rankBetween(before.rank, next?.rank || null);
+  }
+
+  const after = await findNeighbour(afterTaskId);
+  if (after?.rank) {
+    const previous = await Task.findOne({ ...others, rank: { $lt: after.rank } }).sort({ rank: -1 }).select('rank');
+    return rankBetween(previous?.rank || null, after.rank);
+  }
+
+  // No neighbour left in the column - drop the task at the end
+  const last = await Task.findOne({ ...others, rank: { $ne: null } }).sort({ rank: -1 }).select('rank');
+  return rankBetween(last?.rank || null, null);
+};
@@ -1,6 +1,19 @@
 import { Task, ITask } from '../models/Task';
+import { Sprint } from '../models/Sprint';
 import mongoose from 'mongoose';
 import { createNotification } from '../index';
+import { getAssigneeIds } from './assignmentService';
+import { applySlaPolicy } from './slaService';
+
+// Sprint of a new instance - the parent's sprint while it is still open and runs until the instance is due,
+// otherwise the instance goes to the backlog
+const getInstanceSprint = async (parentTask: ITask, dueDate: Date): Promise<mongoose.Types.ObjectId | null> => {
+  if (!parentTask.sprint) return null;
+
+  const sprint = await Sprint.findById(parentTask.sprint);
+  if (!sprint || sprint.status === 'closed' || sprint.endDate < dueDate) return null;
+  return sprint._id;
+};
 
 /**
  * Creates a new instance of a recurring task
@@ -15,25 +28,47 @@ export const createRecurringTaskInstance = async (parentTask: ITask): Promise<IT
       return null;
     }
     
+    // Instances keep the same lead time between start and due date
+    const newStartDate = parentTask.startDate
+      ? new Date(newDueDate.getTime() - (parentTask.dueDate.getTime() - parentTask.startDate.getTime()))
+      : null;
+
     // Create new task instance
     const newTaskInstance = new Task({
       title: parentTask.title,
       description: parentTask.description,
+      startDate: newStartDate,
       dueDate: newDueDate,
       priority: parentTask.priority,
       status: 'todo', // Always start as todo
       assignedTo: parentTask.assignedTo,
+      assignees: parentTask.assignees,
+      watchers: parentTask.watchers,
+      // Assignees who took on the series keep it, open questions carry over
+      assignments: (parentTask.assignments || []).filter(response =>
+        response.status === 'pending' || response.status === 'accepted'
+      ),
+      requiresApproval: parentTask.requiresApproval,
+      storyPoints: parentTask.storyPoints,
+      estimatedHours: parentTask.estimatedHours,
+      customFields: parentTask.customFields,
+      project: parentTask.project,
+      labels: parentTask.labels,
+      sprint: await getInstanceSprint(parentTask, newDueDate),
       createdBy: parentTask.createdBy,
       isRecurring: false, // Instance isn't recurring itself
       parentTaskId: parentTask._id, // Reference to parent
     });
     
+    await applySlaPolicy(newTaskInstance);
     await newTaskInstance.save();
     
-    // Notify the assignee
-    if (newTaskInstance.assignedTo.toString() !== newTaskInstance.createdBy.toString()) {
+    // Notify the assignees
+    for (const assigneeId of getAssigneeIds(newTaskInstance)) {
+      if (assigneeId === newTaskInstance.createdBy.toString()) continue;
+
       await createNotification(
-        newTaskInstance.assignedTo.toString(),
+        assigneeId,
         `New recurring task: ${newTaskInstance.title}`,
         'task_assigned',
         newTaskInstance._id.toString()
@@ -49,9 +84,10 @@ export const createRecurringTaskInstance = async (parentTask: ITask): Promise<IT
 
 /**
  * Calculate the next due date based on recurring settings
+ * Counts from the task's due date unless another date is given
  */
-const calculateNextDueDate = (task: ITask): Date => {
-  const currentDueDate = new Date(task.dueDate);
+const calculateNextDueDate = (task: ITask, fromDate: Date = task.dueDate): Date => {
+  const currentDueDate = new Date(fromDate);
   const newDueDate = new Date(currentDueDate);
   
   switch (task.recurringType) {
@@ -110,6 +146,30 @@ const calculateNextDueDate = (task: ITask): Date => {
   return newDueDate;
 };
 
+// Upper bound on the occurrences stepped through for one projection
+const MAX_PROJECTED_STEPS = 1000;
+
+/**
+ * Get the upcoming due dates of a recurring task within a date range
+ * Occurrences are projected from the task's due date and stop at its recurrence end date
+ */
+export const projectRecurringDueDates = (task: ITask, from: Date, to: Date): Date[] => {
+  const dueDates: Date[] = [];
+  let dueDate = new Date(task.dueDate);
+
+  for (let step = 0; step < MAX_PROJECTED_STEPS; step++) {
+    const nextDueDate = calculateNextDueDate(task, dueDate);
+    // Stop if the pattern does not move forward, e.g. incomplete settings
+    if (nextDueDate <= dueDate) break;
+
+    dueDate = nextDueDate;
+    if (dueDate > to || (task.recurringEndDate && dueDate > task.recurringEndDate)) break;
+    if (dueDate >= from) dueDates.push(dueDate);
+  }
+
+  return dueDates;
+};
+
 /**
  * Process all completed recurring tasks and generate next instances
  * This should be run on a schedule (e.g., daily)
@@ -154,6 +214,7 @@ export const generateUpcomingRecurringTasks = async (): Promise<void> => {
       const nextDueDateDay = new Date(nextDueDate.setHours(0, 0, 0, 0));
       
       // Look for existing instances on the same day
+      // Trashed instances count too, so a deleted occurrence is not recreated
       const startOfDay = new Date(nextDueDateDay);
       const endOfDay = new Date(nextDueDateDay);
       endOfDay.setDate(endOfDay.getDate() + 1);
@@ -164,7 +225,7 @@ export const generateUpcomingRecurringTasks = async (): Promise<void> => {
           $gte: startOfDay,
           $lt: endOfDay
         }
-      });
+      }).setOptions({ withDeleted: true });
       
       // If no instance exists for this date, create one
       if (existingInstances === 0) {
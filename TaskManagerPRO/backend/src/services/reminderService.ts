@@ -0,0 +1,137 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { User } from '../models/User';
+import { TaskReminder, TaskReminderKind } from '../models/TaskReminder';
+import { createNotification } from '../index';
+import { getAssigneeIds } from './assignmentService';
+
+/**
+ * Limits on reminder offsets, in minutes before the due date
+ */
+export const MIN_REMINDER_OFFSET = 5;
+export const MAX_REMINDER_OFFSET = 7 * 24 * 60;
+export const MAX_REMINDER_OFFSETS = 5;
+
+// Tasks that became overdue longer ago than this get no alert,
+// so old overdue tasks are not all announced at once on the first run
+const OVERDUE_ALERT_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Readable form of an offset, e.g. "1 day" or "2 hours"
+const formatOffset = (minutes: number): string => {
+  const [value, unit] = minutes % (24 * 60) === 0
+    ? [minutes / (24 * 60), 'day']
+    : minutes % 60 === 0
+      ? [minutes / 60, 'hour']
+      : [minutes, 'minute'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+};
+
+// Record a reminder as sent - returns false if it was already recorded, e.g. by an overlapping run
+const claimReminder = async (
+  task: ITask,
+  userId: string,
+  kind: TaskReminderKind,
+  offsetMinutes: number
+): Promise<boolean> => {
+  try {
+    await TaskReminder.create({ task: task._id, user: userId, kind, offsetMinutes, dueDate: task.dueDate });
+    return true;
+  } catch (error: any) {
+    if (error?.code === 11000) return false;
+    throw error;
+  }
+};
+
+// Keys of the reminders already sent for the given tasks
+const getSentReminderKeys = async (tasks: ITask[], kind: TaskReminderKind): Promise<Set<string>> => {
+  const reminders = await TaskReminder.find({ task: { $in: tasks.map(task => task._id) }, kind })
+    .select('task user offsetMinutes dueDate');
+  return new Set(reminders.map(reminder =>
+    `${reminder.task}-${reminder.user}-${reminder.offsetMinutes}-${reminder.dueDate.getTime()}`
+  ));
+};
+
+/**
+ * Remind assignees of open tasks coming up to their due date, at each of their reminder offsets
+ * When several offsets have passed since the last run only the nearest one is sent
+ */
+export const sendDueSoonReminders = async (now: Date = new Date()): Promise<number> => {
+  const tasks = await Task.find({
+    status: { $ne: 'completed' },
+    dueDate: { $gt: now, $lte: new Date(now.getTime() + MAX_REMINDER_OFFSET * 60 * 1000) },
+  });
+  if (tasks.length === 0) return 0;
+
+  const userIds = [...new Set(tasks.flatMap(getAssigneeIds))];
+  const users = await User.find({ _id: { $in: userIds } }).select('reminderOffsets');
+  const offsetsByUser = new Map(users.map(user => [user._id.toString(), user.reminderOffsets || []]));
+  const sent = await getSentReminderKeys(tasks, 'due_soon');
+
+  let sentCount = 0;
+  for (const task of tasks) {
+    const minutesLeft = (task.dueDate.getTime() - now.getTime()) / (60 * 1000);
+
+    for (const userId of getAssigneeIds(task)) {
+      const dueOffsets = (offsetsByUser.get(userId) || [])
+        .filter(offset => offset >= minutesLeft)
+        .filter(offset => !sent.has(`${task._id}-${userId}-${offset}-${task.dueDate.getTime()}`))
+        .sort((a, b) => a - b);
+      if (dueOffsets.length === 0) continue;
+
+      // Claim every passed offset so none of them is sent later, and send the nearest
+      const claimed: number[] = [];
+      for (const offset of dueOffsets) {
+        if (await claimReminder(task, userId, 'due_soon', offset)) claimed.push(offset);
+      }
+      if (claimed.length === 0) continue;
+
+      await createNotification(
+        userId,
+        `Reminder: ${task.title} is due in ${formatOffset(claimed[0])}`,
+        'task_due_soon',
+        task._id.toString()
+      );
+      sentCount++;
+    }
+  }
+
+  return sentCount;
+};
+
+/**
+ * Alert assignees once when an open task passes its due date
+ */
+export const sendOverdueAlerts = async (now: Date = new Date()): Promise<number> => {
+  const tasks = await Task.find({
+    status: { $ne: 'completed' },
+    dueDate: { $lte: now, $gt: new Date(now.getTime() - OVERDUE_ALERT_WINDOW_MS) },
+  });
+  if (tasks.length === 0) return 0;
+
+  const sent = await getSentReminderKeys(tasks, 'overdue');
+
+  let sentCount = 0;
+  for (const task of tasks) {
+    for (const userId of getAssigneeIds(task)) {
+      if (sent.has(`${task._id}-${userId}-0-${task.dueDate.getTime()}`)) continue;
+      if (!(await claimReminder(task, userId, 'overdue', 0))) continue;
+
+      await createNotification(
+        userId,
+        `Task overdue: ${task.title} is past its due date`,
+        'task_overdue',
+        task._id.toString()
+      );
+      sentCount++;
+    }
+  }
+
+  return sentCount;
+};
+
+/**
+ * Remove the sent reminders of a task, e.g. once it is purged
+ */
+export const deleteTaskReminders = async (taskId: mongoose.Types.ObjectId | string): Promise<void> => {
+  await TaskReminder.deleteMany({ task: taskId });
+};
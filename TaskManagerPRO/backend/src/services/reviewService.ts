@@ -0,0 +1,48 @@
+import { ITask } from '../models/Task';
+import { IUser } from '../models/User';
+import { canReviewTask } from './taskAccessService';
+
+// Review decision an update carries out, see the approve and reject endpoints
+export type TaskReview = 'approved' | 'rejected';
+
+/**
+ * Check an update keeps to the approval step of a task
+ * Tasks only go into review by being completed and only leave it through a review decision,
+ * and only a reviewer can drop the approval step, not while the task is in review
+ * Returns the error status and message, or null when the update is fine
+ */
+export const getReviewUpdateError = async (
+  user: IUser,
+  task: ITask,
+  updates: Record<string, any>,
+  review?: TaskReview
+): Promise<{ status: number; message: string } | null> => {
+  if (updates.status !== undefined && updates.status !== task.status && !review) {
+    if (updates.status === 'in-review') {
+      return { status: 400, message: 'Complete the task to send it for review' };
+    }
+    if (task.status === 'in-review') {
+      return { status: 400, message: 'A task in review can only be approved or rejected' };
+    }
+  }
+
+  if (updates.requiresApproval === false && task.requiresApproval) {
+    if (task.status === 'in-review') {
+      return { status: 400, message: 'Approve or reject the task before dropping the approval step' };
+    }
+    if (!(await canReviewTask(user, task))) {
+      return { status: 403, message: 'Only a reviewer of this task can drop the approval step' };
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check if an update completes a task that has to go into review instead
+ * The stored approval flag decides, so an update cannot skip review by dropping it at the same time
+ */
+export const needsReview = (task: ITask, updates: Record<string, any>, review?: TaskReview): boolean => {
+  const requiresApproval = task.requiresApproval || updates.requiresApproval === true;
+  return updates.status === 'completed' && task.status !== 'completed' && requiresApproval && review !== 'approved';
+};
@@ -0,0 +1,69 @@
+import mongoose from 'mongoose';
+import { SavedView, ISavedView } from '../models/SavedView';
+import { Team } from '../models/Team';
+import { IUser } from '../models/User';
+import { refId } from './taskAccessService';
+
+// Teams a user belongs to, as member or manager
+const getUserTeamIds = async (userId: mongoose.Types.ObjectId): Promise<mongoose.Types.ObjectId[]> => {
+  const teams = await Team.find({ $or: [{ members: userId }, { managers: userId }] }).select('_id');
+  return teams.map(team => team._id);
+};
+
+/**
+ * Build the query filter for the saved views a user can see
+ * Their own views and the views shared with one of their teams
+ */
+export const getViewVisibilityFilter = async (user: IUser): Promise<Record<string, any>> => {
+  const teamIds = await getUserTeamIds(user._id);
+  return { $or: [{ owner: user._id }, { team: { $in: teamIds } }] };
+};
+
+/**
+ * Load a saved view by ID if it exists and the user can see it
+ */
+export const findVisibleView = async (user: IUser, viewId: string): Promise<ISavedView | null> => {
+  if (!mongoose.Types.ObjectId.isValid(viewId)) return null;
+
+  const filter = await getViewVisibilityFilter(user);
+  return SavedView.findOne({ $and: [{ _id: viewId }, filter] });
+};
+
+/**
+ * Check if a user can change or delete a saved view
+ * Only the owner can, or an admin
+ */
+export const canManageView = (user: IUser, view: ISavedView): boolean =>
+  refId(view.owner) === user._id.toString() || user.role === 'admin';
+
+/**
+ * Check if a user can share views with a team - admins with any team, others with their own teams
+ */
+export const canShareWithTeam = async (user: IUser, teamId: string): Promise<boolean> => {
+  if (user.role === 'admin') return !!(await Team.exists({ _id: teamId }));
+  return !!(await Team.exists({ _id: teamId, $or: [{ members: user._id }, { managers: user._id }] }));
+};
+
+/**
+ * Task list query parameters of a saved view, as GET /api/tasks takes them
+ */
+export const getViewListParams = (view: ISavedView): Record<string, any> => {
+  const { filters } = view;
+  const params: Record<string, any> = { sortBy: view.sortBy, sortOrder: view.sortOrder };
+
+  if (filters.search) params.search = filters.search;
+  if (filters.status) params.status = filters.status;
+  if (filters.priority) params.priority = filters.priority;
+  if (filters.assignedTo) params.assignedTo = filters.assignedTo.toString();
+  if (filters.project) params.project = filters.project.toString();
+  if (filters.sprint) params.sprint = filters.sprint;
+  if (filters.labels.length > 0) {
+    params.labels = filters.labels.map(String).join(',');
+    params.labelMatch = filters.labelMatch;
+  }
+  if (filters.customFields && Object.keys(filters.customFields).length > 0) {
+    params.customFields = filters.customFields;
+  }
+
+  return params;
+};
@@ -0,0 +1,136 @@
+import { ITask } from '../models/Task';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Schedule of a single task on the timeline
+export interface TaskSchedule {
+  earliestStart: Date;
+  earliestFinish: Date;
+  latestStart: Date;
+  latestFinish: Date;
+  slackDays: number;
+  critical: boolean;
+}
+
+export interface TimelineSchedule {
+  schedules: Map<string, TaskSchedule>;
+  criticalPath: string[]; // IDs of the critical tasks, in the order they run
+  deliveryDate: Date | null; // Forecast finish of the last task
+}
+
+// Planned start of a task - tasks without a start date take one day up to their due date
+const getPlannedStart = (task: ITask): Date =>
+  task.startDate ? new Date(task.startDate) : new Date(task.dueDate.getTime() - DAY_MS);
+
+// Order tasks so blockers come before the tasks they block; tasks caught in a cycle go last
+const sortByDependencies = (
+  tasks: ITask[],
+  blockersOf: Map<string, string[]>,
+  dependentsOf: Map<string, string[]>
+): ITask[] => {
+  const tasksById = new Map(tasks.map(task => [task._id.toString(), task]));
+  const openBlockers = new Map(tasks.map(task => {
+    const taskId = task._id.toString();
+    return [taskId, (blockersOf.get(taskId) || []).length];
+  }));
+  const queue = tasks.map(task => task._id.toString()).filter(taskId => openBlockers.get(taskId) === 0);
+
+  for (let index = 0; index < queue.length; index++) {
+    for (const dependentId of dependentsOf.get(queue[index]) || []) {
+      const left = (openBlockers.get(dependentId) as number) - 1;
+      openBlockers.set(dependentId, left);
+      if (left === 0) queue.push(dependentId);
+    }
+  }
+
+  const sortedIds = new Set(queue);
+  const cyclic = tasks.filter(task => !sortedIds.has(task._id.toString()));
+  return [...queue.map(taskId => tasksById.get(taskId) as ITask), ...cyclic];
+};
+
+/**
+ * Work out the critical path and the slack of each task from their dates and dependencies
+ * A task starts at its planned start or once its last blocker finishes, whichever is later,
+ * and open tasks past their due date are forecast to finish no earlier than now.
+ * Slack is how many days a task can slip before the delivery date moves; tasks with none are critical
+ */
+export const buildTimelineSchedule = (tasks: ITask[], now: Date = new Date()): TimelineSchedule => {
+  const taskIds = new Set(tasks.map(task => task._id.toString()));
+  const blockersOf = new Map<string, string[]>();
+  const dependentsOf = new Map<string, string[]>();
+
+  tasks.forEach(task => {
+    const taskId = task._id.toString();
+    const blockerIds = [...new Set((task.blockedBy || []).map(String))].filter(blockerId => taskIds.has(blockerId));
+    blockersOf.set(taskId, blockerIds);
+    blockerIds.forEach(blockerId => {
+      dependentsOf.set(blockerId, [...(dependentsOf.get(blockerId) || []), taskId]);
+    });
+  });
+
+  const ordered = sortByDependencies(tasks, blockersOf, dependentsOf);
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  const durations = new Map<string, number>();
+
+  // Forward pass - earliest start and finish of each task
+  for (const task of ordered) {
+    const taskId = task._id.toString();
+    const plannedStart = getPlannedStart(task).getTime();
+    const duration = Math.max(task.dueDate.getTime() - plannedStart, 0);
+    const blockersFinish = (blockersOf.get(taskId) || [])
+      .map(blockerId => earliestFinish.get(blockerId))
+      .filter((finish): finish is number => finish !== undefined);
+
+    const start = Math.max(plannedStart, ...blockersFinish);
+    let finish = start + duration;
+    if (task.status !== 'completed') {
+      finish = Math.max(finish, now.getTime());
+    }
+
+    durations.set(taskId, finish - start);
+    earliestStart.set(taskId, start);
+    earliestFinish.set(taskId, finish);
+  }
+
+  if (ordered.length === 0) {
+    return { schedules: new Map(), criticalPath: [], deliveryDate: null };
+  }
+
+  const delivery = Math.max(...earliestFinish.values());
+  const latestFinish = new Map<string, number>();
+  const latestStart = new Map<string, number>();
+
+  // Backward pass - latest finish that still keeps the delivery date
+  for (const task of [...ordered].reverse()) {
+    const taskId = task._id.toString();
+    const dependentsStart = (dependentsOf.get(taskId) || [])
+      .map(dependentId => latestStart.get(dependentId))
+      .filter((start): start is number => start !== undefined);
+
+    const finish = Math.min(delivery, ...dependentsStart);
+    latestFinish.set(taskId, finish);
+    latestStart.set(taskId, finish - (durations.get(taskId) || 0));
+  }
+
+  const schedules = new Map<string, TaskSchedule>();
+  ordered.forEach(task => {
+    const taskId = task._id.toString();
+    const slack = (latestFinish.get(taskId) as number) - (earliestFinish.get(taskId) as number);
+    schedules.set(taskId, {
+      earliestStart: new Date(earliestStart.get(taskId) as number),
+      earliestFinish: new Date(earliestFinish.get(taskId) as number),
+      latestStart: new Date(latestStart.get(taskId) as number),
+      latestFinish: new Date(latestFinish.get(taskId) as number),
+      slackDays: Math.round((slack / DAY_MS) * 10) / 10,
+      critical: slack <= 0,
+    });
+  });
+
+  const criticalPath = ordered
+    .map(task => task._id.toString())
+    .filter(taskId => schedules.get(taskId)?.critical)
+    .sort((a, b) => (earliestStart.get(a) as number) - (earliestStart.get(b) as number));
+
+  return { schedules, criticalPath, deliveryDate: new Date(delivery) };
+};
@@ -0,0 +1,321 @@
+import mongoose from 'mongoose';
+import { Task, ITask, ITaskSla } from '../models/Task';
+import { SlaPolicy, ISlaPolicy } from '../models/SlaPolicy';
+import { createNotification } from '../index';
+import { getAssigneeIds } from './assignmentService';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+type SlaTarget = 'response' | 'resolution';
+
+// Field recording when each target was met
+const MET_FIELDS: Record<SlaTarget, 'respondedAt' | 'resolvedAt'> = {
+  response: 'respondedAt',
+  resolution: 'resolvedAt',
+};
+
+/**
+ * Find the SLA policy for a task of the given priority and labels
+ * Policies limited to one of the task's labels win over policies for the whole priority,
+ * the oldest policy wins between equals
+ */
+export const findSlaPolicy = async (
+  priority: string,
+  labelIds: (mongoose.Types.ObjectId | string)[] = []
+): Promise<ISlaPolicy | null> => {
+  const labels = labelIds.map(String);
+  const policies = await SlaPolicy.find({ priority, enabled: true }).sort({ createdAt: 1 });
+
+  const labelPolicy = policies.find(policy =>
+    policy.labels.some(labelId => labels.includes(labelId.toString()))
+  );
+  return labelPolicy || policies.find(policy => policy.labels.length === 0) || null;
+};
+
+/**
+ * Start the SLA clock of a new task from the matching policy
+ * Call before the task is first saved; tasks without a matching policy get no SLA
+ */
+export const applySlaPolicy = async (task: ITask, now: Date = new Date()): Promise<void> => {
+  const policy = await findSlaPolicy(task.priority, task.labels);
+  if (!policy) return;
+
+  task.sla = {
+    policy: policy._id,
+    responseHours: policy.responseHours,
+    resolutionHours: policy.resolutionHours,
+    responseDueAt: new Date(now.getTime() + policy.responseHours * HOUR_MS),
+    resolutionDueAt: new Date(now.getTime() + policy.resolutionHours * HOUR_MS),
+    respondedAt: null,
+    resolvedAt: null,
+    pausedAt: task.waiting ? now : null,
+    pausedMs: 0,
+    responseBreachedAt: null,
+    resolutionBreachedAt: null,
+  };
+};
+
+/**
+ * SLA changes caused by an update to a task, as `sla.*` fields to $set with the update
+ * - waiting pauses the clock, and its deadlines move back by the time spent waiting
+ * - leaving todo meets the response target, completing meets both
+ * - a target met after its deadline is recorded as breached
+ * - reopening a completed task puts its resolution target back in play
+ */
+export const getSlaUpdates = (
+  task: ITask,
+  updates: Record<string, any>,
+  now: Date = new Date()
+): Record<string, any> => {
+  const sla = task.sla;
+  if (!sla) return {};
+
+  const changes: Record<string, any> = {};
+  const status = updates.status !== undefined ? updates.status : task.status;
+  const waiting = updates.waiting !== undefined ? Boolean(updates.waiting) : task.waiting;
+
+  let responseDueAt = sla.responseDueAt;
+  let resolutionDueAt = sla.resolutionDueAt;
+  let pausedAt = sla.pausedAt || null;
+
+  // Resume the clock when the task stops waiting or is completed while waiting
+  if (pausedAt && (!waiting || status === 'completed')) {
+    const pausedMs = now.getTime() - pausedAt.getTime();
+    pausedAt = null;
+    changes['sla.pausedAt'] = null;
+    changes['sla.pausedMs'] = (sla.pausedMs || 0) + pausedMs;
+
+    // Met or breached targets keep the deadline they were judged against
+    if (!sla.respondedAt && !sla.responseBreachedAt) {
+      responseDueAt = new Date(responseDueAt.getTime() + pausedMs);
+      changes['sla.responseDueAt'] = responseDueAt;
+    }
+    if (!sla.resolvedAt && !sla.resolutionBreachedAt) {
+      resolutionDueAt = new Date(resolutionDueAt.getTime() + pausedMs);
+      changes['sla.resolutionDueAt'] = resolutionDueAt;
+    }
+  }
+
+  if (!sla.respondedAt && status !== 'todo') {
+    changes['sla.respondedAt'] = now;
+    if (now > responseDueAt && !sla.responseBreachedAt) {
+      changes['sla.responseBreachedAt'] = responseDueAt;
+    }
+  }
+
+  if (status === 'completed' && task.status !== 'completed') {
+    changes['sla.resolvedAt'] = now;
+    if (now > resolutionDueAt && !sla.resolutionBreachedAt) {
+      changes['sla.resolutionBreachedAt'] = resolutionDueAt;
+    }
+  } else if (status !== 'completed' && task.status === 'completed') {
+    changes['sla.resolvedAt'] = null;
+  }
+
+  // Pause the clock of an open task that starts waiting
+  if (waiting && !pausedAt && status !== 'completed') {
+    changes['sla.pausedAt'] = now;
+  }
+
+  return changes;
+};
+
+// Record missed deadlines of one target on open, running tasks
+// Each breach is claimed before anyone is notified, so it is only reported once
+const recordTargetBreaches = async (target: SlaTarget, now: Date): Promise<number> => {
+  const dueField = `sla.${target}DueAt`;
+  const breachedField = `sla.${target}BreachedAt`;
+  const openFilter = {
+    [dueField]: { $lte: now },
+    [breachedField]: null,
+    [`sla.${MET_FIELDS[target]}`]: null,
+    'sla.pausedAt': null,
+    status: { $ne: 'completed' },
+  };
+
+  const tasks = await Task.find(openFilter);
+
+  let breachedCount = 0;
+  for (const task of tasks) {
+    const sla = task.sla as ITaskSla;
+    const dueAt = target === 'response' ? sla.responseDueAt : sla.resolutionDueAt;
+
+    // updateOne is not covered by the trash filter of the Task model
+    const claim = await Task.updateOne(
+      { _id: task._id, ...openFilter, [dueField]: dueAt, deletedAt: null },
+      { $set: { [breachedField]: dueAt } }
+    );
+    if (claim.modifiedCount === 0) continue;
+
+    const recipientIds = [...new Set([...getAssigneeIds(task), task.createdBy.toString()])];
+    for (const recipientId of recipientIds) {
+      await createNotification(
+        recipientId,
+        `SLA breached: the ${target} target of ${task.priority} priority task "${task.title}" was missed`,
+        'sla_breached',
+        task._id.toString()
+      );
+    }
+    breachedCount++;
+  }
+
+  return breachedCount;
+};
+
+/**
+ * Record SLA breaches of tasks whose response or resolution deadline has passed
+ * Waiting tasks are skipped - their deadlines move once they resume
+ */
+export const recordSlaBreaches = async (now: Date = new Date()): Promise<number> => {
+  const responseBreaches = await recordTargetBreaches('response', now);
+  const resolutionBreaches = await recordTargetBreaches('resolution', now);
+  return responseBreaches + resolutionBreaches;
+};
+
+export interface SlaTargetStats {
+  met: number;
+  breached: number;
+  pending: number; // Not met yet, deadline still ahead or paused
+  compliance: number | null; // Met as a percentage of met and breached
+  avgHours: number | null; // Average time to meet the target, not counting time spent waiting
+}
+
+export interface SlaGroup {
+  key: string;
+  name: string;
+  tasks: number;
+  response: SlaTargetStats;
+  resolution: SlaTargetStats;
+}
+
+export interface SlaBreach {
+  taskId: string;
+  title: string;
+  priority: string;
+  target: SlaTarget;
+  dueAt: Date;
+}
+
+export interface SlaReport {
+  from: Date;
+  to: Date;
+  totals: SlaGroup;
+  byPriority: SlaGroup[];
+  recentBreaches: SlaBreach[];
+}
+
+// Running sums of a target, turned into SlaTargetStats once all tasks are added
+interface TargetSums {
+  met: number;
+  breached: number;
+  pending: number;
+  hours: number;
+  timed: number; // Targets that were met, on time or late
+}
+
+const emptySums = (): TargetSums => ({ met: 0, breached: 0, pending: 0, hours: 0, timed: 0 });
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const finishTarget = (sums: TargetSums): SlaTargetStats => ({
+  met: sums.met,
+  breached: sums.breached,
+  pending: sums.pending,
+  compliance: sums.met + sums.breached > 0 ? Math.round((sums.met / (sums.met + sums.breached)) * 100) : null,
+  avgHours: sums.timed > 0 ? round(sums.hours / sums.timed) : null,
+});
+
+// Outcome of one target of a task; a passed deadline counts as breached
+// even before the breach job has recorded it
+const getTargetOutcome = (sla: ITaskSla, target: SlaTarget, now: Date) => {
+  const dueAt = target === 'response' ? sla.responseDueAt : sla.resolutionDueAt;
+  const targetHours = target === 'response' ? sla.responseHours : sla.resolutionHours;
+  const metAt = sla[MET_FIELDS[target]];
+  const breachedAt = target === 'response' ? sla.responseBreachedAt : sla.resolutionBreachedAt;
+
+  const breached = !!breachedAt || (!metAt && !sla.pausedAt && dueAt < now);
+  const status = breached ? ('breached' as const) : metAt ? ('met' as const) : ('pending' as const);
+
+  // Deadlines move back with time spent waiting, so the clock started targetHours before the deadline
+  const hours = metAt ? Math.max((metAt.getTime() - dueAt.getTime()) / HOUR_MS + targetHours, 0) : null;
+  return { status, hours, dueAt };
+};
+
+/**
+ * Report SLA compliance of the tasks created between from and to, overall and per priority
+ * Only tasks an SLA policy applied to are included
+ */
+export const buildSlaReport = async (
+  taskFilter: Record<string, any>,
+  from: Date,
+  to: Date,
+  now: Date = new Date()
+): Promise<SlaReport> => {
+  const tasks = await Task.find({
+    $and: [
+      taskFilter,
+      { sla: { $ne: null } },
+      { createdAt: { $gte: from, $lte: to } },
+    ],
+  }).select('title priority status sla createdAt');
+
+  const groups = new Map<string, { tasks: number; response: TargetSums; resolution: TargetSums }>();
+  const addToGroup = (key: string, target: SlaTarget, outcome: ReturnType<typeof getTargetOutcome>) => {
+    const sums = (groups.get(key) as { response: TargetSums; resolution: TargetSums })[target];
+    sums[outcome.status] += 1;
+    if (outcome.hours !== null) {
+      sums.hours += outcome.hours;
+      sums.timed += 1;
+    }
+  };
+
+  const breaches: SlaBreach[] = [];
+  tasks.forEach(task => {
+    const sla = task.sla as ITaskSla;
+    for (const key of ['all', task.priority]) {
+      if (!groups.has(key)) {
+        groups.set(key, { tasks: 0, response: emptySums(), resolution: emptySums() });
+      }
+      (groups.get(key) as { tasks: number }).tasks += 1;
+    }
+
+    (['response', 'resolution'] as SlaTarget[]).forEach(target => {
+      const outcome = getTargetOutcome(sla, target, now);
+      addToGroup('all', target, outcome);
+      addToGroup(task.priority, target, outcome);
+
+      if (outcome.status === 'breached') {
+        breaches.push({
+          taskId: task._id.toString(),
+          title: task.title,
+          priority: task.priority,
+          target,
+          dueAt: outcome.dueAt,
+        });
+      }
+    });
+  });
+
+  const finishGroup = (key: string, name: string): SlaGroup => {
+    const group = groups.get(key) || { tasks: 0, response: emptySums(), resolution: emptySums() };
+    return {
+      key,
+      name,
+      tasks: group.tasks,
+      response: finishTarget(group.response),
+      resolution: finishTarget(group.resolution),
+    };
+  };
+
+  return {
+    from,
+    to,
+    totals: finishGroup('all', 'All tasks'),
+    byPriority: ['high', 'medium', 'low']
+      .filter(priority => groups.has(priority))
+      .map(priority => finishGroup(priority, priority)),
+    recentBreaches: breaches
+      .sort((a, b) => b.dueAt.getTime() - a.dueAt.getTime())
+      .slice(0, 10),
+  };
+};
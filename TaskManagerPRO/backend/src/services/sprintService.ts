@@ -0,0 +1,214 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { ISprint } from '../models/Sprint';
+import { TaskActivity } from '../models/TaskActivity';
+import { recordTaskChanges } from './activityService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface SprintTaskCounts {
+  total: number;
+  completed: number;
+  totalPoints: number;
+  completedPoints: number;
+}
+
+export interface BurndownDay {
+  date: string; // YYYY-MM-DD
+  idealTasks: number;
+  idealPoints: number;
+  // Actual values are null for days that have not ended yet
+  remainingTasks: number | null;
+  remainingPoints: number | null;
+  completedTasks: number | null;
+  completedPoints: number | null;
+}
+
+// Start of the UTC day of a date
+const startOfDay = (date: Date): Date => {
+  const day = new Date(date);
+  day.setUTCHours(0, 0, 0, 0);
+  return day;
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Check if a sprint can hold tasks of a project
+ * Sprints without a project take tasks of any project
+ */
+export const sprintAcceptsProject = (sprint: ISprint, projectId?: mongoose.Types.ObjectId | string | null): boolean =>
+  !sprint.project || sprint.project.toString() === projectId?.toString();
+
+/**
+ * Count the tasks and story points of each sprint, keyed by sprint ID
+ */
+export const countSprintTasks = async (
+  sprintIds: mongoose.Types.ObjectId[]
+): Promise<Map<string, SprintTaskCounts>> => {
+  const results = await Task.aggregate([
+    { $match: { sprint: { $in: sprintIds } } },
+    {
+      $group: {
+        _id: '$sprint',
+        total: { $sum: 1 },
+        completed: { $sum: { $cond: [{ $eq: ['$status', 'completed'] }, 1, 0] } },
+        totalPoints: { $sum: { $ifNull: ['$storyPoints', 0] } },
+        completedPoints: {
+          $sum: { $cond: [{ $eq: ['$status', 'completed'] }, { $ifNull: ['$storyPoints', 0] }, 0] },
+        },
+      },
+    },
+  ]);
+
+  return new Map(
+    results.map(result => [
+      result._id.toString(),
+      {
+        total: result.total,
+        completed: result.completed,
+        totalPoints: result.totalPoints,
+        completedPoints: result.completedPoints,
+      },
+    ])
+  );
+};
+
+/**
+ * Move the unfinished tasks of a sprint to another sprint
+ * Only the tasks matching taskFilter are moved, e.g. the tasks the user can see
+ * The moved tasks are remembered on the source sprint so its burndown keeps its scope
+ * Returns the moved tasks
+ */
+export const carryOverUnfinishedTasks = async (
+  sprint: ISprint,
+  targetSprint: ISprint,
+  actorId: mongoose.Types.ObjectId,
+  taskFilter: Record<string, any> = {}
+): Promise<ITask[]> => {
+  const unfinishedTasks = await Task.find({
+    $and: [taskFilter, { sprint: sprint._id, status: { $ne: 'completed' } }],
+  });
+
+  const movedTasks: ITask[] = [];
+  for (const task of unfinishedTasks) {
+    const movedTask = await Task.findByIdAndUpdate(task._id, { $set: { sprint: targetSprint._id } }, { new: true });
+    if (movedTask) {
+      await recordTaskChanges(task, movedTask, actorId);
+      movedTasks.push(movedTask);
+    }
+  }
+
+  const carriedIds = new Set(sprint.carriedOverTasks.map(taskId => taskId.toString()));
+  movedTasks.forEach(task => {
+    if (!carriedIds.has(task._id.toString())) sprint.carriedOverTasks.push(task._id);
+  });
+  await sprint.save();
+
+  return movedTasks;
+};
+
+// Get when each task became completed, or null if it is not completed at the given time
+// Replays the status changes of the activity history; tasks without any history
+// fall back to their current status, completed at their last update
+const getCompletionTimeline = async (tasks: ITask[]) => {
+  const activities = await TaskActivity.find({
+    task: { $in: tasks.map(task => task._id) },
+    action: { $in: ['created', 'status_changed'] },
+  }).sort({ createdAt: 1 });
+
+  const statusChanges = new Map<string, { at: Date; status: string }[]>();
+  activities.forEach(activity => {
+    const statusChange = activity.changes.find(change => change.field === 'status');
+    if (!statusChange) return;
+
+    const taskId = activity.task.toString();
+    const changes = statusChanges.get(taskId) || [];
+    changes.push({ at: activity.createdAt, status: statusChange.newValue });
+    statusChanges.set(taskId, changes);
+  });
+
+  return (task: ITask, at: Date): boolean => {
+    const changes = statusChanges.get(task._id.toString());
+    if (!changes) {
+      return task.status === 'completed' && task.updatedAt <= at;
+    }
+
+    let status: string | null = null;
+    for (const change of changes) {
+      if (change.at > at) break;
+      status = change.status;
+    }
+    return status === 'completed';
+  };
+};
+
+/**
+ * Build the daily burndown and burnup data of a sprint
+ * Covers the sprint's tasks and the tasks carried over from it, counted by task and by story points;
+ * only the tasks matching taskFilter count, e.g. the tasks the user can see
+ */
+export const buildSprintBurndown = async (sprint: ISprint, taskFilter: Record<string, any> = {}) => {
+  const tasks = await Task.find({
+    $and: [taskFilter, { $or: [{ sprint: sprint._id }, { _id: { $in: sprint.carriedOverTasks } }] }],
+  });
+
+  const totalTasks = tasks.length;
+  const totalPoints = tasks.reduce((sum, task) => sum + (task.storyPoints || 0), 0);
+  const isCompletedAt = await getCompletionTimeline(tasks);
+
+  // Nothing after the sprint was closed counts towards it
+  const cutoff = sprint.closedAt && sprint.closedAt < new Date() ? sprint.closedAt : new Date();
+
+  const firstDay = startOfDay(sprint.startDate);
+  const lastDay = startOfDay(sprint.endDate);
+  const dayCount = Math.max(1, Math.round((lastDay.getTime() - firstDay.getTime()) / DAY_MS) + 1);
+
+  const days: BurndownDay[] = [];
+  for (let index = 0; index < dayCount; index++) {
+    const day = new Date(firstDay.getTime() + index * DAY_MS);
+    const dayEnd = new Date(day.getTime() + DAY_MS - 1);
+    const idealShare = dayCount === 1 ? 0 : 1 - index / (dayCount - 1);
+
+    const entry: BurndownDay = {
+      date: day.toISOString().split('T')[0],
+      idealTasks: round(totalTasks * idealShare),
+      idealPoints: round(totalPoints * idealShare),
+      remainingTasks: null,
+      remainingPoints: null,
+      completedTasks: null,
+      completedPoints: null,
+    };
+
+    // Days that have started show their progress so far
+    if (day <= cutoff) {
+      const at = dayEnd < cutoff ? dayEnd : cutoff;
+      const completed = tasks.filter(task => isCompletedAt(task, at));
+      const completedPoints = completed.reduce((sum, task) => sum + (task.storyPoints || 0), 0);
+
+      entry.completedTasks = completed.length;
+      entry.completedPoints = completedPoints;
+      entry.remainingTasks = totalTasks - completed.length;
+      entry.remainingPoints = totalPoints - completedPoints;
+    }
+
+    days.push(entry);
+  }
+
+  return {
+    sprint: {
+      _id: sprint._id,
+      name: sprint.name,
+      goal: sprint.goal,
+      status: sprint.status,
+      startDate: sprint.startDate,
+      endDate: sprint.endDate,
+    },
+    totals: {
+      tasks: totalTasks,
+      points: totalPoints,
+      carriedOver: sprint.carriedOverTasks.length,
+    },
+    days,
+  };
+};
@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+
+export interface TaskProgress {
+  percentage: number;
+  checklist: { total: number; completed: number };
+  subtasks: { total: number; completed: number };
+}
+
+/**
+ * Get the direct subtasks of a task
+ * An optional task filter, e.g. the user's visibility filter, limits which subtasks are returned
+ */
+export const getSubtasks = async (
+  taskId: mongoose.Types.ObjectId | string,
+  taskFilter: Record<string, any> = {}
+): Promise<ITask[]> => {
+  return Task.find({ $and: [taskFilter, { parentTask: taskId }] })
+    .sort({ createdAt: 1 })
+    .populate('assignedTo', 'name email');
+};
+
+/**
+ * Count the direct subtasks of a task that are not completed yet
+ */
+export const countOpenSubtasks = async (taskId: mongoose.Types.ObjectId | string): Promise<number> => {
+  return Task.countDocuments({ parentTask: taskId, status: { $ne: 'completed' } });
+};
+
+/**
+ * Calculate the progress of a task from its checklist items and direct subtasks
+ * Every checklist item and subtask counts as one unit of work
+ * A task without checklist items or subtasks is either 0% or 100% done
+ */
+export const calculateTaskProgress = (task: ITask, subtasks: ITask[]): TaskProgress => {
+  const checklistTotal = task.checklist?.length || 0;
+  const checklistCompleted = task.checklist?.filter(item => item.completed).length || 0;
+  const subtasksTotal = subtasks.length;
+  const subtasksCompleted = subtasks.filter(subtask => subtask.status === 'completed').length;
+
+  const total = checklistTotal + subtasksTotal;
+  const completed = checklistCompleted + subtasksCompleted;
+
+  let percentage = task.status === 'completed' ? 100 : 0;
+  if (total > 0) {
+    percentage = Math.round((completed / total) * 100);
+  }
+
+  return {
+    percentage,
+    checklist: { total: checklistTotal, completed: checklistCompleted },
+    subtasks: { total: subtasksTotal, completed: subtasksCompleted },
+  };
+};
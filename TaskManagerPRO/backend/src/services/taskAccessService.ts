@@ -0,0 +1,139 @@
+import { Response } from 'express';
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { IUser } from '../models/User';
+import { AuthRequest } from '../middleware/auth';
+import { getManagedUserIds, isTeamManagerOf } from './teamService';
+import { getAssigneeIds } from './assignmentService';
+
+/**
+ * Get the string ID of a user reference, whether or not it has been populated
+ */
+export const refId = (ref: any): string | undefined => ref?._id?.toString();
+
+/**
+ * Check if a manager manages any assignee of a task through one of their teams
+ * Unassigned tasks belong to the team of whoever created them
+ */
+const managesAssignee = async (user: IUser, task: ITask): Promise<boolean> => {
+  if (user.role !== 'manager') return false;
+
+  const assigneeIds = getAssigneeIds(task);
+  if (assigneeIds.length === 0) {
+    const creatorId = refId(task.createdBy);
+    return !!creatorId && isTeamManagerOf(user._id, [creatorId]);
+  }
+  return isTeamManagerOf(user._id, assigneeIds);
+};
+
+/**
+ * Check if a user can view a task
+ * Users can access tasks they created, are assigned to or watch
+ * Managers can access tasks assigned to members of their teams
+ * Admins can access any task
+ */
+export const canViewTask = async (user: IUser, task: ITask): Promise<boolean> => {
+  const userId = user._id.toString();
+  const isCreator = refId(task.createdBy) === userId;
+  const isAssignee = getAssigneeIds(task).includes(userId);
+  const isWatcher = (task.watchers || []).some(watcher => refId(watcher) === userId);
+
+  if (isCreator || isAssignee || isWatcher || user.role === 'admin') return true;
+  return managesAssignee(user, task);
+};
+
+/**
+ * Check if a user can update a task
+ * Admin can update any task
+ * Manager can update their own tasks and tasks assigned to their team members
+ * Regular user can update only their own tasks
+ */
+export const canUpdateTask = async (user: IUser, task: ITask): Promise<boolean> => {
+  const isTaskCreator = refId(task.createdBy) === user._id.toString();
+
+  if (isTaskCreator || user.role === 'admin') return true;
+  return managesAssignee(user, task);
+};
+
+/**
+ * Check if a user can approve or reject a task in review
+ * The creator, an admin or a manager of an assignee's team can review,
+ * but nobody reviews a task they are assigned to themselves
+ */
+export const canReviewTask = async (user: IUser, task: ITask): Promise<boolean> => {
+  if (getAssigneeIds(task).includes(user._id.toString())) return false;
+  return canUpdateTask(user, task);
+};
+
+/**
+ * Check if a user can delete a task
+ * Only the creator or an admin - team managers can update their team's tasks but not delete them
+ */
+export const canDeleteTask = async (user: IUser, task: ITask): Promise<boolean> =>
+  refId(task.createdBy) === user._id.toString() || user.role === 'admin';
+
+/**
+ * Check if a user can decide on a reassignment request of an assignee
+ * Admins decide any request, managers those of their team members
+ */
+export const canDecideReassignment = async (user: IUser, assigneeId: string): Promise<boolean> => {
+  if (user.role === 'admin') return true;
+  return user.role === 'manager' && isTeamManagerOf(user._id, [assigneeId]);
+};
+
+/**
+ * Build the query filter for the tasks a user can see
+ * Admin - all tasks
+ * Manager - own tasks, tasks assigned to their team members and unassigned tasks they created
+ * Regular user - tasks assigned to them, created by them or watched by them
+ */
+export const getTaskVisibilityFilter = async (user: IUser): Promise<Record<string, any>> => {
+  if (user.role === 'admin') return {};
+
+  const ownTasks = [
+    { assignedTo: user._id },
+    { assignees: user._id },
+    { watchers: user._id },
+    { createdBy: user._id },
+  ];
+
+  if (user.role === 'manager') {
+    const managedUserIds = await getManagedUserIds(user._id);
+    return {
+      $or: [
+        ...ownTasks,
+        { assignedTo: { $in: managedUserIds } },
+        { assignees: { $in: managedUserIds } },
+        { assignedTo: null, createdBy: { $in: managedUserIds } },
+      ],
+    };
+  }
+
+  return { $or: ownTasks };
+};
+
+/**
+ * Load the task from the :id route parameter and check the user can view it
+ * Sends the error response and returns null when the task is missing or hidden
+ */
+export const findVisibleTask = async (req: AuthRequest, res: Response): Promise<ITask | null> => {
+  const { id } = req.params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({ message: 'Invalid task ID format' });
+    return null;
+  }
+
+  const task = await Task.findById(id);
+  if (!task) {
+    res.status(404).json({ message: 'Task not found' });
+    return null;
+  }
+
+  if (!(await canViewTask(req.user as IUser, task))) {
+    res.status(403).json({ message: 'You do not have permission to view this task' });
+    return null;
+  }
+
+  return task;
+};
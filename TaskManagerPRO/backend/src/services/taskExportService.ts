@@ -0,0 +1,105 @@
+import mongoose from 'mongoose';
+import { ITask } from '../models/Task';
+import { ICustomField } from '../models/CustomField';
+import { User } from '../models/User';
+import { getLoggedSecondsByTask } from './timeTrackingService';
+
+// Quote a CSV cell when it contains a separator, quote or line break
+// Text that a spreadsheet would run as a formula is prefixed with ' so it stays text
+const toCsvCell = (value: any): string => {
+  let text = value === null || value === undefined ? '' : String(value);
+  if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsvRow = (values: any[]): string => values.map(toCsvCell).join(',');
+
+const formatDate = (value: any): string => (value ? new Date(value).toISOString().split('T')[0] : '');
+
+// Readable form of a custom field value
+const formatCustomFieldValue = (
+  field: ICustomField,
+  value: any,
+  userNames: Map<string, string>
+): string | number => {
+  if (value === null || value === undefined) return '';
+
+  switch (field.type) {
+    case 'number':
+      return Number(value);
+    case 'date':
+      return formatDate(value);
+    case 'multiselect':
+      return Array.isArray(value) ? value.join('; ') : String(value);
+    case 'user':
+      return userNames.get(value.toString()) || 'Unknown user';
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Build a CSV export of tasks, with a column for each custom field
+ * Tasks are expected to have their assignees, project and labels populated
+ */
+export const buildTasksCsv = async (tasks: ITask[], fields: ICustomField[]): Promise<string> => {
+  const loggedSeconds = await getLoggedSecondsByTask(tasks.map(task => task._id));
+
+  // Names of users referenced by user custom fields
+  const userFieldIds = fields.filter(field => field.type === 'user').map(field => field._id.toString());
+  const userIds = new Set<string>();
+  tasks.forEach(task => {
+    userFieldIds.forEach(fieldId => {
+      const value = task.customFields?.get(fieldId);
+      if (value && mongoose.Types.ObjectId.isValid(value.toString())) userIds.add(value.toString());
+    });
+  });
+  const users = await User.find({ _id: { $in: [...userIds] } }).select('name');
+  const userNames = new Map(users.map(user => [user._id.toString(), user.name]));
+
+  const header = [
+    'Title',
+    'Description',
+    'Status',
+    'Priority',
+    'Start Date',
+    'Due Date',
+    'Assignees',
+    'Project',
+    'Labels',
+    'Story Points',
+    'Estimated Hours',
+    'Logged Hours',
+    'Created At',
+    ...fields.map(field => field.name),
+  ];
+
+  const rows = tasks.map(task => {
+    const assignees = (task.assignees as any[]).map(assignee => assignee?.name).filter(Boolean);
+    const labels = (task.labels as any[]).map(label => label?.name).filter(Boolean);
+    const hours = (loggedSeconds.get(task._id.toString()) || 0) / 3600;
+
+    return toCsvRow([
+      task.title,
+      task.description,
+      task.status,
+      task.priority,
+      formatDate(task.startDate),
+      formatDate(task.dueDate),
+      assignees.join('; '),
+      (task.project as any)?.name || '',
+      labels.join('; '),
+      task.storyPoints ?? '',
+      task.estimatedHours ?? '',
+      Math.round(hours * 100) / 100,
+      formatDate(task.createdAt),
+      ...fields.map(field =>
+        formatCustomFieldValue(field, task.customFields?.get(field._id.toString()), userNames)
+      ),
+    ]);
+  });
+
+  return [toCsvRow(header), ...rows].join('\r\n');
+};
@@ -0,0 +1,45 @@
+import mongoose from 'mongoose';
+import { Team } from '../models/Team';
+
+/**
+ * Get the IDs of all members of the teams a manager manages
+ */
+export const getManagedUserIds = async (
+  managerId: mongoose.Types.ObjectId | string
+): Promise<mongoose.Types.ObjectId[]> => {
+  const teams = await Team.find({ managers: managerId }).select('members');
+
+  const memberIds = new Map<string, mongoose.Types.ObjectId>();
+  teams.forEach(team => {
+    team.members.forEach(memberId => memberIds.set(memberId.toString(), memberId));
+  });
+
+  return [...memberIds.values()];
+};
+
+/**
+ * Check if a manager manages any of the given users through one of their teams
+ */
+export const isTeamManagerOf = async (
+  managerId: mongoose.Types.ObjectId | string,
+  userIds: (mongoose.Types.ObjectId | string)[]
+): Promise<boolean> => {
+  const team = await Team.exists({ managers: managerId, members: { $in: userIds } });
+  return !!team;
+};
+
+/**
+ * Get the IDs of the managers of the teams the given users belong to
+ */
+export const getTeamManagerIds = async (
+  userIds: (mongoose.Types.ObjectId | string)[]
+): Promise<mongoose.Types.ObjectId[]> => {
+  const teams = await Team.find({ members: { $in: userIds } }).select('managers');
+
+  const managerIds = new Map<string, mongoose.Types.ObjectId>();
+  teams.forEach(team => {
+    team.managers.forEach(managerId => managerIds.set(managerId.toString(), managerId));
+  });
+
+  return [...managerIds.values()];
+};
@@ -0,0 +1,115 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { ITaskTemplate } from '../models/TaskTemplate';
+import { IUser } from '../models/User';
+import { createNotification } from '../index';
+import { createRecurringTaskInstance } from './recurringTaskService';
+import { recordTaskCreated } from './activityService';
+import { applySlaPolicy } from './slaService';
+import { buildAssignments } from './assignmentService';
+
+export interface TemplateInstantiation {
+  startDate: Date;
+  assignedTo?: string; // Overrides the template's assignee rule
+  project?: string;
+  customFields?: Record<string, any>; // Validated values for the fields of the project
+}
+
+// Date a number of days after the start date
+const addDays = (startDate: Date, days: number): Date => {
+  const date = new Date(startDate);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+};
+
+/**
+ * Get the user a task created from a template is assigned to
+ * A fixed default assignee falls back to the creating user if it is not set
+ */
+export const resolveTemplateAssignee = (
+  template: ITaskTemplate,
+  user: IUser,
+  assignedTo?: string
+): mongoose.Types.ObjectId | string => {
+  if (assignedTo) return assignedTo;
+  if (template.assigneeRule === 'user' && template.defaultAssignee) return template.defaultAssignee;
+  return user._id;
+};
+
+/**
+ * Create tasks from a template, with due dates relative to the start date
+ * Returns the created tasks, the main task first
+ */
+export const instantiateTemplate = async (
+  template: ITaskTemplate,
+  user: IUser,
+  { startDate, assignedTo, project, customFields = {} }: TemplateInstantiation
+): Promise<ITask[]> => {
+  const assignee = resolveTemplateAssignee(template, user, assignedTo);
+  const asSubtasks = template.checklistAsSubtasks && template.checklist.length > 0;
+
+  const task = new Task({
+    title: template.title,
+    description: template.description,
+    dueDate: addDays(startDate, template.dueOffsetDays),
+    priority: template.priority,
+    assignedTo: assignee,
+    assignees: [assignee],
+    assignments: buildAssignments([], [assignee.toString()], user._id.toString()),
+    createdBy: user._id,
+    isRecurring: template.isRecurring,
+    recurringType: template.isRecurring ? template.recurringType : undefined,
+    recurringInterval: template.isRecurring ? template.recurringInterval : undefined,
+    recurringDays: template.isRecurring ? template.recurringDays : undefined,
+    recurringDate: template.isRecurring ? template.recurringDate : undefined,
+    checklist: asSubtasks ? [] : template.checklist.map(item => ({ text: item.text })),
+    project,
+    customFields,
+  });
+
+  await applySlaPolicy(task);
+  await task.save();
+  await recordTaskCreated(task, user._id);
+
+  const createdTasks: ITask[] = [task];
+
+  // Checklist items with their own due dates become subtasks of the main task
+  if (asSubtasks) {
+    for (const item of template.checklist) {
+      const subtask = new Task({
+        title: item.text,
+        description: `Part of ${template.title}`,
+        dueDate: addDays(startDate, item.dueOffsetDays ?? template.dueOffsetDays),
+        priority: template.priority,
+        assignedTo: assignee,
+        assignees: [assignee],
+        assignments: buildAssignments([], [assignee.toString()], user._id.toString()),
+        createdBy: user._id,
+        parentTask: task._id,
+        project,
+        customFields,
+      });
+
+      await applySlaPolicy(subtask);
+      await subtask.save();
+      await recordTaskCreated(subtask, user._id);
+      createdTasks.push(subtask);
+    }
+  }
+
+  if (task.isRecurring) {
+    const instance = await createRecurringTaskInstance(task);
+    if (instance) createdTasks.push(instance);
+  }
+
+  if (assignee.toString() !== user._id.toString()) {
+    await createNotification(
+      assignee.toString(),
+      `You have been assigned a new task: ${task.title}`,
+      'task_assigned',
+      task._id.toString()
+    );
+  }
+
+  return createdTasks;
+};
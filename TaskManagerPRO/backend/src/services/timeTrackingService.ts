@@ -0,0 +1,142 @@
+import mongoose from 'mongoose';
+import { TimeEntry, ITimeEntry } from '../models/TimeEntry';
+import { IUser } from '../models/User';
+import { isTeamManagerOf } from './teamService';
+
+export interface TimesheetRow {
+  task: { _id: mongoose.Types.ObjectId; title: string } | null;
+  days: number[]; // Seconds logged on each day of the week, Monday first
+  totalSeconds: number;
+}
+
+export interface Timesheet {
+  weekStart: Date;
+  weekEnd: Date;
+  rows: TimesheetRow[];
+  dailyTotals: number[];
+  totalSeconds: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Get the running timer of a user, if any
+ */
+export const getRunningTimer = async (userId: mongoose.Types.ObjectId | string): Promise<ITimeEntry | null> => {
+  return TimeEntry.findOne({ user: userId, isRunning: true }).populate('task', 'title');
+};
+
+/**
+ * Stop a running timer and record its duration
+ */
+export const stopTimer = async (entry: ITimeEntry): Promise<ITimeEntry> => {
+  entry.endedAt = new Date();
+  entry.isRunning = false;
+  return entry.save();
+};
+
+/**
+ * Total seconds logged per task, for finished entries only
+ */
+export const getLoggedSecondsByTask = async (
+  taskIds: (mongoose.Types.ObjectId | string)[]
+): Promise<Map<string, number>> => {
+  const totals = await TimeEntry.aggregate([
+    {
+      $match: {
+        task: { $in: taskIds.map(taskId => new mongoose.Types.ObjectId(taskId.toString())) },
+        isRunning: false,
+      },
+    },
+    { $group: { _id: '$task', totalSeconds: { $sum: '$duration' } } },
+  ]);
+
+  return new Map(totals.map(total => [total._id.toString(), total.totalSeconds]));
+};
+
+/**
+ * Total seconds logged on a single task
+ */
+export const getTaskLoggedSeconds = async (taskId: mongoose.Types.ObjectId | string): Promise<number> => {
+  const totals = await getLoggedSecondsByTask([taskId]);
+  return totals.get(taskId.toString()) || 0;
+};
+
+/**
+ * Check if a user can edit or delete a time entry
+ * Users manage their own entries, admins and team managers can correct their members' entries
+ */
+export const canEditTimeEntry = async (user: IUser, entry: ITimeEntry): Promise<boolean> => {
+  if (user.role === 'admin') return true;
+  if (entry.user.toString() === user._id.toString()) return true;
+  if (user.role === 'manager') return isTeamManagerOf(user._id, [entry.user]);
+  return false;
+};
+
+/**
+ * Check if a user can see another user's timesheet
+ */
+export const canViewTimesheet = async (user: IUser, timesheetUserId: string): Promise<boolean> => {
+  if (user.role === 'admin') return true;
+  if (user._id.toString() === timesheetUserId) return true;
+  if (user.role === 'manager') return isTeamManagerOf(user._id, [timesheetUserId]);
+  return false;
+};
+
+/**
+ * Get the Monday (00:00 UTC) of the week containing a date
+ */
+export const getWeekStart = (date: Date): Date => {
+  const weekStart = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const daysSinceMonday = (weekStart.getUTCDay() + 6) % 7;
+  weekStart.setUTCDate(weekStart.getUTCDate() - daysSinceMonday);
+  return weekStart;
+};
+
+/**
+ * Build a user's timesheet for the week containing a date
+ * Entries are grouped by task and by the day they started on
+ */
+export const getWeeklyTimesheet = async (
+  userId: mongoose.Types.ObjectId | string,
+  date: Date
+): Promise<Timesheet> => {
+  const weekStart = getWeekStart(date);
+  const weekEnd = new Date(weekStart.getTime() + 7 * DAY_MS);
+
+  const entries = await TimeEntry.find({
+    user: userId,
+    isRunning: false,
+    startedAt: { $gte: weekStart, $lt: weekEnd },
+  }).populate('task', 'title');
+
+  const rows = new Map<string, TimesheetRow>();
+  const dailyTotals = [0, 0, 0, 0, 0, 0, 0];
+
+  entries.forEach(entry => {
+    const task = entry.task as any;
+    const taskKey = task?._id?.toString() || 'deleted';
+    const day = Math.floor((entry.startedAt.getTime() - weekStart.getTime()) / DAY_MS);
+
+    if (!rows.has(taskKey)) {
+      rows.set(taskKey, {
+        task: task?._id ? { _id: task._id, title: task.title } : null,
+        days: [0, 0, 0, 0, 0, 0, 0],
+        totalSeconds: 0,
+      });
+    }
+
+    const row = rows.get(taskKey) as TimesheetRow;
+    row.days[day] += entry.duration;
+    row.totalSeconds += entry.duration;
+    dailyTotals[day] += entry.duration;
+  });
+
+  return {
+    weekStart,
+    weekEnd,
+    rows: [...rows.values()].sort((a, b) => b.totalSeconds - a.totalSeconds),
+    dailyTotals,
+    totalSeconds: dailyTotals.reduce((sum, seconds) => sum + seconds, 0),
+  };
+};
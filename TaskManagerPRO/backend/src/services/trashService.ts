@@ -0,0 +1,147 @@
+import mongoose from 'mongoose';
+import { Task, ITask } from '../models/Task';
+import { Comment } from '../models/Comment';
+import { deleteTaskAttachments } from './attachmentService';
+import { recordActivity } from './activityService';
+import { deleteTaskReminders } from './reminderService';
+
+type ActorId = mongoose.Types.ObjectId | string;
+
+/**
+ * Number of days trashed tasks are kept before they are purged
+ * Configured with TRASH_RETENTION_DAYS, defaults to 30
+ */
+export const getTrashRetentionDays = (): number => {
+  const days = parseInt(process.env.TRASH_RETENTION_DAYS || '', 10);
+  return Number.isFinite(days) && days > 0 ? days : 30;
+};
+
+/**
+ * Find a task in the trash by ID
+ */
+export const findTrashedTask = async (taskId: mongoose.Types.ObjectId | string): Promise<ITask | null> => {
+  return Task.findOne({ _id: taskId, deletedAt: { $ne: null } }).setOptions({ withDeleted: true });
+};
+
+/**
+ * Find the tasks that belong to a task in the trash: the instances of a recurring task and subtasks,
+ * and in turn theirs, as long as they match the given filter
+ */
+const findDependentTasks = async (task: ITask, filter: Record<string, any>): Promise<ITask[]> => {
+  const seenIds = new Set([task._id.toString()]);
+  const dependents: ITask[] = [];
+
+  let parents = [task];
+  while (parents.length > 0) {
+    const recurringIds = parents.filter(parent => parent.isRecurring).map(parent => parent._id);
+    const children = await Task.find({
+      $and: [
+        filter,
+        { $or: [{ parentTask: { $in: parents.map(parent => parent._id) } }, { parentTaskId: { $in: recurringIds } }] },
+      ],
+    }).setOptions({ withDeleted: true });
+
+    parents = children.filter(child => !seenIds.has(child._id.toString()));
+    parents.forEach(child => seenIds.add(child._id.toString()));
+    dependents.push(...parents);
+  }
+
+  return dependents;
+};
+
+/**
+ * Move a task to the trash
+ * A recurring parent takes its instances with it and a task its subtasks,
+ * so they are trashed, restored and purged as one
+ */
+export const trashTask = async (task: ITask, actorId: ActorId): Promise<void> => {
+  const deletedAt = new Date();
+  const trash = { deletedAt, deletedBy: actorId };
+
+  const dependents = await findDependentTasks(task, { deletedAt: null });
+  await Task.updateMany(
+    { _id: { $in: [task._id, ...dependents.map(dependent => dependent._id)] }, deletedAt: null },
+    { $set: trash }
+  );
+};
+
+/**
+ * Restore a task from the trash
+ * Instances and subtasks that were trashed together with the task are restored with it
+ */
+export const restoreTask = async (task: ITask, actorId: ActorId): Promise<void> => {
+  const restore = { $set: { deletedAt: null, deletedBy: null } };
+
+  await Task.updateOne({ _id: task._id }, restore);
+
+  if (task.deletedAt) {
+    const dependents = await findDependentTasks(task, { deletedAt: task.deletedAt });
+    await Task.updateMany({ _id: { $in: dependents.map(dependent => dependent._id) } }, restore);
+  }
+
+  await recordActivity(task._id, actorId, 'restored');
+};
+
+/**
+ * Check if a trashed recurring instance or subtask belongs to a task that is also in the trash
+ * Such tasks are restored and purged through that task
+ */
+export const isTrashedWithParent = async (task: ITask): Promise<boolean> => {
+  const parentId = task.parentTask || task.parentTaskId;
+  if (!parentId) return false;
+
+  const parent = await Task.exists({ _id: parentId, deletedAt: { $ne: null } }).setOptions({
+    withDeleted: true,
+  });
+  return !!parent;
+};
+
+/**
+ * Permanently delete a task and everything that belongs to it
+ * Recurring instances and subtasks in the trash are purged too
+ */
+export const purgeTask = async (task: ITask): Promise<void> => {
+  const dependents = await findDependentTasks(task, { deletedAt: { $ne: null } });
+
+  for (const purged of [task, ...dependents]) {
+    await Task.deleteOne({ _id: purged._id });
+
+    // Detach subtasks outside the trash so they remain as standalone tasks
+    await Task.updateMany({ parentTask: purged._id }, { $unset: { parentTask: 1 } });
+
+    // Remove the task from other tasks' dependencies
+    await Task.updateMany({ blockedBy: purged._id }, { $pull: { blockedBy: purged._id } });
+
+    // Remove the task's discussion
+    await Comment.deleteMany({ task: purged._id });
+
+    // Remove the task's attachments and their files
+    await deleteTaskAttachments(purged._id);
+
+    // Remove the record of reminders sent for the task
+    await deleteTaskReminders(purged._id);
+  }
+};
+
+/**
+ * Purge all tasks that have been in the trash longer than the retention period
+ * Returns the number of tasks purged
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const cutoff = new Date();
+  cutoff.setDate(cutoff.getDate() - getTrashRetentionDays());
+
+  const expiredTasks = await Task.find({ deletedAt: { $ne: null, $lt: cutoff } }).setOptions({ withDeleted: true });
+
+  let purgedCount = 0;
+  for (const task of expiredTasks) {
+    // The task may already be gone as an instance of a purged parent
+    const stillTrashed = await findTrashedTask(task._id);
+    if (!stillTrashed) continue;
+
+    await purgeTask(stillTrashed);
+    purgedCount++;
+  }
+
+  return purgedCount;
+};
@@ -0,0 +1,329 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Box, Container, Heading, Text, Button } from '@chakra-ui/react';
+import { FiCalendar, FiChevronLeft, FiChevronRight, FiRepeat, FiAlertTriangle } from 'react-icons/fi';
+import { toast, Toaster } from 'react-hot-toast';
+import api from '@/lib/api';
+import { useProjectStore } from '@/store/project';
+
+type CalendarView = 'month' | 'week' | 'day';
+
+interface CalendarTask {
+  _id: string;
+  title: string;
+  startDate?: string | null;
+  dueDate: string;
+  priority: 'low' | 'medium' | 'high';
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
+  assignedTo?: { _id: string; name: string } | null;
+}
+
+// Projected occurrence of a recurring task that has no instance yet
+interface RecurringOccurrence {
+  taskId: string;
+  title: string;
+  dueDate: string;
+  priority: 'low' | 'medium' | 'high';
+  assignedTo?: { _id: string; name: string } | null;
+}
+
+const PRIORITY_COLORS: Record<CalendarTask['priority'], string> = {
+  high: '#E53E3E',
+  medium: '#DD6B20',
+  low: '#38A169',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || fallback;
+
+// Calendar days are local days, keyed as YYYY-MM-DD
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Days shown by a view - whole weeks around the month, the week, or the single day
+const getVisibleDays = (view: CalendarView, cursor: Date): Date[] => {
+  if (view === 'day') return [startOfDay(cursor)];
+
+  if (view === 'week') {
+    const weekStart = addDays(startOfDay(cursor), -cursor.getDay());
+    return Array.from({ length: 7 }, (_, index) => addDays(weekStart, index));
+  }
+
+  const monthStart = new Date(cursor.getFullYear(), cursor.getMonth(), 1);
+  const gridStart = addDays(monthStart, -monthStart.getDay());
+  const monthEnd = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0);
+  const gridEnd = addDays(monthEnd, 6 - monthEnd.getDay());
+  const dayCount = Math.round((gridEnd.getTime() - gridStart.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  return Array.from({ length: dayCount }, (_, index) => addDays(gridStart, index));
+};
+
+// Move the cursor by one month, week or day
+const shiftCursor = (view: CalendarView, cursor: Date, direction: 1 | -1) => {
+  if (view === 'month') return new Date(cursor.getFullYear(), cursor.getMonth() + direction, 1);
+  return addDays(cursor, direction * (view === 'week' ? 7 : 1));
+};
+
+const getTitle = (view: CalendarView, days: Date[], cursor: Date) => {
+  if (view === 'month') return cursor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+  if (view === 'day') return cursor.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+  return `${days[0].toLocaleDateString()} – ${days[days.length - 1].toLocaleDateString()}`;
+};
+
+export default function CalendarPage() {
+  const router = useRouter();
+  const currentProjectId = useProjectStore((state) => state.currentProjectId);
+  const [view, setView] = useState<CalendarView>('month');
+  const [cursor, setCursor] = useState(() => startOfDay(new Date()));
+  const [tasks, setTasks] = useState<CalendarTask[]>([]);
+  const [occurrences, setOccurrences] = useState<RecurringOccurrence[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [draggedTaskId, setDraggedTaskId] = useState<string | null>(null);
+  const [dropDay, setDropDay] = useState<string | null>(null);
+
+  const days = getVisibleDays(view, cursor);
+
+  // Fetch the tasks due in the visible days
+  const fetchCalendar = useCallback(async () => {
+    const visibleDays = getVisibleDays(view, cursor);
+    const rangeStart = visibleDays[0];
+    const rangeEnd = new Date(addDays(visibleDays[visibleDays.length - 1], 1).getTime() - 1);
+    const params: Record<string, string> = {
+      dueFrom: rangeStart.toISOString(),
+      dueTo: rangeEnd.toISOString(),
+    };
+    if (currentProjectId) params.project = currentProjectId;
+
+    try {
+      const [tasksResponse, occurrencesResponse] = await Promise.all([
+        api.get('/tasks', { params: { ...params, sortBy: 'dueDate', sortOrder: 'asc' } }),
+        api.get('/tasks/recurring/occurrences', { params }),
+      ]);
+      setTasks(tasksResponse.data);
+      setOccurrences(occurrencesResponse.data);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching calendar:', error);
+      setError(getErrorMessage(error, 'Failed to fetch tasks'));
+    }
+  }, [view, cursor, currentProjectId]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  // Tasks and occurrences grouped by day
+  const tasksByDay = new Map<string, CalendarTask[]>();
+  tasks.forEach(task => {
+    const key = dayKey(new Date(task.dueDate));
+    tasksByDay.set(key, [...(tasksByDay.get(key) || []), task]);
+  });
+  const occurrencesByDay = new Map<string, RecurringOccurrence[]>();
+  occurrences.forEach(occurrence => {
+    const key = dayKey(new Date(occurrence.dueDate));
+    occurrencesByDay.set(key, [...(occurrencesByDay.get(key) || []), occurrence]);
+  });
+
+  // Reschedule a task to another day, keeping its time of day
+  // A planned start moves by the same amount so the task keeps its length
+  const handleDrop = async (day: Date) => {
+    const task = tasks.find(item => item._id === draggedTaskId);
+    setDraggedTaskId(null);
+    setDropDay(null);
+    if (!task) return;
+
+    const current = new Date(task.dueDate);
+    if (dayKey(current) === dayKey(day)) return;
+
+    const dueDate = new Date(day);
+    dueDate.setHours(current.getHours(), current.getMinutes(), current.getSeconds(), current.getMilliseconds());
+    const startDate = task.startDate
+      ? new Date(new Date(task.startDate).getTime() + dueDate.getTime() - current.getTime()).toISOString()
+      : undefined;
+
+    // Show the move straight away and reload either way so the calendar matches the server
+    setTasks(tasks.map(item => (item._id === task._id ? { ...item, dueDate: dueDate.toISOString() } : item)));
+    try {
+      await api.put(`/tasks/${task._id}`, { dueDate: dueDate.toISOString(), startDate });
+      toast.success(`Rescheduled to ${dueDate.toLocaleDateString()}`);
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to reschedule task'));
+    } finally {
+      fetchCalendar();
+    }
+  };
+
+  const renderTask = (task: CalendarTask) => (
+    <div
+      key={task._id}
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', task._id);
+        setDraggedTaskId(task._id);
+      }}
+      onDragEnd={() => {
+        setDraggedTaskId(null);
+        setDropDay(null);
+      }}
+      onClick={() => router.push(`/dashboard/tasks/${task._id}`)}
+      title={task.title}
+      style={{
+        padding: '2px 6px',
+        marginBottom: '2px',
+        borderRadius: '4px',
+        borderLeft: `3px solid ${PRIORITY_COLORS[task.priority]}`,
+        backgroundColor: '#2D3748',
+        color: '#E2E8F0',
+        fontSize: '0.75rem',
+        cursor: 'grab',
+        whiteSpace: 'nowrap',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        textDecoration: task.status === 'completed' ? 'line-through' : 'none',
+        opacity: draggedTaskId === task._id ? 0.4 : 1,
+      }}
+    >
+      {task.title}
+      {view === 'day' && task.assignedTo && ` · ${task.assignedTo.name}`}
+    </div>
+  );
+
+  // Projected occurrences are not tasks yet, so they cannot be rescheduled
+  const renderOccurrence = (occurrence: RecurringOccurrence) => (
+    <div
+      key={`${occurrence.taskId}-${occurrence.dueDate}`}
+      onClick={() => router.push(`/dashboard/tasks/${occurrence.taskId}`)}
+      title={`${occurrence.title} (upcoming recurrence)`}
+      style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '4px',
+        padding: '2px 6px',
+        marginBottom: '2px',
+        borderRadius: '4px',
+        border: `1px dashed ${PRIORITY_COLORS[occurrence.priority]}`,
+        color: '#A0AEC0',
+        fontSize: '0.75rem',
+        fontStyle: 'italic',
+        cursor: 'pointer',
+        whiteSpace: 'nowrap',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+      }}
+    >
+      <FiRepeat style={{ flexShrink: 0 }} />
+      {occurrence.title}
+    </div>
+  );
+
+  const todayKey = dayKey(new Date());
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Toaster position="top-right" />
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem', flexWrap: 'wrap', gap: '0.5rem' }}>
+        <Heading size="lg" display="flex" alignItems="center">
+          <Box as={FiCalendar} mr={3} />
+          {getTitle(view, days, cursor)}
+        </Heading>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          <Button size="sm" onClick={() => setCursor(shiftCursor(view, cursor, -1))} aria-label="Previous">
+            <FiChevronLeft />
+          </Button>
+          <Button size="sm" onClick={() => setCursor(startOfDay(new Date()))}>Today</Button>
+          <Button size="sm" onClick={() => setCursor(shiftCursor(view, cursor, 1))} aria-label="Next">
+            <FiChevronRight />
+          </Button>
+          {(['month', 'week', 'day'] as CalendarView[]).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              colorScheme={view === option ? 'blue' : 'gray'}
+              onClick={() => setView(option)}
+              textTransform="capitalize"
+            >
+              {option}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <Box p={4} mb={4} borderRadius="md" borderLeft="4px solid" borderLeftColor="orange.500" bg="orange.50">
+          <Text color="orange.600" display="flex" alignItems="center">
+            <FiAlertTriangle style={{ marginRight: '8px' }} />
+            {error}
+          </Text>
+        </Box>
+      )}
+
+      {view !== 'day' && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(7, minmax(0, 1fr))', gap: '4px', marginBottom: '4px' }}>
+          {WEEKDAYS.map(weekday => (
+            <Text key={weekday} fontSize="sm" fontWeight="bold" color="gray.400" textAlign="center">{weekday}</Text>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'grid', gridTemplateColumns: view === 'day' ? '1fr' : 'repeat(7, minmax(0, 1fr))', gap: '4px' }}>
+        {days.map(day => {
+          const key = dayKey(day);
+          const dayTasks = tasksByDay.get(key) || [];
+          const dayOccurrences = occurrencesByDay.get(key) || [];
+          const isOtherMonth = view === 'month' && day.getMonth() !== cursor.getMonth();
+
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => {
+                e.preventDefault();
+                if (dropDay !== key) setDropDay(key);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(day);
+              }}
+              style={{
+                minHeight: view === 'month' ? '110px' : '400px',
+                padding: '4px',
+                borderRadius: '6px',
+                border: `1px solid ${dropDay === key ? '#63B3ED' : '#4A5568'}`,
+                backgroundColor: dropDay === key ? '#2A4365' : '#1A202C',
+                opacity: isOtherMonth ? 0.5 : 1,
+                overflow: 'hidden',
+              }}
+            >
+              {view !== 'day' && (
+                <Text
+                  fontSize="xs"
+                  fontWeight="bold"
+                  mb={1}
+                  color={key === todayKey ? 'blue.300' : 'gray.400'}
+                >
+                  {view === 'week' ? `${WEEKDAYS[day.getDay()]} ${day.getDate()}` : day.getDate()}
+                </Text>
+              )}
+              {dayTasks.map(renderTask)}
+              {dayOccurrences.map(renderOccurrence)}
+              {view === 'day' && dayTasks.length === 0 && dayOccurrences.length === 0 && (
+                <Text fontSize="sm" color="gray.500">Nothing due on this day.</Text>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Container>
+  );
+}
@@ -6,7 +6,7 @@ import { connectSocket, disconnectSocket } from '@/lib/socket';
 import socket from '@/lib/socket';
 import { getUser, isAuthenticated, logout, initSession } from '@/lib/auth';
 import dynamic from 'next/dynamic';
-import { FiMenu, FiHome, FiList, FiUsers, FiSettings, FiBell, FiLogOut, FiUser } from 'react-icons/fi';
+import { FiMenu, FiHome, FiList, FiUsers, FiSettings, FiBell, FiLogOut, FiUser, FiTrash2, FiFlag, FiCalendar, FiBarChart2 } from 'react-icons/fi';
 import { appColors } from '@/lib/theme';
 
 // Custom Image component since Chakra's isn't available
@@ -25,6 +25,12 @@ const NotificationCenter = dynamic(
   { ssr: false }
 );
 
+// The project switcher reads the persisted project selection, so skip SSR as well
+const ProjectSwitcher = dynamic(
+  () => import('@/components/ProjectSwitcher'),
+  { ssr: false }
+);
+
 interface NavItemProps {
   icon: React.ReactNode;
   children: React.ReactNode;
@@ -263,7 +269,6 @@ export default function DashboardLayout({
   // Define role-based access to pages
   const canAccessUsers = isAdmin;
   const canAccessReports = isAdmin || isManager;
-  const canAccessAllTasks = isAdmin || isManager;
 
   return (
     <div style={{ 
@@ -326,6 +331,8 @@ export default function DashboardLayout({
             </span>
           </div>
           
+          <ProjectSwitcher />
+          
           <div style={{ marginBottom: '16px' }}>
             <div style={{ padding: '0 24px', marginBottom: '8px', fontSize: '11px', fontWeight: 500, color: colors.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
               Main Menu
@@ -344,7 +351,39 @@ export default function DashboardLayout({
               isActive={currentPath === '/dashboard/tasks' || currentPath.startsWith('/dashboard/tasks/')}
               setCurrentPath={setCurrentPath}
             >
-              {canAccessAllTasks ? 'All Tasks' : 'My Tasks'}
+              {isAdmin ? 'All Tasks' : isManager ? 'Team Tasks' : 'My Tasks'}
+            </NavItem>
+            <NavItem 
+              icon={<FiCalendar />} 
+              href="/dashboard/calendar"
+              isActive={currentPath === '/dashboard/calendar'}
+              setCurrentPath={setCurrentPath}
+            >
+              Calendar
+            </NavItem>
+            <NavItem 
+              icon={<FiBarChart2 />} 
+              href="/dashboard/timeline"
+              isActive={currentPath === '/dashboard/timeline'}
+              setCurrentPath={setCurrentPath}
+            >
+              Timeline
+            </NavItem>
+            <NavItem 
+              icon={<FiFlag />} 
+              href="/dashboard/sprints"
+              isActive={currentPath === '/dashboard/sprints'}
+              setCurrentPath={setCurrentPath}
+            >
+              Sprints
+            </NavItem>
+            <NavItem 
+              icon={<FiTrash2 />} 
+              href="/dashboard/trash"
+              isActive={currentPath === '/dashboard/trash'}
+              setCurrentPath={setCurrentPath}
+            >
+              Trash
             </NavItem>
             
             {canAccessReports && (
@@ -6,6 +6,9 @@ import api from '@/lib/api';
 import { FiFileText, FiCheckCircle, FiBarChart2, FiClock, FiAlertTriangle } from 'react-icons/fi';
 import { getUser } from '@/lib/auth';
 import { appColors } from '@/lib/theme';
+import { useProjectStore } from '@/store/project';
+import EscalatedTasksWidget from '@/components/EscalatedTasksWidget';
+import AssignmentRequestsWidget from '@/components/AssignmentRequestsWidget';
 
 // Use our shared theme colors with additional background shades
 const colors = {
@@ -26,6 +29,7 @@ interface TaskStats {
   statusCounts: {
     completed?: number;
     'in-progress'?: number;
+    'in-review'?: number;
     todo?: number;
   };
   priorityCounts: {
@@ -40,6 +44,7 @@ interface TaskStats {
 
 export default function DashboardPage() {
   const [userData, setUserData] = useState({ name: 'User' });
+  const currentProjectId = useProjectStore((state) => state.currentProjectId);
 
   // Load user data using proper auth functions instead of direct localStorage access
   useEffect(() => {
@@ -58,18 +63,21 @@ export default function DashboardPage() {
   }, []);
 
   const { data: stats, isLoading } = useQuery<TaskStats>(
-    'taskStats',
+    ['taskStats', currentProjectId],
     async () => {
-      const response = await api.get('/tasks/stats');
+      const response = await api.get('/tasks/stats', {
+        params: currentProjectId ? { project: currentProjectId } : {},
+      });
       return response.data;
     }
   );
 
   const { data: recentTasks, isLoading: isLoadingTasks } = useQuery(
-    'recentTasks',
+    ['recentTasks', currentProjectId],
     async () => {
       const response = await api.get('/tasks', {
         params: {
+          ...(currentProjectId ? { project: currentProjectId } : {}),
           limit: 5,
           sortBy: 'createdAt',
           sortOrder: 'desc',
@@ -92,6 +100,7 @@ export default function DashboardPage() {
     switch (status) {
       case 'completed': return colors.green;
       case 'in-progress': return colors.accent.primary;
+      case 'in-review': return colors.purple;
       case 'todo': return colors.text.muted;
       default: return colors.text.muted;
     }
@@ -113,6 +122,7 @@ export default function DashboardPage() {
     const completed = stats.statusCounts?.completed || 0;
     const total = (stats.statusCounts?.completed || 0) + 
                  (stats.statusCounts?.['in-progress'] || 0) + 
+                 (stats.statusCounts?.['in-review'] || 0) + 
                  (stats.statusCounts?.todo || 0);
     
     if (total === 0) return 0;
@@ -181,6 +191,7 @@ export default function DashboardPage() {
           value={isLoading ? '...' : (
             ((stats?.statusCounts?.completed || 0) + 
              (stats?.statusCounts?.['in-progress'] || 0) + 
+             (stats?.statusCounts?.['in-review'] || 0) + 
              (stats?.statusCounts?.todo || 0)).toString()
           )}
           icon={<FiFileText size={20} />}
@@ -210,6 +221,12 @@ export default function DashboardPage() {
         />
       </div>
 
+      {/* Overdue tasks escalated to managers and admins */}
+      <EscalatedTasksWidget projectId={currentProjectId} />
+
+      {/* Assignments not yet accepted, reassignment requests and the unassigned queue */}
+      <AssignmentRequestsWidget projectId={currentProjectId} />
+
       {/* Recent tasks */}
       <div style={{
         backgroundColor: colors.background.card,
@@ -287,6 +304,7 @@ export default function DashboardPage() {
                         color: getStatusColor(task.status)
                       }}>
                         {task.status === 'in-progress' ? 'In Progress' : 
+                          task.status === 'in-review' ? 'In Review' : 
                           task.status.charAt(0).toUpperCase() + task.status.slice(1)}
                       </span>
                     </td>
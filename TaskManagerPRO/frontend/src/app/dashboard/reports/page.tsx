@@ -2,9 +2,11 @@
 
 import React, { useState, useEffect } from 'react';
 import { Box, Container, Heading, Text, VStack } from '@chakra-ui/react';
-import { FiBarChart2, FiPieChart, FiTrendingUp, FiClock, FiUsers, FiCheckCircle, FiAlertTriangle, FiLoader } from 'react-icons/fi';
+import { FiBarChart2, FiPieChart, FiTrendingUp, FiClock, FiUsers, FiCheckCircle, FiAlertTriangle, FiLoader, FiFlag, FiShield } from 'react-icons/fi';
 import { getUser } from '@/lib/auth';
 import api from '@/lib/api';
+import { Sprint, SprintBurndown, formatSprintDates } from '@/types/sprint';
+import { SlaReport, SlaTargetStats } from '@/types/sla';
 
 // Create a custom spinner component since Chakra's Spinner is not available
 const Spinner = () => (
@@ -35,6 +37,7 @@ interface AnalyticsData {
     total: number;
     completed: number;
     inProgress: number;
+    inReview?: number;
     todo: number;
     rate: number;
     change: number;
@@ -53,6 +56,7 @@ interface AnalyticsData {
     status: {
       completed: number;
       'in-progress': number;
+      'in-review'?: number;
       todo: number;
     };
     priority: {
@@ -75,11 +79,31 @@ interface CompletionTrend {
   completionRate: number;
 }
 
+// Estimate vs actual interfaces
+interface EstimateGroup {
+  key: string;
+  name: string;
+  tasks: number;
+  storyPoints: number;
+  estimatedHours: number;
+  actualHours: number;
+  accuracy: number | null;
+  hoursPerPoint: number | null;
+}
+
+interface EstimateReport {
+  totals: EstimateGroup;
+  byUser: EstimateGroup[];
+  byPriority: EstimateGroup[];
+}
+
 export default function ReportsPage() {
   const [userData, setUserData] = useState<any>(null);
   const [analyticsData, setAnalyticsData] = useState<AnalyticsData | null>(null);
   const [userPerformance, setUserPerformance] = useState<UserPerformance[]>([]);
   const [completionTrend, setCompletionTrend] = useState<CompletionTrend[]>([]);
+  const [estimateReport, setEstimateReport] = useState<EstimateReport | null>(null);
+  const [sprints, setSprints] = useState<Sprint[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   
@@ -115,6 +139,14 @@ export default function ReportsPage() {
       const trendResponse = await api.get('/tasks/analytics/completion-trend');
       setCompletionTrend(trendResponse.data);
       
+      // Fetch estimate vs actual data
+      const estimatesResponse = await api.get('/tasks/analytics/estimates');
+      setEstimateReport(estimatesResponse.data);
+      
+      // Fetch sprints for the burndown chart
+      const sprintsResponse = await api.get('/sprints');
+      setSprints(sprintsResponse.data);
+      
       setError(null);
     } catch (error: any) {
       console.error('Error fetching analytics:', error);
@@ -236,6 +268,7 @@ export default function ReportsPage() {
           data={[
             { label: 'Completed', value: analyticsData.taskCompletion.completed, color: '#38A169' },
             { label: 'In Progress', value: analyticsData.taskCompletion.inProgress, color: '#3182CE' },
+            { label: 'In Review', value: analyticsData.taskCompletion.inReview || 0, color: '#805AD5' },
             { label: 'To Do', value: analyticsData.taskCompletion.todo, color: '#E53E3E' }
           ]}
           height="300px"
@@ -275,6 +308,30 @@ export default function ReportsPage() {
           showPlaceholder={completionTrend.length === 0}
           emptyStateMessage="Not enough data to display trends yet"
         />
+        
+        {/* Estimate vs Actual Chart */}
+        <EstimateChart 
+          title="Estimate vs Actual" 
+          icon={<FiClock size={20} />}
+          description="Estimated hours compared with logged hours on completed tasks"
+          report={estimateReport}
+          height="360px"
+        />
+        
+        {/* Sprint Burndown Chart */}
+        <BurndownChart 
+          title="Sprint Burndown" 
+          icon={<FiFlag size={20} />}
+          sprints={sprints}
+          height="360px"
+        />
+        
+        {/* SLA Compliance */}
+        <SlaComplianceChart 
+          title="SLA Compliance" 
+          icon={<FiShield size={20} />}
+          height="420px"
+        />
       </div>
     </Container>
   );
@@ -602,4 +659,438 @@ function TrendChart({
       )}
     </Box>
   );
-} 
\ No newline at end of file
+} 
+
+// Estimate vs Actual Chart Component
+interface EstimateChartProps {
+  title: string;
+  icon: React.ReactNode;
+  description: string;
+  report: EstimateReport | null;
+  height: string;
+}
+
+function EstimateChart({ title, icon, description, report, height }: EstimateChartProps) {
+  const [groupBy, setGroupBy] = useState<'user' | 'priority'>('user');
+  const groups = report ? (groupBy === 'user' ? report.byUser : report.byPriority) : [];
+  const maxHours = Math.max(1, ...groups.map(group => Math.max(group.estimatedHours, group.actualHours)));
+
+  return (
+    <Box
+      p={5}
+      borderRadius="lg"
+      borderWidth="1px"
+      boxShadow="md"
+      height={height}
+      bg="gray.800"
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <Heading size="md" color="gray.200">{title}</Heading>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as 'user' | 'priority')}
+            style={{
+              padding: '0.25rem',
+              borderRadius: '0.375rem',
+              border: '1px solid #4A5568',
+              backgroundColor: '#2D3748',
+              color: '#E2E8F0',
+              fontSize: '0.8rem'
+            }}
+          >
+            <option value="user">Per user</option>
+            <option value="priority">Per priority</option>
+          </select>
+          <Box color="#3182CE">{icon}</Box>
+        </div>
+      </div>
+      <Text fontSize="sm" color="gray.400" mb={2}>{description}</Text>
+      
+      {report && groups.length > 0 ? (
+        <div style={{ height: 'calc(100% - 90px)', overflowY: 'auto' }}>
+          <div style={{ display: 'flex', gap: '1rem', marginBottom: '8px', fontSize: '0.75rem', color: '#A0AEC0' }}>
+            <span><span style={{ display: 'inline-block', width: '10px', height: '10px', backgroundColor: '#805AD5', marginRight: '4px' }} />Estimated</span>
+            <span><span style={{ display: 'inline-block', width: '10px', height: '10px', backgroundColor: '#38A169', marginRight: '4px' }} />Actual</span>
+            {report.totals.accuracy !== null && (
+              <span style={{ marginLeft: 'auto' }}>Overall: {report.totals.accuracy}% of estimate</span>
+            )}
+          </div>
+          {groups.map(group => (
+            <div key={group.key} style={{ marginBottom: '12px' }}>
+              <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '4px' }}>
+                <Text fontSize="sm" color="gray.300" textTransform={groupBy === 'priority' ? 'capitalize' : 'none'}>
+                  {group.name}
+                </Text>
+                <Text fontSize="xs" color="gray.400">
+                  {group.estimatedHours}h est. · {group.actualHours}h actual
+                  {group.accuracy !== null && ` · ${group.accuracy}%`}
+                  {group.hoursPerPoint !== null && ` · ${group.hoursPerPoint}h/pt`}
+                </Text>
+              </div>
+              {[
+                { value: group.estimatedHours, color: '#805AD5' },
+                { value: group.actualHours, color: '#38A169' }
+              ].map((bar, index) => (
+                <div key={index} style={{ width: '100%', height: '6px', backgroundColor: '#2D3748', borderRadius: '3px', overflow: 'hidden', marginBottom: '2px' }}>
+                  <div 
+                    style={{ 
+                      height: '100%', 
+                      width: `${(bar.value / maxHours) * 100}%`,
+                      backgroundColor: bar.color,
+                      borderRadius: '3px',
+                      transition: 'width 0.5s ease'
+                    }} 
+                  />
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div style={{ 
+          height: 'calc(100% - 90px)',
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          flexDirection: 'column',
+          borderRadius: '0.375rem',
+          backgroundColor: '#2D3748',
+          color: '#718096',
+          padding: '1rem'
+        }}>
+          <Text textAlign="center" fontStyle="italic">
+            No completed tasks with estimates yet
+          </Text>
+          <Text fontSize="sm" mt={2} textAlign="center">
+            Add story points or estimated hours to tasks and log time on them.
+          </Text>
+        </div>
+      )}
+    </Box>
+  );
+}
+
+// Sprint Burndown Chart Component
+interface BurndownChartProps {
+  title: string;
+  icon: React.ReactNode;
+  sprints: Sprint[];
+  height: string;
+}
+
+// Sprint shown first - the active sprint, or else the most recent one
+const getDefaultSprintId = (sprints: Sprint[]) =>
+  (sprints.find(sprint => sprint.status === 'active') || sprints[0])?._id || '';
+
+function BurndownChart({ title, icon, sprints, height }: BurndownChartProps) {
+  const [sprintId, setSprintId] = useState(() => getDefaultSprintId(sprints));
+  const [mode, setMode] = useState<'burndown' | 'burnup'>('burndown');
+  const [unit, setUnit] = useState<'tasks' | 'points'>('tasks');
+  const [burndown, setBurndown] = useState<SprintBurndown | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!sprintId) return;
+
+    api.get(`/sprints/${sprintId}/burndown`)
+      .then(response => {
+        setBurndown(response.data);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error fetching sprint burndown:', error);
+        setBurndown(null);
+        setError(error.response?.data?.message || 'Failed to fetch burndown data');
+      });
+  }, [sprintId]);
+
+  const selectStyle = {
+    padding: '0.25rem',
+    borderRadius: '0.375rem',
+    border: '1px solid #4A5568',
+    backgroundColor: '#2D3748',
+    color: '#E2E8F0',
+    fontSize: '0.8rem'
+  };
+
+  const days = burndown?.days || [];
+  const total = burndown ? (unit === 'tasks' ? burndown.totals.tasks : burndown.totals.points) : 0;
+
+  // Reference line - the ideal burndown, or the total scope for burnup
+  const referenceValues = days.map(day =>
+    mode === 'burndown' ? (unit === 'tasks' ? day.idealTasks : day.idealPoints) : total
+  );
+  const actualValues = days.map(day =>
+    mode === 'burndown'
+      ? (unit === 'tasks' ? day.remainingTasks : day.remainingPoints)
+      : (unit === 'tasks' ? day.completedTasks : day.completedPoints)
+  );
+  const maxValue = Math.max(1, total);
+
+  // Points of a line in a 100x100 viewBox, skipping days without data
+  const toPoints = (values: (number | null)[]) =>
+    values
+      .map((value, index) => {
+        if (value === null) return null;
+        const x = days.length > 1 ? (index / (days.length - 1)) * 100 : 50;
+        const y = 100 - (value / maxValue) * 100;
+        return `${x},${y}`;
+      })
+      .filter(Boolean)
+      .join(' ');
+
+  // Show about seven date labels whatever the sprint length
+  const labelStep = Math.max(1, Math.ceil(days.length / 7));
+
+  return (
+    <Box
+      p={5}
+      borderRadius="lg"
+      borderWidth="1px"
+      boxShadow="md"
+      height={height}
+      bg="gray.800"
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <Heading size="md" color="gray.200">{title}</Heading>
+        <Box color="#3182CE">{icon}</Box>
+      </div>
+      
+      {sprints.length > 0 ? (
+        <>
+          <div style={{ display: 'flex', gap: '0.5rem', marginBottom: '0.5rem', flexWrap: 'wrap' }}>
+            <select value={sprintId} onChange={(e) => setSprintId(e.target.value)} style={selectStyle}>
+              {sprints.map(sprint => (
+                <option key={sprint._id} value={sprint._id}>
+                  {sprint.name}{sprint.status === 'active' && ' (active)'}
+                </option>
+              ))}
+            </select>
+            <select value={mode} onChange={(e) => setMode(e.target.value as 'burndown' | 'burnup')} style={selectStyle}>
+              <option value="burndown">Burndown</option>
+              <option value="burnup">Burnup</option>
+            </select>
+            <select value={unit} onChange={(e) => setUnit(e.target.value as 'tasks' | 'points')} style={selectStyle}>
+              <option value="tasks">Tasks</option>
+              <option value="points">Story points</option>
+            </select>
+          </div>
+          
+          {burndown && days.length > 0 ? (
+            <div style={{ height: 'calc(100% - 110px)' }}>
+              <div style={{ display: 'flex', gap: '1rem', marginBottom: '4px', fontSize: '0.75rem', color: '#A0AEC0' }}>
+                <span><span style={{ display: 'inline-block', width: '10px', height: '2px', backgroundColor: '#718096', marginRight: '4px', verticalAlign: 'middle' }} />{mode === 'burndown' ? 'Ideal' : 'Scope'}</span>
+                <span><span style={{ display: 'inline-block', width: '10px', height: '2px', backgroundColor: mode === 'burndown' ? '#3182CE' : '#38A169', marginRight: '4px', verticalAlign: 'middle' }} />{mode === 'burndown' ? 'Remaining' : 'Completed'}</span>
+                <span style={{ marginLeft: 'auto' }}>
+                  {formatSprintDates(burndown.sprint)}
+                  {burndown.totals.carriedOver > 0 && ` · ${burndown.totals.carriedOver} carried over`}
+                </span>
+              </div>
+              <div style={{ display: 'flex', height: 'calc(100% - 40px)' }}>
+                {/* Y-axis labels */}
+                <div style={{ width: '30px', display: 'flex', flexDirection: 'column', justifyContent: 'space-between' }}>
+                  <Text fontSize="xs" color="gray.400">{maxValue}</Text>
+                  <Text fontSize="xs" color="gray.400">{Math.round(maxValue / 2)}</Text>
+                  <Text fontSize="xs" color="gray.400">0</Text>
+                </div>
+                <svg viewBox="0 0 100 100" preserveAspectRatio="none" style={{ flex: 1, height: '100%', overflow: 'visible' }}>
+                  {[0, 50, 100].map(y => (
+                    <line key={y} x1="0" x2="100" y1={y} y2={y} stroke="#2D3748" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+                  ))}
+                  <polyline
+                    points={toPoints(referenceValues)}
+                    fill="none"
+                    stroke="#718096"
+                    strokeWidth="1.5"
+                    strokeDasharray="4 3"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                  <polyline
+                    points={toPoints(actualValues)}
+                    fill="none"
+                    stroke={mode === 'burndown' ? '#3182CE' : '#38A169'}
+                    strokeWidth="2"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                </svg>
+              </div>
+              {/* X-axis labels */}
+              <div style={{ display: 'flex', justifyContent: 'space-between', marginLeft: '30px', marginTop: '5px' }}>
+                {days.filter((_, index) => index % labelStep === 0).map(day => (
+                  <Text key={day.date} fontSize="xs" color="gray.400" whiteSpace="nowrap">
+                    {new Date(`${day.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </Text>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <Text fontSize="sm" color="gray.400" fontStyle="italic">
+              {error || 'Loading burndown data...'}
+            </Text>
+          )}
+        </>
+      ) : (
+        <div style={{ 
+          height: 'calc(100% - 50px)',
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          flexDirection: 'column',
+          borderRadius: '0.375rem',
+          backgroundColor: '#2D3748',
+          color: '#718096',
+          padding: '1rem'
+        }}>
+          <Text textAlign="center" fontStyle="italic">
+            No sprints yet
+          </Text>
+          <Text fontSize="sm" mt={2} textAlign="center">
+            Create a sprint and plan tasks into it to track its burndown.
+          </Text>
+        </div>
+      )}
+    </Box>
+  );
+}
+
+// SLA Compliance Component
+interface SlaComplianceChartProps {
+  title: string;
+  icon: React.ReactNode;
+  height: string;
+}
+
+// Date input value of a date, e.g. 2024-05-31
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+// Bar colour of a compliance percentage
+const getComplianceColor = (compliance: number | null) =>
+  compliance === null ? '#718096' : compliance >= 90 ? '#38A169' : compliance >= 70 ? '#DD6B20' : '#E53E3E';
+
+function SlaComplianceChart({ title, icon, height }: SlaComplianceChartProps) {
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [report, setReport] = useState<SlaReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!from || !to) return;
+
+    // The end date counts in full
+    api.get('/tasks/analytics/sla', { params: { from, to: `${to}T23:59:59.999Z` } })
+      .then(response => {
+        setReport(response.data);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error fetching SLA report:', error);
+        setReport(null);
+        setError(error.response?.data?.message || 'Failed to fetch SLA data');
+      });
+  }, [from, to]);
+
+  const inputStyle = {
+    padding: '0.25rem',
+    borderRadius: '0.375rem',
+    border: '1px solid #4A5568',
+    backgroundColor: '#2D3748',
+    color: '#E2E8F0',
+    fontSize: '0.8rem'
+  };
+
+  const renderTarget = (label: string, stats: SlaTargetStats) => (
+    <div style={{ marginBottom: '6px' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.75rem', color: '#A0AEC0', marginBottom: '2px' }}>
+        <span>{label}: {stats.compliance !== null ? `${stats.compliance}%` : 'n/a'}</span>
+        <span>
+          {stats.met} met · {stats.breached} breached
+          {stats.pending > 0 && ` · ${stats.pending} open`}
+          {stats.avgHours !== null && ` · avg ${stats.avgHours}h`}
+        </span>
+      </div>
+      <div style={{ width: '100%', height: '6px', backgroundColor: '#2D3748', borderRadius: '3px', overflow: 'hidden' }}>
+        <div 
+          style={{ 
+            height: '100%', 
+            width: `${stats.compliance ?? 0}%`,
+            backgroundColor: getComplianceColor(stats.compliance),
+            borderRadius: '3px',
+            transition: 'width 0.5s ease'
+          }} 
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Box
+      p={5}
+      borderRadius="lg"
+      borderWidth="1px"
+      boxShadow="md"
+      height={height}
+      bg="gray.800"
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <Heading size="md" color="gray.200">{title}</Heading>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <input type="date" value={from} max={to} onChange={(e) => setFrom(e.target.value)} style={inputStyle} />
+          <input type="date" value={to} min={from} onChange={(e) => setTo(e.target.value)} style={inputStyle} />
+          <Box color="#3182CE">{icon}</Box>
+        </div>
+      </div>
+      <Text fontSize="sm" color="gray.400" mb={2}>
+        Response and resolution targets met by tasks created in the period
+      </Text>
+
+      {error ? (
+        <Text color="red.300" fontSize="sm">{error}</Text>
+      ) : report && report.totals.tasks > 0 ? (
+        <div style={{ height: 'calc(100% - 90px)', overflowY: 'auto' }}>
+          {[report.totals, ...report.byPriority].map(group => (
+            <div key={group.key} style={{ marginBottom: '12px' }}>
+              <Text fontSize="sm" color="gray.300" textTransform="capitalize" mb={1}>
+                {group.name} ({group.tasks} task{group.tasks === 1 ? '' : 's'})
+              </Text>
+              {renderTarget('Response', group.response)}
+              {renderTarget('Resolution', group.resolution)}
+            </div>
+          ))}
+          {report.recentBreaches.length > 0 && (
+            <div>
+              <Text fontSize="sm" color="gray.300" mb={1}>Recent breaches</Text>
+              {report.recentBreaches.map(breach => (
+                <div key={`${breach.taskId}-${breach.target}`} style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem', fontSize: '0.75rem', color: '#A0AEC0', marginBottom: '2px' }}>
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{breach.title}</span>
+                  <span style={{ flexShrink: 0, color: '#FC8181' }}>
+                    {breach.target} due {new Date(breach.dueAt).toLocaleDateString()}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <div style={{ 
+          height: 'calc(100% - 90px)',
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          flexDirection: 'column',
+          borderRadius: '0.375rem',
+          backgroundColor: '#2D3748',
+          color: '#718096',
+          padding: '1rem'
+        }}>
+          <Text textAlign="center" fontStyle="italic">
+            No tasks with an SLA in this period
+          </Text>
+          <Text fontSize="sm" mt={2} textAlign="center">
+            Add SLA policies in the settings to track response and resolution times.
+          </Text>
+        </div>
+      )}
+    </Box>
+  );
+}
@@ -12,7 +12,11 @@ import {
   VStack,
   useToast,
 } from '@chakra-ui/react';
+import { Toaster } from 'react-hot-toast';
 import api from '@/lib/api';
+import { hasPermission } from '@/lib/permissions';
+import EscalationPolicyManager from '@/components/EscalationPolicyManager';
+import SlaPolicyManager from '@/components/SlaPolicyManager';
 
 interface NotificationSettings {
   emailNotifications: boolean;
@@ -22,6 +26,16 @@ interface NotificationSettings {
   dailyDigest: boolean;
 }
 
+// Reminder times offered, in minutes before the due date
+const REMINDER_OPTIONS = [
+  { minutes: 7 * 24 * 60, label: '1 week before' },
+  { minutes: 2 * 24 * 60, label: '2 days before' },
+  { minutes: 24 * 60, label: '1 day before' },
+  { minutes: 3 * 60, label: '3 hours before' },
+  { minutes: 60, label: '1 hour before' },
+  { minutes: 15, label: '15 minutes before' },
+];
+
 interface User {
   id: string;
   name: string;
@@ -40,6 +54,9 @@ export default function SettingsPage() {
     dailyDigest: false,
   });
   const [timeZone, setTimeZone] = useState('UTC');
+  // Null until loaded, so a failed load does not clear the saved reminders
+  const [reminderOffsets, setReminderOffsets] = useState<number[] | null>(null);
+  const [canManagePolicies, setCanManagePolicies] = useState(false);
   const toast = useToast();
 
   useEffect(() => {
@@ -56,6 +73,14 @@ export default function SettingsPage() {
       console.error('Error accessing auth data:', err);
     }
 
+    // Permissions come from the stored user, so check them on the client
+    setCanManagePolicies(hasPermission('system:settings'));
+
+    // Reminder times are stored on the user
+    api.get('/users/profile')
+      .then(response => setReminderOffsets(response.data?.reminderOffsets || []))
+      .catch(error => console.error('Error fetching reminder settings:', error));
+
     // For demo purposes we're using local state
     // In a real app, you would fetch user settings from the backend
     // Example:
@@ -78,6 +103,11 @@ export default function SettingsPage() {
     });
   };
 
+  const handleReminderChange = (minutes: number, checked: boolean) => {
+    const offsets = reminderOffsets || [];
+    setReminderOffsets(checked ? [...offsets, minutes] : offsets.filter(offset => offset !== minutes));
+  };
+
   const handleTimeZoneChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setTimeZone(e.target.value);
   };
@@ -85,6 +115,9 @@ export default function SettingsPage() {
   const handleSaveSettings = async () => {
     try {
       setIsLoading(true);
+      if (reminderOffsets) {
+        await api.put('/users/reminders', { reminderOffsets });
+      }
       // In a real app, you would save settings to the backend
       // Example:
       // await api.put('/users/settings', { settings, timeZone });
@@ -121,6 +154,7 @@ export default function SettingsPage() {
 
   return (
     <Container maxW="container.md" py={8}>
+      <Toaster position="top-right" />
       <VStack spacing={8} align="stretch">
         <Box textAlign="center">
           <Heading size="lg" mb={2}>Settings</Heading>
@@ -209,6 +243,37 @@ export default function SettingsPage() {
           </VStack>
         </Box>
         
+        <Box 
+          bg="#2D3748" 
+          p={6} 
+          borderRadius="lg" 
+          boxShadow="md"
+          borderLeft="4px solid"
+          borderColor="#3182CE"
+        >
+          <Heading size="md" mb={2} color="#90CDF4">Due Date Reminders</Heading>
+          <Text color="gray.400" fontSize="sm" mb={4}>
+            Get a notification before tasks assigned to you are due. You are always alerted once when a task becomes overdue.
+          </Text>
+          <VStack spacing={4} align="stretch">
+            {REMINDER_OPTIONS.map(option => (
+              <FormControl key={option.minutes} display="flex" alignItems="center" justifyContent="space-between">
+                <FormLabel htmlFor={`reminder-${option.minutes}`} mb="0" color="white">
+                  {option.label}
+                </FormLabel>
+                <input
+                  type="checkbox"
+                  id={`reminder-${option.minutes}`}
+                  checked={!!reminderOffsets?.includes(option.minutes)}
+                  disabled={!reminderOffsets}
+                  onChange={(e) => handleReminderChange(option.minutes, e.target.checked)}
+                  style={{ width: '20px', height: '20px', accentColor: '#3182CE' }}
+                />
+              </FormControl>
+            ))}
+          </VStack>
+        </Box>
+        
         <Box 
           bg="#2D3748" 
           p={6} 
@@ -255,6 +320,32 @@ export default function SettingsPage() {
         >
           Save Settings
         </Button>
+        
+        {canManagePolicies && (
+          <Box 
+            bg="#2D3748" 
+            p={6} 
+            borderRadius="lg" 
+            boxShadow="md"
+            borderLeft="4px solid"
+            borderColor="#E53E3E"
+          >
+            <EscalationPolicyManager />
+          </Box>
+        )}
+
+        {canManagePolicies && (
+          <Box 
+            bg="#2D3748" 
+            p={6} 
+            borderRadius="lg" 
+            boxShadow="md"
+            borderLeft="4px solid"
+            borderColor="#805AD5"
+          >
+            <SlaPolicyManager />
+          </Box>
+        )}
       </VStack>
     </Container>
   );
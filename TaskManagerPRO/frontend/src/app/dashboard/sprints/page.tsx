@@ -0,0 +1,306 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Container, Heading, Text, Button } from '@chakra-ui/react';
+import { FiFlag, FiPlay, FiCheckSquare, FiCornerUpRight, FiTrash2, FiPlus, FiAlertTriangle } from 'react-icons/fi';
+import { toast, Toaster } from 'react-hot-toast';
+import api from '@/lib/api';
+import { appColors } from '@/lib/theme';
+import { hasPermission } from '@/lib/permissions';
+import { Sprint, formatSprintDates } from '@/types/sprint';
+
+const inputStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+const STATUS_COLORS: Record<Sprint['status'], string> = {
+  planned: 'gray.400',
+  active: 'blue.300',
+  closed: 'green.400',
+};
+
+// Sprints that can take the unfinished tasks of a sprint
+const getCarryOverTargets = (sprint: Sprint, sprints: Sprint[]) =>
+  sprints.filter(other =>
+    other._id !== sprint._id &&
+    other.status !== 'closed' &&
+    (other.project?._id || null) === (sprint.project?._id || null)
+  );
+
+// Single sprint with its progress and actions
+function SprintRow({
+  sprint,
+  sprints,
+  canManage,
+  onChanged,
+}: {
+  sprint: Sprint;
+  sprints: Sprint[];
+  canManage: boolean;
+  onChanged: () => void;
+}) {
+  const [targetSprintId, setTargetSprintId] = useState('');
+  const counts = sprint.taskCounts || { total: 0, completed: 0, totalPoints: 0, completedPoints: 0 };
+  const unfinished = counts.total - counts.completed;
+  const targets = getCarryOverTargets(sprint, sprints);
+  const percent = counts.total > 0 ? Math.round((counts.completed / counts.total) * 100) : 0;
+
+  const runAction = async (request: () => Promise<any>, fallback: string) => {
+    try {
+      const response = await request();
+      toast.success(response.data.message);
+      setTargetSprintId('');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, fallback));
+    }
+  };
+
+  const handleStart = () =>
+    runAction(() => api.post(`/sprints/${sprint._id}/start`), 'Failed to start sprint');
+
+  const handleClose = () => {
+    if (unfinished > 0 && !targetSprintId &&
+      !window.confirm(`Close "${sprint.name}" with ${unfinished} unfinished task(s) left in it?`)) return;
+
+    runAction(
+      () => api.post(`/sprints/${sprint._id}/close`, { nextSprintId: targetSprintId || null }),
+      'Failed to close sprint'
+    );
+  };
+
+  const handleCarryOver = () =>
+    runAction(
+      () => api.post(`/sprints/${sprint._id}/carry-over`, { targetSprintId }),
+      'Failed to carry over tasks'
+    );
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete the sprint "${sprint.name}"? Its tasks will be taken out of it.`)) return;
+    runAction(() => api.delete(`/sprints/${sprint._id}`), 'Failed to delete sprint');
+  };
+
+  // Unfinished tasks can be carried over when closing, or afterwards from a closed sprint
+  const canCarryOver = canManage && unfinished > 0 && targets.length > 0 && sprint.status !== 'planned';
+
+  return (
+    <Box
+      p={4}
+      mb={3}
+      borderRadius="md"
+      borderWidth="1px"
+      borderColor={appColors.border.light}
+      bg={appColors.background.card}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', gap: '1rem' }}>
+        <Box>
+          <Text fontWeight="bold">
+            {sprint.name}
+            <Text as="span" fontSize="xs" color={STATUS_COLORS[sprint.status]} ml={2} textTransform="uppercase">
+              {sprint.status}
+            </Text>
+          </Text>
+          <Text fontSize="sm" color={appColors.text.secondary}>
+            {formatSprintDates(sprint)}
+            {' · '}
+            {sprint.project ? sprint.project.name : 'All projects'}
+          </Text>
+          {sprint.goal && (
+            <Text fontSize="sm" color={appColors.text.muted} mt={1}>Goal: {sprint.goal}</Text>
+          )}
+        </Box>
+        {canManage && (
+          <Box display="flex" flexShrink={0}>
+            {sprint.status === 'planned' && (
+              <Button size="sm" colorScheme="blue" leftIcon={<Box as={FiPlay} />} onClick={handleStart}>
+                Start
+              </Button>
+            )}
+            {sprint.status === 'active' && (
+              <Button size="sm" colorScheme="green" leftIcon={<Box as={FiCheckSquare} />} onClick={handleClose}>
+                Close
+              </Button>
+            )}
+            <Button size="sm" variant="ghost" colorScheme="red" ml={2} leftIcon={<Box as={FiTrash2} />} onClick={handleDelete}>
+              Delete
+            </Button>
+          </Box>
+        )}
+      </div>
+
+      <div style={{ marginTop: '0.75rem' }}>
+        <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.8rem', color: appColors.text.secondary, marginBottom: '4px' }}>
+          <span>{counts.completed}/{counts.total} tasks completed</span>
+          <span>{counts.completedPoints}/{counts.totalPoints} pts</span>
+        </div>
+        <div style={{ width: '100%', height: '6px', backgroundColor: '#2D3748', borderRadius: '3px', overflow: 'hidden' }}>
+          <div style={{ width: `${percent}%`, height: '100%', backgroundColor: '#38A169', borderRadius: '3px' }} />
+        </div>
+      </div>
+
+      {canCarryOver && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.75rem', flexWrap: 'wrap' }}>
+          <Text fontSize="sm" color={appColors.text.secondary}>
+            Carry {unfinished} unfinished task(s) over to
+          </Text>
+          <select value={targetSprintId} onChange={(e) => setTargetSprintId(e.target.value)} style={inputStyle}>
+            <option value="">{sprint.status === 'active' ? 'Nowhere - leave them here' : 'Select a sprint'}</option>
+            {targets.map(target => (
+              <option key={target._id} value={target._id}>{target.name}</option>
+            ))}
+          </select>
+          {sprint.status === 'closed' && (
+            <Button size="sm" leftIcon={<Box as={FiCornerUpRight} />} isDisabled={!targetSprintId} onClick={handleCarryOver}>
+              Carry over
+            </Button>
+          )}
+        </div>
+      )}
+    </Box>
+  );
+}
+
+export default function SprintsPage() {
+  const [sprints, setSprints] = useState<Sprint[]>([]);
+  const [projects, setProjects] = useState<{ _id: string; name: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [canManage, setCanManage] = useState(false);
+
+  // New sprint form
+  const [name, setName] = useState('');
+  const [goal, setGoal] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [project, setProject] = useState('');
+
+  const fetchSprints = async () => {
+    try {
+      const response = await api.get('/sprints');
+      setSprints(response.data);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching sprints:', error);
+      setError(getErrorMessage(error, 'Failed to fetch sprints'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    // Permissions come from the stored user, so check them on the client
+    const isManager = hasPermission('sprints:manage');
+    setCanManage(isManager);
+    fetchSprints();
+
+    if (isManager) {
+      api.get('/projects')
+        .then(response => setProjects(response.data))
+        .catch(error => console.error('Error fetching projects:', error));
+    }
+  }, []);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim() || !startDate || !endDate) return;
+
+    try {
+      await api.post('/sprints', {
+        name: name.trim(),
+        goal: goal.trim() || undefined,
+        startDate,
+        endDate,
+        project: project || null,
+      });
+      toast.success('Sprint created');
+      setName('');
+      setGoal('');
+      setStartDate('');
+      setEndDate('');
+      fetchSprints();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to create sprint'));
+    }
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Toaster position="top-right" />
+      <Heading size="lg" mb={2} display="flex" alignItems="center">
+        <Box as={FiFlag} mr={3} />
+        Sprints
+      </Heading>
+      <Text color={appColors.text.secondary} mb={6}>
+        Plan tasks into time-boxed sprints. Burndown charts are on the Reports page.
+      </Text>
+
+      {canManage && (
+        <Box p={4} mb={6} borderRadius="md" borderWidth="1px" borderColor={appColors.border.light} bg={appColors.background.card}>
+          <Heading size="sm" mb={3} color="#E2E8F0">New Sprint</Heading>
+          <form onSubmit={handleCreate} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Sprint name"
+              maxLength={100}
+              style={{ ...inputStyle, flex: 1 }}
+            />
+            <input
+              value={goal}
+              onChange={(e) => setGoal(e.target.value)}
+              placeholder="Goal (optional)"
+              maxLength={500}
+              style={{ ...inputStyle, flex: 2 }}
+            />
+            <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} aria-label="Start date" style={inputStyle} />
+            <input type="date" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} aria-label="End date" style={inputStyle} />
+            <select value={project} onChange={(e) => setProject(e.target.value)} style={inputStyle}>
+              <option value="">All projects</option>
+              {projects.map(projectOption => (
+                <option key={projectOption._id} value={projectOption._id}>{projectOption.name}</option>
+              ))}
+            </select>
+            <Button type="submit" size="sm" colorScheme="blue" leftIcon={<FiPlus />} isDisabled={!name.trim() || !startDate || !endDate}>
+              Add Sprint
+            </Button>
+          </form>
+        </Box>
+      )}
+
+      {loading ? (
+        <Text color={appColors.text.muted}>Loading sprints...</Text>
+      ) : error ? (
+        <Box p={5} borderRadius="md" borderLeft="4px solid" borderLeftColor="orange.500" bg="orange.50">
+          <Heading size="md" color="orange.600" mb={2} display="flex" alignItems="center">
+            <FiAlertTriangle style={{ marginRight: '8px' }} />
+            Error Loading Sprints
+          </Heading>
+          <Text color="orange.600">{error}</Text>
+        </Box>
+      ) : sprints.length === 0 ? (
+        <Box p={5} borderRadius="md" borderWidth="1px" borderColor={appColors.border.light} bg={appColors.background.card}>
+          <Text color={appColors.text.secondary}>No sprints yet.</Text>
+        </Box>
+      ) : (
+        <Box>
+          {sprints.map(sprint => (
+            <SprintRow
+              key={`${sprint._id}-${sprint.status}`}
+              sprint={sprint}
+              sprints={sprints}
+              canManage={canManage}
+              onChanged={fetchSprints}
+            />
+          ))}
+        </Box>
+      )}
+    </Container>
+  );
+}
@@ -9,12 +9,23 @@ import {
   Button,
   useToast,
   Container,
+  Input,
 } from '@chakra-ui/react';
 import { useRouter } from 'next/navigation';
 import { format } from 'date-fns';
-import { FiEdit2, FiTrash2, FiCheck, FiClock, FiCalendar, FiUser, FiRepeat, FiAward, FiTrendingUp } from 'react-icons/fi';
+import { FiEdit2, FiTrash2, FiCheck, FiClock, FiCalendar, FiUser, FiRepeat, FiAward, FiTrendingUp, FiPlus, FiList, FiGitBranch, FiArrowUp, FiArrowDown, FiLink, FiLock, FiX } from 'react-icons/fi';
 import api from '@/lib/api';
 import { getUser } from '@/lib/auth';
+import TaskComments from '@/components/TaskComments';
+import TaskAttachments from '@/components/TaskAttachments';
+import TaskTimeTracker from '@/components/TaskTimeTracker';
+import TaskActivityTimeline from '@/components/TaskActivityTimeline';
+import LabelChip from '@/components/LabelChip';
+import { Label } from '@/types/label';
+import { formatDuration } from '@/types/timeEntry';
+import { TaskSla, SlaTarget, SlaTargetState, getSlaTargetState } from '@/types/sla';
+import { AssignmentResponse, ASSIGNMENT_STATUS_LABELS } from '@/types/assignment';
+import socket from '@/lib/socket';
 
 // Use a minimal implementation focused on fixing all errors
 
@@ -220,12 +231,49 @@ const ConfirmDialog = ({
 ) : null;
 
 // Data interfaces
+interface ChecklistItem {
+  _id: string;
+  text: string;
+  completed: boolean;
+}
+
+interface SubtaskData {
+  _id: string;
+  title: string;
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
+  priority: 'low' | 'medium' | 'high';
+  dueDate: string;
+  assignedTo?: {
+    _id: string;
+    name: string;
+  };
+}
+
+interface TaskProgress {
+  percentage: number;
+  checklist: { total: number; completed: number };
+  subtasks: { total: number; completed: number };
+}
+
+interface DependencyData {
+  _id: string;
+  title: string;
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
+  dueDate: string;
+}
+
+interface Assignee {
+  _id: string;
+  name: string;
+}
+
 interface TaskData {
   _id: string;
   title: string;
   description: string;
-  status: 'todo' | 'in-progress' | 'completed';
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
   priority: 'low' | 'medium' | 'high';
+  startDate?: string | null;
   dueDate: string;
   createdAt: string;
   updatedAt: string;
@@ -233,7 +281,10 @@ interface TaskData {
     _id: string;
     name: string;
     email: string;
-  };
+  } | null;
+  assignees?: Assignee[];
+  assignments?: AssignmentResponse[];
+  watchers?: Assignee[];
   createdBy: {
     _id: string;
     name: string;
@@ -242,8 +293,45 @@ interface TaskData {
   isRecurring: boolean;
   recurringType?: string;
   recurringInterval?: number;
+  labels?: Label[];
+  parentTask?: {
+    _id: string;
+    title: string;
+    status: string;
+  };
+  checklist: ChecklistItem[];
+  subtasks: SubtaskData[];
+  progress: TaskProgress;
+  blockedBy: DependencyData[];
+  blocks: DependencyData[];
+  storyPoints?: number | null;
+  estimatedHours?: number | null;
+  loggedSeconds?: number;
+  waiting?: boolean;
+  sla?: TaskSla | null;
+  requiresApproval?: boolean;
+  rejectionReason?: string | null;
 }
 
+const ASSIGNMENT_STATUS_SCHEMES: Record<AssignmentResponse['status'], string> = {
+  pending: 'yellow',
+  accepted: 'green',
+  declined: 'red',
+  reassignment_requested: 'purple',
+};
+
+const SLA_STATE_COLORS: Record<SlaTargetState, string> = {
+  met: 'green',
+  breached: 'red',
+  paused: 'yellow',
+  running: 'blue',
+};
+
+const SLA_TARGETS: { target: SlaTarget; label: string }[] = [
+  { target: 'response', label: 'Response' },
+  { target: 'resolution', label: 'Resolution' },
+];
+
 interface MotivationData {
   messages: {
     general: string;
@@ -331,6 +419,31 @@ function MotivationalContent({ motivation, router }: { motivation: MotivationDat
   );
 }
 
+// Progress bar for the checklist and subtask rollup
+function ProgressBar({ progress }: { progress: TaskProgress }) {
+  return (
+    <Box>
+      <Flex justifyContent="space-between" mb={1}>
+        <Text fontSize="sm" fontWeight="bold">Progress</Text>
+        <Text fontSize="sm">{progress.percentage}%</Text>
+      </Flex>
+      <Box width="100%" height="8px" bg="gray.600" borderRadius="md" overflow="hidden">
+        <Box
+          height="100%"
+          width={`${progress.percentage}%`}
+          bg={progress.percentage === 100 ? 'green.500' : 'blue.500'}
+          transition="width 0.3s ease"
+        />
+      </Box>
+      <Text fontSize="xs" color="gray.400" mt={1}>
+        {progress.checklist.completed}/{progress.checklist.total} checklist items
+        {' • '}
+        {progress.subtasks.completed}/{progress.subtasks.total} subtasks
+      </Text>
+    </Box>
+  );
+}
+
 // Main component
 export default function TaskDetailsPage() {
   const router = useRouter();
@@ -345,6 +458,11 @@ export default function TaskDetailsPage() {
   const [shouldRefresh, setShouldRefresh] = useState(false);
   const [motivationLoading, setMotivationLoading] = useState(false);
   const [id, setId] = useState<string>('');
+  const [newChecklistItem, setNewChecklistItem] = useState('');
+  const [isSubtaskFormOpen, setIsSubtaskFormOpen] = useState(false);
+  const [assignees, setAssignees] = useState<Assignee[]>([]);
+  const [isDependencyFormOpen, setIsDependencyFormOpen] = useState(false);
+  const [dependencyCandidates, setDependencyCandidates] = useState<DependencyData[]>([]);
 
   useEffect(() => {
     // Extract ID from URL in client component
@@ -362,13 +480,33 @@ export default function TaskDetailsPage() {
     // Check if current user is assigned to the task
     if (task) {
       const user = getUser();
-      if (user && task.assignedTo && user._id === task.assignedTo._id) {
+      const assigneeIds = [task.assignedTo?._id, ...(task.assignees || []).map(assignee => assignee._id)];
+      if (user && assigneeIds.includes(user._id)) {
         setIsCurrentUserAssigned(true);
         fetchMotivationData();
       }
     }
   }, [task]);
 
+  // Assignment responses of others come in over the task room, which TaskComments joins
+  useEffect(() => {
+    if (!id) return;
+
+    const handleAssignmentChange = async () => {
+      try {
+        const response = await api.get(`/tasks/${id}`);
+        setTask(response.data);
+      } catch (error) {
+        console.error('Error refreshing task:', error);
+      }
+    };
+
+    socket.on('task:assignment', handleAssignmentChange);
+    return () => {
+      socket.off('task:assignment', handleAssignmentChange);
+    };
+  }, [id]);
+
   const fetchTaskData = async (taskId: string) => {
     try {
       setLoading(true);
@@ -403,7 +541,7 @@ export default function TaskDetailsPage() {
     try {
       await api.delete(`/tasks/${id}`);
       toast({
-        title: 'Task deleted',
+        title: 'Task moved to trash',
         status: 'success',
         duration: 3000,
         isClosable: true,
@@ -422,9 +560,9 @@ export default function TaskDetailsPage() {
     }
   };
 
-  const handleStatusChange = async (newStatus: string) => {
+  const handleStatusChange = async (newStatus: string, confirmOpenSubtasks = false) => {
     try {
-      await api.put(`/tasks/${id}`, { status: newStatus });
+      await api.put(`/tasks/${id}`, { status: newStatus, confirmOpenSubtasks });
       toast({
         title: 'Status updated',
         status: 'success',
@@ -433,6 +571,13 @@ export default function TaskDetailsPage() {
       });
       fetchTaskData(id);
     } catch (error: any) {
+      // Completing a task with open subtasks needs explicit confirmation
+      if (error?.response?.status === 409 && error.response.data?.openSubtasks) {
+        if (window.confirm(error.response.data.message)) {
+          handleStatusChange(newStatus, true);
+        }
+        return;
+      }
       toast({
         title: 'Error',
         description: error?.response?.data?.message || 'Could not update status',
@@ -443,11 +588,226 @@ export default function TaskDetailsPage() {
     }
   };
 
+  // Approve a task in review, or send it back with a reason
+  const handleReview = async (decision: 'approve' | 'reject') => {
+    let reason: string | null = null;
+    if (decision === 'reject') {
+      reason = window.prompt('Why is this task being sent back?');
+      if (!reason?.trim()) return;
+    }
+
+    try {
+      await api.post(`/tasks/${id}/${decision}`, decision === 'reject' ? { reason } : {});
+      toast({
+        title: decision === 'approve' ? 'Task approved' : 'Task sent back',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      fetchTaskData(id);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || 'Could not review the task',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  // Accept or decline the assignment, or ask to be taken off the task
+  const handleAssignmentResponse = async (action: 'accept' | 'decline' | 'reassignment') => {
+    let reason: string | null = null;
+    if (action !== 'accept') {
+      reason = window.prompt(action === 'decline' ? 'Why are you declining this task?' : 'Why should this task be reassigned?');
+      if (!reason?.trim()) return;
+    }
+
+    try {
+      const response = await api.post(`/tasks/${id}/${action}`, reason ? { reason } : {});
+      toast({
+        title: response.data.message,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      fetchTaskData(id);
+    } catch (error: any) {
+      toast({
+        title: 'Error',
+        description: error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || 'Could not respond to the assignment',
+        status: 'error',
+        duration: 5000,
+        isClosable: true,
+      });
+    }
+  };
+
+  // Approve or deny an assignee's request to be taken off the task
+  const handleReassignmentDecision = async (userId: string, decision: 'approve' | 'reject') => {
+    try {
+      const response = await api.post(`/tasks/${id}/reassignment/${userId}/${decision}`);
+      toast({
+        title: response.data.message,
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not decide on the reassignment request');
+    }
+  };
+
   const handleTaskUpdate = () => {
     fetchTaskData(id);
     onClose();
   };
 
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: 'Error',
+      description: error?.response?.data?.message || fallback,
+      status: 'error',
+      duration: 5000,
+      isClosable: true,
+    });
+  };
+
+  const handleAddChecklistItem = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newChecklistItem.trim()) return;
+
+    try {
+      await api.post(`/tasks/${id}/checklist`, { text: newChecklistItem.trim() });
+      setNewChecklistItem('');
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not add checklist item');
+    }
+  };
+
+  const handleToggleChecklistItem = async (item: ChecklistItem) => {
+    try {
+      await api.put(`/tasks/${id}/checklist/${item._id}`, { completed: !item.completed });
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not update checklist item');
+    }
+  };
+
+  const handleDeleteChecklistItem = async (itemId: string) => {
+    try {
+      await api.delete(`/tasks/${id}/checklist/${itemId}`);
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not delete checklist item');
+    }
+  };
+
+  const handleMoveChecklistItem = async (index: number, direction: -1 | 1) => {
+    if (!task) return;
+    const itemIds = task.checklist.map(item => item._id);
+    const target = index + direction;
+    if (target < 0 || target >= itemIds.length) return;
+    [itemIds[index], itemIds[target]] = [itemIds[target], itemIds[index]];
+
+    try {
+      await api.put(`/tasks/${id}/checklist/reorder`, { itemIds });
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not reorder checklist');
+    }
+  };
+
+  const handleOpenSubtaskForm = async () => {
+    setIsSubtaskFormOpen(true);
+    if (assignees.length === 0) {
+      try {
+        const response = await api.get('/users/assignees');
+        setAssignees(response.data);
+      } catch (error) {
+        console.error('Error fetching assignees:', error);
+      }
+    }
+  };
+
+  const handleCreateSubtask = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!task) return;
+    const formData = new FormData(e.target as HTMLFormElement);
+
+    try {
+      await api.post('/tasks', {
+        title: formData.get('title'),
+        description: formData.get('description'),
+        dueDate: formData.get('dueDate'),
+        priority: formData.get('priority') || task.priority,
+        assignedTo: formData.get('assignedTo'),
+        parentTask: task._id,
+      });
+      toast({
+        title: 'Subtask created',
+        status: 'success',
+        duration: 3000,
+        isClosable: true,
+      });
+      setIsSubtaskFormOpen(false);
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not create subtask');
+    }
+  };
+
+  const handleOpenDependencyForm = async () => {
+    setIsDependencyFormOpen(true);
+    try {
+      const response = await api.get('/tasks');
+      setDependencyCandidates(response.data.filter((candidate: DependencyData) => candidate._id !== id));
+    } catch (error) {
+      console.error('Error fetching tasks for dependencies:', error);
+    }
+  };
+
+  const handleAddDependency = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+
+    try {
+      await api.post(`/tasks/${id}/dependencies`, {
+        taskId: formData.get('taskId'),
+        type: formData.get('type'),
+      });
+      setIsDependencyFormOpen(false);
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not add dependency');
+    }
+  };
+
+  const handleRemoveDependency = async (dependencyId: string) => {
+    try {
+      await api.delete(`/tasks/${id}/dependencies/${dependencyId}`);
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, 'Could not remove dependency');
+    }
+  };
+
+  const handleToggleWatch = async (isWatching: boolean) => {
+    try {
+      if (isWatching) {
+        await api.delete(`/tasks/${id}/watch`);
+      } else {
+        await api.post(`/tasks/${id}/watch`);
+      }
+      fetchTaskData(id);
+    } catch (error: any) {
+      showError(error, isWatching ? 'Could not stop watching task' : 'Could not watch task');
+    }
+  };
+
   if (loading) {
     return (
       <Box textAlign="center" py={10}>
@@ -475,14 +835,38 @@ export default function TaskDetailsPage() {
     return <Box>Task not found</Box>;
   }
 
+  const openBlockers = task.blockedBy?.filter(blocker => blocker.status !== 'completed') || [];
+  const isBlocked = openBlockers.length > 0;
+  const isWatching = !!task.watchers?.some(watcher => watcher._id === getUser()?._id);
+
+  // The server has the final say: managers can only review tasks of their team members
+  const currentUser = getUser();
+  const isAssignee = [task.assignedTo, ...(task.assignees || [])].some(assignee => assignee?._id === currentUser?._id);
+  const canReview = task.status === 'in-review' && !isAssignee && (
+    task.createdBy?._id === currentUser?._id || currentUser?.role === 'admin' || currentUser?.role === 'manager'
+  );
+
+  // Assignees without a response count as accepted, as on the server
+  const assignments = task.assignments || [];
+  const myAssignmentStatus = assignments.find(response => response.user._id === currentUser?._id)?.status
+    || (isAssignee ? 'accepted' : null);
+  const canDecideReassignment = currentUser?.role === 'admin' || currentUser?.role === 'manager';
+
   // Simplify to a basic view for now
   return (
     <Box p={5}>
-      <Heading size="lg" mb={4}>{task.title}</Heading>
+      <Heading size="lg" mb={task.labels && task.labels.length > 0 ? 2 : 4}>{task.title}</Heading>
+      {task.labels && task.labels.length > 0 && (
+        <Box mb={4}>
+          {task.labels.map(label => (
+            <LabelChip key={label._id} label={label} />
+          ))}
+        </Box>
+      )}
       <Text mb={4}>{task.description}</Text>
       
       <Flex justifyContent="space-between" mb={4}>
-        <Badge colorScheme={task.status === 'completed' ? 'green' : task.status === 'in-progress' ? 'blue' : 'red'}>
+        <Badge colorScheme={task.status === 'completed' ? 'green' : task.status === 'in-progress' ? 'blue' : task.status === 'in-review' ? 'purple' : 'red'}>
           {task.status.toUpperCase()}
         </Badge>
         <Badge colorScheme={task.priority === 'high' ? 'red' : task.priority === 'medium' ? 'orange' : 'green'}>
@@ -490,21 +874,281 @@ export default function TaskDetailsPage() {
         </Badge>
       </Flex>
       
+      {myAssignmentStatus === 'pending' && (
+        <Box mb={4} p={3} borderRadius="md" borderLeft="4px solid" borderColor="yellow.400" bg="yellow.900">
+          <Text fontWeight="bold">You have been assigned this task</Text>
+          <Flex gap={2} mt={2}>
+            <Button size="sm" colorScheme="green" leftIcon={<Box as={FiCheck} />} onClick={() => handleAssignmentResponse('accept')}>
+              Accept
+            </Button>
+            <Button size="sm" colorScheme="red" variant="outline" leftIcon={<Box as={FiX} />} onClick={() => handleAssignmentResponse('decline')}>
+              Decline
+            </Button>
+          </Flex>
+        </Box>
+      )}
+
+      {task.rejectionReason && task.status !== 'completed' && task.status !== 'in-review' && (
+        <Box mb={4} p={3} borderRadius="md" borderLeft="4px solid" borderColor="orange.400" bg="orange.900">
+          <Text fontWeight="bold">Sent back from review</Text>
+          <Text>{task.rejectionReason}</Text>
+        </Box>
+      )}
+      
       <Divider />
       
       <Box mt={4}>
         <Heading size="md" mb={3}>Task Details</Heading>
         <SimpleGrid templateColumns="repeat(2, 1fr)" gap={4}>
           <Box>
-            <Text fontWeight="bold">Due Date</Text>
-            <Text>{new Date(task.dueDate).toLocaleDateString()}</Text>
+            <Text fontWeight="bold">{task.startDate ? 'Start – Due Date' : 'Due Date'}</Text>
+            <Text>
+              {task.startDate && `${new Date(task.startDate).toLocaleDateString()} – `}
+              {new Date(task.dueDate).toLocaleDateString()}
+            </Text>
           </Box>
           <Box>
             <Text fontWeight="bold">Assigned To</Text>
-            <Text>{task.assignedTo?.name}</Text>
+            <Text>
+              {task.assignees && task.assignees.length > 0
+                ? task.assignees.map(assignee => assignee.name).join(', ')
+                : task.assignedTo?.name || 'Unassigned'}
+            </Text>
+            {assignments.filter(response => response.status !== 'accepted').map(response => (
+              <Flex key={response.user._id} alignItems="center" gap={2} mt={1} flexWrap="wrap">
+                <Badge colorScheme={ASSIGNMENT_STATUS_SCHEMES[response.status]}>
+                  {response.user.name}: {ASSIGNMENT_STATUS_LABELS[response.status]}
+                </Badge>
+                {response.reason && <Text fontSize="sm" color="gray.400">{response.reason}</Text>}
+                {response.status === 'reassignment_requested' && canDecideReassignment && (
+                  <>
+                    <Button size="xs" colorScheme="green" onClick={() => handleReassignmentDecision(response.user._id, 'approve')}>
+                      Approve
+                    </Button>
+                    <Button size="xs" variant="outline" onClick={() => handleReassignmentDecision(response.user._id, 'reject')}>
+                      Deny
+                    </Button>
+                  </>
+                )}
+              </Flex>
+            ))}
           </Box>
+          <Box>
+            <Text fontWeight="bold">Watchers</Text>
+            <Flex alignItems="center" gap={2}>
+              <Text>
+                {task.watchers && task.watchers.length > 0
+                  ? task.watchers.map(watcher => watcher.name).join(', ')
+                  : 'No watchers'}
+              </Text>
+              <Button size="xs" variant="outline" onClick={() => handleToggleWatch(isWatching)}>
+                {isWatching ? 'Unwatch' : 'Watch'}
+              </Button>
+            </Flex>
+          </Box>
+          {task.sla && (
+            <Box>
+              <Text fontWeight="bold">SLA{task.waiting && ' (paused while waiting)'}</Text>
+              {SLA_TARGETS.map(({ target, label }) => {
+                const sla = task.sla as TaskSla;
+                const state = getSlaTargetState(sla, target);
+                const dueAt = target === 'response' ? sla.responseDueAt : sla.resolutionDueAt;
+                return (
+                  <Flex key={target} alignItems="center" gap={2}>
+                    <Text>{label} by {new Date(dueAt).toLocaleString()}</Text>
+                    <Badge colorScheme={SLA_STATE_COLORS[state]}>{state.toUpperCase()}</Badge>
+                  </Flex>
+                );
+              })}
+            </Box>
+          )}
+          {(task.storyPoints != null || task.estimatedHours != null) && (
+            <Box>
+              <Text fontWeight="bold">Estimate</Text>
+              <Text>
+                {[
+                  task.storyPoints != null && `${task.storyPoints} story points`,
+                  task.estimatedHours != null && `${task.estimatedHours}h estimated`,
+                  `${formatDuration(task.loggedSeconds || 0)} logged`
+                ].filter(Boolean).join(' · ')}
+              </Text>
+            </Box>
+          )}
+          {task.parentTask && (
+            <Box>
+              <Text fontWeight="bold">Subtask Of</Text>
+              <Text
+                color="blue.300"
+                cursor="pointer"
+                onClick={() => router.push(`/dashboard/tasks/${task.parentTask?._id}`)}
+              >
+                {task.parentTask.title}
+              </Text>
+            </Box>
+          )}
         </SimpleGrid>
       </Box>
+
+      {task.progress && (
+        <Box mt={6}>
+          <ProgressBar progress={task.progress} />
+        </Box>
+      )}
+
+      {/* Checklist */}
+      <Box mt={6}>
+        <Heading size="sm" mb={3} display="flex" alignItems="center">
+          <Box as={FiList} mr={2} />
+          Checklist
+        </Heading>
+        <VStack spacing={2} align="stretch">
+          {task.checklist?.map((item, index) => (
+            <Flex key={item._id} alignItems="center" justifyContent="space-between">
+              <Flex alignItems="center">
+                <input
+                  type="checkbox"
+                  checked={item.completed}
+                  onChange={() => handleToggleChecklistItem(item)}
+                  style={{ marginRight: '0.5rem' }}
+                />
+                <Text
+                  textDecoration={item.completed ? 'line-through' : 'none'}
+                  color={item.completed ? 'gray.400' : 'inherit'}
+                >
+                  {item.text}
+                </Text>
+              </Flex>
+              <Flex>
+                <Button size="xs" variant="ghost" onClick={() => handleMoveChecklistItem(index, -1)} isDisabled={index === 0}>
+                  <Box as={FiArrowUp} />
+                </Button>
+                <Button size="xs" variant="ghost" onClick={() => handleMoveChecklistItem(index, 1)} isDisabled={index === task.checklist.length - 1}>
+                  <Box as={FiArrowDown} />
+                </Button>
+                <Button size="xs" variant="ghost" colorScheme="red" onClick={() => handleDeleteChecklistItem(item._id)}>
+                  <Box as={FiTrash2} />
+                </Button>
+              </Flex>
+            </Flex>
+          ))}
+        </VStack>
+        <form onSubmit={handleAddChecklistItem}>
+          <Flex mt={3}>
+            <Input
+              size="sm"
+              placeholder="Add a checklist item..."
+              value={newChecklistItem}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewChecklistItem(e.target.value)}
+              mr={2}
+            />
+            <Button type="submit" size="sm" leftIcon={<Box as={FiPlus} />}>
+              Add
+            </Button>
+          </Flex>
+        </form>
+      </Box>
+
+      {/* Dependencies */}
+      <Box mt={6}>
+        <Flex justifyContent="space-between" alignItems="center" mb={3}>
+          <Heading size="sm" display="flex" alignItems="center">
+            <Box as={FiLink} mr={2} />
+            Dependencies
+          </Heading>
+          <Button size="sm" leftIcon={<Box as={FiPlus} />} onClick={handleOpenDependencyForm}>
+            Add Dependency
+          </Button>
+        </Flex>
+        {isBlocked && (
+          <Flex alignItems="center" p={2} mb={3} borderRadius="md" bg="orange.600">
+            <Box as={FiLock} mr={2} />
+            <Text fontSize="sm">
+              Blocked by {openBlockers.length} open task(s). It can start once they are completed.
+            </Text>
+          </Flex>
+        )}
+        {[
+          { label: 'Blocked by', items: task.blockedBy || [] },
+          { label: 'Blocks', items: task.blocks || [] },
+        ].map(group => (
+          <Box key={group.label} mb={3}>
+            <Text fontSize="sm" fontWeight="bold" mb={1}>{group.label}</Text>
+            {group.items.length > 0 ? (
+              <VStack spacing={1} align="stretch">
+                {group.items.map(dependency => (
+                  <Flex key={dependency._id} justifyContent="space-between" alignItems="center">
+                    <Text
+                      fontSize="sm"
+                      color="blue.300"
+                      cursor="pointer"
+                      textDecoration={dependency.status === 'completed' ? 'line-through' : 'none'}
+                      onClick={() => router.push(`/dashboard/tasks/${dependency._id}`)}
+                    >
+                      {dependency.title}
+                    </Text>
+                    <Flex alignItems="center">
+                      <Badge colorScheme={dependency.status === 'completed' ? 'green' : dependency.status === 'in-progress' ? 'blue' : 'red'} mr={2}>
+                        {dependency.status.toUpperCase()}
+                      </Badge>
+                      <Button size="xs" variant="ghost" onClick={() => handleRemoveDependency(dependency._id)}>
+                        <Box as={FiX} />
+                      </Button>
+                    </Flex>
+                  </Flex>
+                ))}
+              </VStack>
+            ) : (
+              <Text fontSize="sm" color="gray.400">None</Text>
+            )}
+          </Box>
+        ))}
+      </Box>
+
+      {/* Subtasks */}
+      <Box mt={6}>
+        <Flex justifyContent="space-between" alignItems="center" mb={3}>
+          <Heading size="sm" display="flex" alignItems="center">
+            <Box as={FiGitBranch} mr={2} />
+            Subtasks
+          </Heading>
+          <Button size="sm" leftIcon={<Box as={FiPlus} />} onClick={handleOpenSubtaskForm}>
+            Add Subtask
+          </Button>
+        </Flex>
+        {task.subtasks?.length > 0 ? (
+          <VStack spacing={2} align="stretch">
+            {task.subtasks.map((subtask) => (
+              <Flex
+                key={subtask._id}
+                justifyContent="space-between"
+                alignItems="center"
+                p={2}
+                borderWidth="1px"
+                borderRadius="md"
+                cursor="pointer"
+                onClick={() => router.push(`/dashboard/tasks/${subtask._id}`)}
+              >
+                <Box>
+                  <Text
+                    fontWeight="bold"
+                    textDecoration={subtask.status === 'completed' ? 'line-through' : 'none'}
+                  >
+                    {subtask.title}
+                  </Text>
+                  <Text fontSize="xs" color="gray.400">
+                    {subtask.assignedTo?.name || 'Unassigned'} • due {new Date(subtask.dueDate).toLocaleDateString()}
+                  </Text>
+                </Box>
+                <Badge colorScheme={subtask.status === 'completed' ? 'green' : subtask.status === 'in-progress' ? 'blue' : 'red'}>
+                  {subtask.status.toUpperCase()}
+                </Badge>
+              </Flex>
+            ))}
+          </VStack>
+        ) : (
+          <Text fontSize="sm" color="gray.400">No subtasks yet.</Text>
+        )}
+      </Box>
       
       {task.status !== 'completed' && (
         <Box mt={6}>
@@ -516,18 +1160,54 @@ export default function TaskDetailsPage() {
                 colorScheme="blue"
                 size="sm"
                 onClick={() => handleStatusChange('in-progress')}
+                isDisabled={isBlocked}
               >
                 Start Task
               </Button>
             )}
-            <Button
-              leftIcon={<Box as={FiCheck} />}
-              colorScheme="green"
-              size="sm"
-              onClick={() => handleStatusChange('completed')}
-            >
-              Mark Completed
-            </Button>
+            {task.status !== 'in-review' && (
+              <Button
+                leftIcon={<Box as={FiCheck} />}
+                colorScheme="green"
+                size="sm"
+                onClick={() => handleStatusChange('completed')}
+                isDisabled={isBlocked}
+              >
+                {task.requiresApproval ? 'Submit for Review' : 'Mark Completed'}
+              </Button>
+            )}
+            {canReview && (
+              <>
+                <Button
+                  leftIcon={<Box as={FiCheck} />}
+                  colorScheme="green"
+                  size="sm"
+                  onClick={() => handleReview('approve')}
+                  isDisabled={isBlocked}
+                >
+                  Approve
+                </Button>
+                <Button
+                  leftIcon={<Box as={FiX} />}
+                  colorScheme="orange"
+                  size="sm"
+                  onClick={() => handleReview('reject')}
+                >
+                  Reject
+                </Button>
+              </>
+            )}
+            {(myAssignmentStatus === 'accepted' || myAssignmentStatus === 'pending') && (
+              <Button
+                leftIcon={<Box as={FiUser} />}
+                colorScheme="purple"
+                variant="outline"
+                size="sm"
+                onClick={() => handleAssignmentResponse('reassignment')}
+              >
+                Request Reassignment
+              </Button>
+            )}
             <Button
               leftIcon={<Box as={FiEdit2} />}
               colorScheme="gray"
@@ -572,6 +1252,121 @@ export default function TaskDetailsPage() {
         </Box>
       )}
       
+      {/* Time Tracking */}
+      <Box mt={6}>
+        <Divider />
+        <TaskTimeTracker taskId={task._id} />
+      </Box>
+      
+      {/* Attachments */}
+      <Box mt={6}>
+        <Divider />
+        <TaskAttachments taskId={task._id} createdById={task.createdBy?._id} />
+      </Box>
+
+      {/* Comments */}
+      <Box mt={6}>
+        <Divider />
+        <TaskComments taskId={task._id} />
+      </Box>
+
+      {/* Activity History */}
+      <Box mt={6}>
+        <Divider />
+        <TaskActivityTimeline taskId={task._id} refreshKey={task.updatedAt} />
+      </Box>
+
+      {/* Add Subtask Modal */}
+      <Modal isOpen={isSubtaskFormOpen} onClose={() => setIsSubtaskFormOpen(false)}>
+        <ModalContent bg="gray.800" color="white" p={4}>
+          <ModalHeader>Add Subtask</ModalHeader>
+          <form onSubmit={handleCreateSubtask}>
+            <ModalBody>
+              <VStack spacing={3} align="stretch">
+                <Input name="title" placeholder="Title" required />
+                <Input name="description" placeholder="Description" required />
+                <Input
+                  name="dueDate"
+                  type="date"
+                  defaultValue={new Date(task.dueDate).toISOString().split('T')[0]}
+                  required
+                />
+                <select
+                  name="priority"
+                  defaultValue={task.priority}
+                  style={{ padding: '0.5rem', borderRadius: '0.375rem', backgroundColor: '#2D3748', color: '#E2E8F0' }}
+                >
+                  <option value="low">Low</option>
+                  <option value="medium">Medium</option>
+                  <option value="high">High</option>
+                </select>
+                <select
+                  name="assignedTo"
+                  defaultValue={task.assignedTo?._id}
+                  required
+                  style={{ padding: '0.5rem', borderRadius: '0.375rem', backgroundColor: '#2D3748', color: '#E2E8F0' }}
+                >
+                  {assignees.length === 0 && task.assignedTo && (
+                    <option value={task.assignedTo._id}>{task.assignedTo.name}</option>
+                  )}
+                  {assignees.map((assignee) => (
+                    <option key={assignee._id} value={assignee._id}>{assignee.name}</option>
+                  ))}
+                </select>
+              </VStack>
+            </ModalBody>
+            <ModalFooter>
+              <Button colorScheme="gray" mr={3} onClick={() => setIsSubtaskFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" colorScheme="blue">
+                Create Subtask
+              </Button>
+            </ModalFooter>
+          </form>
+        </ModalContent>
+      </Modal>
+
+      {/* Add Dependency Modal */}
+      <Modal isOpen={isDependencyFormOpen} onClose={() => setIsDependencyFormOpen(false)}>
+        <ModalContent bg="gray.800" color="white" p={4}>
+          <ModalHeader>Add Dependency</ModalHeader>
+          <form onSubmit={handleAddDependency}>
+            <ModalBody>
+              <VStack spacing={3} align="stretch">
+                <select
+                  name="type"
+                  defaultValue="blocked-by"
+                  style={{ padding: '0.5rem', borderRadius: '0.375rem', backgroundColor: '#2D3748', color: '#E2E8F0' }}
+                >
+                  <option value="blocked-by">This task is blocked by...</option>
+                  <option value="blocks">This task blocks...</option>
+                </select>
+                <select
+                  name="taskId"
+                  required
+                  defaultValue=""
+                  style={{ padding: '0.5rem', borderRadius: '0.375rem', backgroundColor: '#2D3748', color: '#E2E8F0' }}
+                >
+                  <option value="" disabled>-- Select a task --</option>
+                  {dependencyCandidates.map(candidate => (
+                    <option key={candidate._id} value={candidate._id}>{candidate.title}</option>
+                  ))}
+                </select>
+              </VStack>
+            </ModalBody>
+            <ModalFooter>
+              <Button colorScheme="gray" mr={3} onClick={() => setIsDependencyFormOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" colorScheme="blue">
+                Add Dependency
+              </Button>
+            </ModalFooter>
+          </form>
+        </ModalContent>
+      </Modal>
+
       {/* Edit Task Modal */}
       <Modal isOpen={isOpen} onClose={onClose}>
         <ModalContent bg="gray.800" color="white" p={4}>
@@ -598,7 +1393,7 @@ export default function TaskDetailsPage() {
         onClose={() => setDeleteDialogOpen(false)}
         onConfirm={handleDeleteConfirm}
         title="Delete Task"
-        message="Are you sure you want to delete this task? This action cannot be undone."
+        message="Move this task to the trash? It can be restored from the trash until it is purged."
       />
     </Box>
   );
@@ -2,26 +2,57 @@
 
 import React, { useState, useEffect } from 'react';
 import { Box, Container, Heading, Button, VStack, Text } from '@chakra-ui/react';
-import { FiEdit, FiTrash2, FiPlus, FiFilter, FiSearch, FiChevronDown } from 'react-icons/fi';
+import { FiEdit, FiTrash2, FiPlus, FiFilter, FiSearch, FiChevronDown, FiTag, FiSliders, FiDownload, FiColumns, FiList } from 'react-icons/fi';
 import { useQuery, useMutation, useQueryClient, QueryClient, QueryClientProvider } from 'react-query';
 import api from '@/lib/api';
+import socket from '@/lib/socket';
 import { useAuthStore } from '@/store/auth';
+import { useProjectStore } from '@/store/project';
 import { toast, Toaster } from 'react-hot-toast';
 import { getUser } from '@/lib/auth';
+import { hasPermission } from '@/lib/permissions';
+import { Label } from '@/types/label';
+import { TaskTemplate } from '@/types/taskTemplate';
+import { CustomField, fieldAppliesTo, formatCustomFieldValue } from '@/types/customField';
+import { Sprint, sprintAcceptsProject } from '@/types/sprint';
+import { formatDuration } from '@/types/timeEntry';
+import LabelChip from '@/components/LabelChip';
+import LabelManager from '@/components/LabelManager';
+import BulkActionBar, { BulkAction } from '@/components/BulkActionBar';
+import CustomFieldManager from '@/components/CustomFieldManager';
+import CustomFieldInput from '@/components/CustomFieldInput';
+import CustomFieldFilter from '@/components/CustomFieldFilter';
+import TaskBoard, { BoardStatus } from '@/components/TaskBoard';
+import SavedViewsBar from '@/components/SavedViewsBar';
+import { SavedView, ViewColumn, ViewState, VIEW_COLUMNS, ALL_VIEW_COLUMNS } from '@/types/savedView';
 
 // Task interface
 interface Task {
   _id: string;
   title: string;
   description: string;
+  startDate?: string | null;
   dueDate: string;
   priority: 'low' | 'medium' | 'high';
-  status: 'todo' | 'in-progress' | 'completed';
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
+  waiting?: boolean;
+  requiresApproval?: boolean;
+  rejectionReason?: string | null;
   assignedTo: {
     _id: string;
     name: string;
     email: string;
   };
+  assignees?: {
+    _id: string;
+    name: string;
+    email: string;
+  }[];
+  watchers?: {
+    _id: string;
+    name: string;
+    email: string;
+  }[];
   createdBy: {
     _id: string;
     name: string;
@@ -33,6 +64,21 @@ interface Task {
   recurringDate: number;
   recurringInterval: number;
   recurringEndDate: string;
+  labels?: Label[];
+  project?: {
+    _id: string;
+    name: string;
+  };
+  sprint?: {
+    _id: string;
+    name: string;
+    status: string;
+  } | null;
+  loggedSeconds?: number;
+  storyPoints?: number | null;
+  estimatedHours?: number | null;
+  customFields?: Record<string, any>;
+  rank?: string | null;
 }
 
 interface User {
@@ -50,6 +96,31 @@ interface StoreUser {
   role: string;
 }
 
+// Toggleable user chip for the assignee and watcher pickers
+function UserToggle({ name, isSelected, onClick }: { name: string; isSelected: boolean; onClick: () => void }) {
+  return (
+    <Box
+      as="span"
+      display="inline-block"
+      px={2}
+      py="1px"
+      mr={1}
+      mb={1}
+      borderRadius="full"
+      fontSize="xs"
+      fontWeight="bold"
+      borderWidth="1px"
+      borderColor="#63B3ED"
+      bg={isSelected ? '#3182CE' : 'transparent'}
+      color={isSelected ? '#FFFFFF' : '#90CDF4'}
+      cursor="pointer"
+      onClick={onClick}
+    >
+      {name}
+    </Box>
+  );
+}
+
 export default function TasksPage() {
   // Create a client
   const queryClientInstance = new QueryClient();
@@ -67,6 +138,8 @@ function TasksPageContent() {
   const [isOpen, setIsOpen] = useState(false);
   const [isFilterOpen, setIsFilterOpen] = useState(false);
   const queryClient = useQueryClient();
+  const currentProjectId = useProjectStore((state) => state.currentProjectId);
+  const setCurrentProject = useProjectStore((state) => state.setCurrentProject);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
   
   // Search and filter state
@@ -76,6 +149,35 @@ function TasksPageContent() {
   const [assigneeFilter, setAssigneeFilter] = useState<string>('');
   const [sortBy, setSortBy] = useState<string>('dueDate');
   const [sortOrder, setSortOrder] = useState<string>('asc');
+  const [labelFilter, setLabelFilter] = useState<string[]>([]);
+  const [labelMatch, setLabelMatch] = useState<'any' | 'all'>('any');
+  const [customFieldFilter, setCustomFieldFilter] = useState<Record<string, string>>({});
+  const [sprintFilter, setSprintFilter] = useState<string>('');
+  
+  // Label state
+  const [isLabelManagerOpen, setIsLabelManagerOpen] = useState(false);
+  const [formLabels, setFormLabels] = useState<string[]>([]);
+
+  // Custom fields
+  const [isFieldManagerOpen, setIsFieldManagerOpen] = useState(false);
+  const [formCustomFields, setFormCustomFields] = useState<Record<string, any>>({});
+  
+  // Additional assignees and watchers selected in the form
+  const [formAssignees, setFormAssignees] = useState<string[]>([]);
+  const [formWatchers, setFormWatchers] = useState<string[]>([]);
+
+  // Tasks selected for bulk actions
+  const [selectedTaskIds, setSelectedTaskIds] = useState<string[]>([]);
+
+  // List or kanban board view
+  const [view, setView] = useState<'list' | 'board'>('list');
+
+  // Columns shown for each task in the list, and the saved view the list was last set from
+  const [columns, setColumns] = useState<ViewColumn[]>(ALL_VIEW_COLUMNS);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+
+  // Template the new task is created from, if any
+  const [formTemplateId, setFormTemplateId] = useState<string>('');
   
   // Highlight animation state
   const [highlightAssignee, setHighlightAssignee] = useState(false);
@@ -147,20 +249,86 @@ function TasksPageContent() {
     }
   }, []);
   
+  // Query parameters shared by the task list and the CSV export
+  const getListParams = () => {
+    const params: Record<string, any> = {};
+    
+    if (currentProjectId) params.project = currentProjectId;
+    if (searchTerm) params.search = searchTerm;
+    if (statusFilter) params.status = statusFilter;
+    if (priorityFilter) params.priority = priorityFilter;
+    if (assigneeFilter) params.assignedTo = assigneeFilter;
+    if (sprintFilter) params.sprint = sprintFilter;
+    if (labelFilter.length > 0) {
+      params.labels = labelFilter.join(',');
+      params.labelMatch = labelMatch;
+    }
+    const activeFieldFilters = Object.fromEntries(Object.entries(customFieldFilter).filter(([, value]) => value));
+    if (Object.keys(activeFieldFilters).length > 0) {
+      params.customFields = activeFieldFilters;
+    }
+    params.sortBy = sortBy;
+    params.sortOrder = sortOrder;
+    return params;
+  };
+
+  // Current filters, sort and layout, as stored in a saved view
+  const getViewState = (): ViewState => ({
+    filters: {
+      search: searchTerm || null,
+      status: statusFilter || null,
+      priority: priorityFilter || null,
+      assignedTo: assigneeFilter || null,
+      project: currentProjectId,
+      sprint: sprintFilter || null,
+      labels: labelFilter,
+      labelMatch,
+      customFields: Object.fromEntries(Object.entries(customFieldFilter).filter(([, value]) => value)),
+    },
+    sortBy,
+    sortOrder: sortOrder as ViewState['sortOrder'],
+    layout: view,
+    columns,
+  });
+
+  // Restore the state of a saved view and keep its ID in the URL so the link can be shared
+  // Without a view the filters are left as they are
+  const applyView = (savedView: SavedView | null) => {
+    setActiveViewId(savedView?._id || null);
+    window.history.replaceState(null, '', savedView ? `?view=${savedView._id}` : window.location.pathname);
+    if (!savedView) return;
+
+    const { filters } = savedView;
+    setSearchTerm(filters.search || '');
+    setStatusFilter(filters.status || '');
+    setPriorityFilter(filters.priority || '');
+    setAssigneeFilter(filters.assignedTo || '');
+    setSprintFilter(filters.sprint || '');
+    setLabelFilter(filters.labels || []);
+    setLabelMatch(filters.labelMatch || 'any');
+    setCustomFieldFilter(filters.customFields || {});
+    setCurrentProject(filters.project || null);
+    setSortBy(savedView.sortBy);
+    setSortOrder(savedView.sortOrder);
+    setView(savedView.layout);
+    setColumns(savedView.columns);
+  };
+
+  // Open the view from a shared link, e.g. /dashboard/tasks?view=<id>
+  useEffect(() => {
+    const viewId = new URLSearchParams(window.location.search).get('view');
+    if (!viewId) return;
+
+    api.get(`/saved-views/${viewId}`)
+      .then(response => applyView(response.data))
+      .catch(error => toast.error(error?.response?.data?.message || 'Could not open the saved view'));
+  }, []);
+
   // Get tasks with filters
   const { data: tasks, isLoading } = useQuery<Task[]>(
-    ['tasks', searchTerm, statusFilter, priorityFilter, assigneeFilter, sortBy, sortOrder],
+    ['tasks', currentProjectId, searchTerm, statusFilter, priorityFilter, assigneeFilter, sprintFilter, labelFilter, labelMatch, customFieldFilter, sortBy, sortOrder],
     async () => {
-      const params: Record<string, string> = {};
-      
-      if (searchTerm) params.search = searchTerm;
-      if (statusFilter) params.status = statusFilter;
-      if (priorityFilter) params.priority = priorityFilter;
-      if (assigneeFilter) params.assignedTo = assigneeFilter;
-      params.sortBy = sortBy;
-      params.sortOrder = sortOrder;
-      
-      const response = await api.get('/tasks', { params });
+      const response = await api.get('/tasks', { params: getListParams() });
       return response.data;
     },
     {
@@ -168,6 +336,66 @@ function TasksPageContent() {
     }
   );
 
+  // Drop selected tasks that are no longer listed, e.g. after changing filters
+  useEffect(() => {
+    if (tasks) {
+      setSelectedTaskIds(ids => ids.filter(id => tasks.some(task => task._id === id)));
+    }
+  }, [tasks]);
+
+  // Follow card moves made by other users while the board is open
+  useEffect(() => {
+    if (view !== 'board') return;
+
+    const joinBoardRoom = () => socket.emit('board:join');
+    const handleTaskMoved = () => queryClient.invalidateQueries(['tasks']);
+    if (socket.connected) {
+      joinBoardRoom();
+    }
+    socket.on('connect', joinBoardRoom);
+    socket.on('task:moved', handleTaskMoved);
+
+    return () => {
+      socket.emit('board:leave');
+      socket.off('connect', joinBoardRoom);
+      socket.off('task:moved', handleTaskMoved);
+    };
+  }, [view, queryClient]);
+
+  // Get labels for filtering and tagging tasks
+  const { data: labels } = useQuery<Label[]>('labels', async () => {
+    const response = await api.get('/labels');
+    return response.data;
+  });
+
+  // Get custom field definitions for the task form, filters and sorting
+  const { data: customFields } = useQuery<CustomField[]>('customFields', async () => {
+    const response = await api.get('/custom-fields');
+    return response.data;
+  });
+
+  // Get projects for scoping custom fields (admins only)
+  const { data: projects } = useQuery<{ _id: string; name: string }[]>(
+    'projects',
+    async () => {
+      const response = await api.get('/projects');
+      return response.data;
+    },
+    { enabled: isFieldManagerOpen }
+  );
+
+  // Get sprints for planning tasks and filtering the list
+  const { data: sprints } = useQuery<Sprint[]>('sprints', async () => {
+    const response = await api.get('/sprints');
+    return response.data;
+  });
+
+  // Get task templates for the create task picker
+  const { data: templates } = useQuery<TaskTemplate[]>('taskTemplates', async () => {
+    const response = await api.get('/task-templates');
+    return response.data;
+  });
+
   // Get users for assigning tasks
   const { data: users, isLoading: isLoadingUsers } = useQuery<User[]>(
     'users',
@@ -283,6 +511,47 @@ function TasksPageContent() {
     }
   );
 
+  // Create tasks from a template mutation
+  const templateMutation = useMutation(
+    async ({ templateId, data }: { templateId: string; data: Record<string, any> }) => {
+      return api.post(`/task-templates/${templateId}/instantiate`, data);
+    },
+    {
+      onSuccess: (response) => {
+        const count = response.data.tasks?.length || 1;
+        toast.success(count > 1 ? `${count} tasks created from template` : 'Task created from template');
+        queryClient.invalidateQueries(['tasks']);
+        setIsOpen(false);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Failed to create tasks from template');
+      }
+    }
+  );
+
+  // Bulk update/delete mutation
+  const bulkMutation = useMutation(
+    async (data: { action: 'update' | 'delete'; changes?: Record<string, string> }) => {
+      return api.post('/tasks/bulk', { taskIds: selectedTaskIds, ...data });
+    },
+    {
+      onSuccess: (response) => {
+        const { message, failed } = response.data;
+        if (failed.length > 0) {
+          toast.error(`${message}. ${failed.length} failed: ${failed[0].message}`);
+        } else {
+          toast.success(message);
+        }
+        // Keep the failed tasks selected so they can be retried
+        setSelectedTaskIds(failed.map((failure: { taskId: string }) => failure.taskId));
+        queryClient.invalidateQueries(['tasks']);
+      },
+      onError: (error: any) => {
+        toast.error(error.response?.data?.message || error.response?.data?.errors?.[0]?.msg || 'Bulk action failed');
+      }
+    }
+  );
+
   // Delete task mutation
   const deleteMutation = useMutation(
     async (taskId: string) => {
@@ -290,7 +559,7 @@ function TasksPageContent() {
     },
     {
       onSuccess: () => {
-        toast.success('Task deleted successfully');
+        toast.success('Task moved to trash');
         queryClient.invalidateQueries(['tasks']);
       },
       onError: () => {
@@ -301,14 +570,53 @@ function TasksPageContent() {
 
   const handleEditTask = (task: Task) => {
     setSelectedTask(task);
+    setFormLabels(task.labels?.map(label => label._id) || []);
+    setFormAssignees(task.assignees?.map(assignee => assignee._id).filter(id => id !== task.assignedTo?._id) || []);
+    setFormWatchers(task.watchers?.map(watcher => watcher._id) || []);
+    setFormCustomFields(task.customFields || {});
     setIsOpen(true);
   };
 
   const handleNewTask = () => {
     setSelectedTask(null);
+    setFormLabels([]);
+    setFormAssignees([]);
+    setFormWatchers([]);
+    setFormCustomFields({});
+    setFormTemplateId('');
     setIsOpen(true);
   };
 
+  // Add or remove an ID from a selection
+  const toggleId = (ids: string[], id: string) =>
+    ids.includes(id) ? ids.filter(selectedId => selectedId !== id) : [...ids, id];
+
+  const handleLabelsChanged = () => {
+    queryClient.invalidateQueries('labels');
+    queryClient.invalidateQueries(['tasks']);
+  };
+
+  const handleCustomFieldsChanged = () => {
+    queryClient.invalidateQueries('customFields');
+    queryClient.invalidateQueries(['tasks']);
+  };
+
+  // Download the filtered task list as CSV
+  const handleExport = async () => {
+    try {
+      const response = await api.get('/tasks/export', { params: getListParams(), responseType: 'blob' });
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `tasks-${new Date().toISOString().split('T')[0]}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting tasks:', error);
+      toast.error('Failed to export tasks');
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const form = e.target as HTMLFormElement;
@@ -325,11 +633,29 @@ function TasksPageContent() {
     const taskData: any = {
       title: formData.get('title'),
       description: formData.get('description'),
+      // An empty start date is cleared
+      startDate: formData.get('startDate') || null,
       dueDate: formData.get('dueDate'),
       priority: formData.get('priority'),
-      status: formData.get('status') || 'todo'
+      status: formData.get('status') || 'todo',
+      waiting: formData.get('waiting') === 'on',
+      requiresApproval: formData.get('requiresApproval') === 'on',
+      labels: formLabels,
+      assignees: formAssignees,
+      watchers: formWatchers,
+      // Empty estimates are cleared
+      storyPoints: formData.get('storyPoints') ? Number(formData.get('storyPoints')) : null,
+      estimatedHours: formData.get('estimatedHours') ? Number(formData.get('estimatedHours')) : null,
+      sprint: formData.get('sprint') || null,
+      // Every field shown in the form is sent, so emptied fields are cleared
+      customFields: Object.fromEntries(formFields.map(field => [field._id, formCustomFields[field._id] ?? null]))
     };
     
+    // New tasks go into the project currently selected in the sidebar
+    if (!selectedTask && currentProjectId) {
+      taskData.project = currentProjectId;
+    }
+    
     // Get the assignedTo value and ensure it's the correct format (_id format is expected by API)
     let assignedToValue = formData.get('assignedTo');
     console.log('Raw assignedTo value from form:', assignedToValue);
@@ -402,6 +728,52 @@ function TasksPageContent() {
     }
   };
 
+  const handleTemplateSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const formData = new FormData(e.target as HTMLFormElement);
+
+    const data: Record<string, any> = { startDate: formData.get('startDate') };
+    if (formData.get('assignedTo')) {
+      data.assignedTo = formData.get('assignedTo');
+    }
+    // New tasks go into the project currently selected in the sidebar
+    if (currentProjectId) {
+      data.project = currentProjectId;
+    }
+    data.customFields = Object.fromEntries(formFields.map(field => [field._id, formCustomFields[field._id] ?? null]));
+
+    templateMutation.mutate({ templateId: formTemplateId, data });
+  };
+
+  const handleBulkApply = (action: BulkAction, value: string) => {
+    if (action === 'delete') {
+      bulkMutation.mutate({ action: 'delete' });
+    } else {
+      bulkMutation.mutate({ action: 'update', changes: { [action]: value } });
+    }
+  };
+
+  // Move a card on the board; rejects so the board can put the card back
+  const handleBoardMove = async (
+    taskId: string,
+    status: BoardStatus,
+    beforeTaskId: string | null,
+    afterTaskId: string | null,
+    confirmOpenSubtasks = false
+  ): Promise<void> => {
+    try {
+      await api.post(`/tasks/${taskId}/move`, { status, beforeTaskId, afterTaskId, confirmOpenSubtasks });
+      queryClient.invalidateQueries(['tasks']);
+    } catch (error: any) {
+      // Completing a task with open subtasks needs explicit confirmation
+      if (error?.response?.status === 409 && error.response.data?.openSubtasks && window.confirm(error.response.data.message)) {
+        return handleBoardMove(taskId, status, beforeTaskId, afterTaskId, true);
+      }
+      toast.error(error?.response?.data?.message || 'Failed to move task');
+      throw error;
+    }
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     const form = e.target as HTMLFormElement;
@@ -417,10 +789,31 @@ function TasksPageContent() {
     setStatusFilter('');
     setPriorityFilter('');
     setAssigneeFilter('');
+    setSprintFilter('');
+    setLabelFilter([]);
+    setLabelMatch('any');
+    setCustomFieldFilter({});
     setSortBy('dueDate');
     setSortOrder('asc');
+    setColumns(ALL_VIEW_COLUMNS);
   };
 
+  const formTemplate = templates?.find(template => template._id === formTemplateId);
+
+  // Custom fields of the project the task belongs to, or the selected project for new tasks
+  const formFields = (customFields || []).filter(field =>
+    fieldAppliesTo(field, selectedTask ? selectedTask.project?._id : currentProjectId)
+  );
+
+  // Open sprints the task can be planned in - its current sprint stays listed even once closed
+  const formSprints = (sprints || []).filter(sprint =>
+    sprint._id === selectedTask?.sprint?._id ||
+    (sprint.status !== 'closed' && sprintAcceptsProject(sprint, selectedTask ? selectedTask.project?._id : currentProjectId))
+  );
+
+  // Custom fields that can filter and sort the current list
+  const listFields = (customFields || []).filter(field => !currentProjectId || fieldAppliesTo(field, currentProjectId));
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'high': return 'red.500';
@@ -434,6 +827,7 @@ function TasksPageContent() {
     switch (status) {
       case 'completed': return 'green.500';
       case 'in-progress': return 'blue.500';
+      case 'in-review': return 'purple.500';
       case 'todo': return 'gray.500';
       default: return 'gray.500';
     }
@@ -445,6 +839,27 @@ function TasksPageContent() {
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '1.5rem' }}>
         <Heading size="lg">Tasks</Heading>
         <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {hasPermission('labels:manage') && (
+            <Button leftIcon={<FiTag />} onClick={() => setIsLabelManagerOpen(!isLabelManagerOpen)}>
+              Labels
+            </Button>
+          )}
+          {hasPermission('fields:manage') && (
+            <Button leftIcon={<FiSliders />} onClick={() => setIsFieldManagerOpen(!isFieldManagerOpen)}>
+              Fields
+            </Button>
+          )}
+          {hasPermission('reports:export') && (
+            <Button leftIcon={<FiDownload />} onClick={handleExport}>
+              Export CSV
+            </Button>
+          )}
+          <Button
+            leftIcon={view === 'list' ? <FiColumns /> : <FiList />}
+            onClick={() => setView(view === 'list' ? 'board' : 'list')}
+          >
+            {view === 'list' ? 'Board' : 'List'}
+          </Button>
           <Button leftIcon={<FiFilter />} onClick={handleFilterToggle}>
             Filters
           </Button>
@@ -454,11 +869,37 @@ function TasksPageContent() {
         </div>
       </div>
 
+      {/* Label Management */}
+      {isLabelManagerOpen && (
+        <Box p={4} borderWidth="1px" borderRadius="lg" mb={4} boxShadow="lg"
+          sx={{
+            background: 'linear-gradient(to bottom right, #1A202C, #171923, #0D1117)',
+            borderColor: '#4A5568'
+          }}
+        >
+          <LabelManager labels={labels || []} onChanged={handleLabelsChanged} />
+        </Box>
+      )}
+
+      {/* Custom Field Management */}
+      {isFieldManagerOpen && (
+        <Box p={4} borderWidth="1px" borderRadius="lg" mb={4} boxShadow="lg"
+          sx={{
+            background: 'linear-gradient(to bottom right, #1A202C, #171923, #0D1117)',
+            borderColor: '#4A5568'
+          }}
+        >
+          <CustomFieldManager fields={customFields || []} projects={projects || []} onChanged={handleCustomFieldsChanged} />
+        </Box>
+      )}
+
       {/* Search and Filter Bar */}
       <Box mb={6}>
+        <SavedViewsBar activeViewId={activeViewId} getCurrentState={getViewState} onApply={applyView} />
         <form onSubmit={handleSearch} style={{ display: 'flex', gap: '0.5rem', marginBottom: '1rem' }}>
           <input
             type="text"
+            key={searchTerm}
             name="search"
             placeholder="Search tasks..."
             defaultValue={searchTerm}
@@ -503,6 +944,7 @@ function TasksPageContent() {
                   <option key="status-all" value="">All Status</option>
                   <option key="status-todo" value="todo">To Do</option>
                   <option key="status-in-progress" value="in-progress">In Progress</option>
+                  <option key="status-in-review" value="in-review">In Review</option>
                   <option key="status-completed" value="completed">Completed</option>
                 </select>
               </div>
@@ -555,6 +997,34 @@ function TasksPageContent() {
                 </select>
               </div>
 
+              <div>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', color: '#E2E8F0' }}>
+                  Sprint
+                </label>
+                <select
+                  value={sprintFilter}
+                  onChange={(e) => setSprintFilter(e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    borderRadius: '0.375rem',
+                    border: '1px solid #4A5568',
+                    backgroundColor: '#2D3748',
+                    color: '#E2E8F0'
+                  }}
+                >
+                  <option key="sprint-all" value="">All Sprints</option>
+                  <option key="sprint-none" value="none">No Sprint</option>
+                  {(sprints || [])
+                    .filter(sprint => !currentProjectId || sprintAcceptsProject(sprint, currentProjectId))
+                    .map((sprint) => (
+                      <option key={sprint._id} value={sprint._id}>
+                        {sprint.name}{sprint.status === 'active' && ' (active)'}
+                      </option>
+                    ))}
+                </select>
+              </div>
+
               <div>
                 <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', color: '#E2E8F0' }}>
                   Sort By
@@ -576,6 +1046,9 @@ function TasksPageContent() {
                   <option key="sort-priority" value="priority">Priority</option>
                   <option key="sort-status" value="status">Status</option>
                   <option key="sort-title" value="title">Title</option>
+                  {listFields.map((field) => (
+                    <option key={`sort-${field._id}`} value={`customFields.${field._id}`}>{field.name}</option>
+                  ))}
                 </select>
               </div>
 
@@ -601,6 +1074,78 @@ function TasksPageContent() {
               </div>
             </div>
 
+            {labels && labels.length > 0 && (
+              <div style={{ marginTop: '1rem' }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '0.5rem' }}>
+                  <label style={{ fontWeight: 'bold', color: '#E2E8F0' }}>
+                    Labels
+                  </label>
+                  <select
+                    value={labelMatch}
+                    onChange={(e) => setLabelMatch(e.target.value as 'any' | 'all')}
+                    style={{
+                      padding: '0.25rem 0.5rem',
+                      borderRadius: '0.375rem',
+                      border: '1px solid #4A5568',
+                      backgroundColor: '#2D3748',
+                      color: '#E2E8F0'
+                    }}
+                  >
+                    <option key="label-match-any" value="any">Match any</option>
+                    <option key="label-match-all" value="all">Match all</option>
+                  </select>
+                </div>
+                <div>
+                  {labels.map((label) => (
+                    <LabelChip
+                      key={label._id}
+                      label={label}
+                      isSelected={labelFilter.includes(label._id)}
+                      onClick={() => setLabelFilter(toggleId(labelFilter, label._id))}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {listFields.length > 0 && (
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(200px, 1fr))', gap: '1rem', marginTop: '1rem' }}>
+                {listFields.map((field) => (
+                  <div key={`filter-${field._id}`}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', color: '#E2E8F0' }}>
+                      {field.name}
+                    </label>
+                    <CustomFieldFilter
+                      field={field}
+                      value={customFieldFilter[field._id] || ''}
+                      users={users || []}
+                      onChange={(value) => setCustomFieldFilter({ ...customFieldFilter, [field._id]: value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div style={{ marginTop: '1rem' }}>
+              <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold', color: '#E2E8F0' }}>
+                Columns
+              </label>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', color: '#E2E8F0' }}>
+                {VIEW_COLUMNS.map(({ column, label }) => (
+                  <label key={`column-${column}`} style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+                    <input
+                      type="checkbox"
+                      checked={columns.includes(column)}
+                      onChange={() => setColumns(ALL_VIEW_COLUMNS.filter(item =>
+                        item === column ? !columns.includes(column) : columns.includes(item)
+                      ))}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
             <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '1rem' }}>
               <Button onClick={handleResetFilters} mr={2} colorScheme="blue" variant="outline">
                 Reset Filters
@@ -623,8 +1168,21 @@ function TasksPageContent() {
           }}></div>
           <Text mt={4}>Loading tasks...</Text>
         </Box>
+      ) : tasks && tasks.length > 0 && view === 'board' ? (
+        <TaskBoard tasks={tasks} onMove={handleBoardMove} onEdit={handleEditTask} />
       ) : tasks && tasks.length > 0 ? (
         <VStack spacing={4} align="stretch">
+          {selectedTaskIds.length > 0 && (
+            <BulkActionBar
+              selectedCount={selectedTaskIds.length}
+              totalCount={tasks.length}
+              users={users || []}
+              isLoading={bulkMutation.isLoading}
+              onSelectAll={() => setSelectedTaskIds(tasks.map(task => task._id))}
+              onClear={() => setSelectedTaskIds([])}
+              onApply={handleBulkApply}
+            />
+          )}
           {tasks.map((task) => (
             <Box 
               key={task._id} 
@@ -637,8 +1195,26 @@ function TasksPageContent() {
             >
               <div style={{ display: 'flex', justifyContent: 'space-between' }}>
                 <div style={{ display: 'flex', flexDirection: 'column', alignItems: 'flex-start' }}>
-                  <Heading size="md">{task.title}</Heading>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                    <input
+                      type="checkbox"
+                      aria-label={`Select ${task.title}`}
+                      checked={selectedTaskIds.includes(task._id)}
+                      onChange={() => setSelectedTaskIds(toggleId(selectedTaskIds, task._id))}
+                    />
+                    <Heading size="md">{task.title}</Heading>
+                  </div>
+                  {!currentProjectId && task.project && (
+                    <Text fontSize="sm" color="gray.500">{task.project.name}</Text>
+                  )}
                   <Text color="gray.600">{task.description}</Text>
+                  {columns.includes('labels') && task.labels && task.labels.length > 0 && (
+                    <div style={{ marginTop: '0.5rem' }}>
+                      {task.labels.map((label) => (
+                        <LabelChip key={label._id} label={label} />
+                      ))}
+                    </div>
+                  )}
                 </div>
                 <div>
                   <Button
@@ -654,7 +1230,7 @@ function TasksPageContent() {
                     colorScheme="red"
                     leftIcon={<FiTrash2 />}
                     onClick={() => {
-                      if (window.confirm('Are you sure you want to delete this task?')) {
+                      if (window.confirm('Move this task to the trash?')) {
                         deleteMutation.mutate(task._id);
                       }
                     }}
@@ -665,22 +1241,73 @@ function TasksPageContent() {
               </div>
               
               <div style={{ marginTop: '1rem', display: 'flex', gap: '1rem' }}>
-                <Text fontWeight="bold">Status: 
-                  <Text as="span" color={getStatusColor(task.status)} ml={2}>
-                    {task.status}
+                {columns.includes('status') && (
+                  <Text fontWeight="bold">Status: 
+                    <Text as="span" color={getStatusColor(task.status)} ml={2}>
+                      {task.status}
+                    </Text>
+                  </Text>
+                )}
+                {columns.includes('dueDate') && (
+                  <Text fontWeight="bold">Due: 
+                    <Text as="span" ml={2}>
+                      {new Date(task.dueDate).toLocaleDateString()}
+                    </Text>
                   </Text>
-                </Text>
-                <Text fontWeight="bold">Due: 
-                  <Text as="span" ml={2}>
-                    {new Date(task.dueDate).toLocaleDateString()}
+                )}
+                {columns.includes('assignees') && (
+                  <Text fontWeight="bold">Assigned to: 
+                    <Text as="span" ml={2}>
+                      {task.assignees && task.assignees.length > 1
+                        ? task.assignees.map(assignee => assignee.name).join(', ')
+                        : task.assignedTo?.name || "Unassigned"}
+                    </Text>
                   </Text>
-                </Text>
-                <Text fontWeight="bold">Assigned to: 
-                  <Text as="span" ml={2}>
-                    {task.assignedTo?.name || "Unassigned"}
+                )}
+                {columns.includes('loggedTime') && !!task.loggedSeconds && (
+                  <Text fontWeight="bold">Logged: 
+                    <Text as="span" ml={2}>
+                      {formatDuration(task.loggedSeconds)}
+                    </Text>
                   </Text>
-                </Text>
+                )}
+                {columns.includes('sprint') && task.sprint && (
+                  <Text fontWeight="bold">Sprint: 
+                    <Text as="span" ml={2}>
+                      {task.sprint.name}
+                    </Text>
+                  </Text>
+                )}
+                {columns.includes('estimate') && (task.storyPoints != null || task.estimatedHours != null) && (
+                  <Text fontWeight="bold">Estimate: 
+                    <Text as="span" ml={2}>
+                      {[
+                        task.storyPoints != null && `${task.storyPoints} pts`,
+                        task.estimatedHours != null && `${task.estimatedHours}h`
+                      ].filter(Boolean).join(' · ')}
+                    </Text>
+                  </Text>
+                )}
               </div>
+
+              {columns.includes('customFields') && task.customFields && Object.keys(task.customFields).length > 0 && (
+                <div style={{ marginTop: '0.5rem', display: 'flex', gap: '1rem', flexWrap: 'wrap' }}>
+                  {(customFields || []).map((field) => {
+                    const value = formatCustomFieldValue(field, task.customFields?.[field._id], users || []);
+                    if (!value) return null;
+                    return (
+                      <Text key={field._id} fontSize="sm">
+                        <Text as="span" fontWeight="bold">{field.name}:</Text>
+                        {field.type === 'url' ? (
+                          <a href={value} target="_blank" rel="noopener noreferrer" style={{ marginLeft: '0.5rem', color: '#63B3ED' }}>{value}</a>
+                        ) : (
+                          <Text as="span" ml={2}>{value}</Text>
+                        )}
+                      </Text>
+                    );
+                  })}
+                </div>
+              )}
             </Box>
           ))}
         </VStack>
@@ -745,6 +1372,139 @@ function TasksPageContent() {
             }}>
               {selectedTask ? 'Edit Task • TaskManager PRO' : 'Create New Task • TaskManager PRO'}
             </h3>
+
+            {/* Template picker for new tasks */}
+            {!selectedTask && templates && templates.length > 0 && (
+              <div style={{ marginBottom: '1rem' }}>
+                <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                  Start from Template
+                </label>
+                <select
+                  value={formTemplateId}
+                  onChange={(e) => setFormTemplateId(e.target.value)}
+                  style={{
+                    width: '100%',
+                    padding: '0.5rem',
+                    borderRadius: '0.375rem',
+                    border: '1px solid #4A5568',
+                    backgroundColor: '#2D3748',
+                    color: '#E2E8F0'
+                  }}
+                >
+                  <option value="">Blank task</option>
+                  {templates.map((template) => (
+                    <option key={template._id} value={template._id}>{template.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            {formTemplate ? (
+                <form onSubmit={handleTemplateSubmit}>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
+                    <Box p={3} borderRadius="md" borderWidth="1px" borderColor="#4A5568" bg="#2D3748">
+                      <Text fontWeight="bold">{formTemplate.title}</Text>
+                      <Text fontSize="sm" color="gray.300" mt={1}>{formTemplate.description}</Text>
+                      <Text fontSize="xs" color="gray.400" mt={2}>
+                        {formTemplate.priority.charAt(0).toUpperCase() + formTemplate.priority.slice(1)} priority
+                        {' · '}due {formTemplate.dueOffsetDays === 0 ? 'on the start date' : `${formTemplate.dueOffsetDays} day(s) after the start date`}
+                        {formTemplate.isRecurring && ` · repeats ${formTemplate.recurringType}`}
+                      </Text>
+                      {formTemplate.checklist.length > 0 && (
+                        <Box mt={2}>
+                          <Text fontSize="xs" color="gray.400">
+                            {formTemplate.checklistAsSubtasks ? 'Subtasks:' : 'Checklist:'}
+                          </Text>
+                          {formTemplate.checklist.map((item, index) => (
+                            <Text key={index} fontSize="xs" color="gray.300">
+                              • {item.text}
+                              {formTemplate.checklistAsSubtasks && item.dueOffsetDays != null && ` (day ${item.dueOffsetDays})`}
+                            </Text>
+                          ))}
+                        </Box>
+                      )}
+                    </Box>
+
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        Start Date *
+                      </label>
+                      <input
+                        name="startDate"
+                        type="date"
+                        defaultValue={new Date().toISOString().split('T')[0]}
+                        required
+                        style={{
+                          width: '100%',
+                          padding: '0.5rem',
+                          borderRadius: '0.375rem',
+                          border: '1px solid #4A5568',
+                          backgroundColor: '#2D3748',
+                          color: '#E2E8F0'
+                        }}
+                      />
+                    </div>
+
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        Assign To
+                      </label>
+                      <select
+                        name="assignedTo"
+                        defaultValue=""
+                        style={{
+                          width: '100%',
+                          padding: '0.5rem',
+                          borderRadius: '0.375rem',
+                          border: '1px solid #4A5568',
+                          backgroundColor: '#2D3748',
+                          color: '#E2E8F0'
+                        }}
+                      >
+                        <option value="">
+                          Template default ({formTemplate.assigneeRule === 'user' && formTemplate.defaultAssignee
+                            ? formTemplate.defaultAssignee.name
+                            : 'me'})
+                        </option>
+                        {users?.map((user) => (
+                          <option key={`template-assignee-${user._id}`} value={user._id}>{user.name}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {formFields.map((field) => (
+                      <div key={`template-field-${field._id}`}>
+                        <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                          {field.name}{field.required && ' *'}
+                        </label>
+                        <CustomFieldInput
+                          field={field}
+                          value={formCustomFields[field._id]}
+                          users={users || []}
+                          onChange={(value) => setFormCustomFields({ ...formCustomFields, [field._id]: value })}
+                        />
+                      </div>
+                    ))}
+
+                    <Button
+                      type="submit"
+                      colorScheme="blue"
+                      mt={4}
+                      isLoading={templateMutation.isLoading}
+                      style={{
+                        background: 'linear-gradient(to right, #3182CE, #2B6CB0)',
+                        padding: '0.75rem',
+                        fontWeight: 'bold',
+                        letterSpacing: '0.5px',
+                        boxShadow: '0 4px 6px rgba(0, 0, 0, 0.1)',
+                        width: '100%'
+                      }}
+                    >
+                      Create from Template
+                    </Button>
+                  </div>
+                </form>
+            ) : (
             <form onSubmit={handleSubmit}>
               <div style={{ display: 'flex', flexDirection: 'column', gap: '1rem' }}>
                 <div>
@@ -800,6 +1560,27 @@ function TasksPageContent() {
                   />
                 </div>
 
+                <div>
+                  <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                    Start Date
+                  </label>
+                  <input
+                    name="startDate"
+                    type="date"
+                    defaultValue={selectedTask?.startDate ?
+                      new Date(selectedTask.startDate).toISOString().split('T')[0] :
+                      undefined}
+                    style={{
+                      width: '100%',
+                      padding: '0.5rem',
+                      borderRadius: '0.375rem',
+                      border: '1px solid #4A5568',
+                      backgroundColor: '#2D3748',
+                      color: '#E2E8F0'
+                    }}
+                  />
+                </div>
+
                 <div>
                   <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
                     Due Date *
@@ -845,6 +1626,146 @@ function TasksPageContent() {
                   </select>
                 </div>
 
+                <div style={{ display: 'flex', gap: '1rem' }}>
+                  <div style={{ flex: 1 }}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                      Story Points
+                    </label>
+                    <input
+                      type="number"
+                      name="storyPoints"
+                      min={0}
+                      max={100}
+                      step={1}
+                      defaultValue={selectedTask?.storyPoints ?? ''}
+                      style={{
+                        width: '100%',
+                        padding: '0.5rem',
+                        borderRadius: '0.375rem',
+                        border: '1px solid #4A5568',
+                        backgroundColor: '#2D3748',
+                        color: '#E2E8F0'
+                      }}
+                    />
+                  </div>
+                  <div style={{ flex: 1 }}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                      Estimated Hours
+                    </label>
+                    <input
+                      type="number"
+                      name="estimatedHours"
+                      min={0}
+                      max={1000}
+                      step={0.25}
+                      defaultValue={selectedTask?.estimatedHours ?? ''}
+                      style={{
+                        width: '100%',
+                        padding: '0.5rem',
+                        borderRadius: '0.375rem',
+                        border: '1px solid #4A5568',
+                        backgroundColor: '#2D3748',
+                        color: '#E2E8F0'
+                      }}
+                    />
+                  </div>
+                </div>
+
+                {formSprints.length > 0 && (
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                      Sprint
+                    </label>
+                    <select
+                      name="sprint"
+                      defaultValue={selectedTask?.sprint?._id || ''}
+                      style={{
+                        width: '100%',
+                        padding: '0.5rem',
+                        borderRadius: '0.375rem',
+                        border: '1px solid #4A5568',
+                        backgroundColor: '#2D3748',
+                        color: '#E2E8F0'
+                      }}
+                    >
+                      <option value="">No sprint</option>
+                      {formSprints.map((sprint) => (
+                        <option key={sprint._id} value={sprint._id}>
+                          {sprint.name}{sprint.status === 'active' && ' (active)'}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                )}
+
+                {formFields.map((field) => (
+                  <div key={`form-field-${field._id}`}>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                      {field.name}{field.required && ' *'}
+                    </label>
+                    <CustomFieldInput
+                      field={field}
+                      value={formCustomFields[field._id]}
+                      users={users || []}
+                      onChange={(value) => setFormCustomFields({ ...formCustomFields, [field._id]: value })}
+                    />
+                  </div>
+                ))}
+
+                {labels && labels.length > 0 && (
+                  <div>
+                    <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                      Labels
+                    </label>
+                    <div>
+                      {labels.map((label) => (
+                        <LabelChip
+                          key={label._id}
+                          label={label}
+                          isSelected={formLabels.includes(label._id)}
+                          onClick={() => setFormLabels(toggleId(formLabels, label._id))}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {users && users.length > 1 && (
+                  <>
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        Also Assigned
+                      </label>
+                      <div>
+                        {users.map((user) => (
+                          <UserToggle
+                            key={`co-assignee-${user._id}`}
+                            name={user.name}
+                            isSelected={formAssignees.includes(user._id)}
+                            onClick={() => setFormAssignees(toggleId(formAssignees, user._id))}
+                          />
+                        ))}
+                      </div>
+                    </div>
+
+                    <div>
+                      <label style={{ display: 'block', marginBottom: '0.5rem', fontWeight: 'bold' }}>
+                        Watchers
+                      </label>
+                      <div>
+                        {users.map((user) => (
+                          <UserToggle
+                            key={`watcher-${user._id}`}
+                            name={user.name}
+                            isSelected={formWatchers.includes(user._id)}
+                            onClick={() => setFormWatchers(toggleId(formWatchers, user._id))}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </>
+                )}
+
                 {/* Recurring Task Options */}
                 <div>
                   <div style={{ display: 'flex', alignItems: 'center', marginBottom: '0.5rem' }}>
@@ -1038,11 +1959,46 @@ function TasksPageContent() {
                     >
                       <option key="form-status-todo" value="todo">To Do</option>
                       <option key="form-status-in-progress" value="in-progress">In Progress</option>
+                      {selectedTask?.status === 'in-review' && (
+                        <option key="form-status-in-review" value="in-review">In Review</option>
+                      )}
                       <option key="form-status-completed" value="completed">Completed</option>
                     </select>
                   </div>
                 )}
 
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  <input
+                    type="checkbox"
+                    id="waiting"
+                    name="waiting"
+                    defaultChecked={selectedTask?.waiting || false}
+                    style={{ marginRight: '0.5rem' }}
+                  />
+                  <label htmlFor="waiting" style={{ fontWeight: 'bold' }}>
+                    Waiting on others
+                  </label>
+                  <span style={{ marginLeft: '0.5rem', color: '#A0AEC0', fontSize: '0.85em' }}>
+                    (pauses the SLA clock)
+                  </span>
+                </div>
+
+                <div style={{ display: 'flex', alignItems: 'center' }}>
+                  <input
+                    type="checkbox"
+                    id="requiresApproval"
+                    name="requiresApproval"
+                    defaultChecked={selectedTask?.requiresApproval || false}
+                    style={{ marginRight: '0.5rem' }}
+                  />
+                  <label htmlFor="requiresApproval" style={{ fontWeight: 'bold' }}>
+                    Requires approval
+                  </label>
+                  <span style={{ marginLeft: '0.5rem', color: '#A0AEC0', fontSize: '0.85em' }}>
+                    (completing sends it to the creator or a manager for review)
+                  </span>
+                </div>
+
                 <div>
                   <label style={{ 
                     display: 'block', 
@@ -1204,6 +2160,7 @@ function TasksPageContent() {
                 </Button>
               </div>
             </form>
+            )}
           </div>
         </div>
       )}
@@ -0,0 +1,360 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Box, Container, Heading, Text } from '@chakra-ui/react';
+import { FiBarChart2, FiAlertTriangle } from 'react-icons/fi';
+import api from '@/lib/api';
+import { appColors } from '@/lib/theme';
+import { useProjectStore } from '@/store/project';
+
+interface TaskSchedule {
+  earliestStart: string;
+  earliestFinish: string;
+  latestStart: string;
+  latestFinish: string;
+  slackDays: number;
+  critical: boolean;
+}
+
+interface TimelineTask {
+  _id: string;
+  title: string;
+  status: 'todo' | 'in-progress' | 'in-review' | 'completed';
+  priority: 'low' | 'medium' | 'high';
+  startDate?: string | null;
+  dueDate: string;
+  assignedTo?: { _id: string; name: string } | null;
+  project?: { _id: string; name: string } | null;
+  blockedBy: string[];
+  schedule: TaskSchedule;
+}
+
+interface TimelineData {
+  tasks: TimelineTask[];
+  criticalPath: string[];
+  deliveryDate: string | null;
+}
+
+type GroupBy = 'assignee' | 'project';
+
+type TimelineRow = { type: 'group'; label: string } | { type: 'task'; task: TimelineTask };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 32;
+const LABEL_WIDTH = 240;
+
+// Pixels per day for each zoom level
+const ZOOM_LEVELS: Record<string, number> = {
+  days: 32,
+  weeks: 12,
+  months: 4,
+};
+
+const STATUS_COLORS: Record<TimelineTask['status'], string> = {
+  todo: '#4A5568',
+  'in-progress': '#3182CE',
+  'in-review': '#805AD5',
+  completed: '#38A169',
+};
+
+const CRITICAL_COLOR = '#E53E3E';
+
+const selectStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || fallback;
+
+// Planned start shown for the bar - tasks without a start date take one day up to their due date
+const getPlannedStart = (task: TimelineTask) =>
+  task.startDate ? new Date(task.startDate).getTime() : new Date(task.dueDate).getTime() - DAY_MS;
+
+// Rows of the chart, a heading row for each group followed by its tasks
+const buildRows = (tasks: TimelineTask[], groupBy: GroupBy): TimelineRow[] => {
+  const groups = new Map<string, TimelineTask[]>();
+  tasks.forEach(task => {
+    const label = groupBy === 'assignee'
+      ? task.assignedTo?.name || 'Unassigned'
+      : task.project?.name || 'No project';
+    groups.set(label, [...(groups.get(label) || []), task]);
+  });
+
+  return Array.from(groups.keys()).sort().flatMap(label => [
+    { type: 'group' as const, label },
+    ...(groups.get(label) as TimelineTask[])
+      .sort((a, b) => getPlannedStart(a) - getPlannedStart(b))
+      .map(task => ({ type: 'task' as const, task })),
+  ]);
+};
+
+// Gantt-style timeline of tasks with their dependencies and the critical path
+export default function TimelinePage() {
+  const router = useRouter();
+  const currentProjectId = useProjectStore((state) => state.currentProjectId);
+  const [data, setData] = useState<TimelineData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [groupBy, setGroupBy] = useState<GroupBy>('assignee');
+  const [zoom, setZoom] = useState('weeks');
+  const [hideCompleted, setHideCompleted] = useState(false);
+
+  useEffect(() => {
+    const params: Record<string, string> = {};
+    if (currentProjectId) params.project = currentProjectId;
+
+    api.get('/tasks/timeline', { params })
+      .then(response => {
+        setData(response.data);
+        setError(null);
+      })
+      .catch(error => {
+        console.error('Error fetching timeline:', error);
+        setError(getErrorMessage(error, 'Failed to fetch the timeline'));
+      });
+  }, [currentProjectId]);
+
+  const dayWidth = ZOOM_LEVELS[zoom];
+  const tasks = (data?.tasks || []).filter(task => !hideCompleted || task.status !== 'completed');
+  const rows = buildRows(tasks, groupBy);
+  const rowIndexes = new Map<string, number>();
+  rows.forEach((row, index) => {
+    if (row.type === 'task') rowIndexes.set(row.task._id, index);
+  });
+
+  // Visible range - every planned and forecast date, with a day either side
+  const times = tasks.flatMap(task => [
+    getPlannedStart(task),
+    new Date(task.dueDate).getTime(),
+    new Date(task.schedule.earliestFinish).getTime(),
+    new Date(task.schedule.latestFinish).getTime(),
+  ]);
+  const rangeStart = times.length > 0 ? new Date(Math.min(...times) - DAY_MS) : new Date();
+  rangeStart.setHours(0, 0, 0, 0);
+  const rangeEnd = times.length > 0 ? Math.max(...times) + DAY_MS : Date.now();
+  const dayCount = Math.ceil((rangeEnd - rangeStart.getTime()) / DAY_MS);
+  const chartWidth = dayCount * dayWidth;
+  const chartHeight = rows.length * ROW_HEIGHT;
+
+  const toX = (time: number | string) =>
+    ((new Date(time).getTime() - rangeStart.getTime()) / DAY_MS) * dayWidth;
+
+  // Scale labels every day, week or month depending on the zoom
+  const tickEvery = dayWidth >= 24 ? 1 : dayWidth >= 10 ? 7 : 30;
+  const ticks = Array.from({ length: Math.ceil(dayCount / tickEvery) }, (_, index) =>
+    new Date(rangeStart.getTime() + index * tickEvery * DAY_MS)
+  );
+
+  // Arrows from the forecast finish of each blocker to the start of the task it blocks
+  const arrows = tasks.flatMap(task =>
+    task.blockedBy
+      .map(blockerId => tasks.find(other => other._id === blockerId))
+      .filter((blocker): blocker is TimelineTask => !!blocker && rowIndexes.has(blocker._id))
+      .map(blocker => ({
+        key: `${blocker._id}-${task._id}`,
+        x1: toX(blocker.schedule.earliestFinish),
+        y1: (rowIndexes.get(blocker._id) as number) * ROW_HEIGHT + ROW_HEIGHT / 2,
+        x2: toX(task.schedule.earliestStart),
+        y2: (rowIndexes.get(task._id) as number) * ROW_HEIGHT + ROW_HEIGHT / 2,
+        critical: blocker.schedule.critical && task.schedule.critical,
+      }))
+  );
+
+  const todayX = toX(Date.now());
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Heading size="lg" mb={2} display="flex" alignItems="center">
+        <Box as={FiBarChart2} mr={3} />
+        Timeline
+      </Heading>
+      <Text color={appColors.text.secondary} mb={4}>
+        Bars run from each task&apos;s start to its due date. Red tasks are on the critical path -
+        any delay to them pushes out the delivery date.
+      </Text>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: '0.75rem', marginBottom: '1rem', flexWrap: 'wrap' }}>
+        <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as GroupBy)} style={selectStyle}>
+          <option value="assignee">Group by assignee</option>
+          <option value="project">Group by project</option>
+        </select>
+        <select value={zoom} onChange={(e) => setZoom(e.target.value)} style={selectStyle}>
+          <option value="days">Days</option>
+          <option value="weeks">Weeks</option>
+          <option value="months">Months</option>
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', color: '#E2E8F0', fontSize: '0.9rem' }}>
+          <input type="checkbox" checked={hideCompleted} onChange={(e) => setHideCompleted(e.target.checked)} />
+          Hide completed
+        </label>
+        {data?.deliveryDate && (
+          <Text fontSize="sm" color={appColors.text.secondary} ml="auto">
+            Forecast delivery: <b>{new Date(data.deliveryDate).toLocaleDateString()}</b>
+            {' · '}
+            {data.criticalPath.length} task(s) on the critical path
+          </Text>
+        )}
+      </div>
+
+      {error ? (
+        <Box p={5} borderRadius="md" borderLeft="4px solid" borderLeftColor="orange.500" bg="orange.50">
+          <Heading size="md" color="orange.600" mb={2} display="flex" alignItems="center">
+            <FiAlertTriangle style={{ marginRight: '8px' }} />
+            Error Loading Timeline
+          </Heading>
+          <Text color="orange.600">{error}</Text>
+        </Box>
+      ) : !data ? (
+        <Text color={appColors.text.muted}>Loading timeline...</Text>
+      ) : tasks.length === 0 ? (
+        <Box p={5} borderRadius="md" borderWidth="1px" borderColor={appColors.border.light} bg={appColors.background.card}>
+          <Text color={appColors.text.secondary}>No tasks to show.</Text>
+        </Box>
+      ) : (
+        <div style={{ overflowX: 'auto', border: '1px solid #4A5568', borderRadius: '6px', backgroundColor: '#1A202C' }}>
+          <div style={{ width: LABEL_WIDTH + chartWidth, position: 'relative' }}>
+            {/* Date scale */}
+            <div style={{ display: 'flex', height: ROW_HEIGHT, borderBottom: '1px solid #4A5568' }}>
+              <div style={{ width: LABEL_WIDTH, flexShrink: 0, position: 'sticky', left: 0, backgroundColor: '#1A202C', zIndex: 2 }} />
+              <div style={{ position: 'relative', width: chartWidth }}>
+                {ticks.map(tick => (
+                  <span
+                    key={tick.getTime()}
+                    style={{ position: 'absolute', left: toX(tick.getTime()) + 2, top: 8, fontSize: '0.7rem', color: '#A0AEC0', whiteSpace: 'nowrap' }}
+                  >
+                    {tick.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                  </span>
+                ))}
+              </div>
+            </div>
+
+            <div style={{ position: 'relative' }}>
+              {rows.map((row, index) => (
+                <div key={row.type === 'group' ? `group-${row.label}` : row.task._id} style={{ display: 'flex', height: ROW_HEIGHT, borderBottom: '1px solid #2D3748' }}>
+                  <div
+                    style={{
+                      width: LABEL_WIDTH,
+                      flexShrink: 0,
+                      position: 'sticky',
+                      left: 0,
+                      zIndex: 2,
+                      padding: '0 8px',
+                      display: 'flex',
+                      alignItems: 'center',
+                      backgroundColor: row.type === 'group' ? '#2D3748' : '#1A202C',
+                      color: row.type === 'group' ? '#E2E8F0' : '#CBD5E0',
+                      fontWeight: row.type === 'group' ? 'bold' : 'normal',
+                      fontSize: '0.8rem',
+                      whiteSpace: 'nowrap',
+                      overflow: 'hidden',
+                      textOverflow: 'ellipsis',
+                    }}
+                  >
+                    {row.type === 'group' ? row.label : row.task.title}
+                  </div>
+                  <div style={{ position: 'relative', width: chartWidth, backgroundColor: row.type === 'group' ? '#2D3748' : undefined }}>
+                    {row.type === 'task' && (() => {
+                      const { task } = row;
+                      const plannedStart = getPlannedStart(task);
+                      const due = new Date(task.dueDate).getTime();
+                      const forecastFinish = new Date(task.schedule.earliestFinish).getTime();
+                      const latestFinish = new Date(task.schedule.latestFinish).getTime();
+                      const color = task.schedule.critical ? CRITICAL_COLOR : STATUS_COLORS[task.status];
+
+                      return (
+                        <>
+                          {/* Slack - how far the task can slip without moving the delivery date */}
+                          {latestFinish > forecastFinish && (
+                            <div
+                              style={{
+                                position: 'absolute',
+                                left: toX(forecastFinish),
+                                width: toX(latestFinish) - toX(forecastFinish),
+                                top: ROW_HEIGHT / 2 - 1,
+                                height: 2,
+                                backgroundColor: '#718096',
+                              }}
+                            />
+                          )}
+                          {/* Forecast slip past the due date, from blockers or from running late */}
+                          {forecastFinish > due && (
+                            <div
+                              style={{
+                                position: 'absolute',
+                                left: toX(due),
+                                width: toX(forecastFinish) - toX(due),
+                                top: 8,
+                                height: ROW_HEIGHT - 16,
+                                borderRadius: '0 4px 4px 0',
+                                background: `repeating-linear-gradient(45deg, ${color}, ${color} 4px, transparent 4px, transparent 8px)`,
+                                opacity: 0.7,
+                              }}
+                            />
+                          )}
+                          <div
+                            onClick={() => router.push(`/dashboard/tasks/${task._id}`)}
+                            title={[
+                              task.title,
+                              `${new Date(plannedStart).toLocaleDateString()} – ${new Date(due).toLocaleDateString()}`,
+                              task.schedule.critical ? 'On the critical path' : `Slack: ${task.schedule.slackDays} day(s)`,
+                            ].join('\n')}
+                            style={{
+                              position: 'absolute',
+                              left: toX(plannedStart),
+                              width: Math.max(toX(due) - toX(plannedStart), 4),
+                              top: 6,
+                              height: ROW_HEIGHT - 12,
+                              borderRadius: '4px',
+                              backgroundColor: color,
+                              border: task.schedule.critical ? '1px solid #FEB2B2' : 'none',
+                              opacity: task.status === 'completed' ? 0.6 : 1,
+                              cursor: 'pointer',
+                              zIndex: 1,
+                            }}
+                          />
+                        </>
+                      );
+                    })()}
+                  </div>
+                </div>
+              ))}
+
+              {/* Today marker and dependency arrows, drawn over the chart area */}
+              <svg
+                width={chartWidth}
+                height={chartHeight}
+                style={{ position: 'absolute', left: LABEL_WIDTH, top: 0, pointerEvents: 'none', zIndex: 1 }}
+              >
+                <defs>
+                  <marker id="timeline-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 Z" fill="#A0AEC0" />
+                  </marker>
+                  <marker id="timeline-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 Z" fill={CRITICAL_COLOR} />
+                  </marker>
+                </defs>
+                {todayX >= 0 && todayX <= chartWidth && (
+                  <line x1={todayX} y1={0} x2={todayX} y2={chartHeight} stroke="#ECC94B" strokeDasharray="4 4" />
+                )}
+                {arrows.map(arrow => (
+                  <path
+                    key={arrow.key}
+                    d={`M${arrow.x1},${arrow.y1} H${arrow.x1 + 6} V${arrow.y2} H${arrow.x2}`}
+                    fill="none"
+                    stroke={arrow.critical ? CRITICAL_COLOR : '#A0AEC0'}
+                    strokeWidth={arrow.critical ? 2 : 1}
+                    markerEnd={`url(#${arrow.critical ? 'timeline-arrow-critical' : 'timeline-arrow'})`}
+                  />
+                ))}
+              </svg>
+            </div>
+          </div>
+        </div>
+      )}
+    </Container>
+  );
+}
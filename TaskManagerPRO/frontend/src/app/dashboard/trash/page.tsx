@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Container, Heading, Text, Button } from '@chakra-ui/react';
+import { FiTrash2, FiRotateCcw, FiAlertTriangle } from 'react-icons/fi';
+import { toast, Toaster } from 'react-hot-toast';
+import api from '@/lib/api';
+import { appColors } from '@/lib/theme';
+
+interface TrashedTask {
+  _id: string;
+  title: string;
+  status: string;
+  priority: string;
+  isRecurring?: boolean;
+  assignedTo: {
+    _id: string;
+    name: string;
+  } | null;
+  deletedBy: {
+    _id: string;
+    name: string;
+  } | null;
+  project?: {
+    _id: string;
+    name: string;
+  } | null;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || fallback;
+
+export default function TrashPage() {
+  const [tasks, setTasks] = useState<TrashedTask[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchTrash = async () => {
+    try {
+      const response = await api.get('/tasks/trash');
+      setTasks(response.data.tasks);
+      setRetentionDays(response.data.retentionDays);
+      setError(null);
+    } catch (error: any) {
+      console.error('Error fetching trash:', error);
+      setError(getErrorMessage(error, 'Failed to fetch trash'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchTrash();
+  }, []);
+
+  const handleRestore = async (task: TrashedTask) => {
+    try {
+      await api.post(`/tasks/${task._id}/restore`);
+      toast.success('Task restored');
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to restore task'));
+    }
+  };
+
+  const handlePurge = async (task: TrashedTask) => {
+    if (!window.confirm(`Permanently delete "${task.title}"? This action cannot be undone.`)) return;
+
+    try {
+      await api.delete(`/tasks/${task._id}/permanent`);
+      toast.success('Task permanently deleted');
+      fetchTrash();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to delete task'));
+    }
+  };
+
+  return (
+    <Container maxW="container.xl" py={8}>
+      <Toaster position="top-right" />
+      <Heading size="lg" mb={2} display="flex" alignItems="center">
+        <Box as={FiTrash2} mr={3} />
+        Trash
+      </Heading>
+      {retentionDays !== null && (
+        <Text color={appColors.text.secondary} mb={6}>
+          Deleted tasks are kept for {retentionDays} days before they are permanently removed.
+        </Text>
+      )}
+
+      {loading ? (
+        <Text color={appColors.text.muted}>Loading trash...</Text>
+      ) : error ? (
+        <Box p={5} borderRadius="md" borderLeft="4px solid" borderLeftColor="orange.500" bg="orange.50">
+          <Heading size="md" color="orange.600" mb={2} display="flex" alignItems="center">
+            <FiAlertTriangle style={{ marginRight: '8px' }} />
+            Error Loading Trash
+          </Heading>
+          <Text color="orange.600">{error}</Text>
+        </Box>
+      ) : tasks.length === 0 ? (
+        <Box p={5} borderRadius="md" borderWidth="1px" borderColor={appColors.border.light} bg={appColors.background.card}>
+          <Text color={appColors.text.secondary}>The trash is empty.</Text>
+        </Box>
+      ) : (
+        <Box>
+          {tasks.map(task => (
+            <Box
+              key={task._id}
+              p={4}
+              mb={3}
+              borderRadius="md"
+              borderWidth="1px"
+              borderColor={appColors.border.light}
+              bg={appColors.background.card}
+              display="flex"
+              justifyContent="space-between"
+              alignItems="center"
+            >
+              <Box>
+                <Text fontWeight="bold">
+                  {task.title}
+                  {task.isRecurring && (
+                    <Text as="span" fontSize="xs" color={appColors.text.muted} ml={2}>
+                      (recurring series)
+                    </Text>
+                  )}
+                </Text>
+                <Text fontSize="sm" color={appColors.text.secondary}>
+                  {task.project ? `${task.project.name} · ` : ''}
+                  Assigned to {task.assignedTo?.name || 'Unknown user'}
+                </Text>
+                <Text fontSize="xs" color={appColors.text.muted} mt={1}>
+                  Deleted by {task.deletedBy?.name || 'Unknown user'} on {new Date(task.deletedAt).toLocaleString()}
+                  {' · '}
+                  Permanently deleted on {new Date(task.purgeAt).toLocaleDateString()}
+                </Text>
+              </Box>
+              <Box display="flex" flexShrink={0} ml={4}>
+                <Button size="sm" colorScheme="blue" leftIcon={<Box as={FiRotateCcw} />} onClick={() => handleRestore(task)}>
+                  Restore
+                </Button>
+                <Button size="sm" variant="ghost" colorScheme="red" ml={2} leftIcon={<Box as={FiTrash2} />} onClick={() => handlePurge(task)}>
+                  Delete forever
+                </Button>
+              </Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Container>
+  );
+}
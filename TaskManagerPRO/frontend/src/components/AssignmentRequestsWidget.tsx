@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { useQuery } from 'react-query';
+import { useRouter } from 'next/navigation';
+import { FiUserCheck } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import socket from '@/lib/socket';
+import { appColors } from '@/lib/theme';
+import {
+  AssignmentRequests,
+  AssignmentResponse,
+  AssignmentTask,
+  ASSIGNMENT_STATUS_LABELS,
+  ASSIGNMENT_STATUS_COLORS,
+} from '@/types/assignment';
+
+const sectionTitleStyle = {
+  fontSize: '13px',
+  fontWeight: 600,
+  color: appColors.text.muted,
+  textTransform: 'uppercase' as const,
+  margin: '16px 0 8px',
+};
+
+const buttonStyle = (color: string) => ({
+  padding: '4px 10px',
+  borderRadius: '4px',
+  fontSize: '12px',
+  fontWeight: 500,
+  border: `1px solid ${color}`,
+  backgroundColor: 'transparent',
+  color,
+  cursor: 'pointer',
+});
+
+function StatusBadge({ response }: { response: AssignmentResponse }) {
+  const color = ASSIGNMENT_STATUS_COLORS[response.status];
+  return (
+    <span
+      title={response.reason || undefined}
+      style={{
+        padding: '2px 8px',
+        borderRadius: '4px',
+        fontSize: '12px',
+        fontWeight: 500,
+        backgroundColor: `${color}20`,
+        color,
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {response.user.name}: {ASSIGNMENT_STATUS_LABELS[response.status]}
+    </span>
+  );
+}
+
+// One task row; the badges show the responses the section is about, each with the given actions
+function TaskRow({
+  task,
+  responses,
+  actions,
+}: {
+  task: AssignmentTask;
+  responses: AssignmentResponse[];
+  actions?: React.ReactNode;
+}) {
+  const router = useRouter();
+
+  return (
+    <div
+      onClick={() => router.push(`/dashboard/tasks/${task._id}`)}
+      style={{
+        padding: '10px 12px',
+        borderRadius: '8px',
+        border: `1px solid ${appColors.border.light}`,
+        cursor: 'pointer',
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '12px' }}>
+        <div style={{ fontWeight: 500, fontSize: '14px', color: appColors.text.primary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {task.title}
+          {task.project && (
+            <span style={{ fontWeight: 400, fontSize: '12px', color: appColors.text.secondary }}> · {task.project.name}</span>
+          )}
+        </div>
+        <span style={{ fontSize: '12px', color: appColors.text.secondary, flexShrink: 0 }}>
+          Due {new Date(task.dueDate).toLocaleDateString()}
+        </span>
+      </div>
+      {responses.map(response => (
+        <div
+          key={response.user._id}
+          style={{ display: 'flex', alignItems: 'center', flexWrap: 'wrap', gap: '8px', marginTop: '6px', fontSize: '12px', color: appColors.text.secondary }}
+        >
+          <StatusBadge response={response} />
+          {response.reason && <span>{response.reason}</span>}
+          {actions && (
+            <span style={{ marginLeft: 'auto', display: 'flex', gap: '6px' }} onClick={(e) => e.stopPropagation()}>
+              {actions}
+            </span>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Dashboard widget for assignments waiting on someone: the user's tasks not yet accepted,
+// reassignment requests the user decides, and open tasks nobody is assigned to
+export default function AssignmentRequestsWidget({ projectId }: { projectId?: string | null }) {
+  const { data: requests, isLoading, refetch: refetchRequests } = useQuery<AssignmentRequests>(
+    'assignmentRequests',
+    async () => {
+      const response = await api.get('/tasks/assignment-requests');
+      return response.data;
+    }
+  );
+
+  const { data: unassigned, refetch: refetchUnassigned } = useQuery<AssignmentTask[]>(
+    ['unassignedTasks', projectId],
+    async () => {
+      const response = await api.get('/tasks/unassigned', {
+        params: projectId ? { project: projectId } : {},
+      });
+      return response.data;
+    }
+  );
+
+  // Assignment responses arrive as notifications
+  useEffect(() => {
+    const handleNotification = (notification: { type: string }) => {
+      if (notification.type !== 'task_assigned') return;
+      refetchRequests();
+      refetchUnassigned();
+    };
+
+    socket.on('notification', handleNotification);
+    return () => {
+      socket.off('notification', handleNotification);
+    };
+  }, [refetchRequests, refetchUnassigned]);
+
+  const decideReassignment = async (taskId: string, userId: string, decision: 'approve' | 'reject') => {
+    try {
+      const response = await api.post(`/tasks/${taskId}/reassignment/${userId}/${decision}`);
+      toast.success(response.data.message);
+      refetchRequests();
+      refetchUnassigned();
+    } catch (error: any) {
+      toast.error(error?.response?.data?.message || 'Failed to decide on the reassignment request');
+    }
+  };
+
+  const created = requests?.created || [];
+  const reassignments = requests?.reassignments || [];
+  const unassignedTasks = unassigned || [];
+  const total = created.length + reassignments.length + unassignedTasks.length;
+
+  return (
+    <div style={{
+      backgroundColor: appColors.background.card,
+      borderRadius: '12px',
+      padding: '24px',
+      marginBottom: '24px',
+      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.2)',
+      borderLeft: `4px solid ${appColors.accent.highlight}`,
+    }}>
+      <h2 style={{
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: appColors.text.primary,
+        marginBottom: '16px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px'
+      }}>
+        <FiUserCheck size={18} style={{ color: appColors.accent.highlight }} />
+        Assignments
+        {total > 0 && (
+          <span style={{ fontSize: '13px', fontWeight: 500, color: appColors.text.muted }}>({total})</span>
+        )}
+      </h2>
+
+      {isLoading ? (
+        <div style={{ color: appColors.text.secondary, fontSize: '14px' }}>Loading...</div>
+      ) : total === 0 ? (
+        <div style={{
+          padding: '16px',
+          textAlign: 'center',
+          color: appColors.text.secondary,
+          backgroundColor: appColors.border.light + '33',
+          borderRadius: '8px',
+          fontSize: '14px'
+        }}>
+          No assignments are waiting on anyone.
+        </div>
+      ) : (
+        <>
+          {reassignments.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>Reassignment requests</div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {reassignments.map(task => task.assignments
+                  .filter(response => response.status === 'reassignment_requested')
+                  .map(response => (
+                    <TaskRow
+                      key={`${task._id}-${response.user._id}`}
+                      task={task}
+                      responses={[response]}
+                      actions={
+                        <>
+                          <button
+                            style={buttonStyle(appColors.accent.success)}
+                            onClick={() => decideReassignment(task._id, response.user._id, 'approve')}
+                          >
+                            Approve
+                          </button>
+                          <button
+                            style={buttonStyle('#EF4444')}
+                            onClick={() => decideReassignment(task._id, response.user._id, 'reject')}
+                          >
+                            Deny
+                          </button>
+                        </>
+                      }
+                    />
+                  )))}
+              </div>
+            </>
+          )}
+
+          {created.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>Waiting on assignees</div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {created.map(task => (
+                  <TaskRow
+                    key={task._id}
+                    task={task}
+                    responses={task.assignments.filter(response => response.status === 'pending' || response.status === 'declined')}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+
+          {unassignedTasks.length > 0 && (
+            <>
+              <div style={sectionTitleStyle}>Unassigned</div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+                {unassignedTasks.map(task => (
+                  <TaskRow
+                    key={task._id}
+                    task={task}
+                    responses={task.assignments.filter(response => response.status === 'declined')}
+                  />
+                ))}
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Box, Button, Text } from '@chakra-ui/react';
+import { FiCheckSquare, FiX } from 'react-icons/fi';
+
+export type BulkAction = 'status' | 'priority' | 'assignedTo' | 'dueDate' | 'delete';
+
+interface BulkActionBarProps {
+  selectedCount: number;
+  totalCount: number;
+  users: { _id: string; name: string }[];
+  isLoading?: boolean;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onApply: (action: BulkAction, value: string) => void;
+}
+
+const inputStyle = {
+  padding: '0.25rem 0.5rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+// Action bar for changing or deleting the selected tasks at once
+export default function BulkActionBar({
+  selectedCount,
+  totalCount,
+  users,
+  isLoading,
+  onSelectAll,
+  onClear,
+  onApply,
+}: BulkActionBarProps) {
+  const [action, setAction] = useState<BulkAction>('status');
+  const [value, setValue] = useState('');
+
+  const handleActionChange = (nextAction: BulkAction) => {
+    setAction(nextAction);
+    setValue('');
+  };
+
+  const handleApply = () => {
+    if (action === 'delete') {
+      if (!window.confirm(`Move ${selectedCount} task(s) to the trash?`)) return;
+    } else if (!value) {
+      return;
+    }
+    onApply(action, value);
+  };
+
+  return (
+    <Box
+      p={3}
+      mb={4}
+      borderWidth="1px"
+      borderRadius="md"
+      borderColor="#4A5568"
+      bg="#1A202C"
+      display="flex"
+      alignItems="center"
+      flexWrap="wrap"
+      gap="0.75rem"
+    >
+      <Text fontWeight="bold">{selectedCount} selected</Text>
+      {selectedCount < totalCount && (
+        <Button size="sm" variant="ghost" leftIcon={<FiCheckSquare />} onClick={onSelectAll}>
+          Select all {totalCount}
+        </Button>
+      )}
+
+      <select
+        value={action}
+        onChange={(e) => handleActionChange(e.target.value as BulkAction)}
+        style={inputStyle}
+      >
+        <option value="status">Set status</option>
+        <option value="priority">Set priority</option>
+        <option value="assignedTo">Reassign</option>
+        <option value="dueDate">Set due date</option>
+        <option value="delete">Move to trash</option>
+      </select>
+
+      {action === 'status' && (
+        <select value={value} onChange={(e) => setValue(e.target.value)} style={inputStyle}>
+          <option value="">Choose status</option>
+          <option value="todo">To Do</option>
+          <option value="in-progress">In Progress</option>
+          <option value="completed">Completed</option>
+        </select>
+      )}
+      {action === 'priority' && (
+        <select value={value} onChange={(e) => setValue(e.target.value)} style={inputStyle}>
+          <option value="">Choose priority</option>
+          <option value="low">Low</option>
+          <option value="medium">Medium</option>
+          <option value="high">High</option>
+        </select>
+      )}
+      {action === 'assignedTo' && (
+        <select value={value} onChange={(e) => setValue(e.target.value)} style={inputStyle}>
+          <option value="">Choose assignee</option>
+          {users.map((user) => (
+            <option key={user._id} value={user._id}>{user.name}</option>
+          ))}
+        </select>
+      )}
+      {action === 'dueDate' && (
+        <input type="date" value={value} onChange={(e) => setValue(e.target.value)} style={inputStyle} />
+      )}
+
+      <Button
+        size="sm"
+        colorScheme={action === 'delete' ? 'red' : 'blue'}
+        isLoading={isLoading}
+        disabled={action !== 'delete' && !value}
+        onClick={handleApply}
+      >
+        Apply
+      </Button>
+      <Button size="sm" variant="ghost" leftIcon={<FiX />} onClick={onClear}>
+        Clear selection
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,64 @@
+'use client';
+
+import React from 'react';
+import { CustomField } from '@/types/customField';
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+interface CustomFieldFilterProps {
+  field: CustomField;
+  value: string;
+  users: { _id: string; name: string }[];
+  onChange: (value: string) => void;
+}
+
+// Filter input for a custom field in the task list
+// Number and date fields filter on a "min,max" range
+export default function CustomFieldFilter({ field, value, users, onChange }: CustomFieldFilterProps) {
+  if (field.type === 'number' || field.type === 'date') {
+    const [min = '', max = ''] = value ? value.split(',') : [];
+    const inputType = field.type === 'number' ? 'number' : 'date';
+    const setRange = (nextMin: string, nextMax: string) =>
+      onChange(nextMin || nextMax ? `${nextMin},${nextMax}` : '');
+
+    return (
+      <div style={{ display: 'flex', gap: '0.5rem' }}>
+        <input type={inputType} value={min} placeholder="From" onChange={(e) => setRange(e.target.value, max)} style={inputStyle} />
+        <input type={inputType} value={max} placeholder="To" onChange={(e) => setRange(min, e.target.value)} style={inputStyle} />
+      </div>
+    );
+  }
+
+  if (field.type === 'select' || field.type === 'multiselect') {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} style={inputStyle}>
+        <option value="">Any</option>
+        {field.options.map(option => (
+          <option key={option} value={option}>{option}</option>
+        ))}
+      </select>
+    );
+  }
+
+  if (field.type === 'user') {
+    return (
+      <select value={value} onChange={(e) => onChange(e.target.value)} style={inputStyle}>
+        <option value="">Any</option>
+        {users.map(user => (
+          <option key={user._id} value={user._id}>{user.name}</option>
+        ))}
+      </select>
+    );
+  }
+
+  return (
+    <input value={value} placeholder="Contains..." onChange={(e) => onChange(e.target.value)} style={inputStyle} />
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+
+import React from 'react';
+import { CustomField } from '@/types/customField';
+
+const inputStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+interface CustomFieldInputProps {
+  field: CustomField;
+  value: any;
+  users: { _id: string; name: string }[];
+  onChange: (value: any) => void;
+}
+
+// Form input for a custom field value, matching the field's type
+export default function CustomFieldInput({ field, value, users, onChange }: CustomFieldInputProps) {
+  switch (field.type) {
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value === '' ? null : Number(e.target.value))}
+          required={field.required}
+          style={inputStyle}
+        />
+      );
+
+    case 'date':
+      return (
+        <input
+          type="date"
+          value={value ? new Date(value).toISOString().split('T')[0] : ''}
+          onChange={(e) => onChange(e.target.value || null)}
+          required={field.required}
+          style={inputStyle}
+        />
+      );
+
+    case 'select':
+      return (
+        <select value={value ?? ''} onChange={(e) => onChange(e.target.value || null)} required={field.required} style={inputStyle}>
+          <option value="">None</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      );
+
+    case 'multiselect': {
+      const selected: string[] = Array.isArray(value) ? value : [];
+      return (
+        <div>
+          {field.options.map(option => (
+            <label key={option} style={{ display: 'inline-flex', alignItems: 'center', marginRight: '0.75rem' }}>
+              <input
+                type="checkbox"
+                checked={selected.includes(option)}
+                onChange={() =>
+                  onChange(selected.includes(option) ? selected.filter(item => item !== option) : [...selected, option])
+                }
+                style={{ marginRight: '0.25rem' }}
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    case 'user':
+      return (
+        <select value={value ?? ''} onChange={(e) => onChange(e.target.value || null)} required={field.required} style={inputStyle}>
+          <option value="">None</option>
+          {users.map(user => (
+            <option key={user._id} value={user._id}>{user.name}</option>
+          ))}
+        </select>
+      );
+
+    case 'url':
+      return (
+        <input
+          type="url"
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="https://"
+          required={field.required}
+          style={inputStyle}
+        />
+      );
+
+    default:
+      return (
+        <input
+          value={value ?? ''}
+          onChange={(e) => onChange(e.target.value)}
+          required={field.required}
+          style={inputStyle}
+        />
+      );
+  }
+}
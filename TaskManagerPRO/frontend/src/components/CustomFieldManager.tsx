@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiSliders, FiTrash2, FiSave, FiPlus } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { CustomField, CustomFieldType, CUSTOM_FIELD_TYPES } from '@/types/customField';
+
+const inputStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+const isSelectType = (type: CustomFieldType) => type === 'select' || type === 'multiselect';
+
+// Options are edited as a comma separated list
+const parseOptions = (text: string) =>
+  text.split(',').map(option => option.trim()).filter(Boolean);
+
+// Single editable custom field row
+function CustomFieldRow({ field, onChanged }: { field: CustomField; onChanged: () => void }) {
+  const [name, setName] = useState(field.name);
+  const [options, setOptions] = useState(field.options.join(', '));
+  const [required, setRequired] = useState(field.required);
+  const isDirty = name !== field.name || options !== field.options.join(', ') || required !== field.required;
+
+  const handleSave = async () => {
+    try {
+      await api.put(`/custom-fields/${field._id}`, {
+        name,
+        required,
+        ...(isSelectType(field.type) && { options: parseOptions(options) }),
+      });
+      toast.success('Field updated');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to update field'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the field "${field.name}"? Its values will be removed from all tasks.`)) return;
+
+    try {
+      await api.delete(`/custom-fields/${field._id}`);
+      toast.success('Field deleted');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to delete field'));
+    }
+  };
+
+  const typeLabel = CUSTOM_FIELD_TYPES.find(type => type.value === field.type)?.label;
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', flexWrap: 'wrap' }}>
+      <input value={name} onChange={(e) => setName(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+      <Text fontSize="sm" color="gray.400" minW="90px">{typeLabel}</Text>
+      {isSelectType(field.type) && (
+        <input
+          value={options}
+          onChange={(e) => setOptions(e.target.value)}
+          placeholder="Options, comma separated"
+          style={{ ...inputStyle, flex: 1 }}
+        />
+      )}
+      <Text fontSize="sm" color="gray.400">{field.project ? field.project.name : 'All projects'}</Text>
+      <label style={{ fontSize: '0.875rem' }}>
+        <input type="checkbox" checked={required} onChange={(e) => setRequired(e.target.checked)} style={{ marginRight: '0.25rem' }} />
+        Required
+      </label>
+      <Button size="sm" leftIcon={<FiSave />} isDisabled={!isDirty || !name.trim()} onClick={handleSave}>
+        Save
+      </Button>
+      <Button size="sm" colorScheme="red" variant="ghost" leftIcon={<FiTrash2 />} onClick={handleDelete}>
+        Delete
+      </Button>
+    </div>
+  );
+}
+
+// Define custom task fields, for all projects or a single one (admins)
+export default function CustomFieldManager({
+  fields,
+  projects,
+  onChanged,
+}: {
+  fields: CustomField[];
+  projects: { _id: string; name: string }[];
+  onChanged: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<CustomFieldType>('text');
+  const [options, setOptions] = useState('');
+  const [project, setProject] = useState('');
+  const [required, setRequired] = useState(false);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await api.post('/custom-fields', {
+        name: name.trim(),
+        type,
+        required,
+        project: project || null,
+        ...(isSelectType(type) && { options: parseOptions(options) }),
+      });
+      toast.success('Field created');
+      setName('');
+      setOptions('');
+      setRequired(false);
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to create field'));
+    }
+  };
+
+  return (
+    <Box>
+      <Heading size="sm" mb={3} display="flex" alignItems="center" color="#E2E8F0">
+        <Box as={FiSliders} mr={2} />
+        Manage Custom Fields
+      </Heading>
+
+      {fields.length > 0 ? (
+        fields.map(field => (
+          <CustomFieldRow
+            key={`${field._id}-${field.name}-${field.options.join(',')}-${field.required}`}
+            field={field}
+            onChanged={onChanged}
+          />
+        ))
+      ) : (
+        <Text fontSize="sm" color="gray.400" mb={2}>No custom fields yet.</Text>
+      )}
+
+      <form onSubmit={handleCreate} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.75rem', flexWrap: 'wrap' }}>
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New field name"
+          maxLength={50}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <select value={type} onChange={(e) => setType(e.target.value as CustomFieldType)} style={inputStyle}>
+          {CUSTOM_FIELD_TYPES.map(fieldType => (
+            <option key={fieldType.value} value={fieldType.value}>{fieldType.label}</option>
+          ))}
+        </select>
+        {isSelectType(type) && (
+          <input
+            value={options}
+            onChange={(e) => setOptions(e.target.value)}
+            placeholder="Options, comma separated"
+            style={{ ...inputStyle, flex: 1 }}
+          />
+        )}
+        <select value={project} onChange={(e) => setProject(e.target.value)} style={inputStyle}>
+          <option value="">All projects</option>
+          {projects.map(projectOption => (
+            <option key={projectOption._id} value={projectOption._id}>{projectOption.name}</option>
+          ))}
+        </select>
+        <label style={{ fontSize: '0.875rem' }}>
+          <input type="checkbox" checked={required} onChange={(e) => setRequired(e.target.checked)} style={{ marginRight: '0.25rem' }} />
+          Required
+        </label>
+        <Button type="submit" size="sm" colorScheme="blue" leftIcon={<FiPlus />} isDisabled={!name.trim()}>
+          Add Field
+        </Button>
+      </form>
+    </Box>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+
+import React from 'react';
+import { useQuery } from 'react-query';
+import { useRouter } from 'next/navigation';
+import { FiTrendingUp } from 'react-icons/fi';
+import api from '@/lib/api';
+import { appColors } from '@/lib/theme';
+
+interface EscalatedTask {
+  _id: string;
+  title: string;
+  priority: 'low' | 'medium' | 'high';
+  dueDate: string;
+  escalationLevel: number;
+  escalatedAt: string;
+  assignedTo?: { _id: string; name: string } | null;
+  project?: { _id: string; name: string } | null;
+}
+
+const PRIORITY_COLORS: Record<EscalatedTask['priority'], string> = {
+  high: '#EF4444',
+  medium: '#F59E0B',
+  low: appColors.accent.success,
+};
+
+// How long a task has been overdue, e.g. "5h" or "3d"
+const formatOverdue = (dueDate: string) => {
+  const hours = Math.max(Math.floor((Date.now() - new Date(dueDate).getTime()) / (60 * 60 * 1000)), 0);
+  return hours < 48 ? `${hours}h` : `${Math.floor(hours / 24)}d`;
+};
+
+// Dashboard widget listing overdue tasks that have been escalated
+export default function EscalatedTasksWidget({ projectId }: { projectId?: string | null }) {
+  const router = useRouter();
+
+  const { data: tasks, isLoading } = useQuery<EscalatedTask[]>(
+    ['escalatedTasks', projectId],
+    async () => {
+      const response = await api.get('/tasks/escalated', {
+        params: projectId ? { project: projectId } : {},
+      });
+      return response.data;
+    }
+  );
+
+  return (
+    <div style={{
+      backgroundColor: appColors.background.card,
+      borderRadius: '12px',
+      padding: '24px',
+      marginBottom: '24px',
+      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.2)',
+      borderLeft: '4px solid #EF4444',
+    }}>
+      <h2 style={{
+        fontSize: '18px',
+        fontWeight: 'bold',
+        color: appColors.text.primary,
+        marginBottom: '16px',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px'
+      }}>
+        <FiTrendingUp size={18} style={{ color: '#EF4444' }} />
+        Escalated Tasks
+        {tasks && tasks.length > 0 && (
+          <span style={{ fontSize: '13px', fontWeight: 500, color: appColors.text.muted }}>({tasks.length})</span>
+        )}
+      </h2>
+
+      {isLoading ? (
+        <div style={{ color: appColors.text.secondary, fontSize: '14px' }}>Loading...</div>
+      ) : !tasks || tasks.length === 0 ? (
+        <div style={{
+          padding: '16px',
+          textAlign: 'center',
+          color: appColors.text.secondary,
+          backgroundColor: appColors.border.light + '33',
+          borderRadius: '8px',
+          fontSize: '14px'
+        }}>
+          No overdue tasks have been escalated.
+        </div>
+      ) : (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '8px' }}>
+          {tasks.map(task => (
+            <div
+              key={task._id}
+              onClick={() => router.push(`/dashboard/tasks/${task._id}`)}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '12px',
+                padding: '10px 12px',
+                borderRadius: '8px',
+                border: `1px solid ${appColors.border.light}`,
+                borderLeft: `3px solid ${PRIORITY_COLORS[task.priority]}`,
+                cursor: 'pointer',
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 500, fontSize: '14px', color: appColors.text.primary, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {task.title}
+                </div>
+                <div style={{ fontSize: '12px', color: appColors.text.secondary, marginTop: '2px' }}>
+                  {task.assignedTo?.name || 'Unassigned'}
+                  {task.project && ` · ${task.project.name}`}
+                  {' · escalated '}
+                  {new Date(task.escalatedAt).toLocaleString()}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '6px', flexShrink: 0 }}>
+                <span style={{
+                  padding: '4px 8px',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  fontWeight: 500,
+                  backgroundColor: '#EF444420',
+                  color: '#EF4444'
+                }}>
+                  {formatOverdue(task.dueDate)} overdue
+                </span>
+                <span style={{
+                  padding: '4px 8px',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  fontWeight: 500,
+                  backgroundColor: `${appColors.accent.highlight}20`,
+                  color: appColors.accent.highlight
+                }}>
+                  Level {task.escalationLevel}
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
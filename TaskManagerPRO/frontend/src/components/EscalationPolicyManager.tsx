@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiTrendingUp, FiTrash2, FiSave, FiPlus, FiX } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { EscalationPolicy, EscalationLevel, EscalationTarget, ESCALATION_TARGET_LABELS } from '@/types/escalation';
+
+type Priority = EscalationPolicy['priority'];
+
+const PRIORITIES: Priority[] = ['high', 'medium', 'low'];
+
+const inputStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#1A202C',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+// Escalation chain of a single priority
+function PolicyEditor({
+  priority,
+  policy,
+  onChanged,
+}: {
+  priority: Priority;
+  policy?: EscalationPolicy;
+  onChanged: () => void;
+}) {
+  const [enabled, setEnabled] = useState(policy?.enabled ?? true);
+  const [levels, setLevels] = useState<EscalationLevel[]>(policy?.levels || []);
+
+  const updateLevel = (index: number, changes: Partial<EscalationLevel>) => {
+    setLevels(levels.map((level, levelIndex) => (levelIndex === index ? { ...level, ...changes } : level)));
+  };
+
+  // New levels start a day after the last one
+  const addLevel = () => {
+    const lastHours = levels.length > 0 ? levels[levels.length - 1].afterHours : 0;
+    setLevels([...levels, { afterHours: levels.length > 0 ? lastHours + 24 : 4, notify: 'creator' }]);
+  };
+
+  const handleSave = async () => {
+    try {
+      await api.put(`/escalation-policies/${priority}`, { enabled, levels });
+      toast.success(`Escalation policy for ${priority} priority saved`);
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to save escalation policy'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Stop escalating overdue ${priority} priority tasks?`)) return;
+
+    try {
+      await api.delete(`/escalation-policies/${priority}`);
+      toast.success('Escalation policy removed');
+      setLevels([]);
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to remove escalation policy'));
+    }
+  };
+
+  return (
+    <Box p={3} mb={3} borderRadius="md" borderWidth="1px" borderColor="#4A5568">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <Text fontWeight="bold" color="#E2E8F0" textTransform="capitalize">{priority} priority</Text>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem', color: '#E2E8F0', fontSize: '0.9rem' }}>
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} />
+          Enabled
+        </label>
+      </div>
+
+      {levels.length === 0 && (
+        <Text fontSize="sm" color="gray.400" mb={2}>Overdue {priority} priority tasks are not escalated.</Text>
+      )}
+
+      {levels.map((level, index) => (
+        <div key={index} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', color: '#E2E8F0', fontSize: '0.9rem' }}>
+          <span>After</span>
+          <input
+            type="number"
+            min={0}
+            max={720}
+            value={level.afterHours}
+            onChange={(e) => updateLevel(index, { afterHours: Number(e.target.value) })}
+            style={{ ...inputStyle, width: '5rem' }}
+          />
+          <span>hours overdue, notify</span>
+          <select
+            value={level.notify}
+            onChange={(e) => updateLevel(index, { notify: e.target.value as EscalationTarget })}
+            style={inputStyle}
+          >
+            {(Object.keys(ESCALATION_TARGET_LABELS) as EscalationTarget[]).map(target => (
+              <option key={target} value={target}>{ESCALATION_TARGET_LABELS[target]}</option>
+            ))}
+          </select>
+          <Button
+            size="xs"
+            variant="ghost"
+            colorScheme="red"
+            onClick={() => setLevels(levels.filter((_, levelIndex) => levelIndex !== index))}
+            aria-label="Remove level"
+          >
+            <FiX />
+          </Button>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+        <Button size="sm" leftIcon={<FiPlus />} onClick={addLevel} isDisabled={levels.length >= 5}>
+          Add Level
+        </Button>
+        <Button size="sm" colorScheme="blue" leftIcon={<FiSave />} onClick={handleSave} isDisabled={levels.length === 0}>
+          Save
+        </Button>
+        {policy && (
+          <Button size="sm" variant="ghost" colorScheme="red" leftIcon={<FiTrash2 />} onClick={handleDelete}>
+            Remove
+          </Button>
+        )}
+      </div>
+    </Box>
+  );
+}
+
+// Admin panel for the overdue escalation chain of each priority
+export default function EscalationPolicyManager() {
+  const [policies, setPolicies] = useState<EscalationPolicy[] | null>(null);
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await api.get('/escalation-policies');
+      setPolicies(response.data);
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to fetch escalation policies'));
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, []);
+
+  return (
+    <Box>
+      <Heading size="md" mb={2} color="#90CDF4" display="flex" alignItems="center">
+        <Box as={FiTrendingUp} mr={2} />
+        Overdue Escalation
+      </Heading>
+      <Text color="gray.400" fontSize="sm" mb={4}>
+        Choose who is told when a task stays overdue. Each level fires once per task; rescheduling a task starts again.
+      </Text>
+
+      {policies === null ? (
+        <Text color="gray.400">Loading escalation policies...</Text>
+      ) : (
+        PRIORITIES.map(priority => {
+          const policy = policies.find(item => item.priority === priority);
+          return (
+            <PolicyEditor
+              key={`${priority}-${policy?.updatedAt || 'new'}`}
+              priority={priority}
+              policy={policy}
+              onChanged={fetchPolicies}
+            />
+          );
+        })
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { Box } from '@chakra-ui/react';
+import { Label } from '@/types/label';
+
+// Small coloured chip for a task label
+export default function LabelChip({
+  label,
+  isSelected = true,
+  onClick,
+}: {
+  label: Label;
+  isSelected?: boolean;
+  onClick?: () => void;
+}) {
+  return (
+    <Box
+      as="span"
+      display="inline-block"
+      px={2}
+      py="1px"
+      mr={1}
+      mb={1}
+      borderRadius="full"
+      fontSize="xs"
+      fontWeight="bold"
+      borderWidth="1px"
+      borderColor={label.color}
+      bg={isSelected ? label.color : 'transparent'}
+      color={isSelected ? '#FFFFFF' : label.color}
+      cursor={onClick ? 'pointer' : 'default'}
+      onClick={onClick}
+    >
+      {label.name}
+    </Box>
+  );
+}
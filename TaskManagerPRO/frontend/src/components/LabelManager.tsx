@@ -0,0 +1,121 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiTag, FiTrash2, FiSave, FiPlus } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { Label } from '@/types/label';
+import LabelChip from '@/components/LabelChip';
+
+const inputStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+const colorInputStyle = {
+  width: '2.5rem',
+  height: '2rem',
+  padding: 0,
+  border: 'none',
+  background: 'none',
+  cursor: 'pointer',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+// Single editable label row
+function LabelRow({ label, onChanged }: { label: Label; onChanged: () => void }) {
+  const [name, setName] = useState(label.name);
+  const [color, setColor] = useState(label.color);
+  const isDirty = name !== label.name || color !== label.color;
+
+  const handleSave = async () => {
+    try {
+      await api.put(`/labels/${label._id}`, { name, color });
+      toast.success('Label updated');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to update label'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!window.confirm(`Delete the label "${label.name}"? It will be removed from all tasks.`)) return;
+
+    try {
+      await api.delete(`/labels/${label._id}`);
+      toast.success('Label deleted');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to delete label'));
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem' }}>
+      <input type="color" value={color} onChange={(e) => setColor(e.target.value)} style={colorInputStyle} />
+      <input value={name} onChange={(e) => setName(e.target.value)} style={{ ...inputStyle, flex: 1 }} />
+      <LabelChip label={{ ...label, name, color }} />
+      <Button size="sm" leftIcon={<FiSave />} isDisabled={!isDirty || !name.trim()} onClick={handleSave}>
+        Save
+      </Button>
+      <Button size="sm" colorScheme="red" variant="ghost" leftIcon={<FiTrash2 />} onClick={handleDelete}>
+        Delete
+      </Button>
+    </div>
+  );
+}
+
+// Create, rename, recolour and delete labels (admins and managers)
+export default function LabelManager({ labels, onChanged }: { labels: Label[]; onChanged: () => void }) {
+  const [name, setName] = useState('');
+  const [color, setColor] = useState('#3182CE');
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    try {
+      await api.post('/labels', { name: name.trim(), color });
+      toast.success('Label created');
+      setName('');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to create label'));
+    }
+  };
+
+  return (
+    <Box>
+      <Heading size="sm" mb={3} display="flex" alignItems="center" color="#E2E8F0">
+        <Box as={FiTag} mr={2} />
+        Manage Labels
+      </Heading>
+
+      {labels.length > 0 ? (
+        labels.map(label => <LabelRow key={`${label._id}-${label.name}-${label.color}`} label={label} onChanged={onChanged} />)
+      ) : (
+        <Text fontSize="sm" color="gray.400" mb={2}>No labels yet.</Text>
+      )}
+
+      <form onSubmit={handleCreate} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', marginTop: '0.75rem' }}>
+        <input type="color" value={color} onChange={(e) => setColor(e.target.value)} style={colorInputStyle} />
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="New label name"
+          maxLength={50}
+          style={{ ...inputStyle, flex: 1 }}
+        />
+        <Button type="submit" size="sm" colorScheme="blue" leftIcon={<FiPlus />} isDisabled={!name.trim()}>
+          Add Label
+        </Button>
+      </form>
+    </Box>
+  );
+}
@@ -312,9 +312,10 @@ const NotificationCenter = () => {
     setIsOpen(false);
     
     // Navigate to the related task if available
-    if (notification.taskId) {
-      router.push(`/dashboard/tasks/${notification.taskId}`);
-      sessionStorage.setItem('currentPath', `/dashboard/tasks/${notification.taskId}`);
+    const taskId = notification.taskId || notification.entityId;
+    if (taskId) {
+      router.push(`/dashboard/tasks/${taskId}`);
+      sessionStorage.setItem('currentPath', `/dashboard/tasks/${taskId}`);
     }
   };
 
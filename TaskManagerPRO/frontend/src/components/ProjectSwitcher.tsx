@@ -0,0 +1,152 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FiFolder, FiPlus, FiArchive } from 'react-icons/fi';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+import { appColors } from '@/lib/theme';
+import { useProjectStore } from '@/store/project';
+import { Project } from '@/types/project';
+
+const controlStyle = {
+  width: '100%',
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: `1px solid ${appColors.border.light}`,
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+  fontSize: '13px',
+};
+
+const linkButtonStyle = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  cursor: 'pointer',
+  color: appColors.text.muted,
+  fontSize: '12px',
+};
+
+// Select the project the dashboard and task list are scoped to
+export default function ProjectSwitcher() {
+  const { currentProjectId, setCurrentProject } = useProjectStore();
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [newProjectName, setNewProjectName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const user = getUser();
+
+  const fetchProjects = async () => {
+    try {
+      const response = await api.get('/projects');
+      setProjects(response.data);
+
+      // Forget a selection that no longer exists or was archived
+      if (currentProjectId && !response.data.some((project: Project) => project._id === currentProjectId)) {
+        setCurrentProject(null);
+      }
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchProjects();
+  }, []);
+
+  // Pages read the selection from the project store and refetch their data
+  const handleSelect = (projectId: string) => {
+    setCurrentProject(projectId || null);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newProjectName.trim()) return;
+
+    try {
+      const response = await api.post('/projects', { name: newProjectName.trim() });
+      setNewProjectName('');
+      setIsCreating(false);
+      setError(null);
+      await fetchProjects();
+      handleSelect(response.data.project._id);
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not create project');
+    }
+  };
+
+  const currentProject = projects.find(project => project._id === currentProjectId);
+  const canArchive =
+    currentProject &&
+    (currentProject.owner?._id === user?._id || user?.role === 'admin' || user?.role === 'manager');
+
+  const handleArchive = async () => {
+    if (!currentProject) return;
+    if (!window.confirm(`Archive the project "${currentProject.name}"?`)) return;
+
+    try {
+      await api.put(`/projects/${currentProject._id}`, { archived: true });
+      handleSelect('');
+      fetchProjects();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not archive project');
+    }
+  };
+
+  return (
+    <div style={{ padding: '0 24px', marginBottom: '24px' }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px', fontSize: '11px', fontWeight: 500, color: appColors.text.muted, textTransform: 'uppercase', letterSpacing: '0.05em' }}>
+        <FiFolder />
+        Project
+      </div>
+
+      <select value={currentProjectId || ''} onChange={(e) => handleSelect(e.target.value)} style={controlStyle}>
+        <option value="">All projects</option>
+        {projects.map(project => (
+          <option key={project._id} value={project._id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+
+      {isCreating ? (
+        <form onSubmit={handleCreate} style={{ marginTop: '8px' }}>
+          <input
+            autoFocus
+            value={newProjectName}
+            onChange={(e) => setNewProjectName(e.target.value)}
+            placeholder="Project name"
+            maxLength={100}
+            style={controlStyle}
+          />
+          <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '6px' }}>
+            <button type="button" style={linkButtonStyle} onClick={() => setIsCreating(false)}>
+              Cancel
+            </button>
+            <button type="submit" style={{ ...linkButtonStyle, color: appColors.accent.secondary }}>
+              Create
+            </button>
+          </div>
+        </form>
+      ) : (
+        <div style={{ display: 'flex', justifyContent: 'space-between', marginTop: '6px' }}>
+          <button type="button" style={linkButtonStyle} onClick={() => setIsCreating(true)}>
+            <FiPlus /> New project
+          </button>
+          {canArchive && (
+            <button type="button" style={linkButtonStyle} onClick={handleArchive}>
+              <FiArchive /> Archive
+            </button>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div style={{ marginTop: '6px', fontSize: '12px', color: '#F87171' }}>{error}</div>
+      )}
+    </div>
+  );
+}
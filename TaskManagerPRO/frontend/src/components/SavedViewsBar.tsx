@@ -0,0 +1,170 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@chakra-ui/react';
+import { FiBookmark, FiSave, FiLink, FiTrash2 } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+import { SavedView, ViewState, getViewUrl } from '@/types/savedView';
+
+const selectStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+interface SavedViewsBarProps {
+  activeViewId: string | null;
+  getCurrentState: () => ViewState;
+  onApply: (view: SavedView | null) => void;
+}
+
+// Pick, save, share and delete saved views of the task list
+export default function SavedViewsBar({ activeViewId, getCurrentState, onApply }: SavedViewsBarProps) {
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [teams, setTeams] = useState<{ _id: string; name: string }[]>([]);
+  const userId = getUser()?._id;
+
+  const fetchViews = async () => {
+    try {
+      const response = await api.get('/saved-views');
+      setViews(response.data);
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to fetch saved views'));
+    }
+  };
+
+  useEffect(() => {
+    fetchViews();
+    api.get('/teams')
+      .then(response => setTeams(response.data))
+      .catch(error => console.error('Error fetching teams:', error));
+  }, []);
+
+  const activeView = views.find(view => view._id === activeViewId);
+  const isOwnView = !!activeView && activeView.owner._id === userId;
+  const ownViews = views.filter(view => view.owner._id === userId);
+  const sharedViews = views.filter(view => view.owner._id !== userId);
+
+  const handleSelect = (viewId: string) => {
+    onApply(views.find(view => view._id === viewId) || null);
+  };
+
+  const handleSaveAs = async () => {
+    const name = window.prompt('Name of the new view');
+    if (!name?.trim()) return;
+
+    try {
+      const response = await api.post('/saved-views', { name: name.trim(), ...getCurrentState() });
+      toast.success(`View "${response.data.view.name}" saved`);
+      await fetchViews();
+      onApply(response.data.view);
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to save view'));
+    }
+  };
+
+  const handleUpdate = async (changes: Record<string, any>) => {
+    if (!activeView) return;
+
+    try {
+      await api.put(`/saved-views/${activeView._id}`, changes);
+      toast.success(`View "${activeView.name}" updated`);
+      fetchViews();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to update view'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView || !window.confirm(`Delete the view "${activeView.name}"?`)) return;
+
+    try {
+      await api.delete(`/saved-views/${activeView._id}`);
+      toast.success('View deleted');
+      onApply(null);
+      fetchViews();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to delete view'));
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!activeView) return;
+
+    try {
+      await navigator.clipboard.writeText(getViewUrl(activeView._id));
+      toast.success('Link copied');
+    } catch (error) {
+      window.prompt('Copy the link to this view', getViewUrl(activeView._id));
+    }
+  };
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '1rem', color: '#E2E8F0' }}>
+      <FiBookmark />
+      <select value={activeViewId || ''} onChange={(e) => handleSelect(e.target.value)} style={selectStyle}>
+        <option value="">No saved view</option>
+        {ownViews.length > 0 && (
+          <optgroup label="My views">
+            {ownViews.map(view => (
+              <option key={view._id} value={view._id}>
+                {view.name}{view.team && ` (shared with ${view.team.name})`}
+              </option>
+            ))}
+          </optgroup>
+        )}
+        {sharedViews.length > 0 && (
+          <optgroup label="Shared with my teams">
+            {sharedViews.map(view => (
+              <option key={view._id} value={view._id}>
+                {view.name} – {view.owner.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      <Button size="sm" leftIcon={<FiSave />} onClick={handleSaveAs}>
+        Save as New
+      </Button>
+
+      {activeView && (
+        <>
+          {isOwnView && (
+            <>
+              <Button size="sm" onClick={() => handleUpdate(getCurrentState())}>
+                Update View
+              </Button>
+              <select
+                value={activeView.team?._id || ''}
+                onChange={(e) => handleUpdate({ team: e.target.value || null })}
+                style={selectStyle}
+                aria-label="Share with team"
+              >
+                <option value="">Private</option>
+                {teams.map(team => (
+                  <option key={team._id} value={team._id}>Shared with {team.name}</option>
+                ))}
+              </select>
+            </>
+          )}
+          <Button size="sm" variant="ghost" leftIcon={<FiLink />} onClick={handleCopyLink}>
+            Copy Link
+          </Button>
+          {isOwnView && (
+            <Button size="sm" variant="ghost" colorScheme="red" leftIcon={<FiTrash2 />} onClick={handleDelete}>
+              Delete
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
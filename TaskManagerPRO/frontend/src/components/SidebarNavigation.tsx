@@ -5,6 +5,7 @@ import {
   Heading
 } from '@chakra-ui/react';
 import NextLink from 'next/link';
+import dynamic from 'next/dynamic';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
 import { 
@@ -20,6 +21,9 @@ import {
 import { getUser, logout } from '@/lib/auth';
 import { appColors } from '@/lib/theme';
 
+// The project switcher reads the persisted project selection, so skip SSR
+const ProjectSwitcher = dynamic(() => import('@/components/ProjectSwitcher'), { ssr: false });
+
 // Custom Divider component since Chakra's isn't available
 const Divider = () => <Box height="1px" bg={appColors.border.light} my={4} opacity={0.4} />;
 
@@ -127,6 +131,11 @@ export default function SidebarNavigation() {
 
       <Divider />
 
+      {/* Project Switcher */}
+      <Box mx={-6}>
+        <ProjectSwitcher />
+      </Box>
+
       {/* Navigation Items */}
       <VStack spacing={1} align="stretch">
         {filteredItems.map(item => (
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiShield, FiTrash2, FiSave, FiPlus } from 'react-icons/fi';
+import { toast } from 'react-hot-toast';
+import api from '@/lib/api';
+import { SlaPolicy } from '@/types/sla';
+import { Label } from '@/types/label';
+
+type Priority = SlaPolicy['priority'];
+
+// Editable fields of a policy; labels are kept as IDs
+interface PolicyDraft {
+  name: string;
+  priority: Priority;
+  labels: string[];
+  responseHours: number;
+  resolutionHours: number;
+  enabled: boolean;
+}
+
+const NEW_POLICY: PolicyDraft = {
+  name: '',
+  priority: 'high',
+  labels: [],
+  responseHours: 4,
+  resolutionHours: 24,
+  enabled: true,
+};
+
+const inputStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#1A202C',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+// Form for one SLA policy, or a new one when no policy is given
+function PolicyEditor({
+  policy,
+  labels,
+  onChanged,
+}: {
+  policy?: SlaPolicy;
+  labels: Label[];
+  onChanged: () => void;
+}) {
+  const [draft, setDraft] = useState<PolicyDraft>(
+    policy
+      ? {
+          name: policy.name,
+          priority: policy.priority,
+          labels: policy.labels.map(label => label._id),
+          responseHours: policy.responseHours,
+          resolutionHours: policy.resolutionHours,
+          enabled: policy.enabled,
+        }
+      : NEW_POLICY
+  );
+
+  const update = (changes: Partial<PolicyDraft>) => setDraft({ ...draft, ...changes });
+
+  const toggleLabel = (labelId: string) => {
+    update({
+      labels: draft.labels.includes(labelId)
+        ? draft.labels.filter(id => id !== labelId)
+        : [...draft.labels, labelId],
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      if (policy) {
+        await api.put(`/sla-policies/${policy._id}`, draft);
+      } else {
+        await api.post('/sla-policies', draft);
+        setDraft(NEW_POLICY);
+      }
+      toast.success(`SLA policy "${draft.name}" saved`);
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to save SLA policy'));
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!policy || !window.confirm(`Delete the SLA policy "${policy.name}"? Running tasks keep their deadlines.`)) return;
+
+    try {
+      await api.delete(`/sla-policies/${policy._id}`);
+      toast.success('SLA policy deleted');
+      onChanged();
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to delete SLA policy'));
+    }
+  };
+
+  return (
+    <Box p={3} mb={3} borderRadius="md" borderWidth="1px" borderColor="#4A5568">
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', color: '#E2E8F0', fontSize: '0.9rem' }}>
+        <input
+          type="text"
+          placeholder={policy ? 'Policy name' : 'New policy name'}
+          value={draft.name}
+          onChange={(e) => update({ name: e.target.value })}
+          style={{ ...inputStyle, flex: 1, minWidth: '10rem' }}
+        />
+        <select
+          value={draft.priority}
+          onChange={(e) => update({ priority: e.target.value as Priority })}
+          style={inputStyle}
+        >
+          <option value="high">High priority</option>
+          <option value="medium">Medium priority</option>
+          <option value="low">Low priority</option>
+        </select>
+        <label style={{ display: 'flex', alignItems: 'center', gap: '0.4rem' }}>
+          <input type="checkbox" checked={draft.enabled} onChange={(e) => update({ enabled: e.target.checked })} />
+          Enabled
+        </label>
+      </div>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', color: '#E2E8F0', fontSize: '0.9rem' }}>
+        <span>Respond within</span>
+        <input
+          type="number"
+          min={0}
+          value={draft.responseHours}
+          onChange={(e) => update({ responseHours: Number(e.target.value) })}
+          style={{ ...inputStyle, width: '5rem' }}
+        />
+        <span>hours, resolve within</span>
+        <input
+          type="number"
+          min={0}
+          value={draft.resolutionHours}
+          onChange={(e) => update({ resolutionHours: Number(e.target.value) })}
+          style={{ ...inputStyle, width: '5rem' }}
+        />
+        <span>hours</span>
+      </div>
+
+      {labels.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.5rem', marginBottom: '0.5rem', color: '#E2E8F0', fontSize: '0.85rem' }}>
+          <span>Only for labels:</span>
+          {labels.map(label => (
+            <label key={label._id} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+              <input type="checkbox" checked={draft.labels.includes(label._id)} onChange={() => toggleLabel(label._id)} />
+              <span style={{ color: label.color }}>{label.name}</span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+        <Button
+          size="sm"
+          colorScheme="blue"
+          leftIcon={policy ? <FiSave /> : <FiPlus />}
+          onClick={handleSave}
+          isDisabled={!draft.name.trim()}
+        >
+          {policy ? 'Save' : 'Add Policy'}
+        </Button>
+        {policy && (
+          <Button size="sm" variant="ghost" colorScheme="red" leftIcon={<FiTrash2 />} onClick={handleDelete}>
+            Delete
+          </Button>
+        )}
+      </div>
+    </Box>
+  );
+}
+
+// Admin panel for the response and resolution targets of each priority
+export default function SlaPolicyManager() {
+  const [policies, setPolicies] = useState<SlaPolicy[] | null>(null);
+  const [labels, setLabels] = useState<Label[]>([]);
+
+  const fetchPolicies = async () => {
+    try {
+      const response = await api.get('/sla-policies');
+      setPolicies(response.data);
+    } catch (error: any) {
+      toast.error(getErrorMessage(error, 'Failed to fetch SLA policies'));
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+    api.get('/labels')
+      .then(response => setLabels(response.data))
+      .catch(error => console.error('Error fetching labels:', error));
+  }, []);
+
+  return (
+    <Box>
+      <Heading size="md" mb={2} color="#90CDF4" display="flex" alignItems="center">
+        <Box as={FiShield} mr={2} />
+        Service Level Agreements
+      </Heading>
+      <Text color="gray.400" fontSize="sm" mb={4}>
+        Set how quickly new tasks must be started and completed. A policy limited to labels wins over one
+        for the whole priority; the clock pauses while a task is waiting on others.
+      </Text>
+
+      {policies === null ? (
+        <Text color="gray.400">Loading SLA policies...</Text>
+      ) : (
+        <>
+          {policies.map(policy => (
+            <PolicyEditor
+              key={`${policy._id}-${policy.updatedAt}`}
+              policy={policy}
+              labels={labels}
+              onChanged={fetchPolicies}
+            />
+          ))}
+          <PolicyEditor labels={labels} onChanged={fetchPolicies} />
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, Heading } from '@chakra-ui/react';
+import { FiActivity } from 'react-icons/fi';
+import api from '@/lib/api';
+import { appColors } from '@/lib/theme';
+
+interface FieldChange {
+  field: string;
+  oldValue?: any;
+  newValue?: any;
+}
+
+interface ActivityData {
+  _id: string;
+  actor: {
+    _id: string;
+    name: string;
+  } | null;
+  action: 'created' | 'updated' | 'status_changed' | 'reassigned' | 'deleted' | 'restored';
+  changes: FieldChange[];
+  createdAt: string;
+}
+
+const FIELD_NAMES: Record<string, string> = {
+  title: 'Title',
+  description: 'Description',
+  startDate: 'Start date',
+  dueDate: 'Due date',
+  priority: 'Priority',
+  status: 'Status',
+  waiting: 'Waiting on others',
+  assignedTo: 'Primary assignee',
+  assignees: 'Assignees',
+  watchers: 'Watchers',
+  labels: 'Labels',
+  project: 'Project',
+  sprint: 'Sprint',
+  blockedBy: 'Blocked by',
+  isRecurring: 'Recurring',
+  recurringType: 'Repeats',
+  recurringInterval: 'Repeat interval',
+  recurringDays: 'Repeat days',
+  recurringDate: 'Repeat date',
+  recurringEndDate: 'Repeat until',
+  storyPoints: 'Story points',
+  estimatedHours: 'Estimated hours',
+  requiresApproval: 'Requires approval',
+  rejectionReason: 'Rejection reason',
+  checklist: 'Checklist',
+  customFields: 'Custom fields',
+};
+
+const ACTION_LABELS: Record<ActivityData['action'], string> = {
+  created: 'created the task',
+  updated: 'updated the task',
+  status_changed: 'changed the status',
+  reassigned: 'changed the assignees',
+  deleted: 'moved the task to trash',
+  restored: 'restored the task from trash',
+};
+
+const ACTION_COLORS: Record<ActivityData['action'], string> = {
+  created: '#38A169',
+  updated: '#3182CE',
+  status_changed: '#805AD5',
+  reassigned: '#DD6B20',
+  deleted: '#E53E3E',
+  restored: '#38A169',
+};
+
+// Readable form of a recorded field value
+const formatValue = (field: string, value: any): string => {
+  if (value === null || value === undefined || value === '') return 'none';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : 'none';
+  if (field === 'startDate' || field === 'dueDate' || field === 'recurringEndDate') return new Date(value).toLocaleDateString();
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  // Custom field values come keyed by field name
+  if (typeof value === 'object') {
+    return Object.entries(value).map(([name, item]) => `${name}: ${formatValue('', item)}`).join('; ') || 'none';
+  }
+
+  const text = String(value);
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text;
+};
+
+// Timeline of who changed what on a task
+export default function TaskActivityTimeline({ taskId, refreshKey }: { taskId: string; refreshKey?: any }) {
+  const [activities, setActivities] = useState<ActivityData[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchActivity = async () => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/activity`);
+      setActivities(response.data);
+      setError(null);
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not load activity');
+    }
+  };
+
+  useEffect(() => {
+    if (taskId) {
+      fetchActivity();
+    }
+  }, [taskId, refreshKey]);
+
+  return (
+    <Box>
+      <Heading size="sm" mb={3} display="flex" alignItems="center">
+        <Box as={FiActivity} mr={2} />
+        Activity
+      </Heading>
+
+      {error && (
+        <Text fontSize="sm" color="red.400" mb={2}>{error}</Text>
+      )}
+
+      {activities.length > 0 ? (
+        <Box borderLeftWidth="2px" borderColor={appColors.border.light} pl={4} ml={1}>
+          {activities.map(activity => (
+            <Box key={activity._id} position="relative" mb={4}>
+              <Box
+                position="absolute"
+                left="-23px"
+                top="4px"
+                width="10px"
+                height="10px"
+                borderRadius="full"
+                bg={ACTION_COLORS[activity.action]}
+              />
+              <Text fontSize="sm">
+                <Text as="span" fontWeight="bold">{activity.actor?.name || 'Unknown user'}</Text>{' '}
+                {ACTION_LABELS[activity.action]}
+                <Text as="span" fontSize="xs" color={appColors.text.muted} ml={2}>
+                  {new Date(activity.createdAt).toLocaleString()}
+                </Text>
+              </Text>
+              {activity.action !== 'created' && activity.action !== 'deleted' && activity.action !== 'restored' && activity.changes.map(change => (
+                <Text key={change.field} fontSize="xs" color={appColors.text.muted} mt={1}>
+                  {FIELD_NAMES[change.field] || change.field}:{' '}
+                  <Text as="span" textDecoration="line-through">{formatValue(change.field, change.oldValue)}</Text>
+                  {' → '}
+                  <Text as="span" color="gray.200">{formatValue(change.field, change.newValue)}</Text>
+                </Text>
+              ))}
+            </Box>
+          ))}
+        </Box>
+      ) : (
+        <Text fontSize="sm" color={appColors.text.muted}>No activity recorded yet.</Text>
+      )}
+    </Box>
+  );
+}
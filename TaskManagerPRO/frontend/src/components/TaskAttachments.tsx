@@ -0,0 +1,172 @@
+'use client';
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiPaperclip, FiDownload, FiTrash2, FiUpload } from 'react-icons/fi';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+import { appColors } from '@/lib/theme';
+
+interface AttachmentData {
+  _id: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  uploadedBy: {
+    _id: string;
+    name: string;
+  };
+  createdAt: string;
+}
+
+// Human readable file size
+const formatSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+export default function TaskAttachments({ taskId, createdById }: { taskId: string; createdById?: string }) {
+  const [attachments, setAttachments] = useState<AttachmentData[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const currentUser = getUser();
+
+  // Task creators, admins and managers can remove any attachment
+  const canManageTask =
+    currentUser?._id === createdById || currentUser?.role === 'admin' || currentUser?.role === 'manager';
+
+  const fetchAttachments = async () => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/attachments`);
+      setAttachments(response.data);
+      setError(null);
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not load attachments');
+    }
+  };
+
+  useEffect(() => {
+    if (taskId) {
+      fetchAttachments();
+    }
+  }, [taskId]);
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    setIsUploading(true);
+    try {
+      await api.post(`/tasks/${taskId}/attachments`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      fetchAttachments();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not upload file');
+    } finally {
+      setIsUploading(false);
+      e.target.value = '';
+    }
+  };
+
+  const handleDownload = async (attachment: AttachmentData) => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/attachments/${attachment._id}/download`, {
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = attachment.originalName;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      window.URL.revokeObjectURL(url);
+    } catch (error: any) {
+      setError('Could not download file');
+    }
+  };
+
+  const handleDelete = async (attachmentId: string) => {
+    if (!window.confirm('Delete this attachment?')) return;
+
+    try {
+      await api.delete(`/tasks/${taskId}/attachments/${attachmentId}`);
+      fetchAttachments();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not delete attachment');
+    }
+  };
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Heading size="sm" display="flex" alignItems="center">
+          <Box as={FiPaperclip} mr={2} />
+          Attachments
+        </Heading>
+        <Button
+          size="sm"
+          colorScheme="blue"
+          leftIcon={<Box as={FiUpload} />}
+          isLoading={isUploading}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Upload
+        </Button>
+        <input ref={fileInputRef} type="file" onChange={handleUpload} style={{ display: 'none' }} />
+      </Box>
+
+      {error && (
+        <Text fontSize="sm" color="red.400" mb={2}>{error}</Text>
+      )}
+
+      {attachments.length > 0 ? (
+        attachments.map(attachment => {
+          const canDelete = canManageTask || currentUser?._id === attachment.uploadedBy?._id;
+
+          return (
+            <Box
+              key={attachment._id}
+              display="flex"
+              justifyContent="space-between"
+              alignItems="center"
+              p={2}
+              mb={2}
+              borderRadius="md"
+              bg={appColors.background.card}
+              borderWidth="1px"
+              borderColor={appColors.border.light}
+            >
+              <Box>
+                <Text fontSize="sm" fontWeight="bold">{attachment.originalName}</Text>
+                <Text fontSize="xs" color={appColors.text.muted}>
+                  {formatSize(attachment.size)} · {attachment.uploadedBy?.name || 'Unknown user'} ·{' '}
+                  {new Date(attachment.createdAt).toLocaleString()}
+                </Text>
+              </Box>
+              <Box display="flex">
+                <Button size="xs" variant="ghost" leftIcon={<Box as={FiDownload} />} onClick={() => handleDownload(attachment)}>
+                  Download
+                </Button>
+                {canDelete && (
+                  <Button size="xs" variant="ghost" colorScheme="red" leftIcon={<Box as={FiTrash2} />} onClick={() => handleDelete(attachment._id)}>
+                    Delete
+                  </Button>
+                )}
+              </Box>
+            </Box>
+          );
+        })
+      ) : (
+        <Text fontSize="sm" color={appColors.text.muted}>No attachments yet.</Text>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text } from '@chakra-ui/react';
+import { Label } from '@/types/label';
+import LabelChip from '@/components/LabelChip';
+
+export type BoardStatus = 'todo' | 'in-progress' | 'in-review' | 'completed';
+
+export interface BoardTask {
+  _id: string;
+  title: string;
+  status: BoardStatus;
+  priority: 'low' | 'medium' | 'high';
+  dueDate: string;
+  rank?: string | null;
+  assignedTo?: { _id: string; name: string } | null;
+  labels?: Label[];
+}
+
+type BoardColumns = Record<BoardStatus, string[]>;
+
+interface TaskBoardProps<T extends BoardTask> {
+  tasks: T[];
+  onMove: (taskId: string, status: BoardStatus, beforeTaskId: string | null, afterTaskId: string | null) => Promise<void>;
+  onEdit: (task: T) => void;
+}
+
+const COLUMNS: { status: BoardStatus; title: string; color: string }[] = [
+  { status: 'todo', title: 'To Do', color: '#A0AEC0' },
+  { status: 'in-progress', title: 'In Progress', color: '#63B3ED' },
+  { status: 'in-review', title: 'In Review', color: '#B794F4' },
+  { status: 'completed', title: 'Completed', color: '#68D391' },
+];
+
+const PRIORITY_COLORS: Record<BoardTask['priority'], string> = {
+  high: '#E53E3E',
+  medium: '#DD6B20',
+  low: '#38A169',
+};
+
+// Board order - unranked tasks first, then by rank, ties broken by ID like the server
+const compareBoardTasks = (a: BoardTask, b: BoardTask) => {
+  if ((a.rank || '') !== (b.rank || '')) return (a.rank || '') < (b.rank || '') ? -1 : 1;
+  return a._id < b._id ? -1 : a._id > b._id ? 1 : 0;
+};
+
+const buildColumns = (tasks: BoardTask[]): BoardColumns => {
+  const sorted = [...tasks].sort(compareBoardTasks);
+  return {
+    todo: sorted.filter(task => task.status === 'todo').map(task => task._id),
+    'in-progress': sorted.filter(task => task.status === 'in-progress').map(task => task._id),
+    'in-review': sorted.filter(task => task.status === 'in-review').map(task => task._id),
+    completed: sorted.filter(task => task.status === 'completed').map(task => task._id),
+  };
+};
+
+// Kanban board with a column per status
+// Cards are dragged between and within columns; the move is shown straight away
+// and rolled back if the server rejects it
+export default function TaskBoard<T extends BoardTask>({ tasks, onMove, onEdit }: TaskBoardProps<T>) {
+  const [columns, setColumns] = useState<BoardColumns>(() => buildColumns(tasks));
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: BoardStatus; index: number } | null>(null);
+
+  useEffect(() => {
+    setColumns(buildColumns(tasks));
+  }, [tasks]);
+
+  const tasksById = new Map(tasks.map(task => [task._id, task]));
+
+  // Drop above or below a card depending on which half the pointer is over
+  const handleCardDragOver = (e: React.DragEvent<HTMLDivElement>, status: BoardStatus, index: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const { top, height } = e.currentTarget.getBoundingClientRect();
+    const nextIndex = e.clientY < top + height / 2 ? index : index + 1;
+    if (dropTarget?.status !== status || dropTarget.index !== nextIndex) {
+      setDropTarget({ status, index: nextIndex });
+    }
+  };
+
+  // Dropping on the empty part of a column puts the card at the end
+  const handleColumnDragOver = (e: React.DragEvent<HTMLDivElement>, status: BoardStatus) => {
+    e.preventDefault();
+    if (dropTarget?.status !== status || dropTarget.index !== columns[status].length) {
+      setDropTarget({ status, index: columns[status].length });
+    }
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = async (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const taskId = draggedId;
+    const target = dropTarget;
+    handleDragEnd();
+    if (!taskId || !target) return;
+
+    const task = tasksById.get(taskId);
+    if (!task) return;
+
+    // Index in the target column once the card is taken out of its current place
+    const sourceIndex = columns[task.status].indexOf(taskId);
+    const targetColumn = columns[target.status].filter(id => id !== taskId);
+    const index = target.status === task.status && sourceIndex < target.index ? target.index - 1 : target.index;
+    if (target.status === task.status && index === sourceIndex) return;
+
+    const beforeTaskId = targetColumn[index - 1] || null;
+    const afterTaskId = targetColumn[index] || null;
+    targetColumn.splice(index, 0, taskId);
+
+    const previousColumns = columns;
+    setColumns({
+      ...columns,
+      [task.status]: columns[task.status].filter(id => id !== taskId),
+      [target.status]: targetColumn,
+    });
+
+    try {
+      await onMove(taskId, target.status, beforeTaskId, afterTaskId);
+    } catch {
+      setColumns(previousColumns);
+    }
+  };
+
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: `repeat(${COLUMNS.length}, minmax(0, 1fr))`, gap: '1rem', alignItems: 'start' }}>
+      {COLUMNS.map(column => (
+        <Box
+          key={column.status}
+          p={3}
+          borderRadius="lg"
+          borderWidth="1px"
+          borderColor={dropTarget?.status === column.status ? '#63B3ED' : '#4A5568'}
+          bg="#1A202C"
+          minH="300px"
+          onDragOver={(e: React.DragEvent<HTMLDivElement>) => handleColumnDragOver(e, column.status)}
+          onDrop={handleDrop}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+            <Text fontWeight="bold" color={column.color}>{column.title}</Text>
+            <Text fontSize="sm" color="gray.400">{columns[column.status].length}</Text>
+          </div>
+
+          {columns[column.status].map((taskId, index) => {
+            const task = tasksById.get(taskId);
+            if (!task) return null;
+            const showIndicatorAbove = dropTarget?.status === column.status && dropTarget.index === index;
+
+            return (
+              <div
+                key={taskId}
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = 'move';
+                  e.dataTransfer.setData('text/plain', taskId);
+                  setDraggedId(taskId);
+                }}
+                onDragEnd={handleDragEnd}
+                onDragOver={(e) => handleCardDragOver(e, column.status, index)}
+                style={{
+                  borderTop: showIndicatorAbove ? '2px solid #63B3ED' : '2px solid transparent',
+                  opacity: draggedId === taskId ? 0.4 : 1,
+                }}
+              >
+                <Box
+                  p={3}
+                  mb={2}
+                  borderRadius="md"
+                  bg="#2D3748"
+                  borderLeft="4px solid"
+                  borderLeftColor={PRIORITY_COLORS[task.priority]}
+                  cursor="grab"
+                  onClick={() => onEdit(task)}
+                >
+                  <Text fontWeight="bold" color="#E2E8F0" mb={1}>{task.title}</Text>
+                  <Text fontSize="xs" color="gray.400">
+                    Due {new Date(task.dueDate).toLocaleDateString()}
+                    {task.assignedTo && ` · ${task.assignedTo.name}`}
+                  </Text>
+                  {task.labels && task.labels.length > 0 && (
+                    <div style={{ marginTop: '0.5rem' }}>
+                      {task.labels.map(label => (
+                        <LabelChip key={label._id} label={label} />
+                      ))}
+                    </div>
+                  )}
+                </Box>
+              </div>
+            );
+          })}
+
+          {dropTarget?.status === column.status && dropTarget.index === columns[column.status].length && (
+            <div style={{ borderTop: '2px solid #63B3ED' }} />
+          )}
+        </Box>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,257 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiMessageSquare, FiCornerDownRight, FiEdit2, FiTrash2 } from 'react-icons/fi';
+import socket from '@/lib/socket';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+import { appColors } from '@/lib/theme';
+
+interface CommentData {
+  _id: string;
+  content: string;
+  author: {
+    _id: string;
+    name: string;
+  };
+  parentComment?: string;
+  mentions: { _id: string; name: string }[];
+  editedAt?: string;
+  createdAt: string;
+  replies: CommentData[];
+}
+
+const textareaStyle = {
+  width: '100%',
+  padding: '0.5rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+  minHeight: '60px',
+};
+
+// Highlight @mentions of known users in a comment
+const renderContent = (comment: CommentData) => {
+  if (!comment.mentions || comment.mentions.length === 0) return comment.content;
+
+  const names = comment.mentions.map(mention => mention.name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const parts = comment.content.split(new RegExp(`(@(?:${names.join('|')}))`, 'gi'));
+
+  return parts.map((part, index) =>
+    part.startsWith('@') ? (
+      <Text as="span" key={index} color={appColors.accent.secondary} fontWeight="bold">
+        {part}
+      </Text>
+    ) : (
+      <React.Fragment key={index}>{part}</React.Fragment>
+    )
+  );
+};
+
+// Comment form used for new comments, replies and edits
+function CommentForm({
+  initialValue = '',
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialValue?: string;
+  submitLabel: string;
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+}) {
+  const [content, setContent] = useState(initialValue);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!content.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit(content.trim());
+      setContent('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <textarea
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        placeholder="Write a comment... Use @name to mention someone"
+        style={textareaStyle}
+      />
+      <Box display="flex" justifyContent="flex-end" mt={2}>
+        {onCancel && (
+          <Button size="sm" variant="ghost" mr={2} onClick={onCancel}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" colorScheme="blue" isLoading={isSubmitting}>
+          {submitLabel}
+        </Button>
+      </Box>
+    </form>
+  );
+}
+
+export default function TaskComments({ taskId }: { taskId: string }) {
+  const [comments, setComments] = useState<CommentData[]>([]);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const currentUser = getUser();
+
+  const fetchComments = async () => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/comments`);
+      setComments(response.data);
+      setError(null);
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not load comments');
+    }
+  };
+
+  // Load comments and subscribe to live updates for this task
+  useEffect(() => {
+    if (!taskId) return;
+
+    fetchComments();
+
+    const joinTaskRoom = () => socket.emit('task:join', taskId);
+    if (socket.connected) {
+      joinTaskRoom();
+    }
+
+    socket.on('connect', joinTaskRoom);
+    socket.on('comment:created', fetchComments);
+    socket.on('comment:updated', fetchComments);
+    socket.on('comment:deleted', fetchComments);
+
+    return () => {
+      socket.emit('task:leave', taskId);
+      socket.off('connect', joinTaskRoom);
+      socket.off('comment:created', fetchComments);
+      socket.off('comment:updated', fetchComments);
+      socket.off('comment:deleted', fetchComments);
+    };
+  }, [taskId]);
+
+  const handleCreate = async (content: string, parentComment?: string) => {
+    try {
+      await api.post(`/tasks/${taskId}/comments`, { content, parentComment });
+      setReplyingTo(null);
+      fetchComments();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not post comment');
+    }
+  };
+
+  const handleEdit = async (commentId: string, content: string) => {
+    try {
+      await api.put(`/tasks/${taskId}/comments/${commentId}`, { content });
+      setEditing(null);
+      fetchComments();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not edit comment');
+    }
+  };
+
+  const handleDelete = async (commentId: string) => {
+    if (!window.confirm('Delete this comment and its replies?')) return;
+
+    try {
+      await api.delete(`/tasks/${taskId}/comments/${commentId}`);
+      fetchComments();
+    } catch (error: any) {
+      setError(error?.response?.data?.message || 'Could not delete comment');
+    }
+  };
+
+  const renderComment = (comment: CommentData, depth = 0): React.ReactNode => {
+    const isAuthor = currentUser?._id === comment.author?._id;
+    const canDelete = isAuthor || currentUser?.role === 'admin';
+
+    return (
+      <Box key={comment._id} ml={depth > 0 ? 6 : 0} mt={3}>
+        <Box p={3} borderRadius="md" bg={appColors.background.card} borderWidth="1px" borderColor={appColors.border.light}>
+          <Box display="flex" justifyContent="space-between" alignItems="center" mb={1}>
+            <Text fontWeight="bold" fontSize="sm">
+              {depth > 0 && <Box as={FiCornerDownRight} display="inline" mr={1} />}
+              {comment.author?.name || 'Unknown user'}
+            </Text>
+            <Text fontSize="xs" color={appColors.text.muted}>
+              {new Date(comment.createdAt).toLocaleString()}
+              {comment.editedAt && ' (edited)'}
+            </Text>
+          </Box>
+
+          {editing === comment._id ? (
+            <CommentForm
+              initialValue={comment.content}
+              submitLabel="Save"
+              onSubmit={(content) => handleEdit(comment._id, content)}
+              onCancel={() => setEditing(null)}
+            />
+          ) : (
+            <Text fontSize="sm" whiteSpace="pre-wrap">{renderContent(comment)}</Text>
+          )}
+
+          <Box display="flex" mt={2}>
+            <Button size="xs" variant="ghost" onClick={() => setReplyingTo(comment._id)}>
+              Reply
+            </Button>
+            {isAuthor && (
+              <Button size="xs" variant="ghost" leftIcon={<Box as={FiEdit2} />} onClick={() => setEditing(comment._id)}>
+                Edit
+              </Button>
+            )}
+            {canDelete && (
+              <Button size="xs" variant="ghost" colorScheme="red" leftIcon={<Box as={FiTrash2} />} onClick={() => handleDelete(comment._id)}>
+                Delete
+              </Button>
+            )}
+          </Box>
+        </Box>
+
+        {replyingTo === comment._id && (
+          <Box ml={6} mt={2}>
+            <CommentForm
+              submitLabel="Reply"
+              onSubmit={(content) => handleCreate(content, comment._id)}
+              onCancel={() => setReplyingTo(null)}
+            />
+          </Box>
+        )}
+
+        {comment.replies?.map(reply => renderComment(reply, depth + 1))}
+      </Box>
+    );
+  };
+
+  return (
+    <Box>
+      <Heading size="sm" mb={3} display="flex" alignItems="center">
+        <Box as={FiMessageSquare} mr={2} />
+        Comments
+      </Heading>
+
+      {error && (
+        <Text fontSize="sm" color="red.400" mb={2}>{error}</Text>
+      )}
+
+      <CommentForm submitLabel="Comment" onSubmit={(content) => handleCreate(content)} />
+
+      {comments.length > 0 ? (
+        comments.map(comment => renderComment(comment))
+      ) : (
+        <Text fontSize="sm" color={appColors.text.muted} mt={3}>No comments yet. Start the discussion!</Text>
+      )}
+    </Box>
+  );
+}
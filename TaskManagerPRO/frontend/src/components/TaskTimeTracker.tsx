@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Box, Text, Button, Heading } from '@chakra-ui/react';
+import { FiClock, FiPlay, FiSquare, FiPlus, FiTrash2 } from 'react-icons/fi';
+import api from '@/lib/api';
+import { getUser } from '@/lib/auth';
+import { appColors } from '@/lib/theme';
+import { TimeEntry, formatDuration } from '@/types/timeEntry';
+
+const inputStyle = {
+  padding: '0.4rem',
+  borderRadius: '0.375rem',
+  border: '1px solid #4A5568',
+  backgroundColor: '#2D3748',
+  color: '#E2E8F0',
+};
+
+const getErrorMessage = (error: any, fallback: string) =>
+  error?.response?.data?.message || error?.response?.data?.errors?.[0]?.msg || fallback;
+
+// Running timer, manual time logging and the time entries of a task
+// The running timer is loaded from the server, so it survives page reloads
+export default function TaskTimeTracker({ taskId }: { taskId: string }) {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [totalSeconds, setTotalSeconds] = useState(0);
+  const [runningEntry, setRunningEntry] = useState<TimeEntry | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [isLogging, setIsLogging] = useState(false);
+  const [manualStart, setManualStart] = useState('');
+  const [manualEnd, setManualEnd] = useState('');
+  const [manualNote, setManualNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const currentUser = getUser();
+
+  const fetchEntries = async () => {
+    try {
+      const response = await api.get(`/tasks/${taskId}/time`);
+      setEntries(response.data.entries);
+      setTotalSeconds(response.data.totalSeconds);
+    } catch (error: any) {
+      setError(getErrorMessage(error, 'Could not load time entries'));
+    }
+  };
+
+  const fetchRunningTimer = async () => {
+    try {
+      const response = await api.get('/time/running');
+      setRunningEntry(response.data.entry);
+    } catch (error) {
+      console.error('Error fetching running timer:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (taskId) {
+      fetchEntries();
+      fetchRunningTimer();
+    }
+  }, [taskId]);
+
+  // Tick every second while a timer is running
+  useEffect(() => {
+    if (!runningEntry) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [runningEntry]);
+
+  const runningTaskId = runningEntry
+    ? typeof runningEntry.task === 'string' ? runningEntry.task : runningEntry.task._id
+    : null;
+  const isRunningHere = runningTaskId === taskId;
+
+  const handleStart = async () => {
+    try {
+      const response = await api.post(`/tasks/${taskId}/time/start`);
+      setRunningEntry(response.data.entry);
+      setNow(Date.now());
+      setError(null);
+    } catch (error: any) {
+      setError(getErrorMessage(error, 'Could not start timer'));
+    }
+  };
+
+  const handleStop = async () => {
+    try {
+      await api.post('/time/stop');
+      setRunningEntry(null);
+      setError(null);
+      fetchEntries();
+    } catch (error: any) {
+      setError(getErrorMessage(error, 'Could not stop timer'));
+    }
+  };
+
+  const handleLogTime = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      await api.post(`/tasks/${taskId}/time`, {
+        startedAt: new Date(manualStart).toISOString(),
+        endedAt: new Date(manualEnd).toISOString(),
+        note: manualNote || undefined,
+      });
+      setManualStart('');
+      setManualEnd('');
+      setManualNote('');
+      setIsLogging(false);
+      setError(null);
+      fetchEntries();
+    } catch (error: any) {
+      setError(getErrorMessage(error, 'Could not log time'));
+    }
+  };
+
+  const handleDelete = async (entryId: string) => {
+    if (!window.confirm('Delete this time entry?')) return;
+
+    try {
+      await api.delete(`/time/${entryId}`);
+      fetchEntries();
+    } catch (error: any) {
+      setError(getErrorMessage(error, 'Could not delete time entry'));
+    }
+  };
+
+  const elapsedSeconds = runningEntry
+    ? Math.max(0, Math.floor((now - new Date(runningEntry.startedAt).getTime()) / 1000))
+    : 0;
+
+  return (
+    <Box>
+      <Box display="flex" justifyContent="space-between" alignItems="center" mb={3}>
+        <Heading size="sm" display="flex" alignItems="center">
+          <Box as={FiClock} mr={2} />
+          Time Tracking
+          <Text as="span" ml={2} fontSize="sm" fontWeight="normal" color={appColors.text.muted}>
+            {formatDuration(totalSeconds)} logged
+          </Text>
+        </Heading>
+        <Box display="flex" alignItems="center">
+          {isRunningHere ? (
+            <>
+              <Text fontSize="sm" fontFamily="mono" mr={2} color="green.300">
+                {formatDuration(elapsedSeconds)}
+              </Text>
+              <Button size="sm" colorScheme="red" leftIcon={<Box as={FiSquare} />} onClick={handleStop}>
+                Stop
+              </Button>
+            </>
+          ) : (
+            <Button size="sm" colorScheme="green" leftIcon={<Box as={FiPlay} />} onClick={handleStart}>
+              Start Timer
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" ml={2} leftIcon={<Box as={FiPlus} />} onClick={() => setIsLogging(!isLogging)}>
+            Log Time
+          </Button>
+        </Box>
+      </Box>
+
+      {runningEntry && !isRunningHere && (
+        <Text fontSize="sm" color="orange.300" mb={2}>
+          A timer is running on another task
+          {typeof runningEntry.task !== 'string' && ` (${runningEntry.task.title})`} for {formatDuration(elapsedSeconds)}.{' '}
+          <Text as="span" textDecoration="underline" cursor="pointer" onClick={handleStop}>
+            Stop it
+          </Text>
+        </Text>
+      )}
+
+      {error && (
+        <Text fontSize="sm" color="red.400" mb={2}>{error}</Text>
+      )}
+
+      {isLogging && (
+        <form onSubmit={handleLogTime} style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.75rem' }}>
+          <input type="datetime-local" required value={manualStart} onChange={(e) => setManualStart(e.target.value)} style={inputStyle} />
+          <input type="datetime-local" required value={manualEnd} onChange={(e) => setManualEnd(e.target.value)} style={inputStyle} />
+          <input
+            value={manualNote}
+            onChange={(e) => setManualNote(e.target.value)}
+            placeholder="Note (optional)"
+            maxLength={500}
+            style={{ ...inputStyle, flex: 1 }}
+          />
+          <Button type="submit" size="sm" colorScheme="blue">
+            Save
+          </Button>
+        </form>
+      )}
+
+      {entries.length > 0 ? (
+        entries.map(entry => {
+          const entryUser = typeof entry.user === 'string' ? null : entry.user;
+          const canDelete =
+            entryUser?._id === currentUser?._id || currentUser?.role === 'admin' || currentUser?.role === 'manager';
+
+          return (
+            <Box
+              key={entry._id}
+              display="flex"
+              justifyContent="space-between"
+              alignItems="center"
+              p={2}
+              mb={2}
+              borderRadius="md"
+              bg={appColors.background.card}
+              borderWidth="1px"
+              borderColor={appColors.border.light}
+            >
+              <Box>
+                <Text fontSize="sm" fontWeight="bold">
+                  {entry.isRunning ? 'Running' : formatDuration(entry.duration)}
+                  {entry.note && (
+                    <Text as="span" fontWeight="normal"> · {entry.note}</Text>
+                  )}
+                </Text>
+                <Text fontSize="xs" color={appColors.text.muted}>
+                  {entryUser?.name || 'Unknown user'} · {new Date(entry.startedAt).toLocaleString()}
+                  {entry.source === 'manual' && ' · logged manually'}
+                </Text>
+              </Box>
+              {canDelete && !entry.isRunning && (
+                <Button size="xs" variant="ghost" colorScheme="red" leftIcon={<Box as={FiTrash2} />} onClick={() => handleDelete(entry._id)}>
+                  Delete
+                </Button>
+              )}
+            </Box>
+          );
+        })
+      ) : (
+        <Text fontSize="sm" color={appColors.text.muted}>No time logged yet.</Text>
+      )}
+    </Box>
+  );
+}
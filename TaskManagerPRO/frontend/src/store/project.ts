@@ -0,0 +1,22 @@
+'use client';
+
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface ProjectState {
+  // null means "All projects"
+  currentProjectId: string | null;
+  setCurrentProject: (projectId: string | null) => void;
+}
+
+export const useProjectStore = create<ProjectState>()(
+  persist(
+    (set) => ({
+      currentProjectId: null,
+      setCurrentProject: (projectId: string | null) => set({ currentProjectId: projectId }),
+    }),
+    {
+      name: 'project-storage',
+    }
+  )
+);
@@ -0,0 +1,44 @@
+export type AssignmentStatus = 'pending' | 'accepted' | 'declined' | 'reassignment_requested';
+
+// How an assignee answered being assigned a task
+export interface AssignmentResponse {
+  user: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  status: AssignmentStatus;
+  reason?: string | null;
+  respondedAt?: string | null;
+}
+
+// Task as listed by the assignment request and unassigned queue endpoints
+export interface AssignmentTask {
+  _id: string;
+  title: string;
+  priority: 'low' | 'medium' | 'high';
+  status: string;
+  dueDate: string;
+  assignments: AssignmentResponse[];
+  createdBy?: { _id: string; name: string } | null;
+  project?: { _id: string; name: string } | null;
+}
+
+export interface AssignmentRequests {
+  created: AssignmentTask[];
+  reassignments: AssignmentTask[];
+}
+
+export const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+  pending: 'Pending',
+  accepted: 'Accepted',
+  declined: 'Declined',
+  reassignment_requested: 'Reassignment requested',
+};
+
+export const ASSIGNMENT_STATUS_COLORS: Record<AssignmentStatus, string> = {
+  pending: '#F59E0B',
+  accepted: '#10B981',
+  declined: '#EF4444',
+  reassignment_requested: '#8B5CF6',
+};
@@ -0,0 +1,47 @@
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multiselect' | 'user' | 'url';
+
+export interface CustomField {
+  _id: string;
+  name: string;
+  type: CustomFieldType;
+  options: string[];
+  required: boolean;
+  project?: {
+    _id: string;
+    name: string;
+  } | null;
+}
+
+export const CUSTOM_FIELD_TYPES: { value: CustomFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'number', label: 'Number' },
+  { value: 'date', label: 'Date' },
+  { value: 'select', label: 'Single select' },
+  { value: 'multiselect', label: 'Multi select' },
+  { value: 'user', label: 'User' },
+  { value: 'url', label: 'URL' },
+];
+
+// Check if a field applies to tasks in a project - fields without a project apply everywhere
+export const fieldAppliesTo = (field: CustomField, projectId?: string | null) =>
+  !field.project || field.project._id === projectId;
+
+// Readable form of a stored custom field value
+export const formatCustomFieldValue = (
+  field: CustomField,
+  value: any,
+  users: { _id: string; name: string }[] = []
+): string => {
+  if (value === null || value === undefined || value === '') return '';
+
+  switch (field.type) {
+    case 'date':
+      return new Date(value).toLocaleDateString();
+    case 'multiselect':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    case 'user':
+      return users.find(user => user._id === value)?.name || 'Unknown user';
+    default:
+      return String(value);
+  }
+};
@@ -0,0 +1,24 @@
+export type EscalationTarget = 'creator' | 'manager' | 'admins';
+
+export interface EscalationLevel {
+  afterHours: number;
+  notify: EscalationTarget;
+}
+
+export interface EscalationPolicy {
+  _id: string;
+  priority: 'low' | 'medium' | 'high';
+  enabled: boolean;
+  levels: EscalationLevel[];
+  updatedBy?: {
+    _id: string;
+    name: string;
+  };
+  updatedAt: string;
+}
+
+export const ESCALATION_TARGET_LABELS: Record<EscalationTarget, string> = {
+  creator: 'Task creator',
+  manager: "Assignee's manager",
+  admins: 'Admins',
+};
@@ -1,5 +1,7 @@
 declare module 'zustand' {
   export function create<T>(): (config: any) => T & {
+    (): T;
+    <U>(selector: (state: T) => U): U;
     getState: () => T;
     setState: (partial: Partial<T>) => void;
   };
@@ -0,0 +1,5 @@
+export interface Label {
+  _id: string;
+  name: string;
+  color: string;
+}
@@ -1,16 +1,29 @@
+export type NotificationType =
+  | 'task_assigned'
+  | 'task_updated'
+  | 'task_completed'
+  | 'task_due_soon'
+  | 'task_overdue'
+  | 'sla_breached'
+  | 'system'
+  | 'achievement'
+  | 'points_earned'
+  | 'mention';
+
 export interface Notification {
   _id: string;
   user: string;
   message: string;
-  type: 'task_assigned' | 'task_updated' | 'task_completed' | 'system';
+  type: NotificationType;
   read: boolean;
   taskId?: string;
+  entityId?: string;
   createdAt: string;
 }
 
 export interface NotificationPayload {
   userId: string;
   message: string;
-  type: 'task_assigned' | 'task_updated' | 'task_completed' | 'system';
+  type: NotificationType;
   taskId?: string;
 } 
\ No newline at end of file
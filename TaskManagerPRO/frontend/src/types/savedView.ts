@@ -0,0 +1,65 @@
+export type ViewColumn =
+  | 'status'
+  | 'dueDate'
+  | 'assignees'
+  | 'loggedTime'
+  | 'sprint'
+  | 'estimate'
+  | 'labels'
+  | 'customFields';
+
+// Task list filters of a view, named like the task list query parameters
+export interface SavedViewFilters {
+  search?: string | null;
+  status?: string | null;
+  priority?: string | null;
+  assignedTo?: string | null;
+  project?: string | null;
+  sprint?: string | null;
+  labels: string[];
+  labelMatch: 'any' | 'all';
+  customFields?: Record<string, string> | null;
+}
+
+// Everything a view restores on the task list
+export interface ViewState {
+  filters: SavedViewFilters;
+  sortBy: string;
+  sortOrder: 'asc' | 'desc';
+  layout: 'list' | 'board';
+  columns: ViewColumn[];
+}
+
+export interface SavedView extends ViewState {
+  _id: string;
+  name: string;
+  owner: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  team?: {
+    _id: string;
+    name: string;
+  } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// List columns in display order
+export const VIEW_COLUMNS: { column: ViewColumn; label: string }[] = [
+  { column: 'status', label: 'Status' },
+  { column: 'dueDate', label: 'Due date' },
+  { column: 'assignees', label: 'Assignees' },
+  { column: 'loggedTime', label: 'Logged time' },
+  { column: 'sprint', label: 'Sprint' },
+  { column: 'estimate', label: 'Estimate' },
+  { column: 'labels', label: 'Labels' },
+  { column: 'customFields', label: 'Custom fields' },
+];
+
+export const ALL_VIEW_COLUMNS: ViewColumn[] = VIEW_COLUMNS.map(({ column }) => column);
+
+// Link that opens the task list with a saved view
+export const getViewUrl = (viewId: string) =>
+  `${window.location.origin}/dashboard/tasks?view=${viewId}`;
@@ -0,0 +1,74 @@
+export type SlaTarget = 'response' | 'resolution';
+
+export interface SlaPolicy {
+  _id: string;
+  name: string;
+  priority: 'low' | 'medium' | 'high';
+  labels: {
+    _id: string;
+    name: string;
+    color: string;
+  }[];
+  responseHours: number;
+  resolutionHours: number;
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// SLA clock of a task
+export interface TaskSla {
+  responseHours: number;
+  resolutionHours: number;
+  responseDueAt: string;
+  resolutionDueAt: string;
+  respondedAt?: string | null;
+  resolvedAt?: string | null;
+  pausedAt?: string | null;
+  pausedMs: number;
+  responseBreachedAt?: string | null;
+  resolutionBreachedAt?: string | null;
+}
+
+export interface SlaTargetStats {
+  met: number;
+  breached: number;
+  pending: number;
+  compliance: number | null;
+  avgHours: number | null;
+}
+
+export interface SlaGroup {
+  key: string;
+  name: string;
+  tasks: number;
+  response: SlaTargetStats;
+  resolution: SlaTargetStats;
+}
+
+export interface SlaReport {
+  from: string;
+  to: string;
+  totals: SlaGroup;
+  byPriority: SlaGroup[];
+  recentBreaches: {
+    taskId: string;
+    title: string;
+    priority: string;
+    target: SlaTarget;
+    dueAt: string;
+  }[];
+}
+
+export type SlaTargetState = 'met' | 'breached' | 'paused' | 'running';
+
+// Current state of one target of a task's SLA
+export const getSlaTargetState = (sla: TaskSla, target: SlaTarget): SlaTargetState => {
+  const dueAt = target === 'response' ? sla.responseDueAt : sla.resolutionDueAt;
+  const metAt = target === 'response' ? sla.respondedAt : sla.resolvedAt;
+  const breachedAt = target === 'response' ? sla.responseBreachedAt : sla.resolutionBreachedAt;
+
+  if (breachedAt || (!metAt && !sla.pausedAt && new Date(dueAt).getTime() < Date.now())) return 'breached';
+  if (metAt) return 'met';
+  return sla.pausedAt ? 'paused' : 'running';
+};
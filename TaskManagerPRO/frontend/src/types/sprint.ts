@@ -0,0 +1,54 @@
+export type SprintStatus = 'planned' | 'active' | 'closed';
+
+export interface SprintTaskCounts {
+  total: number;
+  completed: number;
+  totalPoints: number;
+  completedPoints: number;
+}
+
+export interface Sprint {
+  _id: string;
+  name: string;
+  goal?: string;
+  startDate: string;
+  endDate: string;
+  status: SprintStatus;
+  project?: {
+    _id: string;
+    name: string;
+  } | null;
+  startedAt?: string | null;
+  closedAt?: string | null;
+  carriedOverTasks: string[];
+  taskCounts?: SprintTaskCounts;
+}
+
+export interface BurndownDay {
+  date: string;
+  idealTasks: number;
+  idealPoints: number;
+  // Actual values are null for days that have not ended yet
+  remainingTasks: number | null;
+  remainingPoints: number | null;
+  completedTasks: number | null;
+  completedPoints: number | null;
+}
+
+export interface SprintBurndown {
+  sprint: Pick<Sprint, '_id' | 'name' | 'goal' | 'status' | 'startDate' | 'endDate'>;
+  totals: {
+    tasks: number;
+    points: number;
+    carriedOver: number;
+  };
+  days: BurndownDay[];
+}
+
+// Check if a sprint can hold tasks of a project - sprints without a project take any task
+export const sprintAcceptsProject = (sprint: Sprint, projectId?: string | null) =>
+  !sprint.project || sprint.project._id === projectId;
+
+// Date range of a sprint, e.g. "3/2/2026 – 3/15/2026"
+export const formatSprintDates = (sprint: Pick<Sprint, 'startDate' | 'endDate'>) =>
+  `${new Date(sprint.startDate).toLocaleDateString()} – ${new Date(sprint.endDate).toLocaleDateString()}`;
@@ -0,0 +1,26 @@
+export interface TemplateChecklistItem {
+  text: string;
+  dueOffsetDays?: number | null;
+}
+
+export interface TaskTemplate {
+  _id: string;
+  name: string;
+  title: string;
+  description: string;
+  priority: 'low' | 'medium' | 'high';
+  dueOffsetDays: number;
+  assigneeRule: 'creator' | 'user';
+  defaultAssignee?: {
+    _id: string;
+    name: string;
+    email: string;
+  } | null;
+  isRecurring: boolean;
+  recurringType?: 'daily' | 'weekly' | 'monthly' | 'custom';
+  recurringInterval?: number;
+  recurringDays?: number[];
+  recurringDate?: number;
+  checklist: TemplateChecklistItem[];
+  checklistAsSubtasks: boolean;
+}
@@ -0,0 +1,21 @@
+export interface TimeEntry {
+  _id: string;
+  task: string | { _id: string; title: string };
+  user: string | { _id: string; name: string; email: string };
+  startedAt: string;
+  endedAt?: string;
+  duration: number; // Seconds
+  isRunning: boolean;
+  note?: string;
+  source: 'timer' | 'manual';
+}
+
+// Format a number of seconds as "1h 05m" or "12m 30s"
+export const formatDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const remainingSeconds = Math.floor(seconds % 60);
+
+  if (hours > 0) return `${hours}h ${String(minutes).padStart(2, '0')}m`;
+  return `${minutes}m ${String(remainingSeconds).padStart(2, '0')}s`;
+};